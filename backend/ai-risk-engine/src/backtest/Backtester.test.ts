@@ -0,0 +1,67 @@
+import { Backtester } from './Backtester';
+import { BacktestPolicy, MarketData, RiskConfig } from '../types';
+
+const HOUR = 3600 * 1000;
+const STRATEGY = '0x0000000000000000000000000000000000000100';
+
+const observation = (hours: number, price: number): MarketData => ({
+  btcPrice: price,
+  ethPrice: price,
+  totalLiquidity: 1e9,
+  avgFunding: 0,
+  impliedVol: 50,
+  timestamp: hours * HOUR
+});
+
+// One 12h epoch, fully allocated to a strategy that tracks the market one-for-one
+const policy: BacktestPolicy = {
+  name: 'fixed',
+  decide: async () => ({
+    epochLength: 12 * 3600,
+    seniorTargetBps: 0,
+    maxDrawdownBps: 1500,
+    slippageBps: 0,
+    strategies: [STRATEGY],
+    targetWeightsBps: [10000],
+    caps: [0],
+    reasons: [],
+    confidence: 100,
+    signals: { impliedVol: 0, fundingRate: 0, liquidityDepth: 0, correlation: 0, twapDeviation: 0 }
+  } as RiskConfig)
+};
+
+const backtester = (series: MarketData[]) => new Backtester(series, {
+  managementFeeBps: 0,
+  strategyModels: { [STRATEGY]: { beta: 1, fundingExposure: 0, baseApyBps: 0 } }
+});
+
+describe('Backtester drawdown stop', () => {
+  it('stops at the first intra-epoch observation past maxDrawdownBps even if the epoch recovers', async () => {
+    const result = await backtester([
+      observation(0, 100),
+      observation(4, 90),
+      observation(8, 80),
+      observation(10, 70),
+      observation(12, 100)
+    ]).run(policy);
+
+    const [epoch] = result.epochs;
+    expect(epoch.drawdownStop).toBe(true);
+    expect(epoch.stoppedAt).toBe(8 * HOUR);
+    // Realised at the observed 80, past the 15% limit, not clamped to it
+    expect(epoch.grossReturnBps).toBeCloseTo(-2000, 6);
+  });
+
+  it('does not stop when no observation crosses the limit', async () => {
+    const result = await backtester([
+      observation(0, 100),
+      observation(6, 90),
+      observation(12, 95)
+    ]).run(policy);
+
+    const [epoch] = result.epochs;
+    expect(epoch.drawdownStop).toBe(false);
+    expect(epoch.stoppedAt).toBeUndefined();
+    expect(epoch.grossReturnBps).toBeCloseTo(-500, 6);
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  BacktestEpoch,
+  BacktestOptions,
+  BacktestPolicy,
+  BacktestResult,
+  BacktestSummary,
+  MarketData,
+  RiskConfig
+} from '../types';
+import { DEFAULT_BACKTEST_OPTIONS, FALLBACK_STRATEGY_MODEL, FUNDING_PERIOD_SECONDS } from '../config/backtest';
+import { RISK_BOUNDS } from '../config/risk';
+import { logger } from '../utils/logger';
+
+const BPS = RISK_BOUNDS.TOTAL_WEIGHT_BPS;
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+/**
+ * Replays a MarketData series through a risk policy and settles each epoch
+ * with the TrancheVault waterfall: senior coupon first, the rest to junior
+ * (less performance fee), losses hit junior before senior.
+ */
+export class Backtester {
+  private series: MarketData[];
+  private options: BacktestOptions;
+
+  constructor(series: MarketData[], options: Partial<BacktestOptions> = {}) {
+    if (series.length < 2) {
+      throw new Error('Backtest needs at least two observations');
+    }
+    this.series = [...series].sort((a, b) => a.timestamp - b.timestamp);
+    this.options = {
+      ...DEFAULT_BACKTEST_OPTIONS,
+      ...options,
+      strategyModels: { ...DEFAULT_BACKTEST_OPTIONS.strategyModels, ...options.strategyModels }
+    };
+  }
+
+  async run(policy: BacktestPolicy): Promise<BacktestResult> {
+    const { seniorAssets: seniorStart, juniorAssets: juniorStart } = this.options;
+    const end = this.series[this.series.length - 1].timestamp;
+    const epochs: BacktestEpoch[] = [];
+
+    let senior = seniorStart;
+    let junior = juniorStart;
+    let previous: RiskConfig | null = null;
+    let time = this.series[0].timestamp;
+
+    while (time < end && senior + junior > 0) {
+      // The policy only sees the latest observation at epoch start, never the future
+      const observed = this.observationAt(time);
+      const config = await policy.decide({ ...observed, timestamp: time }, previous);
+      const endTime = Math.min(end, time + config.epochLength * 1000);
+
+      const epoch = this.settleEpoch(epochs.length, config, previous, time, endTime, senior, junior);
+      epochs.push(epoch);
+
+      senior = epoch.seniorAssets;
+      junior = epoch.juniorAssets;
+      previous = config;
+      time = endTime;
+    }
+
+    const summary = this.summarize(epochs);
+    logger.debug(`Backtest finished for ${policy.name}`, summary);
+    return { policy: policy.name, epochs, summary };
+  }
+
+  private settleEpoch(
+    index: number,
+    config: RiskConfig,
+    previous: RiskConfig | null,
+    startTime: number,
+    endTime: number,
+    seniorStart: number,
+    juniorStart: number
+  ): BacktestEpoch {
+    const total = seniorStart + juniorStart;
+    const seconds = (endTime - startTime) / 1000;
+    const slippage = total * this.turnover(config, previous) * config.slippageBps / BPS;
+    const fee = (until: number) => total * this.options.managementFeeBps * (until - startTime) / (1000 * BPS * SECONDS_PER_YEAR);
+    const pnlAt = (time: number) =>
+      this.strategyReturn(config, startTime, time, (time - startTime) / 1000, total) - slippage - fee(time);
+
+    // Strategies are unwound at the first observation where the epoch loss
+    // reaches maxDrawdownBps, realising the loss at that observation's prices
+    const lossLimit = total * config.maxDrawdownBps / BPS;
+    const checkpoints = [
+      ...this.series.filter(p => p.timestamp > startTime && p.timestamp < endTime).map(p => p.timestamp),
+      endTime
+    ];
+    const stoppedAt = checkpoints.find(time => pnlAt(time) < -lossLimit);
+    const drawdownStop = stoppedAt !== undefined;
+    // Fees run to epoch end whether or not the strategies were unwound
+    const grossReturn = drawdownStop ? pnlAt(stoppedAt) - fee(endTime) + fee(stoppedAt) : pnlAt(endTime);
+
+    const couponBps = this.options.couponBasis === 'annual'
+      ? config.seniorTargetBps * seconds / SECONDS_PER_YEAR
+      : config.seniorTargetBps;
+    const seniorTarget = seniorStart * couponBps / BPS;
+
+    let senior = seniorStart;
+    let junior = juniorStart;
+    let seniorPaid = 0;
+    let juniorPnL = 0;
+
+    if (grossReturn > 0) {
+      seniorPaid = Math.min(grossReturn, seniorTarget);
+      senior += seniorPaid;
+      const juniorProfit = grossReturn - seniorPaid;
+      juniorPnL = juniorProfit - juniorProfit * this.options.performanceFeeBps / BPS;
+      junior += juniorPnL;
+    } else {
+      const loss = -grossReturn;
+      const juniorLoss = Math.min(junior, loss);
+      junior -= juniorLoss;
+      senior -= loss - juniorLoss;
+      juniorPnL = -juniorLoss;
+    }
+
+    return {
+      index,
+      startTime,
+      endTime,
+      epochLength: config.epochLength,
+      seniorTargetBps: config.seniorTargetBps,
+      maxDrawdownBps: config.maxDrawdownBps,
+      targetWeightsBps: config.targetWeightsBps,
+      grossReturnBps: total > 0 ? (grossReturn / total) * BPS : 0,
+      drawdownStop,
+      stoppedAt,
+      seniorTarget,
+      seniorPaid,
+      couponShortfall: seniorPaid + 1e-9 < seniorTarget,
+      juniorPnL,
+      seniorAssets: senior,
+      juniorAssets: junior,
+      seniorNav: senior / this.options.seniorAssets,
+      juniorNav: this.options.juniorAssets > 0 ? junior / this.options.juniorAssets : 0
+    };
+  }
+
+  // Capital allocated per strategy (capped, 0 = uncapped) times its modelled return
+  private strategyReturn(config: RiskConfig, startTime: number, endTime: number, seconds: number, total: number): number {
+    const start = this.observationAt(startTime);
+    const marketReturn = 0.5 * (this.priceAt('btcPrice', endTime) / this.priceAt('btcPrice', startTime) - 1) +
+      0.5 * (this.priceAt('ethPrice', endTime) / this.priceAt('ethPrice', startTime) - 1);
+    const funding = (start.avgFunding ?? 0) * seconds / FUNDING_PERIOD_SECONDS;
+
+    return config.strategies.reduce((sum, strategy, i) => {
+      const model = this.options.strategyModels[strategy] || FALLBACK_STRATEGY_MODEL;
+      const target = total * (config.targetWeightsBps[i] || 0) / BPS;
+      const cap = Number(config.caps[i]) || 0;
+      const allocated = cap > 0 ? Math.min(target, cap) : target;
+      const strategyReturn = model.beta * marketReturn +
+        model.fundingExposure * funding +
+        (model.baseApyBps / BPS) * seconds / SECONDS_PER_YEAR;
+      return sum + allocated * strategyReturn;
+    }, 0);
+  }
+
+  // One-way turnover as a fraction of assets
+  private turnover(config: RiskConfig, previous: RiskConfig | null): number {
+    if (!previous) return 0;
+    const strategies = new Set([...config.strategies, ...previous.strategies]);
+    let moved = 0;
+    for (const strategy of strategies) {
+      const now = config.targetWeightsBps[config.strategies.indexOf(strategy)] || 0;
+      const before = previous.targetWeightsBps[previous.strategies.indexOf(strategy)] || 0;
+      moved += Math.abs(now - before);
+    }
+    return moved / 2 / BPS;
+  }
+
+  private observationAt(time: number): MarketData {
+    let latest = this.series[0];
+    for (const point of this.series) {
+      if (point.timestamp > time) break;
+      latest = point;
+    }
+    return latest;
+  }
+
+  // Linear interpolation between observations
+  private priceAt(field: 'btcPrice' | 'ethPrice', time: number): number {
+    const after = this.series.findIndex(p => p.timestamp >= time);
+    if (after === -1) return this.series[this.series.length - 1][field];
+    if (after === 0) return this.series[0][field];
+    const a = this.series[after - 1];
+    const b = this.series[after];
+    const t = (time - a.timestamp) / (b.timestamp - a.timestamp);
+    return a[field] + (b[field] - a[field]) * t;
+  }
+
+  private summarize(epochs: BacktestEpoch[]): BacktestSummary {
+    const maxDrawdownBps = (navs: number[]) => {
+      let peak = 1;
+      let worst = 0;
+      for (const nav of navs) {
+        peak = Math.max(peak, nav);
+        worst = Math.max(worst, peak > 0 ? (peak - nav) / peak : 0);
+      }
+      return Math.round(worst * BPS);
+    };
+
+    const last = epochs[epochs.length - 1];
+    return {
+      epochs: epochs.length,
+      couponShortfalls: epochs.filter(e => e.couponShortfall).length,
+      drawdownStops: epochs.filter(e => e.drawdownStop).length,
+      // Epochs where losses went through junior and reached senior principal
+      seniorImpairedEpochs: epochs.filter((e, i) =>
+        e.seniorAssets < (i === 0 ? this.options.seniorAssets : epochs[i - 1].seniorAssets)
+      ).length,
+      seniorFinalNav: last ? last.seniorNav : 1,
+      juniorFinalNav: last ? last.juniorNav : 1,
+      seniorMaxDrawdownBps: maxDrawdownBps(epochs.map(e => e.seniorNav)),
+      juniorMaxDrawdownBps: maxDrawdownBps(epochs.map(e => e.juniorNav))
+    };
+  }
+}
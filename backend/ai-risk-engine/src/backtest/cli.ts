@@ -0,0 +1,77 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { BacktestOptions, BacktestResult, LLMProviderName } from '../types';
+import { Backtester } from './Backtester';
+import { loadMarketDataSeries } from './dataLoader';
+import { POLICY_NAMES, PolicyName, createPolicy } from './policies';
+import { formatComparisonTable, navPathsCsv } from './report';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run backtest -- --data <file.csv|file.json> [options]
+
+Options:
+  --policies <list>      Comma-separated: ${POLICY_NAMES.join(', ')} (default: rule-based,static)
+  --provider <name>      LLM provider for the ai policy (default: LLM_PROVIDER)
+  --senior <amount>      Initial senior tranche assets (default: 700000)
+  --junior <amount>      Initial junior tranche assets (default: 300000)
+  --coupon-basis <b>     epoch (as TrancheVault) or annual (default: epoch)
+  --out <file>           Write full results, including per-epoch paths, as JSON
+  --nav-csv <file>       Write per-epoch senior/junior NAV paths as CSV`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    args[key] = next && !next.startsWith('--') ? argv[++i] : 'true';
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.data || args.help) {
+    console.log(USAGE);
+    process.exitCode = args.help ? 0 : 1;
+    return;
+  }
+
+  const policies = (args.policies || 'rule-based,static').split(',').map(p => p.trim()) as PolicyName[];
+  const unknown = policies.filter(p => !POLICY_NAMES.includes(p));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown policies: ${unknown.join(', ')}`);
+  }
+
+  const options: Partial<BacktestOptions> = {};
+  if (args.senior) options.seniorAssets = Number(args.senior);
+  if (args.junior) options.juniorAssets = Number(args.junior);
+  if (args['coupon-basis']) options.couponBasis = args['coupon-basis'] as BacktestOptions['couponBasis'];
+
+  const series = loadMarketDataSeries(args.data);
+  const backtester = new Backtester(series, options);
+
+  const results: BacktestResult[] = [];
+  for (const name of policies) {
+    results.push(await backtester.run(createPolicy(name, args.provider as LLMProviderName | undefined)));
+  }
+
+  console.log(`\nBacktest over ${series.length} observations ` +
+    `(${new Date(series[0].timestamp).toISOString()} to ${new Date(series[series.length - 1].timestamp).toISOString()})\n`);
+  console.log(formatComparisonTable(results));
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(results, null, 2));
+    console.log(`\nFull results written to ${args.out}`);
+  }
+  if (args['nav-csv']) {
+    fs.writeFileSync(args['nav-csv'], navPathsCsv(results));
+    console.log(`NAV paths written to ${args['nav-csv']}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import { MarketData } from '../types';
+
+const NUMERIC_FIELDS = [
+  'btcPrice',
+  'ethPrice',
+  'totalLiquidity',
+  'avgFunding',
+  'impliedVol',
+  'vixEquivalent',
+  'liquidityConcentration',
+  'crossAssetCorr',
+  'twapDeviation'
+] as const;
+
+// Accepts epoch seconds, epoch milliseconds or any Date-parsable string
+function parseTimestamp(value: unknown): number {
+  const numeric = Number(value);
+  if (Number.isFinite(numeric) && String(value).trim() !== '') {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return parsed;
+}
+
+function toMarketData(row: Record<string, unknown>, index: number): MarketData {
+  const data: Record<string, number> = {};
+  for (const field of NUMERIC_FIELDS) {
+    const raw = row[field];
+    if (raw === undefined || raw === null || raw === '') continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      throw new Error(`Row ${index + 1}: ${field} is not a number (${raw})`);
+    }
+    data[field] = value;
+  }
+
+  if (!(data.btcPrice > 0) || !(data.ethPrice > 0)) {
+    throw new Error(`Row ${index + 1}: btcPrice and ethPrice are required`);
+  }
+
+  return {
+    totalLiquidity: 1000000000,
+    avgFunding: 0,
+    impliedVol: 50,
+    ...data,
+    timestamp: parseTimestamp(row.timestamp ?? row.time ?? row.date)
+  } as MarketData;
+}
+
+function parseCsv(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+  if (lines.length < 2) return [];
+
+  const header = lines[0].split(',').map(h => h.trim());
+  return lines.slice(1).map(line => {
+    const cells = line.split(',');
+    return Object.fromEntries(header.map((h, i) => [h, (cells[i] ?? '').trim()]));
+  });
+}
+
+/**
+ * Loads a historical MarketData series from CSV (header row of MarketData
+ * field names plus timestamp) or JSON (an array, or { series: [...] }).
+ */
+export function loadMarketDataSeries(filePath: string): MarketData[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  let rows: Record<string, unknown>[];
+
+  if (path.extname(filePath).toLowerCase() === '.csv') {
+    rows = parseCsv(text);
+  } else {
+    const json = JSON.parse(text);
+    rows = Array.isArray(json) ? json : json.series;
+    if (!Array.isArray(rows)) {
+      throw new Error('JSON backtest data must be an array or { "series": [...] }');
+    }
+  }
+
+  const series = rows.map(toMarketData).sort((a, b) => a.timestamp - b.timestamp);
+  if (series.length < 2) {
+    throw new Error(`Backtest needs at least two observations, got ${series.length}`);
+  }
+  return series;
+}
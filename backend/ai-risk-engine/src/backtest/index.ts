@@ -0,0 +1,4 @@
+export { Backtester } from './Backtester';
+export { loadMarketDataSeries } from './dataLoader';
+export { POLICY_NAMES, PolicyName, createPolicy, staticPolicy, ruleBasedPolicy, aiPolicy, ensemblePolicy } from './policies';
+export { formatComparisonTable, navPathsCsv } from './report';
@@ -0,0 +1,77 @@
+import { BacktestPolicy, LLMProviderName, MarketData, RiskConfig } from '../types';
+import { RiskEngine } from '../services/RiskEngine';
+import { EnsembleEngine } from '../services/EnsembleEngine';
+import { createLLMProvider } from '../services/llm';
+import { StrategyUniverse, splitByRiskClass } from '../services/StrategyUniverse';
+import { logger } from '../utils/logger';
+
+export const POLICY_NAMES = ['rule-based', 'static', 'ai', 'ensemble'] as const;
+
+export type PolicyName = typeof POLICY_NAMES[number];
+
+// The DEFAULT_* values from .env.example, held for the whole backtest
+export function staticPolicy(universe = new StrategyUniverse()): BacktestPolicy {
+  const strategies = universe.current();
+  const config: RiskConfig = {
+    epochLength: Number(process.env.DEFAULT_EPOCH_LENGTH) || 86400,
+    seniorTargetBps: Number(process.env.DEFAULT_SENIOR_TARGET_BPS) || 30,
+    maxDrawdownBps: Number(process.env.DEFAULT_MAX_DRAWDOWN_BPS) || 2000,
+    slippageBps: Number(process.env.DEFAULT_SLIPPAGE_BPS) || 50,
+    strategies: strategies.map(s => s.address),
+    targetWeightsBps: splitByRiskClass(strategies, 6000),
+    caps: strategies.map(() => 0),
+    reasons: ['Static default parameters'],
+    confidence: 100,
+    signals: { impliedVol: 0, fundingRate: 0, liquidityDepth: 0, correlation: 0, twapDeviation: 0 }
+  };
+  return { name: 'static', decide: async () => config };
+}
+
+export function ruleBasedPolicy(riskEngine = new RiskEngine()): BacktestPolicy {
+  return {
+    name: 'rule-based',
+    decide: async (marketData: MarketData) => riskEngine.ruleBasedDecision(marketData).config
+  };
+}
+
+// Calls the provider directly rather than generateDecision so the engine's
+// response cache can't serve one epoch's answer to another.
+export function aiPolicy(provider?: LLMProviderName, riskEngine = new RiskEngine()): BacktestPolicy {
+  const llm = createLLMProvider(provider);
+  return {
+    name: `ai:${llm.name}`,
+    decide: async (marketData: MarketData) => {
+      try {
+        return (await riskEngine.proposeWith(llm, marketData)).config;
+      } catch (error) {
+        logger.warn('Backtest AI policy failed, using rule-based params for this epoch', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return riskEngine.ruleBasedDecision(marketData).config;
+      }
+    }
+  };
+}
+
+export function ensemblePolicy(riskEngine = new RiskEngine()): BacktestPolicy {
+  const ensemble = new EnsembleEngine(riskEngine);
+  return {
+    name: 'ensemble',
+    decide: async (marketData: MarketData) => (await ensemble.run(marketData)).decision.config
+  };
+}
+
+export function createPolicy(name: PolicyName, provider?: LLMProviderName): BacktestPolicy {
+  switch (name) {
+    case 'rule-based':
+      return ruleBasedPolicy();
+    case 'static':
+      return staticPolicy();
+    case 'ai':
+      return aiPolicy(provider);
+    case 'ensemble':
+      return ensemblePolicy();
+    default:
+      throw new Error(`Unknown backtest policy: ${name}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { BacktestResult } from '../types';
+
+const COLUMNS: Array<{ header: string; value: (r: BacktestResult) => string }> = [
+  { header: 'Policy', value: r => r.policy },
+  { header: 'Epochs', value: r => String(r.summary.epochs) },
+  { header: 'Senior NAV', value: r => r.summary.seniorFinalNav.toFixed(4) },
+  { header: 'Junior NAV', value: r => r.summary.juniorFinalNav.toFixed(4) },
+  { header: 'Senior MaxDD (bps)', value: r => String(r.summary.seniorMaxDrawdownBps) },
+  { header: 'Junior MaxDD (bps)', value: r => String(r.summary.juniorMaxDrawdownBps) },
+  { header: 'Coupon shortfalls', value: r => String(r.summary.couponShortfalls) },
+  { header: 'Drawdown stops', value: r => String(r.summary.drawdownStops) },
+  { header: 'Senior impaired', value: r => String(r.summary.seniorImpairedEpochs) }
+];
+
+export function formatComparisonTable(results: BacktestResult[]): string {
+  const rows = results.map(r => COLUMNS.map(c => c.value(r)));
+  const widths = COLUMNS.map((c, i) => Math.max(c.header.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join(' | ');
+
+  return [
+    line(COLUMNS.map(c => c.header)),
+    widths.map(w => '-'.repeat(w)).join('-|-'),
+    ...rows.map(line)
+  ].join('\n');
+}
+
+// One row per policy and epoch, for plotting NAV paths
+export function navPathsCsv(results: BacktestResult[]): string {
+  const header = 'policy,epoch,startTime,endTime,seniorNav,juniorNav,seniorPaid,seniorTarget,couponShortfall,drawdownStop';
+  const rows = results.flatMap(r => r.epochs.map(e => [
+    r.policy,
+    e.index,
+    new Date(e.startTime).toISOString(),
+    new Date(e.endTime).toISOString(),
+    e.seniorNav.toFixed(6),
+    e.juniorNav.toFixed(6),
+    e.seniorPaid.toFixed(2),
+    e.seniorTarget.toFixed(2),
+    e.couponShortfall,
+    e.drawdownStop
+  ].join(',')));
+  return [header, ...rows].join('\n');
+}
@@ -0,0 +1,35 @@
+import { AllocatorMode, RiskTolerance, StrategyRiskClass } from '../types';
+
+export const ALLOCATOR_MODES: AllocatorMode[] = ['mean-variance', 'min-variance', 'risk-parity', 'max-diversification'];
+
+// Overlay limits follow RiskParityOverlay.RiskParityConfig: per-strategy weight
+// band, optional portfolio vol target and a drift threshold below which the
+// previous weights are kept
+export const ALLOCATOR_CONFIG = {
+    MODE: (process.env.ALLOCATOR_MODE || 'risk-parity') as AllocatorMode,
+    MIN_WEIGHT_BPS: Number(process.env.ALLOCATOR_MIN_WEIGHT_BPS) || 0,
+    MAX_WEIGHT_BPS: Number(process.env.ALLOCATOR_MAX_WEIGHT_BPS) || 6000,
+    // Annualized, in bps; 0 disables the target
+    TARGET_VOLATILITY_BPS: Number(process.env.ALLOCATOR_TARGET_VOL_BPS) || 0,
+    REBALANCE_THRESHOLD_BPS: Number(process.env.ALLOCATOR_REBALANCE_THRESHOLD_BPS) || 200,
+    // How far the model may move any single weight away from the allocator baseline
+    AI_MAX_DELTA_BPS: Number(process.env.AI_WEIGHT_MAX_DELTA_BPS) || 1500,
+    MAX_ITERATIONS: 500
+};
+
+// Mean-variance risk aversion (lambda in w'mu - lambda/2 w'Sigma w)
+export const RISK_AVERSION: Record<RiskTolerance, number> = {
+    low: 8,
+    medium: 4,
+    high: 2
+};
+
+// Annualized strategy-specific vol on top of the market and funding factors
+export const IDIOSYNCRATIC_VOL: Record<StrategyRiskClass, number> = {
+    conservative: 0.02,
+    moderate: 0.08,
+    aggressive: 0.2
+};
+
+// Annualized vol of funding carry, the second factor in the covariance model
+export const FUNDING_FACTOR_VOL = 0.05;
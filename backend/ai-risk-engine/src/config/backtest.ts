@@ -0,0 +1,27 @@
+import { BacktestOptions } from '../types';
+
+// Fee defaults mirror TrancheVault (managementFeeBps = 100, performanceFeeBps = 1000)
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+    seniorAssets: 700000,
+    juniorAssets: 300000,
+    managementFeeBps: 100,
+    performanceFeeBps: 1000,
+    couponBasis: 'epoch',
+    // Keyed by the strategies in fixtures/strategies/registry.json
+    strategyModels: {
+        // USDC Lending: lending yield only
+        '0xfAF06fdc90399F1206ebE497842351d79e1F81eD': { beta: 0, fundingExposure: 0, baseApyBps: 450 },
+        // Delta-neutral funding basis: lending yield plus collected funding
+        '0xDcA77Fa3f7c6C5EA9E03B933e26C5496634756bf': { beta: 0.1, fundingExposure: 1, baseApyBps: 500 },
+        // ETH LST looping: staking carry with leveraged ETH exposure
+        '0x59D1D1ECDDfbc245Cf7b250369faA746d39d584A': { beta: 0.8, fundingExposure: -0.5, baseApyBps: 900 },
+        // Perp market making: inventory risk on the majors
+        '0x38765ef7242789998495697E43a75F1ccc32f1eE': { beta: 1, fundingExposure: 0, baseApyBps: 1200 }
+    }
+};
+
+// Applied to strategies without an entry in strategyModels
+export const FALLBACK_STRATEGY_MODEL = { beta: 0.5, fundingExposure: 0, baseApyBps: 0 };
+
+// Funding in MarketData is quoted per 8h period
+export const FUNDING_PERIOD_SECONDS = 8 * 3600;
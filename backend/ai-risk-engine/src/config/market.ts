@@ -3,8 +3,20 @@ export const CEX_CONFIG = {
     QUOTE_PRIORITY: ['USDT', 'USDC', 'USD', 'BUSD', 'TUSD'],
     BINANCE_API_BASE_URL: 'https://api.binance.com',
     // Using a proxy for binance as in SSOT
-    BINANCE_PROXY_URL: 'http://144.91.93.154:8080',
-    DEXSCREENER_PROXY_URL: 'http://144.91.93.154:3031'
+    BINANCE_PROXY_URL: process.env.BINANCE_PROXY_URL || 'http://144.91.93.154:8080',
+    DEXSCREENER_PROXY_URL: process.env.DEXSCREENER_PROXY_URL || 'http://144.91.93.154:3031',
+    // Per-venue base URLs; override to point the aggregator at local fixtures
+    VENUE_URLS: {
+        kucoin: process.env.KUCOIN_API_URL || 'https://api.kucoin.com',
+        htx: process.env.HTX_API_URL || 'https://api.huobi.pro',
+        bitget: process.env.BITGET_API_URL || 'https://api.bitget.com',
+        mexc: process.env.MEXC_API_URL || 'https://api.mexc.com',
+        gate: process.env.GATE_API_URL || 'https://api.gateio.ws'
+    },
+    // Venues further than this from the cross-venue median are dropped
+    MAX_DEVIATION_PCT: Number(process.env.PRICE_MAX_DEVIATION_PCT) || 1.5,
+    STALE_QUOTE_MS: 5 * 60 * 1000,
+    INCLUDE_DEX: process.env.PRICE_INCLUDE_DEX !== 'false'
 };
 
 export const DYDX_CONFIG = {
@@ -12,3 +24,17 @@ export const DYDX_CONFIG = {
     INDEXER_URL: 'https://indexer.dydx.trade',
     MARKET_SUFFIX: '-USD'
 };
+
+export const SIGNAL_CONFIG = {
+    KLINE_INTERVAL: '1h',
+    KLINE_LIMIT: 168, // 7 days of hourly candles
+    PERIODS_PER_YEAR: 24 * 365,
+    SHORT_WINDOW: 24,
+    CORRELATION_WINDOW: 72,
+    FUNDING_LOOKBACK: 24, // dYdX pays funding hourly
+    FUNDING_PERIOD_HOURS: 8, // express funding as the conventional 8h rate
+    DEPTH_LIMIT: 100,
+    DEPTH_BAND_PCT: 2,
+    CONCENTRATION_LEVELS: 5,
+    STALE_AFTER_MS: 2 * 60 * 60 * 1000
+};
@@ -0,0 +1,95 @@
+import { LiquidityNeed, RiskProfile, RiskTolerance } from '../types';
+
+// How fast a profile needs its money back bounds epoch length and keeps a
+// floor of weight in the conservative (most liquid) strategy
+export const LIQUIDITY_NEEDS: Record<LiquidityNeed, { maxEpochLength: number; minConservativeWeightBps: number }> = {
+    instant: { maxEpochLength: 14400, minConservativeWeightBps: 7000 },
+    '24-72h': { maxEpochLength: 43200, minConservativeWeightBps: 5000 },
+    weekly: { maxEpochLength: 86400, minConservativeWeightBps: 3000 },
+    monthly: { maxEpochLength: 86400, minConservativeWeightBps: 0 }
+};
+
+// Conservative-weight shift per tolerance, applied to the regime table
+export const RISK_TOLERANCE_TILT_BPS: Record<RiskTolerance, number> = {
+    low: 1500,
+    medium: 0,
+    high: -1000
+};
+
+// Each APY point above the pivot moves weight toward non-conservative strategies
+export const TARGET_APY_PIVOT = 10;
+export const TARGET_APY_TILT_BPS_PER_POINT = 100;
+export const MAX_TARGET_APY_TILT_BPS = 1000;
+
+// Non-conservative weight may be at most this multiple of the junior share:
+// a 50% loss there is still covered by the junior buffer
+export const JUNIOR_COVERAGE_MULTIPLIER = 2;
+
+type PresetProfile = Omit<RiskProfile, 'createdAt' | 'updatedAt'>;
+
+const preset = (profile: Omit<PresetProfile, 'preset'>): PresetProfile => ({ ...profile, preset: true });
+
+// Engine inputs for the onboarding personas in frontend OnboardingWizard (P1-P12);
+// tranche mixes match its seniorBps/juniorBps, ladders map onto liquidity needs
+export const PRESET_PROFILES: PresetProfile[] = [
+    preset({
+        id: 'P1', name: 'Retirement Saver', description: 'Risk adjusts down as target date approaches.',
+        riskTolerance: 'low', targetAPY: 6, maxDrawdown: 10,
+        trancheMix: { seniorBps: 8000, juniorBps: 2000 }, liquidityNeed: 'weekly'
+    }),
+    preset({
+        id: 'P2', name: 'Young Professional', description: 'Payday splits with goals that fill automatically.',
+        riskTolerance: 'medium', targetAPY: 10, maxDrawdown: 20,
+        trancheMix: { seniorBps: 7000, juniorBps: 3000 }, liquidityNeed: '24-72h'
+    }),
+    preset({
+        id: 'P3', name: 'Short-term Goal', description: 'Budget fills weekly toward a near target.',
+        riskTolerance: 'low', targetAPY: 5, maxDrawdown: 5,
+        trancheMix: { seniorBps: 9000, juniorBps: 1000 }, liquidityNeed: 'instant', maxEpochLength: 14400
+    }),
+    preset({
+        id: 'P4', name: 'Retiree', description: 'Monthly income on schedule with a one-tap safe mode.',
+        riskTolerance: 'low', targetAPY: 5, maxDrawdown: 5,
+        trancheMix: { seniorBps: 9500, juniorBps: 500 }, liquidityNeed: 'weekly'
+    }),
+    preset({
+        id: 'P5', name: 'Freelancer', description: 'Idle invoice cash redeemed on its due date.',
+        riskTolerance: 'medium', targetAPY: 7, maxDrawdown: 10,
+        trancheMix: { seniorBps: 8500, juniorBps: 1500 }, liquidityNeed: '24-72h'
+    }),
+    preset({
+        id: 'P6', name: 'Small Business', description: 'End-of-day surplus parked with instant access.',
+        riskTolerance: 'low', targetAPY: 5, maxDrawdown: 5,
+        trancheMix: { seniorBps: 9000, juniorBps: 1000 }, liquidityNeed: 'instant', maxEpochLength: 3600
+    }),
+    preset({
+        id: 'P7', name: 'Expat/FX Sensitive', description: 'Smoothed currency swings for planned spending.',
+        riskTolerance: 'medium', targetAPY: 7, maxDrawdown: 10,
+        trancheMix: { seniorBps: 8500, juniorBps: 1500 }, liquidityNeed: '24-72h'
+    }),
+    preset({
+        id: 'P8', name: 'Family Saver', description: 'Goal-based family savings.',
+        riskTolerance: 'low', targetAPY: 6, maxDrawdown: 8,
+        trancheMix: { seniorBps: 9000, juniorBps: 1000 }, liquidityNeed: 'monthly'
+    }),
+    preset({
+        id: 'P9', name: 'Medium-term Goal', description: 'Risk tightens as the target approaches.',
+        riskTolerance: 'medium', targetAPY: 8, maxDrawdown: 10,
+        trancheMix: { seniorBps: 8500, juniorBps: 1500 }, liquidityNeed: 'weekly'
+    }),
+    preset({
+        id: 'P10', name: 'Pro User', description: 'Full allocation range for experienced users.',
+        riskTolerance: 'high', targetAPY: 18, maxDrawdown: 35,
+        trancheMix: { seniorBps: 6000, juniorBps: 4000 }, liquidityNeed: 'monthly'
+    }),
+    preset({
+        id: 'P11', name: 'Ultra Conservative', description: 'Senior only, near-zero risk.',
+        riskTolerance: 'low', targetAPY: 4, maxDrawdown: 5,
+        trancheMix: { seniorBps: 10000, juniorBps: 0 }, liquidityNeed: 'weekly'
+    }),
+    preset({
+        id: 'P12', name: 'Shared Pot', description: 'Pooled group funds with safe surplus investment.',
+        riskTolerance: 'low', targetAPY: 5, maxDrawdown: 8,
+        trancheMix: { seniorBps: 9000, juniorBps: 1000 }, liquidityNeed: '24-72h'
+    })
+];
@@ -0,0 +1,62 @@
+// Hard limits applied to every generated config, AI or rule-based
+export const RISK_BOUNDS = {
+    epochLength: { min: 3600, max: 86400 },
+    seniorTargetBps: { min: 10, max: 200 },
+    maxDrawdownBps: { min: 500, max: 5000 },
+    slippageBps: { min: 10, max: 300 },
+    confidence: { min: 0, max: 100 },
+    TOTAL_WEIGHT_BPS: 10000
+};
+
+// Per-epoch movement limits relative to the last executed config. Moves over
+// LARGE_MOVE_SHARE of a limit count as large and need MIN_CONFIDENCE; below it
+// every limit shrinks to that share
+export const CHANGE_LIMITS = {
+    epochLength: Number(process.env.MAX_EPOCH_LENGTH_DELTA) || 21600,
+    seniorTargetBps: Number(process.env.MAX_SENIOR_TARGET_DELTA_BPS) || 20,
+    maxDrawdownBps: Number(process.env.MAX_DRAWDOWN_DELTA_BPS) || 500,
+    slippageBps: Number(process.env.MAX_SLIPPAGE_DELTA_BPS) || 50,
+    // One-way turnover, sum(|w_new - w_old|) / 2
+    TURNOVER_BUDGET_BPS: Number(process.env.WEIGHT_TURNOVER_BUDGET_BPS) || 2000,
+    LARGE_MOVE_SHARE: 0.5,
+    MIN_CONFIDENCE: Number(process.env.MIN_CONFIDENCE_FOR_LARGE_MOVE) || 75
+};
+
+// Persona lines prepended to the risk prompt; ensemble members can use different ones
+export const PROMPT_VARIANTS = {
+    baseline: '',
+    defensive: 'Prioritise senior tranche protection: when in doubt, prefer shorter epochs, lower senior targets and tighter drawdown limits.',
+    'yield-seeking': 'Prioritise junior tranche yield while keeping the senior coupon covered: accept more risk when signals are benign.'
+};
+
+export type PromptVariant = keyof typeof PROMPT_VARIANTS;
+
+export const MARKET_REGIMES = ['calm', 'trending', 'stressed', 'crisis'] as const;
+
+// Regime centroids in raw feature units: annualized vol %, 8h funding, BTC/ETH
+// correlation, |24h move| %, and liquidity shortfall in decades below $1B
+export const REGIME_CENTROIDS = {
+    calm: { vol: 35, funding: 0.0001, correlation: 0.6, trend: 1, liquidityGap: 0 },
+    trending: { vol: 55, funding: 0.0004, correlation: 0.75, trend: 4, liquidityGap: 0 },
+    stressed: { vol: 75, funding: 0, correlation: 0.85, trend: 6, liquidityGap: 0.2 },
+    crisis: { vol: 100, funding: -0.0002, correlation: 0.95, trend: 12, liquidityGap: 0.5 }
+};
+
+// One unit of distance per feature
+export const REGIME_FEATURE_SCALES = { vol: 15, funding: 0.0003, correlation: 0.15, trend: 3, liquidityGap: 0.25 };
+
+// Prior transition matrix (row = from, column = to); regimes are sticky
+export const REGIME_TRANSITIONS = {
+    calm: { calm: 0.85, trending: 0.1, stressed: 0.04, crisis: 0.01 },
+    trending: { calm: 0.15, trending: 0.7, stressed: 0.12, crisis: 0.03 },
+    stressed: { calm: 0.05, trending: 0.15, stressed: 0.65, crisis: 0.15 },
+    crisis: { calm: 0.02, trending: 0.08, stressed: 0.3, crisis: 0.6 }
+};
+
+// Rule-based parameters per regime; conservativeWeightBps is split across conservative-class strategies
+export const REGIME_RULES = {
+    calm: { epochLength: 86400, seniorTargetBps: 50, maxDrawdownBps: 2500, conservativeWeightBps: 6000, confidence: 90, riskScore: 30 },
+    trending: { epochLength: 43200, seniorTargetBps: 70, maxDrawdownBps: 2000, conservativeWeightBps: 5500, confidence: 85, riskScore: 45 },
+    stressed: { epochLength: 43200, seniorTargetBps: 30, maxDrawdownBps: 1500, conservativeWeightBps: 7500, confidence: 75, riskScore: 70 },
+    crisis: { epochLength: 14400, seniorTargetBps: 20, maxDrawdownBps: 1000, conservativeWeightBps: 9000, confidence: 65, riskScore: 90 }
+};
@@ -0,0 +1,23 @@
+import { SignerBackend } from '../types';
+
+const list = (value?: string) => (value || '').split(',').map(s => s.trim()).filter(Boolean);
+
+// Where AI signer keys come from. Keystores and remote signers may hold several
+// keys; whichever matches RiskParams.aiSigner() signs, so a rotation is loading
+// the new key first and then calling updateAiSigner
+export const SIGNER_CONFIG = {
+    BACKEND: process.env.AI_SIGNER_BACKEND as SignerBackend | undefined,
+    KEYSTORES: list(process.env.AI_SIGNER_KEYSTORE),
+    KEYSTORE_PASSWORD_FILE: process.env.AI_SIGNER_KEYSTORE_PASSWORD_FILE,
+    REMOTE_URL: process.env.AI_SIGNER_REMOTE_URL,
+    // Empty means every account the remote signer reports
+    REMOTE_ADDRESSES: list(process.env.AI_SIGNER_REMOTE_ADDRESSES),
+    REMOTE_TIMEOUT_MS: Number(process.env.AI_SIGNER_REMOTE_TIMEOUT_MS) || 10000
+};
+
+// k-of-n operator approvals required before a signature is released; 0 disables
+export const COSIGNING = {
+    COSIGNERS: list(process.env.AI_COSIGNERS),
+    THRESHOLD: Number(process.env.AI_COSIGNER_THRESHOLD) || 0,
+    APPROVAL_TTL_MS: Number(process.env.AI_COSIGNER_APPROVAL_TTL_MS) || 3600000
+};
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+// Serves recorded venue responses from fixtures/exchanges/<venue>.json, keyed by
+// request path and query. Point each venue at it with e.g.
+// BINANCE_PROXY_URL=http://localhost:4010/binance KUCOIN_API_URL=http://localhost:4010/kucoin.
+// "$NOW" and "$NOW-<ms>" strings become timestamps at request time so staleness is testable.
+
+const NOW_PATTERN = /^\$NOW(?:-(\d+))?$/;
+
+function loadFixtures(dir: string): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(
+    fs.readdirSync(dir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => [path.basename(f, '.json'), JSON.parse(fs.readFileSync(path.join(dir, f), 'utf8'))])
+  );
+}
+
+function withTimestamps(body: unknown): string {
+  return JSON.stringify(body, (_key, value) => {
+    const match = typeof value === 'string' ? NOW_PATTERN.exec(value) : null;
+    return match ? Date.now() - Number(match[1] || 0) : value;
+  });
+}
+
+export function startExchangeFixtureServer(
+  port = Number(process.env.EXCHANGE_FIXTURE_PORT) || 4010,
+  dir = path.resolve('fixtures/exchanges')
+): Promise<http.Server> {
+  const fixtures = loadFixtures(dir);
+
+  const server = http.createServer((req, res) => {
+    const [, venue, ...rest] = (req.url || '/').split('/');
+    const body = fixtures[venue]?.[`/${rest.join('/')}`];
+
+    res.setHeader('Content-Type', 'application/json');
+    if (body === undefined) {
+      // Venues answer unlisted pairs with 404, which safeFetch treats as "no quote"
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'No fixture' }));
+      return;
+    }
+    res.end(withTimestamps(body));
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, () => {
+      logger.info(`Exchange fixture server listening on port ${port}`, { venues: Object.keys(fixtures) });
+      resolve(server);
+    });
+  });
+}
+
+if (require.main === module) {
+  startExchangeFixtureServer();
+}
@@ -0,0 +1,81 @@
+import http from 'http';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+// Local stand-in for web3signer's eth1 JSON-RPC so the remote signer backend can
+// be exercised without one. Keys come from DEV_SIGNER_PRIVATE_KEYS (comma-separated,
+// several keys to rehearse a rotation) or AI_SIGNER_PRIVATE_KEY. Point the engine at
+// it with AI_SIGNER_BACKEND=remote AI_SIGNER_REMOTE_URL=http://localhost:9000.
+
+function loadWallets(): Map<string, ethers.Wallet> {
+  const keys = (process.env.DEV_SIGNER_PRIVATE_KEYS || process.env.AI_SIGNER_PRIVATE_KEY || '')
+    .split(',')
+    .map(k => k.trim())
+    .filter(Boolean);
+  if (keys.length === 0) {
+    throw new Error('DEV_SIGNER_PRIVATE_KEYS or AI_SIGNER_PRIVATE_KEY must be set');
+  }
+  return new Map(keys.map(key => {
+    const wallet = new ethers.Wallet(key);
+    return [wallet.address, wallet];
+  }));
+}
+
+async function handle(
+  wallets: Map<string, ethers.Wallet>,
+  method: string,
+  params: any[]
+): Promise<unknown> {
+  const wallet = (address: string) => {
+    const found = wallets.get(ethers.utils.getAddress(address));
+    if (!found) throw new Error(`Unknown account ${address}`);
+    return found;
+  };
+
+  switch (method) {
+    case 'eth_accounts':
+      return Array.from(wallets.keys());
+    case 'eth_sign':
+      return wallet(params[0]).signMessage(ethers.utils.arrayify(params[1]));
+    default:
+      throw new Error(`Method ${method} not supported`);
+  }
+}
+
+export function startRemoteSignerServer(port = Number(process.env.REMOTE_SIGNER_PORT) || 9000): Promise<http.Server> {
+  const wallets = loadWallets();
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/upcheck') {
+      res.end('OK');
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      res.setHeader('Content-Type', 'application/json');
+      let id: unknown = null;
+      try {
+        const request = JSON.parse(body);
+        id = request.id;
+        const result = await handle(wallets, request.method, request.params || []);
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message } }));
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, () => {
+      logger.info(`Remote signer stand-in listening on port ${port}`, { accounts: Array.from(wallets.keys()) });
+      resolve(server);
+    });
+  });
+}
+
+if (require.main === module) {
+  startRemoteSignerServer();
+}
@@ -0,0 +1,70 @@
+import { PromptEvaluator } from './PromptEvaluator';
+import { formatPromptComparison } from './report';
+import { RiskEngine } from '../services/RiskEngine';
+import { PromptRegistry } from '../services/PromptRegistry';
+import { LLMProvider, MarketData } from '../types';
+
+const HOUR = 3600 * 1000;
+
+// Four quiet days observed every six hours
+const series: MarketData[] = Array.from({ length: 17 }, (_, i) => ({
+  btcPrice: 60000,
+  ethPrice: 3000,
+  totalLiquidity: 1e9,
+  avgFunding: 0.0001,
+  impliedVol: 35,
+  crossAssetCorr: 0.6,
+  timestamp: 1_700_000_000_000 + i * 6 * HOUR
+}));
+
+const provider = (model: string, generate: () => Promise<string>): LLMProvider => ({
+  name: 'replay',
+  settings: { model, timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+  generate
+});
+
+describe('PromptEvaluator', () => {
+  const engine = new RiskEngine(undefined, undefined, undefined, new PromptRegistry('prompts/risk', 'risk-v1'));
+  // A model that always answers with what the rules would pick for the quiet market
+  const steady = provider('steady', async () => JSON.stringify(engine.ruleBasedDecision(series[0]).config));
+
+  it('scores a model that always answers valid, stable parameters', async () => {
+    const evaluation = await new PromptEvaluator(series, engine).evaluate('risk-v2', steady);
+
+    expect(evaluation.prompt).toEqual(engine.getPromptRegistry().list()[1]);
+    expect(evaluation.decisions).toBeGreaterThan(1);
+    expect(evaluation).toMatchObject({ providerErrors: 0, parseFailures: 0, schemaValidRate: 1, fieldValidity: 1, repairedFields: {} });
+    expect(evaluation.stability).toMatchObject({ maxDrawdownBps: 0, weightTurnoverBps: 0, changeLimitBreaches: 0 });
+    expect(evaluation.backtest).toBeDefined();
+  });
+
+  it('counts unparseable answers and provider errors as invalid decisions', async () => {
+    const evaluator = new PromptEvaluator(series, engine);
+
+    const garbled = await evaluator.evaluate('risk-v1', provider('garbled', async () => 'no json here'));
+    const failing = await evaluator.evaluate('risk-v1', provider('down', async () => {
+      throw new Error('quota exceeded');
+    }));
+
+    expect(garbled.parseFailures).toBe(garbled.decisions);
+    expect(garbled).toMatchObject({ providerErrors: 0, schemaValidRate: 0, fieldValidity: 0 });
+    expect(failing.providerErrors).toBe(failing.decisions);
+    expect(failing.schemaValidRate).toBe(0);
+  });
+
+  it('compares two prompt versions side by side', async () => {
+    const evaluator = new PromptEvaluator(series, engine);
+    const v1 = await evaluator.evaluate('risk-v1', provider('garbled', async () => 'no json here'));
+    const v2 = await evaluator.evaluate('risk-v2', steady);
+
+    const report = formatPromptComparison(v1, v2);
+
+    expect(report).toContain(`risk-v1@${v1.prompt.hash}`);
+    expect(report).toContain(`risk-v2@${v2.prompt.hash}`);
+    expect(report).toMatch(/risk-v2\s*$/m);
+  });
+
+  it('rejects an unknown prompt version', async () => {
+    await expect(new PromptEvaluator(series, engine).evaluate('risk-v9', steady)).rejects.toThrow('Unknown prompt version risk-v9');
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  BacktestOptions,
+  LLMProvider,
+  MarketData,
+  ParameterStability,
+  PromptEvaluation,
+  RiskConfig,
+  RiskDecision
+} from '../types';
+import { Backtester } from '../backtest/Backtester';
+import { RiskEngine } from '../services/RiskEngine';
+import { RISK_CONFIG_FIELDS } from '../services/RiskConfigValidator';
+import { ChangeRateLimiter } from '../services/ChangeRateLimiter';
+import { logger } from '../utils/logger';
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const tally = (counts: Record<string, number>, key: string) => {
+  counts[key] = (counts[key] || 0) + 1;
+};
+
+// One-way turnover between two weight vectors keyed by strategy address
+function turnover(a: RiskConfig, b: RiskConfig): number {
+  const weights = new Map<string, number>();
+  a.strategies.forEach((s, i) => weights.set(s.toLowerCase(), -a.targetWeightsBps[i]));
+  b.strategies.forEach((s, i) => weights.set(s.toLowerCase(), (weights.get(s.toLowerCase()) || 0) + b.targetWeightsBps[i]));
+  return Array.from(weights.values()).reduce((sum, d) => sum + Math.abs(d), 0) / 2;
+}
+
+/**
+ * Runs a prompt version through the backtester and scores what the model
+ * produced at each epoch start: schema validity, bounds violations,
+ * parameter stability and the backtested outcome. Decisions skip the
+ * engine cache and change-rate limiting so the raw prompt is measured.
+ */
+export class PromptEvaluator {
+  private backtester: Backtester;
+  private limiter = new ChangeRateLimiter();
+
+  constructor(
+    series: MarketData[],
+    private riskEngine = new RiskEngine(),
+    backtestOptions: Partial<BacktestOptions> = {}
+  ) {
+    this.backtester = new Backtester(series, backtestOptions);
+  }
+
+  async evaluate(promptVersion: string, llm: LLMProvider): Promise<PromptEvaluation> {
+    const template = this.riskEngine.getPromptRegistry().get(promptVersion);
+    const decisions: RiskDecision[] = [];
+    let providerErrors = 0;
+    let parseFailures = 0;
+
+    const result = await this.backtester.run({
+      name: `${template.id}@${template.hash}`,
+      decide: async (marketData, previous) => {
+        let decision: RiskDecision;
+        try {
+          decision = await this.riskEngine.proposeWith(llm, marketData, undefined, 'baseline', {
+            promptVersion,
+            previous
+          });
+          // proposeWith reports an unparseable response as a rule-based decision without repairs
+          if (decision.source === 'rule-based' && decision.repairs.length === 0) parseFailures++;
+        } catch (error) {
+          providerErrors++;
+          logger.warn('Prompt evaluation: provider failed, using rule-based params for this epoch', {
+            promptVersion,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          decision = this.riskEngine.ruleBasedDecision(marketData, undefined, previous);
+        }
+        decisions.push(decision);
+        return decision.config;
+      }
+    });
+
+    const modelDecisions = decisions.filter(d => d.source !== 'rule-based' || d.repairs.length > 0);
+    const repairedFields: Record<string, number> = {};
+    const adjustedFields: Record<string, number> = {};
+    decisions.forEach(d => d.repairs.forEach(r => tally(repairedFields, r.field)));
+    decisions.forEach(d => d.adjustments.forEach(a => tally(adjustedFields, a.field)));
+
+    // Parse failures and provider errors count as fully invalid
+    const validity = decisions.map(d =>
+      modelDecisions.includes(d) ? 1 - d.repairs.length / RISK_CONFIG_FIELDS.length : 0
+    );
+
+    return {
+      prompt: { id: template.id, hash: template.hash },
+      provider: llm.name,
+      model: llm.settings.model,
+      decisions: decisions.length,
+      providerErrors,
+      parseFailures,
+      schemaValidRate: mean(validity.map(v => (v === 1 ? 1 : 0))),
+      fieldValidity: mean(validity),
+      repairedFields,
+      boundsViolations: decisions.filter(d => d.adjustments.length > 0).length,
+      adjustedFields,
+      stability: this.stability(decisions.map(d => d.config)),
+      backtest: result.summary
+    };
+  }
+
+  private stability(configs: RiskConfig[]): ParameterStability {
+    const pairs = configs.slice(1).map((config, i) => [configs[i], config] as const);
+    return {
+      epochLengthHours: mean(pairs.map(([a, b]) => Math.abs(b.epochLength - a.epochLength) / 3600)),
+      seniorTargetBps: mean(pairs.map(([a, b]) => Math.abs(b.seniorTargetBps - a.seniorTargetBps))),
+      maxDrawdownBps: mean(pairs.map(([a, b]) => Math.abs(b.maxDrawdownBps - a.maxDrawdownBps))),
+      slippageBps: mean(pairs.map(([a, b]) => Math.abs(b.slippageBps - a.slippageBps))),
+      weightTurnoverBps: mean(pairs.map(([a, b]) => turnover(a, b))),
+      changeLimitBreaches: pairs.filter(([a, b]) => this.limiter.apply(b, a).violations.length > 0).length
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { LLMProviderName } from '../types';
+import { loadMarketDataSeries } from '../backtest/dataLoader';
+import { createLLMProvider } from '../services/llm';
+import { PromptEvaluator } from './PromptEvaluator';
+import { formatPromptComparison } from './report';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run eval:prompts -- --a <version> --b <version> [options]
+
+Runs two prompt versions (file names in prompts/risk) over the same market
+snapshots and compares schema validity, bounds violations, parameter
+stability and backtested outcome.
+
+Options:
+  --data <file>          Snapshot series, CSV or JSON (default: fixtures/backtest/may-2022-synthetic.csv)
+  --provider <name>      LLM provider, a fresh instance per version (default: LLM_PROVIDER)
+  --out <file>           Write both evaluations as JSON
+
+Set LLM_RECORD_DIR on a live run to capture responses, then rerun with
+--provider replay and LLM_REPLAY_DIR pointing at the recordings.`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    args[key] = next && !next.startsWith('--') ? argv[++i] : 'true';
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.a || !args.b || args.help) {
+    console.log(USAGE);
+    process.exitCode = args.help ? 0 : 1;
+    return;
+  }
+
+  const data = args.data || 'fixtures/backtest/may-2022-synthetic.csv';
+  const provider = args.provider as LLMProviderName | undefined;
+  const evaluator = new PromptEvaluator(loadMarketDataSeries(data));
+
+  // Sequential so both versions see the same provider rate limits
+  const a = await evaluator.evaluate(args.a, createLLMProvider(provider));
+  const b = await evaluator.evaluate(args.b, createLLMProvider(provider));
+
+  console.log(`\nPrompt evaluation over ${data} (${a.provider}/${a.model})\n`);
+  console.log(formatPromptComparison(a, b));
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify({ data, a, b }, null, 2));
+    console.log(`\nFull results written to ${args.out}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
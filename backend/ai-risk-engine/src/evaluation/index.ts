@@ -0,0 +1,2 @@
+export { PromptEvaluator } from './PromptEvaluator';
+export { formatPromptComparison } from './report';
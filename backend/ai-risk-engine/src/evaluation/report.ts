@@ -0,0 +1,39 @@
+import { PromptEvaluation } from '../types';
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+const num = (digits: number) => (v: number) => v.toFixed(digits);
+
+// Lower is better unless marked otherwise; the last column says which version wins
+const ROWS: Array<{ label: string; value: (e: PromptEvaluation) => number; format: (v: number) => string; higherIsBetter?: boolean }> = [
+  { label: 'Decisions', value: e => e.decisions, format: num(0), higherIsBetter: true },
+  { label: 'Provider errors', value: e => e.providerErrors, format: num(0) },
+  { label: 'Parse failures', value: e => e.parseFailures, format: num(0) },
+  { label: 'Schema-valid rate', value: e => e.schemaValidRate, format: pct, higherIsBetter: true },
+  { label: 'Field validity', value: e => e.fieldValidity, format: pct, higherIsBetter: true },
+  { label: 'Bounds violations', value: e => e.boundsViolations, format: num(0) },
+  { label: 'Δ epoch length (h)', value: e => e.stability.epochLengthHours, format: num(2) },
+  { label: 'Δ senior target (bps)', value: e => e.stability.seniorTargetBps, format: num(1) },
+  { label: 'Δ max drawdown (bps)', value: e => e.stability.maxDrawdownBps, format: num(1) },
+  { label: 'Δ slippage (bps)', value: e => e.stability.slippageBps, format: num(1) },
+  { label: 'Weight turnover (bps)', value: e => e.stability.weightTurnoverBps, format: num(1) },
+  { label: 'Change-limit breaches', value: e => e.stability.changeLimitBreaches, format: num(0) },
+  { label: 'Senior NAV', value: e => e.backtest.seniorFinalNav, format: num(4), higherIsBetter: true },
+  { label: 'Junior NAV', value: e => e.backtest.juniorFinalNav, format: num(4), higherIsBetter: true },
+  { label: 'Senior MaxDD (bps)', value: e => e.backtest.seniorMaxDrawdownBps, format: num(0) },
+  { label: 'Junior MaxDD (bps)', value: e => e.backtest.juniorMaxDrawdownBps, format: num(0) },
+  { label: 'Coupon shortfalls', value: e => e.backtest.couponShortfalls, format: num(0) },
+  { label: 'Senior impaired', value: e => e.backtest.seniorImpairedEpochs, format: num(0) }
+];
+
+export function formatPromptComparison(a: PromptEvaluation, b: PromptEvaluation): string {
+  const header = ['Metric', `${a.prompt.id}@${a.prompt.hash}`, `${b.prompt.id}@${b.prompt.hash}`, 'Better'];
+  const rows = ROWS.map(row => {
+    const [va, vb] = [row.value(a), row.value(b)];
+    const better = va === vb ? '=' : (va > vb) === !!row.higherIsBetter ? a.prompt.id : b.prompt.id;
+    return [row.label, row.format(va), row.format(vb), better];
+  });
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join(' | ');
+  return [line(header), widths.map(w => '-'.repeat(w)).join('-|-'), ...rows.map(line)].join('\n');
+}
@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyStore } from '../services/ApiKeyStore';
+import { RateLimiter, RateLimitResult } from '../services/RateLimiter';
+import { ApiPrincipal, ApiScope } from '../types';
+import { logger } from '../utils/logger';
+
+const apiKeyStore = new ApiKeyStore();
+const rateLimiter = new RateLimiter();
+
+// server.ts stashes the unparsed body so HMAC signatures cover the exact bytes sent
+type RawBodyRequest = Request & { rawBody?: Buffer };
+
+const setRateLimitHeaders = (res: Response, result: RateLimitResult, prefix = 'X-RateLimit') => {
+  res.setHeader(`${prefix}-Limit`, result.limit);
+  res.setHeader(`${prefix}-Remaining`, result.remaining);
+  res.setHeader(`${prefix}-Reset`, Math.ceil(result.resetAt / 1000));
+};
+
+export const principalOf = (res: Response): ApiPrincipal => res.locals.principal;
+
+/**
+ * Resolves the caller from X-Key-Id/X-Timestamp/X-Signature (HMAC),
+ * X-API-Key or Authorization: Bearer, falling back to anonymous. Bad
+ * credentials are rejected rather than downgraded to anonymous.
+ */
+export const authenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const keyId = req.header('X-Key-Id');
+  const signature = req.header('X-Signature');
+  const bearer = req.header('Authorization')?.replace(/^Bearer\s+/i, '');
+  const apiKey = req.header('X-API-Key') || bearer;
+
+  let principal: ApiPrincipal | null;
+  if (keyId || signature) {
+    principal = apiKeyStore.authenticateHmac(
+      keyId || '',
+      req.header('X-Timestamp') || '',
+      signature || '',
+      req.method,
+      req.originalUrl,
+      (req as RawBodyRequest).rawBody
+    );
+  } else if (apiKey) {
+    principal = apiKeyStore.authenticateApiKey(apiKey);
+  } else {
+    principal = apiKeyStore.anonymous();
+  }
+
+  if (!principal) {
+    logger.warn('Rejected request with invalid credentials', { ip: req.ip, url: req.originalUrl, keyId });
+    return res.status(401).json({ error: 'Invalid API credentials' });
+  }
+
+  // Anonymous callers share a bucket per IP; keyed callers get their own
+  const bucket = principal.method === 'anonymous' ? `ip:${req.ip}` : `key:${principal.keyId}`;
+  const limit = rateLimiter.hit(bucket, principal.rateLimitPerMinute);
+  setRateLimitHeaders(res, limit);
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', Math.max(1, Math.ceil((limit.resetAt - Date.now()) / 1000)));
+    return res.status(429).json({ error: 'Rate limit exceeded' });
+  }
+
+  res.locals.principal = principal;
+  return next();
+};
+
+export const requireScope = (scope: ApiScope) => (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const principal = principalOf(res);
+  if (!principal || !(principal.scopes.includes(scope) || principal.scopes.includes('admin'))) {
+    return res.status(principal?.method === 'anonymous' ? 401 : 403).json({
+      error: `Scope ${scope} required`
+    });
+  }
+  return next();
+};
+
+// Reserves one unit of the caller's daily signature quota; use after requireScope('risk:sign')
+export const signingQuota = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const principal = principalOf(res);
+  const quota = rateLimiter.consumeDailyQuota(principal.keyId, principal.dailySignatureQuota);
+  setRateLimitHeaders(res, quota, 'X-Signature-Quota');
+  if (!quota.allowed) {
+    logger.warn('Daily signature quota exhausted', { keyId: principal.keyId });
+    return res.status(429).json({ error: 'Daily signature quota exhausted' });
+  }
+  res.locals.signingQuotaReserved = true;
+  return next();
+};
+
+// Gives back the unit signingQuota reserved when a request fails before anything is signed
+export const refundSigningQuota = (res: Response): void => {
+  if (!res.locals.signingQuotaReserved) return;
+  res.locals.signingQuotaReserved = false;
+  rateLimiter.refundDailyQuota(principalOf(res).keyId);
+};
@@ -1,5 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { RISK_BOUNDS } from '../config/risk';
+
+const strategyAddress = Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/);
+
+const profileConstraintFields = {
+  preferredStrategies: Joi.array().items(strategyAddress).optional(),
+  excludedStrategies: Joi.array().items(strategyAddress).optional(),
+  trancheMix: Joi.object({
+    seniorBps: Joi.number().integer().min(0).max(10000).required(),
+    juniorBps: Joi.number().integer().min(0).max(10000).required()
+  }).custom((mix: { seniorBps: number; juniorBps: number }, helpers) =>
+    mix.seniorBps + mix.juniorBps === 10000 ? mix : helpers.message({ custom: 'trancheMix must sum to 10000 bps' })
+  ).optional(),
+  maxEpochLength: Joi.number().integer().min(RISK_BOUNDS.epochLength.min).max(RISK_BOUNDS.epochLength.max).optional(),
+  liquidityNeed: Joi.string().valid('instant', '24-72h', 'weekly', 'monthly').optional()
+};
 
 const riskConfigSchema = Joi.object({
   marketOverrides: Joi.object({
@@ -14,10 +30,77 @@ const riskConfigSchema = Joi.object({
     riskTolerance: Joi.string().valid('low', 'medium', 'high').optional(),
     targetAPY: Joi.number().min(0).max(100).optional(),
     maxDrawdown: Joi.number().min(0).max(50).optional(),
-    preferredStrategies: Joi.array().items(
-      Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/)
-    ).optional()
+    ...profileConstraintFields
+  }).optional(),
+
+  // Stored profile; explicit preferences are layered on top of it
+  profileId: Joi.string().max(64).optional()
+});
+
+const riskProfileSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().max(500).optional(),
+  riskTolerance: Joi.string().valid('low', 'medium', 'high').required(),
+  targetAPY: Joi.number().min(0).max(100).required(),
+  maxDrawdown: Joi.number().min(0).max(50).required(),
+  ...profileConstraintFields
+});
+
+const shockFields = {
+  btcPriceChangePct: Joi.number().min(-99).max(500),
+  ethPriceChangePct: Joi.number().min(-99).max(500),
+  fundingFlip: Joi.boolean(),
+  avgFunding: Joi.number().min(-0.1).max(0.1),
+  liquidityMultiplier: Joi.number().min(0).max(10),
+  impliedVol: Joi.number().min(0).max(300),
+  impliedVolChangePct: Joi.number().min(-100).max(500),
+  crossAssetCorr: Joi.number().min(-1).max(1)
+};
+
+const simulationSchema = Joi.object({
+  scenarios: Joi.array().items(Joi.object({
+    name: Joi.string().max(100).optional(),
+    shock: Joi.object(shockFields).required()
+  })).optional(),
+  grid: Joi.object(Object.fromEntries(
+    Object.entries(shockFields).map(([key, schema]) => [key, Joi.array().items(schema).min(1)])
+  )).optional(),
+  includeBaseline: Joi.boolean().optional(),
+  policy: Joi.string().valid('engine', 'rule-based').optional(),
+  preferences: riskConfigSchema.extract('preferences'),
+  profileId: riskConfigSchema.extract('profileId')
+}).or('scenarios', 'grid');
+
+const assetAmount = Joi.string().pattern(/^\d+$/);
+
+const explanationSchema = Joi.object({
+  // The executed config's signature, as read from RiskParams.getQueuedConfig
+  signature: Joi.string().pattern(/^0x[a-fA-F0-9]+$/),
+  decisionId: Joi.string().max(64),
+  epoch: Joi.number().integer().min(0).required(),
+  portfolio: Joi.object({
+    totalAssets: assetAmount.optional(),
+    seniorAssets: assetAmount.optional(),
+    juniorAssets: assetAmount.optional(),
+    pendingDeposits: assetAmount.optional(),
+    pendingWithdrawals: assetAmount.optional(),
+    utilizationRate: Joi.number().integer().min(0).max(10000).optional(),
+    performanceYTD: Joi.number().integer().min(0).optional(),
+    avgHoldingPeriod: Joi.number().integer().min(0).optional()
   }).optional()
+}).xor('signature', 'decisionId');
+
+const queryAnswerSchema = Joi.object({
+  queries: Joi.array().items(Joi.object({
+    queryId: Joi.number().integer().min(1).required(),
+    question: Joi.string().max(1000).required(),
+    epoch: Joi.number().integer().min(0).optional()
+  })).min(1).max(20).required()
+});
+
+// 65-byte EIP-191 signature over CoSignerPolicy.approvalDigest(digest)
+const approvalSchema = Joi.object({
+  signature: Joi.string().pattern(/^0x[0-9a-fA-F]{130}$/).required()
 });
 
 export const validateRiskConfig = (
@@ -34,5 +117,89 @@ export const validateRiskConfig = (
     });
   }
   
-  next();
-};
\ No newline at end of file
+  return next();
+};
+export const validateSimulationRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = simulationSchema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid simulation request',
+      details: error.details.map(d => d.message)
+    });
+  }
+  
+  return next();
+};
+
+export const validateRiskProfile = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = riskProfileSchema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid risk profile',
+      details: error.details.map(d => d.message)
+    });
+  }
+  
+  return next();
+};
+
+export const validateExplanationRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = explanationSchema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid explanation request',
+      details: error.details.map(d => d.message)
+    });
+  }
+  
+  return next();
+};
+
+export const validateQueryAnswerRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = queryAnswerSchema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid query answer request',
+      details: error.details.map(d => d.message)
+    });
+  }
+  
+  return next();
+};
+
+export const validateApproval = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = approvalSchema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid approval',
+      details: error.details.map(d => d.message)
+    });
+  }
+  
+  return next();
+};
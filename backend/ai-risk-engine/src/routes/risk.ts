@@ -1,18 +1,174 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
 import { RiskEngine } from '../services/RiskEngine';
 import { MarketDataService } from '../services/MarketDataService';
 import { SigningService } from '../services/SigningService';
+import { DecisionLedger } from '../services/DecisionLedger';
+import { SignatureAuditLog } from '../services/SignatureAuditLog';
+import { EnsembleEngine } from '../services/EnsembleEngine';
+import { BASELINE_SCENARIO, ScenarioSimulator } from '../services/ScenarioSimulator';
+import { ProfileAccessError, RiskProfileStore } from '../services/RiskProfileStore';
+import { PreferenceConstraintError } from '../services/PreferenceConstraints';
+import { ExplanationService } from '../services/ExplanationService';
+import { ApprovalError, CoSignerPolicy } from '../services/signers';
+import {
+  AIPreferences,
+  DecisionRecord,
+  DecisionSource,
+  DecisionStatus,
+  MarketData,
+  MarketScenario,
+  RiskConfig,
+  RiskConfigSignature,
+  RiskDecision
+} from '../types';
 import { logger } from '../utils/logger';
-import { validateRiskConfig } from '../middleware/validation';
+import { metrics } from '../utils/metrics';
+import {
+  validateApproval,
+  validateExplanationRequest,
+  validateQueryAnswerRequest,
+  validateRiskConfig,
+  validateRiskProfile,
+  validateSimulationRequest
+} from '../middleware/validation';
+import { principalOf, refundSigningQuota, requireScope, signingQuota } from '../middleware/auth';
 
 const router = Router();
-const riskEngine = new RiskEngine();
+const decisionLedger = new DecisionLedger();
+const riskEngine = new RiskEngine(decisionLedger);
 const marketDataService = new MarketDataService();
 const signingService = new SigningService();
+const signatureAudit = new SignatureAuditLog();
+const profileStore = new RiskProfileStore();
+const ensembleEngine = new EnsembleEngine(riskEngine);
+const explanationService = new ExplanationService(decisionLedger, riskEngine.getStrategyUniverse());
+const scenarioSimulator = new ScenarioSimulator(riskEngine, decide);
+const ruleBasedSimulator = new ScenarioSimulator(riskEngine, async (marketData, preferences) =>
+  riskEngine.ruleBasedDecision(marketData, preferences));
+
+// RISK_ENGINE_MODE=ensemble routes signed configs through multi-model consensus
+async function decide(marketData: MarketData, preferences?: AIPreferences): Promise<RiskDecision> {
+  const startedAt = Date.now();
+  // One read of the executed config, so the prompt, the allocator and the change limiter agree
+  const previous = await riskEngine.getExecutedConfig();
+  const proposed = process.env.RISK_ENGINE_MODE === 'ensemble'
+    ? (await ensembleEngine.run(marketData, preferences, false, previous)).decision
+    : await riskEngine.generateDecision(marketData, preferences, previous);
+  const decision = await riskEngine.limitChangeRate(proposed, preferences, previous);
+  return { ...decision, processingTimeMs: Date.now() - startedAt };
+}
+
+function auditSignature(
+  req: Request,
+  res: Response,
+  result: { decisionId?: string; nonce?: number; signer?: string; error?: unknown }
+): void {
+  const principal = principalOf(res);
+  metrics.signatures.inc({ outcome: result.error ? 'failed' : 'signed' });
+  signatureAudit.record({
+    at: Date.now(),
+    keyId: principal.keyId,
+    keyName: principal.name,
+    authMethod: principal.method,
+    ip: req.ip,
+    route: `${req.method} ${req.baseUrl}${req.path}`,
+    outcome: result.error ? 'failed' : 'signed',
+    decisionId: result.decisionId,
+    nonce: result.nonce,
+    signer: result.signer,
+    error: result.error instanceof Error ? result.error.message : result.error ? String(result.error) : undefined
+  });
+}
+
+// Only the signing call itself is audited as a failed signature; errors before it are not signing attempts
+async function signAudited(req: Request, res: Response, config: RiskConfig): Promise<RiskConfigSignature> {
+  try {
+    return await signingService.signRiskConfig(config);
+  } catch (error) {
+    auditSignature(req, res, { error });
+    throw error;
+  }
+}
+
+// Approval progress for a decision held for co-signers; carries the signature once released
+function approvalResponse(record: DecisionRecord) {
+  const policy = signingService.getCoSignerPolicy();
+  return {
+    ...record.config,
+    decisionId: record.id,
+    status: record.status,
+    signature: record.signature,
+    nonce: record.nonce,
+    signer: record.signer,
+    signatureMode: record.signatureMode,
+    digest: record.digest,
+    // What co-signers sign, as an EIP-191 message
+    approvalDigest: record.digest ? CoSignerPolicy.approvalDigest(record.digest) : undefined,
+    approvals: (record.approvals || []).map(a => ({ signer: a.signer, at: a.at })),
+    required: policy.threshold,
+    cosigners: policy.getCosigners(),
+    expiresAt: record.createdAt + policy.ttlMs,
+    provenance: riskEngine.getProvenance(record),
+    timestamp: record.updatedAt
+  };
+}
+
+// Signs an approved decision for the nonce co-signers approved; if RiskParams moved on they approved a stale config
+async function releaseSignature(req: Request, res: Response, record: DecisionRecord): Promise<DecisionRecord> {
+  // Without a readable nonce we cannot tell whether the approval is still current; the approval stays recorded
+  const onChainNonce = await signingService.fetchOnChainNonce().catch(() => {
+    throw new ApprovalError('RiskParams nonce unavailable, retry the approval later', 503);
+  });
+  if (onChainNonce !== record.nonce) {
+    throw new ApprovalError(`RiskParams nonce moved past ${record.nonce}, request a new decision`, 409);
+  }
+
+  try {
+    const signed = await signingService.signRiskConfig(record.config, { nonce: record.nonce });
+    if (signed.digest !== record.digest) {
+      throw new Error('Signed digest differs from the approved digest');
+    }
+    auditSignature(req, res, { decisionId: record.id, nonce: signed.nonce, signer: signed.signer });
+    return decisionLedger.recordSignature(record.id, signed) || record;
+  } catch (error) {
+    auditSignature(req, res, { decisionId: record.id, error });
+    throw error;
+  }
+}
+
+// Share of recent signed decisions that may fall back to rules before /status reports degraded
+const FALLBACK_DEGRADED_RATE = parseFloat(process.env.STATUS_DEGRADED_FALLBACK_RATE || '0.5');
+
+// A stored profile, with any request preferences layered on top, or the request preferences alone
+function resolvePreferences(res: Response, profileId?: string, preferences?: AIPreferences): AIPreferences | undefined {
+  if (!profileId) return preferences;
+  const principal = principalOf(res);
+  return profileStore.resolve(profileId, principal.keyId, principal.scopes.includes('admin'), preferences);
+}
+
+// Profile lookups and unsatisfiable constraints are the caller's problem, not ours
+function sendProfileError(res: Response, error: unknown): boolean {
+  if (error instanceof ProfileAccessError) {
+    res.status(error.status).json({ error: error.message });
+    return true;
+  }
+  if (error instanceof PreferenceConstraintError) {
+    res.status(422).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+const canRead = requireScope('risk:read');
+const canSimulate = requireScope('risk:simulate');
+// Explanations and answers sign nothing but expose full decision records to the keeper
+const canExplain = requireScope('risk:explain');
+const canSign = requireScope('risk:sign');
 
 // Get current risk parameters
-router.get('/current', async (_req, res) => {
+router.get('/current', canRead, async (_req, res) => {
   try {
+    await decisionLedger.syncOnChainStatus();
     const currentConfig = await riskEngine.getCurrentConfig();
     res.json(currentConfig);
   } catch (error) {
@@ -22,20 +178,40 @@ router.get('/current', async (_req, res) => {
 });
 
 // Generate next epoch parameters
-router.get('/next', async (_req, res) => {
+router.get('/next', canSign, signingQuota, async (req, res) => {
+  let signingAttempted = false;
   try {
     // Fetch market data
     const marketData = await marketDataService.getMarketData();
     
     // Generate risk parameters using AI
-    const riskConfig = await riskEngine.generateRiskParams(marketData);
+    const decision = await decide(marketData);
+    metrics.recordDecision(decision.source);
+    const riskConfig = decision.config;
+    
+    // With co-signers configured nothing is signed until they approve the digest
+    if (signingService.getCoSignerPolicy().enabled) {
+      const intent = await signingService.prepare(riskConfig);
+      const record = decisionLedger.recordDecision(decision, marketData, undefined, intent);
+      return res.status(202).json(approvalResponse(record));
+    }
     
-    // Sign the configuration
-    const signature = signingService.signRiskConfig(riskConfig);
+    // Sign the configuration against the current RiskParams nonce
+    signingAttempted = true;
+    const signed = await signAudited(req, res, riskConfig);
+    const { signature, nonce, signer, mode } = signed;
+    
+    const record = decisionLedger.recordDecision(decision, marketData, undefined, signed);
+    auditSignature(req, res, { decisionId: record.id, nonce, signer });
     
     const response = {
       ...riskConfig,
+      decisionId: record.id,
       signature,
+      nonce,
+      signer,
+      signatureMode: mode,
+      provenance: riskEngine.getProvenance(decision),
       timestamp: Date.now(),
       marketData: {
         btcPrice: marketData.btcPrice,
@@ -49,20 +225,26 @@ router.get('/next', async (_req, res) => {
     logger.info('Generated new risk parameters', { 
       epochLength: riskConfig.epochLength,
       seniorTargetBps: riskConfig.seniorTargetBps,
-      confidence: riskConfig.confidence 
+      confidence: riskConfig.confidence,
+      source: decision.source,
+      repairedFields: decision.repairs.length
     });
     
-    res.json(response);
+    return res.json(response);
   } catch (error) {
     logger.error('Failed to generate next config:', error);
-    res.status(500).json({ error: 'Failed to generate risk parameters' });
+    // A failed signing attempt still counts against the quota
+    if (!signingAttempted) refundSigningQuota(res);
+    return res.status(500).json({ error: 'Failed to generate risk parameters' });
   }
 });
 
 // Manual parameter generation with custom inputs
-router.post('/generate', validateRiskConfig, async (req, res) => {
+router.post('/generate', canSign, validateRiskConfig, signingQuota, async (req, res) => {
+  let signingAttempted = false;
   try {
-    const { marketOverrides, preferences } = req.body;
+    const { marketOverrides, profileId } = req.body;
+    const preferences = resolvePreferences(res, profileId, req.body.preferences);
     
     // Get base market data
     const baseMarketData = await marketDataService.getMarketData();
@@ -71,31 +253,162 @@ router.post('/generate', validateRiskConfig, async (req, res) => {
     const marketData = { ...baseMarketData, ...marketOverrides };
     
     // Generate parameters with preferences
-    const riskConfig = await riskEngine.generateRiskParams(marketData, preferences);
+    const decision = await decide(marketData, preferences);
+    metrics.recordDecision(decision.source);
+    const riskConfig = decision.config;
     
-    // Sign the configuration
-    const signature = signingService.signRiskConfig(riskConfig);
+    // With co-signers configured nothing is signed until they approve the digest
+    if (signingService.getCoSignerPolicy().enabled) {
+      const intent = await signingService.prepare(riskConfig);
+      const record = decisionLedger.recordDecision(decision, marketData, preferences, intent);
+      return res.status(202).json(approvalResponse(record));
+    }
     
-    res.json({
+    // Sign the configuration against the current RiskParams nonce
+    signingAttempted = true;
+    const signed = await signAudited(req, res, riskConfig);
+    const { signature, nonce, signer, mode } = signed;
+    
+    const record = decisionLedger.recordDecision(decision, marketData, preferences, signed);
+    auditSignature(req, res, { decisionId: record.id, nonce, signer });
+    
+    return res.json({
       ...riskConfig,
+      decisionId: record.id,
       signature,
+      nonce,
+      signer,
+      signatureMode: mode,
+      provenance: riskEngine.getProvenance(decision),
       timestamp: Date.now(),
       marketData
     });
   } catch (error) {
     logger.error('Failed to generate custom config:', error);
-    res.status(400).json({ error: 'Failed to generate custom parameters' });
+    if (!signingAttempted) refundSigningQuota(res);
+    if (sendProfileError(res, error)) return;
+    return res.status(400).json({ error: 'Failed to generate custom parameters' });
+  }
+});
+
+// What-if simulation: scenarios run through the policy unsigned and unrecorded
+router.post('/simulate', canSimulate, validateSimulationRequest, async (req, res) => {
+  try {
+    const { scenarios = [], grid, includeBaseline = true, policy = 'engine', profileId } = req.body;
+    const preferences = resolvePreferences(res, profileId, req.body.preferences);
+    
+    const requested: MarketScenario[] = [
+      ...(includeBaseline ? [BASELINE_SCENARIO] : []),
+      ...scenarios.map((s: MarketScenario, i: number) => ({ name: s.name || `scenario-${i + 1}`, shock: s.shock })),
+      ...(grid ? ScenarioSimulator.expandGrid(grid) : [])
+    ];
+    
+    const baseMarketData = await marketDataService.getMarketData();
+    const simulator = policy === 'rule-based' ? ruleBasedSimulator : scenarioSimulator;
+    const results = await simulator.run(baseMarketData, requested, preferences);
+    
+    res.json({
+      policy,
+      timestamp: Date.now(),
+      results,
+      // One flat row per scenario for side-by-side review
+      comparison: results.map(({ scenario, marketData, decision, projection }) => ({
+        scenario: scenario.name,
+        regime: marketData.regime?.regime,
+        source: decision.source,
+        epochLength: decision.config.epochLength,
+        seniorTargetBps: decision.config.seniorTargetBps,
+        maxDrawdownBps: decision.config.maxDrawdownBps,
+        slippageBps: decision.config.slippageBps,
+        targetWeightsBps: decision.config.targetWeightsBps,
+        confidence: decision.config.confidence,
+        seniorReturnBps: projection.seniorReturnBps,
+        juniorReturnBps: projection.juniorReturnBps,
+        couponShortfall: projection.couponShortfall,
+        drawdownStop: projection.drawdownStop
+      }))
+    });
+  } catch (error) {
+    logger.error('Failed to run simulation:', error);
+    if (sendProfileError(res, error)) return;
+    res.status(400).json({
+      error: 'Failed to run simulation',
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+});
+
+// Per-agent ensemble proposals and consensus (unsigned, for inspection)
+router.get('/ensemble', canSimulate, async (req, res) => {
+  try {
+    const marketData = await marketDataService.getMarketData();
+    const result = await ensembleEngine.run(marketData, undefined, req.query.battle === 'true');
+    
+    res.json({
+      consensus: result.decision.config,
+      provenance: riskEngine.getProvenance(result.decision),
+      proposals: result.proposals,
+      dispersion: result.dispersion,
+      battleProposals: result.battleProposals,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    logger.error('Failed to run ensemble:', error);
+    res.status(500).json({ error: 'Failed to run ensemble' });
+  }
+});
+
+// Query the decision ledger
+router.get('/history', canRead, async (req, res) => {
+  try {
+    await decisionLedger.syncOnChainStatus();
+    
+    const { records, total } = decisionLedger.query({
+      limit: Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 500),
+      offset: parseInt(String(req.query.offset || '0'), 10) || 0,
+      source: req.query.source as DecisionSource | undefined,
+      status: req.query.status as DecisionStatus | undefined
+    });
+    
+    res.json({ total, records });
+  } catch (error) {
+    logger.error('Failed to query decision history:', error);
+    res.status(500).json({ error: 'Failed to retrieve decision history' });
+  }
+});
+
+router.get('/history/:id', canRead, async (req, res) => {
+  try {
+    await decisionLedger.syncOnChainStatus();
+    
+    const record = decisionLedger.get(req.params.id);
+    if (!record) {
+      return res.status(404).json({ error: 'Decision not found' });
+    }
+    
+    return res.json(record);
+  } catch (error) {
+    logger.error('Failed to get decision:', error);
+    return res.status(500).json({ error: 'Failed to retrieve decision' });
   }
 });
 
 // Get market signals
-router.get('/signals', async (_req, res) => {
+router.get('/signals', canRead, async (_req, res) => {
   try {
     const signals = await marketDataService.getDetailedSignals();
+    const marketData = await marketDataService.getMarketData();
+    const sources = marketDataService.getFreshness(marketData);
+    const statuses = Object.values(sources).map(s => s.status);
     res.json({
       signals,
       timestamp: Date.now(),
-      freshness: 'live' // Could be 'live', 'cached', 'stale'
+      // Worst status across sources; mock data has no sources and reports 'missing'
+      freshness: statuses.includes('missing') || statuses.length === 0
+        ? 'missing'
+        : statuses.includes('stale') ? 'stale' : 'live',
+      sources,
+      regime: marketData.regime || null
     });
   } catch (error) {
     logger.error('Failed to get market signals:', error);
@@ -103,15 +416,199 @@ router.get('/signals', async (_req, res) => {
   }
 });
 
+// Strategies the engine may allocate to, with caps and current allocations
+router.get('/strategies', canRead, async (_req, res) => {
+  try {
+    const universe = riskEngine.getStrategyUniverse();
+    const strategies = await universe.refresh();
+    res.json({ source: universe.source, strategies });
+  } catch (error) {
+    logger.error('Failed to get strategy universe:', error);
+    res.status(500).json({ error: 'Failed to retrieve strategies' });
+  }
+});
+
 // Get AI model status
-router.get('/status', (_req, res) => {
+router.get('/status', canRead, (_req, res) => {
+  const { provider, model, prompt } = riskEngine.getProviderInfo();
+  const llmSuccess = metrics.llmRequests.total({ outcome: 'success' });
+  const llmTotal = metrics.llmRequests.total();
+  const fallbackRate = metrics.recentFallbackRate();
+  const latencyP50 = metrics.llmLatency.quantile(0.5);
+  const latencyP95 = metrics.llmLatency.quantile(0.95);
+
   res.json({
-    model: 'gemini-2.0-flash-exp',
-    status: 'operational',
+    provider,
+    model,
+    prompt,
+    // Mostly rule-based output means the model is not actually being used
+    status: fallbackRate !== null && fallbackRate > FALLBACK_DEGRADED_RATE ? 'degraded' : 'operational',
     lastUpdate: new Date().toISOString(),
-    requestsToday: 0, // Could implement actual counting
+    requestsToday: metrics.getRequestsToday(),
+    uptimeSeconds: Math.round((Date.now() - metrics.startedAt) / 1000),
+    decisions: metrics.decisions.byLabel('source'),
+    llm: {
+      requests: llmTotal,
+      successRate: llmTotal > 0 ? llmSuccess / llmTotal : null,
+      fallbacks: metrics.llmFallbacks.byLabel('reason'),
+      parseFailures: metrics.parseFailures.total(),
+      repairedFields: metrics.repairedFields.byLabel('field'),
+      latencyMs: {
+        p50: latencyP50 === null ? null : Math.round(latencyP50 * 1000),
+        p95: latencyP95 === null ? null : Math.round(latencyP95 * 1000)
+      }
+    },
+    cacheHitRate: {
+      riskParams: metrics.cacheHitRate('risk_params'),
+      marketData: metrics.cacheHitRate('market_data')
+    },
+    signatures: metrics.signatures.byLabel('outcome'),
     version: '1.0.0'
   });
 });
 
+// Risk profiles: presets P1-P12 plus profiles owned by the calling key
+router.get('/profiles', canRead, (_req, res) => {
+  const principal = principalOf(res);
+  res.json({ profiles: profileStore.list(principal.keyId, principal.scopes.includes('admin')) });
+});
+
+router.get('/profiles/:id', canRead, (req, res) => {
+  try {
+    const principal = principalOf(res);
+    res.json(profileStore.get(req.params.id, principal.keyId, principal.scopes.includes('admin')));
+  } catch (error) {
+    if (sendProfileError(res, error)) return;
+    logger.error('Failed to get risk profile:', error);
+    res.status(500).json({ error: 'Failed to retrieve risk profile' });
+  }
+});
+
+router.post('/profiles', canSimulate, validateRiskProfile, (req, res) => {
+  try {
+    res.status(201).json(profileStore.create(req.body, principalOf(res).keyId));
+  } catch (error) {
+    logger.error('Failed to create risk profile:', error);
+    res.status(500).json({ error: 'Failed to create risk profile' });
+  }
+});
+
+router.put('/profiles/:id', canSimulate, validateRiskProfile, (req, res) => {
+  try {
+    const principal = principalOf(res);
+    res.json(profileStore.update(req.params.id, req.body, principal.keyId, principal.scopes.includes('admin')));
+  } catch (error) {
+    if (sendProfileError(res, error)) return;
+    logger.error('Failed to update risk profile:', error);
+    res.status(500).json({ error: 'Failed to update risk profile' });
+  }
+});
+
+router.delete('/profiles/:id', canSimulate, (req, res) => {
+  try {
+    const principal = principalOf(res);
+    profileStore.delete(req.params.id, principal.keyId, principal.scopes.includes('admin'));
+    res.status(204).end();
+  } catch (error) {
+    if (sendProfileError(res, error)) return;
+    logger.error('Failed to delete risk profile:', error);
+    res.status(500).json({ error: 'Failed to delete risk profile' });
+  }
+});
+
+// AIExplainabilityPanel entry for an executed decision; the keeper submits it on-chain
+router.post('/explanations', canExplain, validateExplanationRequest, async (req, res) => {
+  try {
+    const { signature, decisionId, epoch, portfolio } = req.body;
+    await decisionLedger.syncOnChainStatus();
+
+    const record = signature ? decisionLedger.findBySignature(signature) : decisionLedger.get(decisionId);
+    if (!record) {
+      return res.status(404).json({ error: 'Decision not found' });
+    }
+
+    return res.json(explanationService.explain(record, epoch, portfolio));
+  } catch (error) {
+    logger.error('Failed to build decision explanation:', error);
+    return res.status(500).json({ error: 'Failed to build explanation' });
+  }
+});
+
+// Answers for UserQuerySubmitted questions, grounded in the decision for each epoch
+router.post('/queries/answer', canExplain, validateQueryAnswerRequest, async (req, res) => {
+  try {
+    const answers = await explanationService.answerQueries(req.body.queries);
+    res.json({ answers });
+  } catch (error) {
+    logger.error('Failed to answer user queries:', error);
+    res.status(500).json({ error: 'Failed to answer queries' });
+  }
+});
+
+// Approval progress for a decision held for co-signers
+router.get('/approvals/:id', canSign, (req, res) => {
+  const record = decisionLedger.get(req.params.id);
+  if (!record || !record.digest) {
+    return res.status(404).json({ error: 'Decision not found' });
+  }
+  return res.json(approvalResponse(record));
+});
+
+// A co-signer's approval; the AI signature is released once the threshold is met
+router.post('/approvals/:id', canSign, validateApproval, async (req, res) => {
+  try {
+    const policy = signingService.getCoSignerPolicy();
+    const record = decisionLedger.get(req.params.id);
+    if (!record || !record.digest) {
+      return res.status(404).json({ error: 'Decision not found' });
+    }
+    if (record.status !== 'pending-approval') {
+      // Already released; late approvals change nothing
+      return res.json(approvalResponse(record));
+    }
+    if (policy.isExpired(record.createdAt)) {
+      throw new ApprovalError('Approval window has closed, request a new decision', 410);
+    }
+
+    const signer = policy.recover(record.digest, req.body.signature);
+    let updated = record;
+    if (!(record.approvals || []).some(a => a.signer === signer)) {
+      updated = decisionLedger.addApproval(record.id, { signer, signature: req.body.signature, at: Date.now() }) || record;
+      logger.info('Co-signer approved decision', {
+        decisionId: record.id,
+        signer,
+        approvals: updated.approvals?.length,
+        required: policy.threshold
+      });
+    }
+
+    if (policy.isMet(updated.approvals)) {
+      updated = await releaseSignature(req, res, updated);
+    }
+    return res.json(approvalResponse(updated));
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Failed to record approval:', error);
+    return res.status(500).json({ error: 'Failed to record approval' });
+  }
+});
+
+// Loaded AI signer keys, the one RiskParams accepts and the co-signer policy
+router.get('/signer', canRead, async (_req, res) => {
+  try {
+    res.json(await signingService.getStatus());
+  } catch (error) {
+    logger.error('Failed to get signer status:', error);
+    res.status(500).json({ error: 'Failed to retrieve signer status' });
+  }
+});
+
+// Who requested which signatures
+router.get('/audit', requireScope('admin'), (req, res) => {
+  const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 1000);
+  res.json({ entries: signatureAudit.recent(limit, req.query.keyId as string | undefined) });
+});
+
 export { router as riskRoutes };
\ No newline at end of file
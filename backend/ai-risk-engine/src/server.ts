@@ -5,7 +5,9 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { riskRoutes } from './routes/risk';
 import { errorHandler } from './middleware/errorHandler';
+import { authenticate } from './middleware/auth';
 import { logger } from './utils/logger';
+import { metrics } from './utils/metrics';
 
 dotenv.config();
 
@@ -25,9 +27,22 @@ app.use(cors({
 app.use(morgan('combined'));
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the exact bytes for HMAC request signatures
+  verify: (req, _res, buf) => { (req as express.Request & { rawBody?: Buffer }).rawBody = buf; }
+}));
 app.use(express.urlencoded({ extended: true }));
 
+// Request counters keyed by the matched route pattern, not the raw URL
+app.use((req, res, next) => {
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    metrics.recordRequest(route, req.method, res.statusCode);
+  });
+  next();
+});
+
 // Health check
 app.get('/health', (_req, res) => {
   res.json({ 
@@ -38,8 +53,17 @@ app.get('/health', (_req, res) => {
   });
 });
 
+// Prometheus scrape endpoint; set METRICS_TOKEN to require a bearer token
+app.get('/metrics', (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.header('Authorization') !== `Bearer ${token}`) {
+    return res.status(401).json({ error: 'Invalid metrics token' });
+  }
+  return res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
 // API routes
-app.use('/api/risk', riskRoutes);
+app.use('/api/risk', authenticate, riskRoutes);
 
 // Error handling
 app.use(errorHandler);
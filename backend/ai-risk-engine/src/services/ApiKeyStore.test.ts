@@ -0,0 +1,45 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHmac } from 'crypto';
+import { ApiKeyStore, HMAC_MAX_SKEW_MS, hmacPayload } from './ApiKeyStore';
+
+describe('ApiKeyStore HMAC authentication', () => {
+  const secret = 'test-secret';
+  let dir: string;
+  let store: ApiKeyStore;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+    const file = path.join(dir, 'api-keys.json');
+    fs.writeFileSync(file, JSON.stringify([{ id: 'keeper', name: 'keeper', scopes: ['risk:read'], hmacSecret: secret }]));
+    store = new ApiKeyStore(file);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const sign = (timestamp: string, url: string) =>
+    createHmac('sha256', secret).update(hmacPayload(timestamp, 'GET', url)).digest('hex');
+
+  it('accepts a signature once and rejects its replay', () => {
+    const timestamp = String(Date.now());
+    const signature = sign(timestamp, '/api/risk/current');
+
+    expect(store.authenticateHmac('keeper', timestamp, signature, 'GET', '/api/risk/current')?.keyId).toBe('keeper');
+    expect(store.authenticateHmac('keeper', timestamp, signature, 'GET', '/api/risk/current')).toBeNull();
+  });
+
+  it('accepts a fresh signature for the same request', () => {
+    const timestamp = String(Date.now() + 1);
+    expect(store.authenticateHmac('keeper', timestamp, sign(timestamp, '/api/risk/current'), 'GET', '/api/risk/current'))
+      .not.toBeNull();
+  });
+
+  it('rejects timestamps outside the skew window', () => {
+    const timestamp = String(Date.now() - HMAC_MAX_SKEW_MS - 1000);
+    expect(store.authenticateHmac('keeper', timestamp, sign(timestamp, '/api/risk/current'), 'GET', '/api/risk/current'))
+      .toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { ApiKeyRecord, ApiPrincipal, ApiScope } from '../types';
+import { logger } from '../utils/logger';
+
+export const API_SCOPES: ApiScope[] = ['risk:read', 'risk:simulate', 'risk:explain', 'risk:sign', 'admin'];
+
+// HMAC requests older or newer than this are rejected; inside it each signature is accepted once
+export const HMAC_MAX_SKEW_MS = 5 * 60 * 1000;
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = Number(process.env.RISK_API_RATE_LIMIT_PER_MINUTE) || 60;
+const DEFAULT_DAILY_SIGNATURE_QUOTA = Number(process.env.RISK_API_DAILY_SIGNATURE_QUOTA) || 200;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Canonical string covered by X-Signature: timestamp, method, path+query and body hash
+export function hmacPayload(timestamp: string, method: string, url: string, body: Buffer | string = ''): string {
+  const bodyHash = createHash('sha256').update(body).digest('hex');
+  return `${timestamp}\n${method.toUpperCase()}\n${url}\n${bodyHash}`;
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && left.length > 0 && timingSafeEqual(left, right);
+}
+
+/**
+ * API keys live in a JSON file (RISK_API_KEYS_FILE, default data/api-keys.json):
+ * an array of ApiKeyRecord. Bearer keys are stored as sha256 hashes; HMAC keys
+ * carry the shared secret.
+ */
+export class ApiKeyStore {
+  private keys = new Map<string, ApiKeyRecord>();
+  // Accepted HMAC signatures by keyId, until their timestamp leaves the skew window.
+  // In memory only: replays across a restart or another replica are not caught
+  private seenSignatures = new Map<string, number>();
+  private filePath: string;
+
+  constructor(filePath = process.env.RISK_API_KEYS_FILE || 'data/api-keys.json') {
+    this.filePath = path.resolve(filePath);
+    this.load();
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  authenticateApiKey(key: string): ApiPrincipal | null {
+    const hash = hashApiKey(key);
+    const record = Array.from(this.keys.values()).find(r => r.keyHash && safeEqualHex(r.keyHash, hash));
+    return record && !record.disabled ? this.toPrincipal(record, 'api-key') : null;
+  }
+
+  authenticateHmac(
+    keyId: string,
+    timestamp: string,
+    signature: string,
+    method: string,
+    url: string,
+    body?: Buffer
+  ): ApiPrincipal | null {
+    const record = this.keys.get(keyId);
+    if (!record?.hmacSecret || record.disabled) return null;
+
+    const sentAt = Number(timestamp);
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > HMAC_MAX_SKEW_MS) return null;
+
+    const expected = createHmac('sha256', record.hmacSecret)
+      .update(hmacPayload(timestamp, method, url, body))
+      .digest('hex');
+    if (!safeEqualHex(expected, signature)) return null;
+
+    // The signature covers the timestamp, so keyId + signature identifies the request
+    const now = Date.now();
+    for (const [seen, expiresAt] of this.seenSignatures) {
+      if (expiresAt < now) this.seenSignatures.delete(seen);
+    }
+    const replayKey = `${keyId}:${signature.toLowerCase()}`;
+    if (this.seenSignatures.has(replayKey)) {
+      logger.warn('Rejected replayed HMAC request', { keyId, method, url });
+      return null;
+    }
+    this.seenSignatures.set(replayKey, sentAt + HMAC_MAX_SKEW_MS);
+    return this.toPrincipal(record, 'hmac');
+  }
+
+  anonymous(): ApiPrincipal {
+    return {
+      keyId: 'anonymous',
+      name: 'anonymous',
+      // Anonymous callers never get more than read access
+      scopes: process.env.RISK_API_ALLOW_ANONYMOUS_READ === 'false' ? [] : ['risk:read'],
+      method: 'anonymous',
+      rateLimitPerMinute: DEFAULT_RATE_LIMIT_PER_MINUTE,
+      dailySignatureQuota: 0
+    };
+  }
+
+  private toPrincipal(record: ApiKeyRecord, method: ApiPrincipal['method']): ApiPrincipal {
+    return {
+      keyId: record.id,
+      name: record.name,
+      scopes: record.scopes,
+      method,
+      rateLimitPerMinute: record.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+      dailySignatureQuota: record.dailySignatureQuota ?? DEFAULT_DAILY_SIGNATURE_QUOTA
+    };
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      logger.warn('No API key file found; only anonymous read access is available', { path: this.filePath });
+      return;
+    }
+
+    try {
+      const records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as ApiKeyRecord[];
+      for (const record of records) {
+        const unknownScopes = record.scopes.filter(s => !API_SCOPES.includes(s));
+        if (!record.id || (!record.keyHash && !record.hmacSecret) || unknownScopes.length > 0) {
+          logger.error(`Skipping invalid API key entry "${record.id}"`, { unknownScopes });
+          continue;
+        }
+        this.keys.set(record.id, record);
+      }
+      logger.info('API keys loaded', { path: this.filePath, keys: this.keys.size });
+    } catch (error) {
+      logger.error('Failed to load API keys:', error);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { ChangeViolation, OnChainRiskConfig, RiskConfig } from '../types';
+import { CHANGE_LIMITS, RISK_BOUNDS } from '../config/risk';
+import { toExactBps } from '../utils/weights';
+
+const SCALAR_FIELDS = ['epochLength', 'seniorTargetBps', 'maxDrawdownBps', 'slippageBps'] as const;
+
+/**
+ * Smooths consecutive configs: each scalar moves at most its CHANGE_LIMITS
+ * delta per epoch and weights move along a turnover budget. Configs with
+ * confidence below MIN_CONFIDENCE only get LARGE_MOVE_SHARE of each limit.
+ */
+export class ChangeRateLimiter {
+  constructor(
+    private limits = CHANGE_LIMITS,
+    // Previous strategies that left the registry are dropped rather than wound down
+    private isKnownStrategy: (address: string) => boolean = () => true
+  ) {}
+
+  apply(config: RiskConfig, previous: OnChainRiskConfig | null): { config: RiskConfig; violations: ChangeViolation[] } {
+    if (!previous) return { config, violations: [] };
+
+    const confident = config.confidence >= this.limits.MIN_CONFIDENCE;
+    const share = confident ? 1 : this.limits.LARGE_MOVE_SHARE;
+    const lowConfidence = `confidence ${config.confidence} is below ${this.limits.MIN_CONFIDENCE} required for large moves`;
+    const violations: ChangeViolation[] = [];
+    const result: RiskConfig = { ...config };
+
+    for (const field of SCALAR_FIELDS) {
+      const limit = Math.round(this.limits[field] * share);
+      const delta = config[field] - previous[field];
+      if (Math.abs(delta) <= limit) continue;
+
+      const applied = previous[field] + Math.sign(delta) * limit;
+      result[field] = applied;
+      violations.push({
+        field,
+        previous: previous[field],
+        proposed: config[field],
+        applied,
+        limit,
+        reason: Math.abs(delta) <= this.limits[field] ? lowConfidence : `moves more than ${this.limits[field]} per epoch`
+      });
+    }
+
+    const budget = Math.round(this.limits.TURNOVER_BUDGET_BPS * share);
+    const weights = this.limitTurnover(config, previous, budget);
+    if (weights) {
+      violations.push({
+        field: 'targetWeightsBps',
+        previous: previous.targetWeightsBps,
+        proposed: config.targetWeightsBps,
+        applied: weights.targetWeightsBps,
+        limit: budget,
+        reason: weights.turnover <= this.limits.TURNOVER_BUDGET_BPS
+          ? lowConfidence
+          : `turnover of ${weights.turnover} bps exceeds the ${this.limits.TURNOVER_BUDGET_BPS} bps budget`
+      });
+      Object.assign(result, {
+        strategies: weights.strategies,
+        targetWeightsBps: weights.targetWeightsBps,
+        caps: weights.caps
+      });
+    }
+
+    return { config: result, violations };
+  }
+
+  // Moves weights from previous toward proposed by at most `budget` one-way turnover
+  private limitTurnover(
+    config: RiskConfig,
+    previous: OnChainRiskConfig,
+    budget: number
+  ): { strategies: string[]; targetWeightsBps: number[]; caps: number[]; turnover: number } | null {
+    const key = (address: string) => address.toLowerCase();
+    const proposed = new Map(config.strategies.map((s, i) => [key(s), config.targetWeightsBps[i]]));
+    const before = new Map(previous.strategies.map((s, i) => [key(s), previous.targetWeightsBps[i] ?? 0]));
+
+    // Union keeps strategies being wound down until their weight reaches zero
+    const strategies = [
+      ...config.strategies,
+      ...previous.strategies.filter(s => this.isKnownStrategy(s) && !proposed.has(key(s)))
+    ];
+    const from = toExactBps(strategies.map(s => before.get(key(s)) ?? 0));
+    const to = strategies.map(s => proposed.get(key(s)) ?? 0);
+    if (from.every(w => w === 0)) return null;
+
+    const turnover = Math.round(to.reduce((sum, w, i) => sum + Math.abs(w - from[i]), 0) / 2);
+    if (turnover <= budget) return null;
+
+    const step = budget / turnover;
+    const blended = toExactBps(from.map((w, i) => w + (to[i] - w) * step), RISK_BOUNDS.TOTAL_WEIGHT_BPS);
+    const previousCaps = new Map(previous.strategies.map((s, i) => [key(s), previous.caps[i]]));
+    const caps = strategies.map((s, i) => i < config.caps.length ? config.caps[i] : previousCaps.get(key(s)) ?? 0);
+
+    // Strategies fully wound down leave the config
+    const keep = blended.map((w, i) => w > 0 || i < config.strategies.length);
+    return {
+      strategies: strategies.filter((_, i) => keep[i]),
+      targetWeightsBps: blended.filter((_, i) => keep[i]),
+      caps: caps.filter((_, i) => keep[i]),
+      turnover
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { DecisionLedger } from './DecisionLedger';
+import { MarketData, RiskConfigSignature, RiskDecision } from '../types';
+
+const STRATEGY = ethers.utils.getAddress('0x00000000000000000000000000000000000000a1');
+const RISK_PARAMS = ethers.utils.getAddress('0x00000000000000000000000000000000000000b1');
+const ENV = { ...process.env };
+
+const CONFIG_TUPLE = 'tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps)';
+const riskParams = new ethers.utils.Interface([
+  `function getCurrentConfig() external view returns (${CONFIG_TUPLE})`,
+  `function getQueuedConfig() external view returns (tuple(${CONFIG_TUPLE} config, bytes signature, uint256 queuedAt, bool executed))`
+]);
+
+const marketData: MarketData = {
+  btcPrice: 60000,
+  ethPrice: 3000,
+  totalLiquidity: 1e9,
+  avgFunding: 0.01,
+  impliedVol: 45,
+  timestamp: 1_700_000_000_000
+};
+
+const decision = (maxDrawdownBps: number): RiskDecision => ({
+  config: {
+    epochLength: 86400,
+    seniorTargetBps: 7000,
+    maxDrawdownBps,
+    slippageBps: 50,
+    strategies: [STRATEGY],
+    targetWeightsBps: [10000],
+    caps: [2_000_000]
+  },
+  source: 'rule-based',
+  adjustments: [],
+  processingTimeMs: 3
+} as unknown as RiskDecision);
+
+const signed = (signature: string, nonce: number): RiskConfigSignature => ({
+  signature,
+  signer: ethers.utils.getAddress('0x00000000000000000000000000000000000000c1'),
+  nonce,
+  mode: 'eip191',
+  digest: ethers.utils.id(`digest-${nonce}`)
+});
+
+describe('DecisionLedger', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    process.env = { ...ENV };
+    delete process.env.RISK_PARAMS_ADDRESS;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'decision-ledger-'));
+    file = path.join(dir, 'decisions.jsonl');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...ENV };
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends every change as a line and replays them into the same records', () => {
+    const ledger = new DecisionLedger(file);
+    const first = ledger.recordDecision(decision(2000), marketData, undefined, signed('0xaa', 1));
+    const second = ledger.recordDecision(decision(2500), marketData);
+    ledger.updateStatus(first.id, 'queued', { queuedAt: 1000 });
+    ledger.updateStatus(first.id, 'executed', { executedAt: 2000 });
+    ledger.markExplained(first.id, 7);
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.type)).toEqual(['decision', 'decision', 'status', 'status', 'explained']);
+
+    const replayed = new DecisionLedger(file);
+    expect(replayed.get(first.id)).toEqual(ledger.get(first.id));
+    expect(replayed.get(first.id)).toMatchObject({ status: 'executed', queuedAt: 1000, executedAt: 2000, explainedEpoch: 7 });
+    expect(replayed.get(second.id)!.status).toBe('generated');
+    expect(replayed.getLatest('executed')!.id).toBe(first.id);
+    expect(replayed.findByEpoch(7)!.id).toBe(first.id);
+  });
+
+  it('skips corrupt lines and status changes for unknown decisions on replay', () => {
+    const ledger = new DecisionLedger(file);
+    const record = ledger.recordDecision(decision(2000), marketData);
+    fs.appendFileSync(file, '{"type":"status","id":"missing","status":"executed","at":1}\nnot json\n');
+    ledger.updateStatus(record.id, 'queued', { queuedAt: 1000 });
+
+    const replayed = new DecisionLedger(file);
+
+    expect(replayed.query().total).toBe(1);
+    expect(replayed.get(record.id)!.status).toBe('queued');
+  });
+
+  it('holds an unsigned intent for approval until its signature is recorded', () => {
+    const ledger = new DecisionLedger(file);
+    const { signature: _signature, signer: _signer, ...intent } = signed('0xbb', 4);
+    const record = ledger.recordDecision(decision(2000), marketData, undefined, intent);
+    expect(record).toMatchObject({ status: 'pending-approval', nonce: 4, signature: undefined });
+
+    ledger.addApproval(record.id, { signer: STRATEGY, signature: '0x01', at: 10 });
+    ledger.recordSignature(record.id, signed('0xbb', 4));
+
+    const replayed = new DecisionLedger(file);
+    expect(replayed.get(record.id)).toMatchObject({
+      status: 'generated',
+      signature: '0xbb',
+      approvals: [{ signer: STRATEGY, signature: '0x01', at: 10 }]
+    });
+    expect(replayed.findBySignature('0xBB')!.id).toBe(record.id);
+  });
+
+  describe('against RiskParams', () => {
+    let queued: { signature: string; queuedAt: number; executed: boolean };
+
+    beforeEach(() => {
+      process.env.RISK_PARAMS_ADDRESS = RISK_PARAMS;
+      process.env.RISE_RPC_URL = 'http://127.0.0.1:8545';
+      jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'detectNetwork')
+        .mockResolvedValue({ chainId: 1337, name: 'test' });
+      jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'call').mockImplementation(async tx => {
+        const config = [86400, 7000, 3100, 77, [STRATEGY], [10000], [2_000_000]];
+        const { name } = riskParams.parseTransaction({ data: String((tx as ethers.providers.TransactionRequest).data) });
+        return name === 'getCurrentConfig'
+          ? riskParams.encodeFunctionResult(name, [config])
+          : riskParams.encodeFunctionResult(name, [[config, queued.signature, queued.queuedAt, queued.executed]]);
+      });
+    });
+
+    it('moves the decision whose signature is queued on chain to queued, then executed', async () => {
+      const ledger = new DecisionLedger(file);
+      const other = ledger.recordDecision(decision(2000), marketData, undefined, signed('0xaa', 1));
+      const record = ledger.recordDecision(decision(2500), marketData, undefined, signed('0xbbcc', 2));
+
+      queued = { signature: '0xBBCC', queuedAt: 1_700_000_000, executed: false };
+      await ledger.syncOnChainStatus();
+      expect(ledger.get(record.id)).toMatchObject({ status: 'queued', queuedAt: 1_700_000_000_000 });
+
+      queued = { ...queued, executed: true };
+      await ledger.syncOnChainStatus();
+      expect(ledger.get(record.id)!.status).toBe('executed');
+      expect(ledger.get(other.id)!.status).toBe('generated');
+    });
+
+    it('leaves the ledger alone when the queued signature is not one of its decisions', async () => {
+      const ledger = new DecisionLedger(file);
+      const record = ledger.recordDecision(decision(2000), marketData, undefined, signed('0xaa', 1));
+      const lines = fs.readFileSync(file, 'utf8');
+
+      queued = { signature: '0xdead', queuedAt: 1_700_000_000, executed: true };
+      await ledger.syncOnChainStatus();
+
+      expect(ledger.get(record.id)!.status).toBe('generated');
+      expect(fs.readFileSync(file, 'utf8')).toBe(lines);
+    });
+
+    it('reads the executed config from RiskParams ahead of the ledger', async () => {
+      const ledger = new DecisionLedger(file);
+      const record = ledger.recordDecision(decision(2000), marketData);
+      ledger.updateStatus(record.id, 'executed', { executedAt: 1 });
+
+      expect(await ledger.getExecutedConfig()).toMatchObject({ maxDrawdownBps: 3100, slippageBps: 77, caps: [2_000_000] });
+    });
+  });
+});
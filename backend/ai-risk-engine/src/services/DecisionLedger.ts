@@ -0,0 +1,307 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import {
+  AIPreferences,
+  CoSignerApproval,
+  DecisionRecord,
+  DecisionSource,
+  DecisionStatus,
+  MarketData,
+  OnChainRiskConfig,
+  RiskConfigSignature,
+  RiskDecision,
+  SigningIntent
+} from '../types';
+import { logger } from '../utils/logger';
+
+const RISK_PARAMS_ABI = [
+  'function getCurrentConfig() external view returns (tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps))',
+  'function getQueuedConfig() external view returns (tuple(tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps) config, bytes signature, uint256 queuedAt, bool executed))'
+];
+
+// Each line is either a full decision or a status change for an earlier decision.
+// The file is append-only so auditors can replay exactly what the engine saw.
+type LedgerEntry =
+  | { type: 'decision'; record: DecisionRecord }
+  | { type: 'status'; id: string; status: DecisionStatus; at: number; queuedAt?: number; executedAt?: number }
+  | { type: 'explained'; id: string; epoch: number; at: number }
+  | { type: 'approval'; id: string; approval: CoSignerApproval }
+  | { type: 'signed'; id: string; signed: RiskConfigSignature; at: number };
+
+export interface DecisionQuery {
+  limit?: number;
+  offset?: number;
+  source?: DecisionSource;
+  status?: DecisionStatus;
+}
+
+export class DecisionLedger {
+  private filePath: string;
+  private records = new Map<string, DecisionRecord>();
+  private riskParams: ethers.Contract | null = null;
+
+  constructor(filePath = process.env.DECISION_LEDGER_PATH || 'data/decisions.jsonl') {
+    this.filePath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.load();
+
+    if (process.env.RISK_PARAMS_ADDRESS && process.env.RISE_RPC_URL) {
+      const provider = new ethers.providers.JsonRpcProvider(process.env.RISE_RPC_URL);
+      this.riskParams = new ethers.Contract(process.env.RISK_PARAMS_ADDRESS, RISK_PARAMS_ABI, provider);
+    }
+
+    logger.info('Decision ledger loaded', { path: this.filePath, records: this.records.size });
+  }
+
+  recordDecision(
+    decision: RiskDecision,
+    marketData: MarketData,
+    preferences?: AIPreferences,
+    // An intent without a signature waits for co-signer approval
+    signed?: RiskConfigSignature | SigningIntent
+  ): DecisionRecord {
+    const now = Date.now();
+    const signature = signed && 'signature' in signed ? signed : undefined;
+    const record: DecisionRecord = {
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      config: decision.config,
+      source: decision.source,
+      adjustments: decision.adjustments,
+      repairs: decision.repairs,
+      changeViolations: decision.changeViolations,
+      origin: decision.origin,
+      processingTimeMs: decision.processingTimeMs,
+      prompt: decision.prompt,
+      marketData,
+      preferences,
+      signature: signature?.signature,
+      signer: signature?.signer,
+      nonce: signed?.nonce,
+      signatureMode: signed?.mode,
+      digest: signed?.digest,
+      status: signed && !signature ? 'pending-approval' : 'generated'
+    };
+
+    this.append({ type: 'decision', record });
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  updateStatus(
+    id: string,
+    status: DecisionStatus,
+    timestamps: { queuedAt?: number; executedAt?: number } = {}
+  ): DecisionRecord | null {
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+
+    const entry: LedgerEntry = { type: 'status', id, status, at: Date.now(), ...timestamps };
+    this.append(entry);
+    this.apply(entry);
+    return this.records.get(id) || null;
+  }
+
+  addApproval(id: string, approval: CoSignerApproval): DecisionRecord | null {
+    if (!this.records.has(id)) {
+      return null;
+    }
+
+    const entry: LedgerEntry = { type: 'approval', id, approval };
+    this.append(entry);
+    this.apply(entry);
+    return this.records.get(id) || null;
+  }
+
+  // Attaches the AI signature to an approved decision, which then proceeds as generated
+  recordSignature(id: string, signed: RiskConfigSignature): DecisionRecord | null {
+    if (!this.records.has(id)) {
+      return null;
+    }
+
+    const entry: LedgerEntry = { type: 'signed', id, signed, at: Date.now() };
+    this.append(entry);
+    this.apply(entry);
+    return this.records.get(id) || null;
+  }
+
+  get(id: string): DecisionRecord | null {
+    return this.records.get(id) || null;
+  }
+
+  query(query: DecisionQuery = {}): { total: number; records: DecisionRecord[] } {
+    const matching = Array.from(this.records.values())
+      .filter(r => !query.source || r.source === query.source)
+      .filter(r => !query.status || r.status === query.status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const offset = query.offset || 0;
+    const limit = query.limit || 50;
+    return {
+      total: matching.length,
+      records: matching.slice(offset, offset + limit)
+    };
+  }
+
+  getLatest(status?: DecisionStatus): DecisionRecord | null {
+    return this.query({ status, limit: 1 }).records[0] || null;
+  }
+
+  findBySignature(signature: string): DecisionRecord | null {
+    const wanted = signature.toLowerCase();
+    return Array.from(this.records.values()).find(r => r.signature?.toLowerCase() === wanted) || null;
+  }
+
+  // Newest decision explained for a vault epoch
+  findByEpoch(epoch: number): DecisionRecord | null {
+    return Array.from(this.records.values())
+      .filter(r => r.explainedEpoch === epoch)
+      .sort((a, b) => b.createdAt - a.createdAt)[0] || null;
+  }
+
+  markExplained(id: string, epoch: number): DecisionRecord | null {
+    if (!this.records.has(id)) {
+      return null;
+    }
+
+    const entry: LedgerEntry = { type: 'explained', id, epoch, at: Date.now() };
+    this.append(entry);
+    this.apply(entry);
+    return this.records.get(id) || null;
+  }
+
+  /**
+   * Last config executed on RiskParams, which change-rate limits are measured
+   * against. Falls back to the newest executed ledger record when RiskParams
+   * is not configured or unreachable; null before the first execution.
+   */
+  async getExecutedConfig(): Promise<OnChainRiskConfig | null> {
+    if (this.riskParams) {
+      try {
+        const current = await this.riskParams.getCurrentConfig();
+        // An unset config has no strategies
+        if (current.strategies.length > 0) {
+          return {
+            epochLength: current.epochLength.toNumber(),
+            seniorTargetBps: current.seniorTargetBps.toNumber(),
+            maxDrawdownBps: current.maxDrawdownBps.toNumber(),
+            slippageBps: current.slippageBps.toNumber(),
+            strategies: [...current.strategies],
+            targetWeightsBps: current.targetWeightsBps.map((w: ethers.BigNumber) => w.toNumber()),
+            // Caps are signed as-is, so they come back in config units
+            caps: current.caps.map((c: ethers.BigNumber) => Number(c.toString()))
+          };
+        }
+      } catch (error) {
+        logger.warn('Failed to read current config from RiskParams', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return this.getLatest('executed')?.config || null;
+  }
+
+  // Matches the config currently queued on RiskParams back to the decision that produced it
+  async syncOnChainStatus(): Promise<void> {
+    if (!this.riskParams) {
+      return;
+    }
+
+    try {
+      const queued = await this.riskParams.getQueuedConfig();
+      const queuedAt = queued.queuedAt.toNumber();
+      if (queuedAt === 0) {
+        return;
+      }
+
+      const record = this.findBySignature(String(queued.signature));
+      if (!record) {
+        return;
+      }
+
+      if (record.status === 'generated') {
+        this.updateStatus(record.id, 'queued', { queuedAt: queuedAt * 1000 });
+      }
+      if (queued.executed && record.status !== 'executed') {
+        // RiskParams does not store execution time; this is when the engine first saw it
+        this.updateStatus(record.id, 'executed', { executedAt: Date.now() });
+      }
+    } catch (error) {
+      logger.warn('Failed to sync decision ledger with RiskParams', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line) as LedgerEntry);
+      } catch (error) {
+        logger.error(`Skipping corrupt decision ledger line ${index + 1}`);
+      }
+    }
+  }
+
+  private apply(entry: LedgerEntry): void {
+    if (entry.type === 'decision') {
+      this.records.set(entry.record.id, entry.record);
+      return;
+    }
+
+    const record = this.records.get(entry.id);
+    if (!record) return;
+
+    if (entry.type === 'explained') {
+      this.records.set(entry.id, { ...record, explainedEpoch: entry.epoch, updatedAt: entry.at });
+      return;
+    }
+
+    if (entry.type === 'approval') {
+      this.records.set(entry.id, {
+        ...record,
+        approvals: [...(record.approvals || []), entry.approval],
+        updatedAt: entry.approval.at
+      });
+      return;
+    }
+
+    if (entry.type === 'signed') {
+      this.records.set(entry.id, {
+        ...record,
+        signature: entry.signed.signature,
+        signer: entry.signed.signer,
+        nonce: entry.signed.nonce,
+        signatureMode: entry.signed.mode,
+        digest: entry.signed.digest,
+        status: 'generated',
+        updatedAt: entry.at
+      });
+      return;
+    }
+
+    this.records.set(entry.id, {
+      ...record,
+      status: entry.status,
+      updatedAt: entry.at,
+      queuedAt: entry.queuedAt ?? record.queuedAt,
+      executedAt: entry.executedAt ?? record.executedAt
+    });
+  }
+
+  private append(entry: LedgerEntry): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+  }
+}
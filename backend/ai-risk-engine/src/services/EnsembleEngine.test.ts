@@ -0,0 +1,127 @@
+import { EnsembleEngine, EnsembleMember, membersFromEnv } from './EnsembleEngine';
+import { RiskEngine } from './RiskEngine';
+import { LLMProvider, MarketData, OnChainRiskConfig, RiskConfig, RiskDecision } from '../types';
+
+const marketData: MarketData = {
+  btcPrice: 60000,
+  ethPrice: 3000,
+  totalLiquidity: 1e9,
+  avgFunding: 0.01,
+  impliedVol: 45,
+  timestamp: Date.now()
+};
+
+const llm = (model: string): LLMProvider => ({
+  name: 'replay',
+  settings: { model, timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+  generate: async () => 'unused'
+});
+
+describe('EnsembleEngine', () => {
+  let engine: RiskEngine;
+  let baseline: RiskConfig;
+  // What each member "proposes", keyed by model; an Error makes the member fail
+  let answers: Record<string, Partial<RiskConfig> | 'rule-based' | Error>;
+
+  const members = (...names: string[]): EnsembleMember[] =>
+    names.map((name, i) => ({ agentId: `${name}-${i}`, llm: llm(name), variant: 'baseline' }));
+
+  beforeEach(() => {
+    engine = new RiskEngine();
+    baseline = engine.ruleBasedDecision(marketData).config;
+    answers = {};
+    jest.spyOn(engine, 'getExecutedConfig').mockResolvedValue(null);
+    jest.spyOn(engine, 'proposeWith').mockImplementation(async (provider): Promise<RiskDecision> => {
+      const answer = answers[provider.settings.model];
+      if (answer instanceof Error) throw answer;
+      return {
+        config: answer === 'rule-based' ? baseline : { ...baseline, ...answer },
+        source: answer === 'rule-based' ? 'rule-based' : 'ai',
+        adjustments: [],
+        repairs: []
+      };
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('drops a member far from the others and takes the median of the rest', async () => {
+    answers = {
+      a: { maxDrawdownBps: 2000 },
+      b: { maxDrawdownBps: 2100 },
+      c: { maxDrawdownBps: 2050 },
+      d: { maxDrawdownBps: 4900 }
+    };
+
+    const { decision, proposals, dispersion } = await new EnsembleEngine(engine, members('a', 'b', 'c', 'd')).run(marketData);
+
+    expect(proposals.map(p => p.outlier)).toEqual([false, false, false, true]);
+    expect(decision.source).toBe('ensemble');
+    expect(decision.config.maxDrawdownBps).toBe(2050);
+    expect(decision.origin!.model.split(',')).toHaveLength(3);
+    expect(dispersion.maxDrawdownBps).toBeCloseTo(50 / 2050);
+    expect(decision.config.targetWeightsBps.reduce((a, b) => a + b, 0)).toBe(10000);
+  });
+
+  it('flags no one when most members disagree', async () => {
+    answers = {
+      a: { maxDrawdownBps: 1000 },
+      b: { maxDrawdownBps: 2500 },
+      c: { maxDrawdownBps: 4000 }
+    };
+
+    const { proposals, decision } = await new EnsembleEngine(engine, members('a', 'b', 'c'), 0.5).run(marketData);
+
+    expect(proposals.some(p => p.outlier)).toBe(false);
+    expect(decision.config.maxDrawdownBps).toBe(2500);
+  });
+
+  it('scales confidence by the share of members that answered', async () => {
+    answers = { a: { maxDrawdownBps: 2000 }, b: { maxDrawdownBps: 2000 }, c: { maxDrawdownBps: 2000 } };
+    const unanimous = await new EnsembleEngine(engine, members('a', 'b', 'c')).run(marketData);
+
+    answers = { a: { maxDrawdownBps: 2000 }, b: { maxDrawdownBps: 2000 }, c: new Error('timeout') };
+    const reduced = await new EnsembleEngine(engine, members('a', 'b', 'c')).run(marketData);
+
+    expect(unanimous.decision.config.confidence).toBe(100);
+    expect(reduced.decision.config.confidence).toBe(67);
+    expect(reduced.proposals[2]).toMatchObject({ error: 'timeout' });
+  });
+
+  it('falls back to rules anchored on the executed config when no member has a model opinion', async () => {
+    const executed = { ...baseline, maxDrawdownBps: 1800 } as OnChainRiskConfig;
+    answers = { a: 'rule-based', b: new Error('quota exceeded') };
+    const ruleBased = jest.spyOn(engine, 'ruleBasedDecision');
+
+    const { decision, proposals } = await new EnsembleEngine(engine, members('a', 'b')).run(marketData, undefined, false, executed);
+
+    expect(decision.source).toBe('rule-based');
+    expect(proposals.map(p => !!p.error)).toEqual([false, true]);
+    expect(ruleBased).toHaveBeenCalledWith(marketData, undefined, executed);
+  });
+
+  it('anchors every member on one read of the executed config', async () => {
+    answers = { a: {}, b: {} };
+
+    await new EnsembleEngine(engine, members('a', 'b')).run(marketData);
+
+    expect(engine.getExecutedConfig).toHaveBeenCalledTimes(1);
+    expect(engine.proposeWith).toHaveBeenCalledWith(expect.anything(), marketData, undefined, 'baseline', { previous: null });
+  });
+});
+
+describe('membersFromEnv', () => {
+  it('parses provider, variant and model for each member', () => {
+    const parsed = membersFromEnv('replay:defensive, replay:yield-seeking:recorded, replay');
+
+    expect(parsed.map(m => [m.agentId, m.variant, m.llm.settings.model])).toEqual([
+      ['replay-defensive-0', 'defensive', expect.any(String)],
+      ['replay-yield-seeking-1', 'yield-seeking', 'recorded'],
+      ['replay-baseline-2', 'baseline', expect.any(String)]
+    ]);
+  });
+
+  it('rejects an unknown prompt variant', () => {
+    expect(() => membersFromEnv('replay:reckless')).toThrow('Unknown prompt variant "reckless"');
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  AIPreferences,
+  BattleProposal,
+  EnsembleProposal,
+  EnsembleResult,
+  LLMProvider,
+  LLMProviderName,
+  MarketData,
+  OnChainRiskConfig,
+  RiskConfig,
+  RiskDecision
+} from '../types';
+import { RiskEngine } from './RiskEngine';
+import { createLLMProvider } from './llm';
+import { PROMPT_VARIANTS, PromptVariant } from '../config/risk';
+import { median, mad } from '../utils/stats';
+import { toExactBps } from '../utils/weights';
+import { logger } from '../utils/logger';
+
+export interface EnsembleMember {
+  agentId: string;
+  llm: LLMProvider;
+  variant: PromptVariant;
+}
+
+// Modified z-score cut-off (Iglewicz & Hoaglin)
+const DEFAULT_MAD_THRESHOLD = 3.5;
+// Relative dispersion at which consensus confidence reaches zero
+const MAX_RELATIVE_DISPERSION = 0.25;
+const SCALAR_FIELDS = ['epochLength', 'seniorTargetBps', 'maxDrawdownBps', 'slippageBps'] as const;
+
+/**
+ * Parses RISK_ENSEMBLE_MEMBERS, e.g. "gemini:baseline,gemini:defensive,openai:yield-seeking:gpt-4o".
+ * Each entry is provider[:variant[:model]].
+ */
+export function membersFromEnv(spec = process.env.RISK_ENSEMBLE_MEMBERS || 'gemini:baseline,gemini:defensive,gemini:yield-seeking'): EnsembleMember[] {
+  return spec.split(',').map(s => s.trim()).filter(Boolean).map((entry, index) => {
+    const [provider, variant = 'baseline', model] = entry.split(':');
+    if (!(variant in PROMPT_VARIANTS)) {
+      throw new Error(`Unknown prompt variant "${variant}" in RISK_ENSEMBLE_MEMBERS`);
+    }
+    return {
+      agentId: `${provider}-${variant}-${index}`,
+      llm: createLLMProvider(provider as LLMProviderName, model ? { model } : {}),
+      variant: variant as PromptVariant
+    };
+  });
+}
+
+export class EnsembleEngine {
+  private riskEngine: RiskEngine;
+  private members: EnsembleMember[];
+  private madThreshold: number;
+
+  constructor(
+    riskEngine: RiskEngine,
+    members: EnsembleMember[] = membersFromEnv(),
+    madThreshold = Number(process.env.RISK_ENSEMBLE_MAD_THRESHOLD) || DEFAULT_MAD_THRESHOLD
+  ) {
+    this.riskEngine = riskEngine;
+    this.members = members;
+    this.madThreshold = madThreshold;
+  }
+
+  async run(
+    marketData: MarketData,
+    preferences?: AIPreferences,
+    includeBattleProposals = false,
+    previous?: OnChainRiskConfig | null
+  ): Promise<EnsembleResult> {
+    // Every member is anchored on the same executed config
+    const executed = previous !== undefined ? previous : await this.riskEngine.getExecutedConfig();
+    const settled = await Promise.allSettled(
+      this.members.map(m => this.riskEngine.proposeWith(m.llm, marketData, preferences, m.variant, { previous: executed }))
+    );
+
+    const proposals: EnsembleProposal[] = settled.map((result, i) => {
+      const member = this.members[i];
+      const base = {
+        agentId: member.agentId,
+        provider: member.llm.name,
+        model: member.llm.settings.model,
+        variant: member.variant,
+        outlierScore: 0,
+        outlier: false
+      };
+      return result.status === 'fulfilled'
+        ? { ...base, decision: result.value }
+        : { ...base, error: result.reason instanceof Error ? result.reason.message : String(result.reason) };
+    });
+
+    // Members that failed or fell back entirely to rules carry no model opinion
+    const candidates = proposals.filter(p => p.decision && p.decision.source !== 'rule-based');
+    if (candidates.length === 0) {
+      logger.warn('No usable ensemble proposals, using rule-based fallback');
+      return {
+        decision: this.riskEngine.ruleBasedDecision(marketData, preferences, executed),
+        proposals,
+        dispersion: {}
+      };
+    }
+
+    this.markOutliers(candidates);
+    const kept = candidates.filter(p => !p.outlier);
+    const consensus = this.buildConsensus(kept, proposals.length);
+    // Medians of individually constrained proposals can still drift past a profile limit
+    const { config, adjustments } = this.riskEngine.constrain(consensus.config, preferences);
+    const { dispersion } = consensus;
+
+    logger.info('Ensemble consensus reached', {
+      members: proposals.length,
+      usable: candidates.length,
+      kept: kept.length,
+      confidence: config.confidence
+    });
+
+    return {
+      decision: {
+        config,
+        source: 'ensemble',
+        adjustments,
+        repairs: [],
+        origin: {
+          provider: 'ensemble',
+          model: kept.map(p => `${p.provider}/${p.model}:${p.variant}`).join(',')
+        },
+        // Members share the active template; only the variant differs
+        prompt: kept.find(p => p.decision?.prompt)?.decision?.prompt
+      },
+      proposals,
+      dispersion,
+      battleProposals: includeBattleProposals ? this.toBattleProposals(candidates) : undefined
+    };
+  }
+
+  private metrics(config: RiskConfig): Record<string, number> {
+    const values: Record<string, number> = {};
+    for (const field of SCALAR_FIELDS) {
+      values[field] = config[field];
+    }
+    config.strategies.forEach((strategy, i) => {
+      values[`weight:${strategy}`] = config.targetWeightsBps[i];
+    });
+    return values;
+  }
+
+  private markOutliers(candidates: EnsembleProposal[]): void {
+    // Too few voices to call anyone an outlier
+    if (candidates.length < 3) return;
+
+    const metricSets = candidates.map(p => this.metrics(p.decision!.config));
+    const keys = Array.from(new Set(metricSets.flatMap(m => Object.keys(m))));
+
+    for (const key of keys) {
+      const values = metricSets.map(m => m[key] ?? 0);
+      const center = median(values);
+      // Floor the MAD so near-unanimous integer fields don't flag tiny differences
+      const spread = Math.max(mad(values), Math.abs(center) * 0.02, 1);
+      values.forEach((value, i) => {
+        const score = (0.6745 * Math.abs(value - center)) / spread;
+        candidates[i].outlierScore = Math.max(candidates[i].outlierScore, score);
+      });
+    }
+
+    const flagged = candidates.filter(p => p.outlierScore > this.madThreshold);
+    // If most members "disagree", there is no majority to measure against
+    if (flagged.length * 2 >= candidates.length) return;
+    flagged.forEach(p => { p.outlier = true; });
+  }
+
+  private buildConsensus(
+    kept: EnsembleProposal[],
+    totalMembers: number
+  ): { config: RiskConfig; dispersion: Record<string, number> } {
+    const configs = kept.map(p => p.decision!.config);
+    const dispersion: Record<string, number> = {};
+
+    const consensusOf = (key: string, values: number[]) => {
+      const center = median(values);
+      dispersion[key] = center === 0 ? 0 : mad(values) / Math.abs(center);
+      return center;
+    };
+
+    // Union of strategies in first-seen order; a proposal without a strategy votes 0 for it
+    const strategies = Array.from(new Set(configs.flatMap(c => c.strategies)));
+    const weightVotes = strategies.map(strategy => consensusOf(
+      `weight:${strategy}`,
+      configs.map(c => {
+        const i = c.strategies.indexOf(strategy);
+        return i === -1 ? 0 : c.targetWeightsBps[i];
+      })
+    ));
+    const capVotes = strategies.map(strategy => median(
+      configs.filter(c => c.strategies.includes(strategy))
+        .map(c => Number(c.caps[c.strategies.indexOf(strategy)]))
+    ));
+
+    const active = strategies.map((_, i) => i).filter(i => weightVotes[i] > 0);
+    const allocation = active.length > 0 ? active : strategies.map((_, i) => i);
+
+    const scalars = Object.fromEntries(SCALAR_FIELDS.map(field => [
+      field,
+      Math.round(consensusOf(field, configs.map(c => c[field])))
+    ])) as Record<typeof SCALAR_FIELDS[number], number>;
+
+    const meanDispersion = Object.values(dispersion).reduce((a, b) => a + b, 0) /
+      Math.max(1, Object.keys(dispersion).length);
+    const agreement = 1 - Math.min(1, meanDispersion / MAX_RELATIVE_DISPERSION);
+    const confidence = Math.round(100 * agreement * (kept.length / totalMembers));
+
+    // Narrative and signals come from the proposal nearest the consensus
+    const anchor = [...kept].sort((a, b) => a.outlierScore - b.outlierScore)[0].decision!.config;
+
+    return {
+      config: {
+        ...scalars,
+        strategies: allocation.map(i => strategies[i]),
+        targetWeightsBps: toExactBps(allocation.map(i => weightVotes[i])),
+        caps: allocation.map(i => capVotes[i]),
+        reasons: [
+          `Consensus of ${kept.length}/${totalMembers} agents (mean relative dispersion ${(meanDispersion * 100).toFixed(1)}%)`,
+          ...anchor.reasons
+        ],
+        confidence,
+        signals: anchor.signals
+      },
+      dispersion
+    };
+  }
+
+  private toBattleProposals(candidates: EnsembleProposal[]): BattleProposal[] {
+    return candidates.map(p => {
+      const decision = p.decision as RiskDecision;
+      // The first strategy is the conservative sleeve backing the senior tranche
+      const seniorWeightBps = decision.config.targetWeightsBps[0] ?? 0;
+      return {
+        agentId: p.agentId,
+        model: p.model,
+        seniorWeightBps,
+        juniorWeightBps: 10000 - seniorWeightBps,
+        reasoning: decision.config.reasons.join(' ').substring(0, 500),
+        confidence: Math.round(decision.config.confidence * 100)
+      };
+    });
+  }
+}
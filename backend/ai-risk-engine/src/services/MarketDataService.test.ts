@@ -0,0 +1,116 @@
+import * as http from '../utils/http';
+import { MarketDataService } from './MarketDataService';
+import { PriceAggregator } from './exchanges';
+import { AggregatedQuote } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.now();
+
+// A week of hourly bars closing alternately at the base price and 1% (log) above it
+function klines(base: number, skip?: number) {
+  return Array.from({ length: 168 }, (_, i) => i)
+    .filter(i => i !== skip)
+    .map(i => {
+      const openTime = now - (168 - i) * HOUR;
+      const close = base * Math.exp(i % 2 === 0 ? 0 : 0.01);
+      return [openTime, close, close * 1.005, close * 0.995, close, 10, openTime + HOUR - 1].map(String);
+    });
+}
+
+const quote = (price: number): AggregatedQuote => ({
+  price,
+  volume: 1e9,
+  priceChange24h: 0,
+  sourceCount: 1,
+  sources: ['binance'],
+  rejected: [],
+  stalenessMs: 0,
+  stale: false,
+  timestamp: now
+});
+
+describe('MarketDataService', () => {
+  let fetched: string[];
+
+  beforeEach(() => {
+    fetched = [];
+    jest.spyOn(http, 'safeFetch').mockImplementation(async (url: string) => {
+      fetched.push(url);
+      if (url.includes('/klines?symbol=BTCUSDT')) return klines(60000);
+      // ETH is missing one bar; returns must still pair up by open time
+      if (url.includes('/klines?symbol=ETHUSDT')) return klines(3000, 100);
+      if (url.includes('/historicalFunding/BTC-USD')) {
+        return { historicalFunding: [{ rate: '0.0001', effectiveAt: new Date(now - 3 * HOUR).toISOString() }] };
+      }
+      if (url.includes('/historicalFunding/ETH-USD')) {
+        return { historicalFunding: [{ rate: '0.0002', effectiveAt: new Date(now - 3 * HOUR).toISOString() }] };
+      }
+      if (url.includes('/perpetualMarkets')) {
+        const ticker = url.split('ticker=')[1];
+        return { markets: { [ticker]: { openInterest: '100', oraclePrice: '1000' } } };
+      }
+      if (url.includes('/depth?symbol=BTCUSDT')) {
+        // Only the levels within 2% of the 100.5 mid count as depth
+        return { bids: [['100', '10'], ['99', '10'], ['90', '10']], asks: [['101', '10'], ['102', '10'], ['120', '10']] };
+      }
+      return null;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const service = () => {
+    const aggregator = new PriceAggregator([]);
+    jest.spyOn(aggregator, 'getQuote').mockImplementation(async base => quote(base === 'BTC' ? 60000 : 3000));
+    return new MarketDataService(aggregator);
+  };
+
+  it('derives vol, funding, correlation and depth from market history', async () => {
+    const data = await service().getMarketData();
+
+    // Log returns alternate by 1% (their mean is ~0), annualized over hourly bars
+    const hourlyVol = 0.01 * Math.sqrt(167 / 166);
+    expect(data.realizedVol!.btc.closeToClose).toBeCloseTo(hourlyVol * Math.sqrt(24 * 365) * 100, 2);
+    expect(data.impliedVol).toBe(data.realizedVol!.btc.garmanKlass);
+    expect(data.crossAssetCorr).toBeCloseTo(1, 9);
+    // 8h rate from hourly funding, averaged across BTC and ETH
+    expect(data.funding).toEqual({ btc: 0.0008, eth: 0.0016 });
+    expect(data.avgFunding).toBeCloseTo(0.0012, 12);
+    expect(data.orderBookDepth!.btc).toBe(1000 + 990 + 1010 + 1020);
+    // The top levels hold everything in the band and more
+    expect(data.liquidityConcentration).toBe(1);
+    expect(data.regime).toBeDefined();
+  });
+
+  it('records how fresh each source is', async () => {
+    const { freshness } = await service().getMarketData();
+
+    expect(freshness!.ticker.status).toBe('live');
+    expect(freshness!.klines.status).toBe('live');
+    // Funding last settled three hours ago
+    expect(freshness!.funding).toMatchObject({ status: 'stale', dataTimestamp: now - 3 * HOUR });
+    expect(freshness!.orderBook.status).toBe('live');
+  });
+
+  it('serves cached market data and signals without refetching', async () => {
+    const markets = service();
+    await markets.getMarketData();
+    const requests = fetched.length;
+
+    const signals = await markets.getDetailedSignals();
+
+    expect(fetched).toHaveLength(requests);
+    expect(signals.funding.openInterest).toBe(2 * 100 * 1000);
+    expect(signals.technical.resistanceLevel).toBeCloseTo(60000 * Math.exp(0.01) * 1.005, 6);
+  });
+
+  it('falls back to mock data when the price feed fails', async () => {
+    const aggregator = new PriceAggregator([]);
+    jest.spyOn(aggregator, 'getQuote').mockRejectedValue(new Error('venues down'));
+
+    const data = await new MarketDataService(aggregator).getMarketData();
+
+    expect(data).toMatchObject({ btcPrice: 65000, impliedVol: 50 });
+    expect(data.regime).toBeDefined();
+  });
+});
@@ -0,0 +1,121 @@
+import { PreferenceConstraintError, PreferenceConstraints } from './PreferenceConstraints';
+import { RiskEngine } from './RiskEngine';
+import { StrategyUniverse } from './StrategyUniverse';
+import { AIPreferences, LLMProvider, MarketData, RiskConfig } from '../types';
+
+const [A, B, C, D] = ['0x00000000000000000000000000000000000000a1', '0x00000000000000000000000000000000000000a2',
+  '0x00000000000000000000000000000000000000a3', '0x00000000000000000000000000000000000000a4'];
+
+const config: RiskConfig = {
+  epochLength: 86400,
+  seniorTargetBps: 50,
+  maxDrawdownBps: 3000,
+  slippageBps: 50,
+  strategies: [A, B, C, D],
+  targetWeightsBps: [2500, 2500, 2500, 2500],
+  caps: [1000, 2000, 3000, 4000],
+  reasons: [],
+  confidence: 80,
+  signals: {}
+} as unknown as RiskConfig;
+
+const preferences = (extra: Partial<AIPreferences>): AIPreferences =>
+  ({ riskTolerance: 'medium', targetAPY: 10, maxDrawdown: 30, ...extra });
+
+describe('PreferenceConstraints', () => {
+  // A and B are the conservative strategies
+  const constraints = new PreferenceConstraints(strategy => strategy === A || strategy === B);
+
+  it('leaves a config alone without preferences', () => {
+    expect(constraints.apply(config)).toEqual({ config, adjustments: [] });
+  });
+
+  it('keeps whitelisted strategies minus blacklisted ones and renormalizes their weights', () => {
+    const { config: result, adjustments } = constraints.apply(config, preferences({
+      preferredStrategies: [A.replace('a1', 'A1'), B, C],
+      excludedStrategies: [C]
+    }));
+
+    expect(result.strategies).toEqual([A, B]);
+    expect(result.targetWeightsBps).toEqual([5000, 5000]);
+    expect(result.caps).toEqual([1000, 2000]);
+    expect(adjustments.map(a => a.field)).toEqual(['strategies']);
+  });
+
+  it('refuses preferences that exclude every proposed strategy', () => {
+    expect(() => constraints.apply(config, preferences({ excludedStrategies: [A, B, C, D] })))
+      .toThrow(PreferenceConstraintError);
+  });
+
+  it('bounds epoch length, drawdown and risky weight by liquidity need', () => {
+    const { config: result, adjustments } = constraints.apply(config, preferences({ liquidityNeed: 'instant', maxDrawdown: 10 }));
+
+    expect(result).toMatchObject({ epochLength: 14400, maxDrawdownBps: 1000 });
+    // At least 70% stays conservative
+    expect(result.targetWeightsBps).toEqual([3500, 3500, 1500, 1500]);
+    expect(adjustments.map(a => a.field)).toEqual(['epochLength', 'maxDrawdownBps', 'targetWeightsBps']);
+  });
+
+  it('caps non-conservative weight at twice the junior share of the tranche mix', () => {
+    const mix = preferences({ trancheMix: { seniorBps: 9000, juniorBps: 1000 } });
+
+    expect(constraints.apply(config, mix).config.targetWeightsBps).toEqual([4000, 4000, 1000, 1000]);
+    expect(() => constraints.apply(config, { ...mix, excludedStrategies: [A, B] }))
+      .toThrow('requires a conservative strategy');
+  });
+
+  it('takes the tighter of the profile and liquidity epoch limits', () => {
+    expect(constraints.limits(preferences({ maxEpochLength: 3600, liquidityNeed: 'weekly' })).maxEpochLength).toBe(3600);
+    expect(constraints.limits(preferences({ maxEpochLength: 86400, liquidityNeed: '24-72h' })).maxEpochLength).toBe(43200);
+  });
+});
+
+describe('RiskEngine with profile preferences', () => {
+  const marketData: MarketData = {
+    btcPrice: 60000,
+    ethPrice: 3000,
+    totalLiquidity: 1e9,
+    avgFunding: 0.0001,
+    impliedVol: 35,
+    timestamp: Date.now()
+  };
+  const universe = new StrategyUniverse();
+  const [lending, basis, looping, marketMaking] = universe.current().map(s => s.address);
+  const profile = preferences({
+    riskTolerance: 'high',
+    maxDrawdown: 8,
+    excludedStrategies: [marketMaking],
+    trancheMix: { seniorBps: 8500, juniorBps: 1500 },
+    liquidityNeed: '24-72h'
+  });
+
+  it('holds the rule-based output to every profile field', () => {
+    const { config: result } = new RiskEngine(undefined, undefined, universe).ruleBasedDecision(marketData, profile);
+
+    expect(result.strategies).toEqual([lending, basis, looping]);
+    expect(result.epochLength).toBeLessThanOrEqual(43200);
+    expect(result.maxDrawdownBps).toBeLessThanOrEqual(800);
+    expect(result.targetWeightsBps[2]).toBeLessThanOrEqual(3000);
+  });
+
+  it('spells the profile out in the prompt', async () => {
+    const prompts: string[] = [];
+    const llm: LLMProvider = {
+      name: 'replay',
+      settings: { model: 'capture', timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+      generate: async prompt => {
+        prompts.push(prompt);
+        return 'not json';
+      }
+    };
+    const engine = new RiskEngine(undefined, llm, universe);
+    jest.spyOn(engine, 'getExecutedConfig').mockResolvedValue(null);
+
+    await engine.proposeWith(llm, marketData, profile, 'baseline');
+
+    expect(prompts[0]).toContain(`- Never allocate to: ${marketMaking}`);
+    expect(prompts[0]).toContain('- Tranche Mix: 85% senior / 15% junior');
+    expect(prompts[0]).toContain('- Liquidity Need: 24-72h');
+    expect(prompts[0]).toContain('- epochLength must not exceed 43200 seconds');
+  });
+});
@@ -0,0 +1,131 @@
+import { AIPreferences, RiskConfig, SafetyAdjustment } from '../types';
+import { RISK_BOUNDS } from '../config/risk';
+import { JUNIOR_COVERAGE_MULTIPLIER, LIQUIDITY_NEEDS } from '../config/profiles';
+import { toExactBps } from '../utils/weights';
+import { capOutsideGroup } from './allocator';
+
+export class PreferenceConstraintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreferenceConstraintError';
+  }
+}
+
+export interface PreferenceLimits {
+  allowed: (strategy: string) => boolean;
+  maxEpochLength: number;
+  maxDrawdownBps: number;
+  minConservativeWeightBps: number;
+  maxNonConservativeWeightBps: number;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Enforces user/profile preferences on a proposed config, AI or rule-based.
+ * Runs before the global safety bounds, so it only ever tightens.
+ */
+export class PreferenceConstraints {
+  // Risk class comes from the strategy universe; the liquidity floor and
+  // tranche-mix cap are expressed in terms of it
+  constructor(private isConservative: (strategy: string) => boolean) {}
+
+  limits(preferences?: AIPreferences): PreferenceLimits {
+    const total = RISK_BOUNDS.TOTAL_WEIGHT_BPS;
+    const liquidity = preferences?.liquidityNeed ? LIQUIDITY_NEEDS[preferences.liquidityNeed] : undefined;
+    const whitelist = preferences?.preferredStrategies?.length ? preferences.preferredStrategies : undefined;
+    const blacklist = preferences?.excludedStrategies || [];
+    const juniorBps = preferences?.trancheMix?.juniorBps;
+
+    return {
+      allowed: strategy =>
+        (!whitelist || whitelist.some(s => sameAddress(s, strategy))) &&
+        !blacklist.some(s => sameAddress(s, strategy)),
+      maxEpochLength: Math.min(
+        preferences?.maxEpochLength ?? RISK_BOUNDS.epochLength.max,
+        liquidity?.maxEpochLength ?? RISK_BOUNDS.epochLength.max
+      ),
+      maxDrawdownBps: preferences?.maxDrawdown ? preferences.maxDrawdown * 100 : RISK_BOUNDS.maxDrawdownBps.max,
+      minConservativeWeightBps: liquidity?.minConservativeWeightBps ?? 0,
+      maxNonConservativeWeightBps: juniorBps === undefined
+        ? total
+        : Math.min(total, juniorBps * JUNIOR_COVERAGE_MULTIPLIER)
+    };
+  }
+
+  apply(config: RiskConfig, preferences?: AIPreferences): { config: RiskConfig; adjustments: SafetyAdjustment[] } {
+    if (!preferences) return { config, adjustments: [] };
+
+    const limits = this.limits(preferences);
+    const adjustments: SafetyAdjustment[] = [];
+    let result = { ...config };
+
+    const keep = config.strategies.map(limits.allowed);
+    if (keep.some(k => !k)) {
+      const strategies = config.strategies.filter((_, i) => keep[i]);
+      if (strategies.length === 0) {
+        throw new PreferenceConstraintError('Preferences exclude every strategy in the proposed config');
+      }
+      result = {
+        ...result,
+        strategies,
+        targetWeightsBps: toExactBps(config.targetWeightsBps.filter((_, i) => keep[i])),
+        caps: config.caps.filter((_, i) => keep[i])
+      };
+      adjustments.push({
+        field: 'strategies',
+        original: config.strategies,
+        adjusted: strategies,
+        reason: 'Strategy not allowed by whitelist/blacklist'
+      });
+    }
+
+    if (result.epochLength > limits.maxEpochLength) {
+      adjustments.push({
+        field: 'epochLength',
+        original: result.epochLength,
+        adjusted: limits.maxEpochLength,
+        reason: 'Max epoch length / liquidity need'
+      });
+      result.epochLength = limits.maxEpochLength;
+    }
+
+    if (result.maxDrawdownBps > limits.maxDrawdownBps) {
+      adjustments.push({
+        field: 'maxDrawdownBps',
+        original: result.maxDrawdownBps,
+        adjusted: limits.maxDrawdownBps,
+        reason: 'Preferred max drawdown'
+      });
+      result.maxDrawdownBps = limits.maxDrawdownBps;
+    }
+
+    const weights = this.constrainWeights(result, limits);
+    if (JSON.stringify(weights) !== JSON.stringify(result.targetWeightsBps)) {
+      adjustments.push({
+        field: 'targetWeightsBps',
+        original: result.targetWeightsBps,
+        adjusted: weights,
+        reason: 'Tranche mix / liquidity need limits on non-conservative weight'
+      });
+      result.targetWeightsBps = weights;
+    }
+
+    return { config: result, adjustments };
+  }
+
+  // Moves weight from non-conservative strategies into the conservative ones
+  private constrainWeights(config: RiskConfig, limits: PreferenceLimits): number[] {
+    const total = RISK_BOUNDS.TOTAL_WEIGHT_BPS;
+    const maxOther = Math.min(limits.maxNonConservativeWeightBps, total - limits.minConservativeWeightBps);
+    if (maxOther >= total) return config.targetWeightsBps;
+
+    const weights = capOutsideGroup(config.targetWeightsBps, config.strategies.map(this.isConservative), maxOther);
+    if (!weights) {
+      throw new PreferenceConstraintError(
+        'Tranche mix or liquidity need requires a conservative strategy, but none is allowed or proposed'
+      );
+    }
+    return weights;
+  }
+}
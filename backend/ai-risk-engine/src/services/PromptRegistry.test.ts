@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PROMPT_PLACEHOLDERS, PromptContext, PromptRegistry, PromptTemplateError } from './PromptRegistry';
+import { RiskEngine } from './RiskEngine';
+import { LLMProvider, MarketData } from '../types';
+
+const context = Object.fromEntries(PROMPT_PLACEHOLDERS.map(name => [name, `<${name}>`])) as PromptContext;
+
+describe('PromptRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves the checked-in versions by file name with a content hash', () => {
+    const registry = new PromptRegistry('prompts/risk', 'risk-v1');
+
+    expect(registry.list().map(p => p.id)).toEqual(['risk-v1', 'risk-v2']);
+    registry.list().forEach(p => expect(p.hash).toMatch(/^[0-9a-f]{12}$/));
+    expect(registry.get().id).toBe('risk-v1');
+    expect(registry.get('risk-v2').placeholders).toContain('previousConfig');
+  });
+
+  it('fills placeholders and reports which version rendered', () => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'Vol {{impliedVol}} in {{regime}}; again {{impliedVol}}');
+    const registry = new PromptRegistry(dir, 'a');
+
+    const { text, prompt } = registry.render('a', context);
+
+    expect(text).toBe('Vol <impliedVol> in <regime>; again <impliedVol>');
+    expect(prompt).toEqual({ id: 'a', hash: registry.get('a').hash });
+    expect(registry.get('a').placeholders).toEqual(['impliedVol', 'regime']);
+  });
+
+  it('hashes by content, so an edited template is a different prompt', () => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'Vol {{impliedVol}}');
+    const before = new PromptRegistry(dir, 'a').get('a').hash;
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'Volatility {{impliedVol}}');
+
+    expect(new PromptRegistry(dir, 'a').get('a').hash).not.toBe(before);
+  });
+
+  it('skips templates with unknown placeholders and refuses a missing active version', () => {
+    fs.writeFileSync(path.join(dir, 'good.txt'), '{{regime}}');
+    fs.writeFileSync(path.join(dir, 'typo.txt'), '{{regim}}');
+
+    expect(new PromptRegistry(dir, 'good').list().map(p => p.id)).toEqual(['good']);
+    expect(() => new PromptRegistry(dir, 'typo')).toThrow(PromptTemplateError);
+    expect(() => new PromptRegistry(dir, 'good').get('missing')).toThrow('Unknown prompt version missing');
+  });
+
+  it('records the prompt version in every decision the engine generates', async () => {
+    const marketData: MarketData = {
+      btcPrice: 60000,
+      ethPrice: 3000,
+      totalLiquidity: 1e9,
+      avgFunding: 0.0001,
+      impliedVol: 35,
+      timestamp: Date.now()
+    };
+    const llm: LLMProvider = {
+      name: 'replay',
+      settings: { model: 'garbled', timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+      generate: async () => 'not json'
+    };
+    const registry = new PromptRegistry('prompts/risk', 'risk-v1');
+    const engine = new RiskEngine(undefined, llm, undefined, registry);
+    jest.spyOn(engine, 'getExecutedConfig').mockResolvedValue(null);
+
+    const active = await engine.proposeWith(llm, marketData);
+    const pinned = await engine.proposeWith(llm, marketData, undefined, 'baseline', { promptVersion: 'risk-v2' });
+
+    expect(active.prompt).toEqual(registry.list()[0]);
+    expect(pinned.prompt).toEqual(registry.list()[1]);
+  });
+});
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { PromptRef } from '../types';
+import { logger } from '../utils/logger';
+
+// Everything RiskEngine can fill in; templates may use any subset
+export const PROMPT_PLACEHOLDERS = [
+  'variantInstructions',
+  'marketConditions',
+  'regime',
+  'regimeConfidence',
+  'regimeTransitions',
+  'strategyUniverse',
+  'allocatorMode',
+  'maxWeightDeltaBps',
+  'allocatorBaseline',
+  'previousConfig',
+  'preferences',
+  'impliedVol',
+  'fundingRate',
+  'liquidityDepth'
+] as const;
+
+export type PromptPlaceholder = typeof PROMPT_PLACEHOLDERS[number];
+
+export type PromptContext = Record<PromptPlaceholder, string>;
+
+export interface PromptTemplate extends PromptRef {
+  text: string;
+  placeholders: PromptPlaceholder[];
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Versioned risk prompts, one file per version in PROMPT_TEMPLATE_DIR
+ * (default prompts/risk). The file name is the version ID, so a prompt change
+ * is a new file reviewed like any other diff. RISK_PROMPT_VERSION picks the
+ * version served in production.
+ */
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate>();
+  private dir: string;
+  readonly activeId: string;
+
+  constructor(
+    dir = process.env.PROMPT_TEMPLATE_DIR || 'prompts/risk',
+    activeId = process.env.RISK_PROMPT_VERSION || 'risk-v1'
+  ) {
+    this.dir = path.resolve(dir);
+    this.load();
+    if (!this.templates.has(activeId)) {
+      throw new PromptTemplateError(`Active prompt version ${activeId} not found in ${this.dir}`);
+    }
+    this.activeId = activeId;
+  }
+
+  list(): PromptRef[] {
+    return Array.from(this.templates.values()).map(({ id, hash }) => ({ id, hash }));
+  }
+
+  get(id: string = this.activeId): PromptTemplate {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new PromptTemplateError(`Unknown prompt version ${id}`);
+    }
+    return template;
+  }
+
+  render(id: string, context: PromptContext): { text: string; prompt: PromptRef } {
+    const template = this.get(id);
+    const text = template.text.replace(PLACEHOLDER_PATTERN, (_, name: PromptPlaceholder) => context[name]);
+    return { text, prompt: { id: template.id, hash: template.hash } };
+  }
+
+  private load(): void {
+    const files = fs.existsSync(this.dir)
+      ? fs.readdirSync(this.dir).filter(f => f.endsWith('.txt')).sort()
+      : [];
+
+    for (const file of files) {
+      const id = path.basename(file, '.txt');
+      const text = fs.readFileSync(path.join(this.dir, file), 'utf8');
+      const names = Array.from(text.matchAll(PLACEHOLDER_PATTERN), m => m[1]);
+      const unknown = names.filter(n => !(PROMPT_PLACEHOLDERS as readonly string[]).includes(n));
+      if (unknown.length > 0) {
+        logger.error(`Skipping prompt template ${id}: unknown placeholders ${unknown.join(', ')}`);
+        continue;
+      }
+
+      this.templates.set(id, {
+        id,
+        hash: createHash('sha256').update(text).digest('hex').substring(0, 12),
+        text,
+        placeholders: Array.from(new Set(names)) as PromptPlaceholder[]
+      });
+    }
+
+    logger.info('Prompt templates loaded', { dir: this.dir, versions: Array.from(this.templates.keys()) });
+  }
+}
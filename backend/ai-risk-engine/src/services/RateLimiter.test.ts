@@ -0,0 +1,23 @@
+import { RateLimiter } from './RateLimiter';
+
+describe('RateLimiter daily quota', () => {
+  const now = Date.UTC(2026, 0, 15, 12);
+
+  it('returns a refunded unit to the current window', () => {
+    const limiter = new RateLimiter();
+    expect(limiter.consumeDailyQuota('key', 1, now).allowed).toBe(true);
+    expect(limiter.consumeDailyQuota('key', 1, now).allowed).toBe(false);
+
+    limiter.refundDailyQuota('key', now);
+    expect(limiter.consumeDailyQuota('key', 1, now)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('ignores refunds after the window has reset', () => {
+    const limiter = new RateLimiter();
+    limiter.consumeDailyQuota('key', 2, now);
+    const tomorrow = now + 24 * 3600 * 1000;
+
+    limiter.refundDailyQuota('key', tomorrow);
+    expect(limiter.consumeDailyQuota('key', 2, tomorrow).remaining).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch ms when the current window resets
+  resetAt: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const startOfNextUtcDay = (now: number) => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+// Fixed-window counters held in memory; limits reset when the process restarts
+export class RateLimiter {
+  private minuteWindows = new Map<string, { count: number; resetAt: number }>();
+  private dailyQuotas = new Map<string, { count: number; resetAt: number }>();
+
+  hit(key: string, limitPerMinute: number, now = Date.now()): RateLimitResult {
+    return this.consume(this.minuteWindows, key, limitPerMinute, now, () => now + MINUTE_MS);
+  }
+
+  consumeDailyQuota(key: string, quota: number, now = Date.now()): RateLimitResult {
+    return this.consume(this.dailyQuotas, key, quota, now, () => startOfNextUtcDay(now));
+  }
+
+  // Returns a unit taken by consumeDailyQuota; a no-op once its window has reset
+  refundDailyQuota(key: string, now = Date.now()): void {
+    const window = this.dailyQuotas.get(key);
+    if (window && now < window.resetAt && window.count > 0) {
+      window.count--;
+    }
+  }
+
+  private consume(
+    windows: Map<string, { count: number; resetAt: number }>,
+    key: string,
+    limit: number,
+    now: number,
+    nextReset: () => number
+  ): RateLimitResult {
+    let window = windows.get(key);
+    if (!window || now >= window.resetAt) {
+      window = { count: 0, resetAt: nextReset() };
+      windows.set(key, window);
+    }
+
+    if (window.count >= limit) {
+      return { allowed: false, limit, remaining: 0, resetAt: window.resetAt };
+    }
+
+    window.count++;
+    return { allowed: true, limit, remaining: limit - window.count, resetAt: window.resetAt };
+  }
+}
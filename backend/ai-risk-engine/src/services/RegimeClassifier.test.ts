@@ -0,0 +1,123 @@
+import { RegimeClassifier } from './RegimeClassifier';
+import { RiskEngine } from './RiskEngine';
+import { REGIME_RULES } from '../config/risk';
+import { LLMProvider, MarketData } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const start = 1_700_000_000_000;
+
+const calm: MarketData = {
+  btcPrice: 60000,
+  ethPrice: 3000,
+  totalLiquidity: 1e9,
+  avgFunding: 0.0001,
+  impliedVol: 35,
+  crossAssetCorr: 0.6,
+  twapDeviation: 1,
+  timestamp: start
+};
+
+const crisis: MarketData = {
+  ...calm,
+  totalLiquidity: 3e8,
+  avgFunding: -0.0002,
+  impliedVol: 100,
+  crossAssetCorr: 0.95,
+  twapDeviation: 12
+};
+
+// Slightly nearer the trending centroid than the calm one
+const borderline: MarketData = {
+  ...calm,
+  avgFunding: 0.00025,
+  impliedVol: 46,
+  crossAssetCorr: 0.675,
+  twapDeviation: 2.5
+};
+
+const sum = (distribution: Record<string, number>) => Object.values(distribution).reduce((a, b) => a + b, 0);
+
+describe('RegimeClassifier', () => {
+  it('labels snapshots at the calm and crisis centroids', () => {
+    const calmCall = new RegimeClassifier().classify(calm);
+    const crisisCall = new RegimeClassifier().classify(crisis);
+
+    expect(calmCall.regime).toBe('calm');
+    expect(crisisCall.regime).toBe('crisis');
+    expect(crisisCall.confidence).toBeGreaterThan(90);
+    expect(sum(calmCall.probabilities)).toBeCloseTo(1, 3);
+    expect(sum(calmCall.transitions)).toBeCloseTo(1, 3);
+    // Regimes are sticky: calm most likely stays calm
+    expect(calmCall.transitions.calm).toBeGreaterThan(calmCall.transitions.trending);
+  });
+
+  it('keeps the filtered regime through one borderline observation', () => {
+    const classifier = new RegimeClassifier();
+    for (let i = 0; i < 3; i++) {
+      classifier.classify({ ...calm, timestamp: start + i * HOUR });
+    }
+
+    expect(new RegimeClassifier().classify(borderline).regime).toBe('trending');
+    expect(classifier.classify({ ...borderline, timestamp: start + 3 * HOUR }).regime).toBe('calm');
+  });
+
+  it('does not compound repeated calls for the same snapshot', () => {
+    const classifier = new RegimeClassifier();
+    classifier.classify(calm);
+
+    const first = classifier.classify({ ...borderline, timestamp: start + HOUR });
+    const again = classifier.classify({ ...borderline, timestamp: start + HOUR });
+
+    expect(again).toEqual(first);
+  });
+
+  it('forgets its history after a long gap', () => {
+    const classifier = new RegimeClassifier();
+    classifier.classify(calm);
+
+    expect(classifier.classify({ ...borderline, timestamp: start + 25 * HOUR }).regime).toBe('trending');
+  });
+
+  it('leaves unknown funding out of the distance', () => {
+    const { features, regime } = new RegimeClassifier().classify({ ...crisis, avgFunding: undefined });
+
+    expect(features).not.toHaveProperty('funding');
+    expect(features.liquidityGap).toBeCloseTo(Math.log10(1e9 / 3e8), 9);
+    expect(regime).toBe('crisis');
+  });
+});
+
+describe('RiskEngine regimes', () => {
+  it('takes rule-based parameters from the regime table and reports the regime', () => {
+    const engine = new RiskEngine();
+    const regime = new RegimeClassifier().classify(crisis);
+
+    const { config } = engine.ruleBasedDecision({ ...crisis, regime });
+
+    expect(config).toMatchObject({
+      epochLength: REGIME_RULES.crisis.epochLength,
+      seniorTargetBps: REGIME_RULES.crisis.seniorTargetBps,
+      maxDrawdownBps: REGIME_RULES.crisis.maxDrawdownBps
+    });
+    expect(config.signals).toMatchObject({ regime: 'crisis', regimeConfidence: regime.confidence });
+  });
+
+  it('puts the regime and its transition odds into the prompt', async () => {
+    const prompts: string[] = [];
+    const llm: LLMProvider = {
+      name: 'replay',
+      settings: { model: 'capture', timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+      generate: async prompt => {
+        prompts.push(prompt);
+        return 'not json';
+      }
+    };
+    const engine = new RiskEngine(undefined, llm);
+    jest.spyOn(engine, 'getExecutedConfig').mockResolvedValue(null);
+
+    await engine.proposeWith(llm, crisis, undefined, 'baseline');
+
+    expect(prompts[0]).toMatch(/Market Regime: crisis \(confidence \d+%\)/);
+    expect(prompts[0]).toMatch(/Next-period regime probabilities: .*crisis/);
+  });
+});
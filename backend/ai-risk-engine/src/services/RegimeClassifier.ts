@@ -0,0 +1,104 @@
+import { MarketData, MarketRegime, RegimeAssessment } from '../types';
+import {
+  MARKET_REGIMES,
+  REGIME_CENTROIDS,
+  REGIME_FEATURE_SCALES,
+  REGIME_TRANSITIONS
+} from '../config/risk';
+
+type RegimeFeatures = Record<keyof typeof REGIME_FEATURE_SCALES, number>;
+type Distribution = Record<MarketRegime, number>;
+
+// After this long without an observation the filter forgets its posterior
+const FILTER_RESET_MS = 24 * 60 * 60 * 1000;
+
+const uniform = (): Distribution =>
+  Object.fromEntries(MARKET_REGIMES.map(r => [r, 1 / MARKET_REGIMES.length])) as Distribution;
+
+const normalize = (weights: Distribution): Distribution => {
+  const total = MARKET_REGIMES.reduce((sum, r) => sum + weights[r], 0);
+  return Object.fromEntries(
+    MARKET_REGIMES.map(r => [r, total > 0 ? weights[r] / total : 1 / MARKET_REGIMES.length])
+  ) as Distribution;
+};
+
+/**
+ * Labels the market calm / trending / stressed / crisis with a small hidden
+ * Markov model: Gaussian emissions around fixed centroids in scaled feature
+ * space, filtered forward through the prior transition matrix so one noisy
+ * observation doesn't flip the regime.
+ */
+export class RegimeClassifier {
+  private posterior: Distribution | null = null;
+  // The prior the latest snapshot was filtered from
+  private lastPrior: Distribution | null = null;
+  private lastTimestamp = 0;
+
+  classify(marketData: MarketData): RegimeAssessment {
+    const features = this.extractFeatures(marketData);
+
+    // Repeated calls for the same snapshot shouldn't compound the filter
+    const repeat = this.lastPrior !== null && marketData.timestamp === this.lastTimestamp;
+    const stale = marketData.timestamp - this.lastTimestamp > FILTER_RESET_MS ||
+      marketData.timestamp < this.lastTimestamp;
+    const prior = repeat
+      ? this.lastPrior as Distribution
+      : this.posterior && !stale ? this.predict(this.posterior) : uniform();
+
+    const likelihood = Object.fromEntries(
+      MARKET_REGIMES.map(r => [r, Math.exp(-0.5 * this.distanceSquared(features, REGIME_CENTROIDS[r]))])
+    ) as Distribution;
+    const posterior = normalize(
+      Object.fromEntries(MARKET_REGIMES.map(r => [r, prior[r] * likelihood[r]])) as Distribution
+    );
+
+    if (!repeat) {
+      this.posterior = posterior;
+      this.lastPrior = prior;
+      this.lastTimestamp = marketData.timestamp;
+    }
+
+    const regime = MARKET_REGIMES.reduce((best, r) => posterior[r] > posterior[best] ? r : best);
+    return {
+      regime,
+      confidence: Math.round(posterior[regime] * 100),
+      probabilities: this.round(posterior),
+      transitions: this.round(this.predict(posterior)),
+      features
+    };
+  }
+
+  // Unknown funding is left out rather than guessed; the distance then uses the other features
+  private extractFeatures(marketData: MarketData): Partial<RegimeFeatures> {
+    const move = marketData.quotes?.btc?.priceChange24h ?? marketData.twapDeviation ?? 0;
+    return {
+      vol: marketData.impliedVol,
+      ...(marketData.avgFunding !== undefined ? { funding: marketData.avgFunding } : {}),
+      correlation: marketData.crossAssetCorr ?? 0.65,
+      trend: Math.abs(move),
+      liquidityGap: Math.max(0, Math.log10(1e9 / Math.max(marketData.totalLiquidity, 1)))
+    };
+  }
+
+  private distanceSquared(features: Partial<RegimeFeatures>, centroid: RegimeFeatures): number {
+    return (Object.keys(REGIME_FEATURE_SCALES) as Array<keyof RegimeFeatures>).reduce((sum, key) => {
+      const value = features[key];
+      if (value === undefined) return sum;
+      const z = (value - centroid[key]) / REGIME_FEATURE_SCALES[key];
+      return sum + z * z;
+    }, 0);
+  }
+
+  private predict(current: Distribution): Distribution {
+    return Object.fromEntries(MARKET_REGIMES.map(to => [
+      to,
+      MARKET_REGIMES.reduce((sum, from) => sum + current[from] * REGIME_TRANSITIONS[from][to], 0)
+    ])) as Distribution;
+  }
+
+  private round(distribution: Distribution): Distribution {
+    return Object.fromEntries(
+      MARKET_REGIMES.map(r => [r, Number(distribution[r].toFixed(4))])
+    ) as Distribution;
+  }
+}
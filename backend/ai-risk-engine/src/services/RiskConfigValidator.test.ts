@@ -0,0 +1,53 @@
+import { RiskConfigValidator } from './RiskConfigValidator';
+import { RiskConfig } from '../types';
+
+const A = '0xfAF06fdc90399F1206ebE497842351d79e1F81eD';
+const B = '0xDcA77Fa3f7c6C5EA9E03B933e26C5496634756bf';
+const C = '0x59D1D1ECDDfbc245Cf7b250369faA746d39d584A';
+
+const baseline: RiskConfig = {
+  epochLength: 86400,
+  seniorTargetBps: 50,
+  maxDrawdownBps: 2000,
+  slippageBps: 50,
+  strategies: [A, B],
+  targetWeightsBps: [7000, 3000],
+  caps: [5_000_000, 3_000_000],
+  reasons: ['baseline'],
+  confidence: 0.8,
+  signals: { impliedVol: 45, fundingRate: 0.01, liquidityDepth: 1e9, correlation: 0.7, twapDeviation: 0.5 }
+};
+
+describe('RiskConfigValidator allocation repairs', () => {
+  const validator = new RiskConfigValidator();
+
+  it('repairs only the invalid array when the model kept the baseline strategies', () => {
+    const { config, repairs } = validator.validateAndRepair({ ...baseline, targetWeightsBps: [5000, 4000] }, baseline);
+
+    expect(repairs.map(r => r.field)).toEqual(['targetWeightsBps']);
+    expect(config.targetWeightsBps).toEqual(baseline.targetWeightsBps);
+    expect(config.caps).toEqual(baseline.caps);
+  });
+
+  it('swaps the allocation as a unit when the same-length strategy list differs', () => {
+    const { config, repairs } = validator.validateAndRepair(
+      { ...baseline, strategies: [A, C], targetWeightsBps: [5000, 4000], caps: [1_000_000, 1_000_000] },
+      baseline
+    );
+
+    expect(repairs.map(r => r.field)).toEqual(['strategies', 'targetWeightsBps', 'caps']);
+    expect(config.strategies).toEqual([A, B]);
+    expect(config.caps).toEqual(baseline.caps);
+  });
+
+  it('treats a reordered strategy list as different', () => {
+    const { config, repairs } = validator.validateAndRepair(
+      { ...baseline, strategies: [B, A], targetWeightsBps: [5000, 4000], caps: [3_000_000, 5_000_000] },
+      baseline
+    );
+
+    expect(repairs.map(r => r.field)).toEqual(['strategies', 'targetWeightsBps', 'caps']);
+    expect(config.strategies).toEqual([A, B]);
+    expect(config.targetWeightsBps).toEqual([7000, 3000]);
+  });
+});
@@ -0,0 +1,151 @@
+import Joi from 'joi';
+import { ethers } from 'ethers';
+import { FieldRepair, RiskConfig } from '../types';
+import { RISK_BOUNDS } from '../config/risk';
+
+export const RISK_CONFIG_FIELDS = [
+  'epochLength',
+  'seniorTargetBps',
+  'maxDrawdownBps',
+  'slippageBps',
+  'strategies',
+  'targetWeightsBps',
+  'caps',
+  'reasons',
+  'confidence',
+  'signals'
+] as const;
+
+type RiskConfigField = typeof RISK_CONFIG_FIELDS[number];
+
+const bounded = (range: { min: number; max: number }) =>
+  Joi.number().integer().min(range.min).max(range.max).required();
+
+const checksummedAddress = Joi.string().custom((value: string, helpers) => {
+  try {
+    return ethers.utils.getAddress(value) === value ? value : helpers.error('any.invalid');
+  } catch {
+    return helpers.error('any.invalid');
+  }
+}, 'checksummed address');
+
+const signalsSchema = Joi.object({
+  impliedVol: Joi.number().min(0).required(),
+  fundingRate: Joi.number().allow(null).required(),
+  liquidityDepth: Joi.number().min(0).required(),
+  correlation: Joi.number().min(-1).max(1).required(),
+  twapDeviation: Joi.number().min(0).required(),
+  riskScore: Joi.number().min(0).max(100).optional()
+}).unknown(true);
+
+// Scalar fields validate on their own; allocation arrays also depend on strategies.length
+const FIELD_SCHEMAS: Record<Exclude<RiskConfigField, 'targetWeightsBps' | 'caps'>, Joi.Schema> = {
+  epochLength: bounded(RISK_BOUNDS.epochLength),
+  seniorTargetBps: bounded(RISK_BOUNDS.seniorTargetBps),
+  maxDrawdownBps: bounded(RISK_BOUNDS.maxDrawdownBps),
+  slippageBps: bounded(RISK_BOUNDS.slippageBps),
+  strategies: Joi.array().items(checksummedAddress.required()).min(1).unique().required(),
+  reasons: Joi.array().items(Joi.string().min(1)).min(1).required(),
+  confidence: Joi.number().min(RISK_BOUNDS.confidence.min).max(RISK_BOUNDS.confidence.max).required(),
+  signals: signalsSchema.required()
+};
+
+const weightsSchema = (length: number) => Joi.array()
+  .items(Joi.number().integer().min(0).required())
+  .length(length)
+  .custom((weights: number[], helpers) => {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return total === RISK_BOUNDS.TOTAL_WEIGHT_BPS ? weights : helpers.error('any.invalid');
+  }, 'weights sum to 10000 bps')
+  .required();
+
+const capsSchema = (length: number) => Joi.array()
+  .items(Joi.number().min(0).required())
+  .length(length)
+  .required();
+
+// Allocation arrays are positional, so order matters as much as membership
+function sameStrategies(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((address, i) => address.toLowerCase() === b[i].toLowerCase());
+}
+
+export interface ValidationResult {
+  config: RiskConfig;
+  repairs: FieldRepair[];
+}
+
+export class RiskConfigValidator {
+  /**
+   * Validates each field of a model-produced config and replaces only the
+   * invalid ones with the rule-based baseline value.
+   */
+  validateAndRepair(candidate: unknown, baseline: RiskConfig, knownStrategies?: string[]): ValidationResult {
+    const input = (candidate && typeof candidate === 'object' ? candidate : {}) as Record<string, unknown>;
+    const config = {} as Record<RiskConfigField, unknown>;
+    const repairs: FieldRepair[] = [];
+
+    const repair = (field: RiskConfigField, reason: string) => {
+      repairs.push({ field, reason, received: input[field] });
+      config[field] = baseline[field];
+    };
+
+    for (const [field, schema] of Object.entries(FIELD_SCHEMAS) as Array<[RiskConfigField, Joi.Schema]>) {
+      const { error, value } = schema.label(field).validate(input[field]);
+      if (error) {
+        repair(field, error.details[0]?.message || error.message);
+      } else {
+        config[field] = value;
+      }
+    }
+
+    // Only registry strategies may be allocated to
+    if (knownStrategies && !repairs.some(r => r.field === 'strategies')) {
+      const known = new Set(knownStrategies.map(a => a.toLowerCase()));
+      const unknown = (config.strategies as string[]).filter(a => !known.has(a.toLowerCase()));
+      if (unknown.length > 0) {
+        repair('strategies', `not in StrategyRegistry: ${unknown.join(', ')}`);
+      }
+    }
+
+    // Model weights and caps describe the model's strategy list, not the baseline's
+    if (repairs.some(r => r.field === 'strategies')) {
+      repair('targetWeightsBps', 'replaced with baseline to keep allocation arrays aligned');
+      repair('caps', 'replaced with baseline to keep allocation arrays aligned');
+      return { config: config as unknown as RiskConfig, repairs };
+    }
+
+    // Weights and caps must line up with whichever strategies survived validation
+    const strategyCount = (config.strategies as string[]).length;
+    const allocation = {
+      targetWeightsBps: weightsSchema(strategyCount).label('targetWeightsBps').validate(input.targetWeightsBps),
+      caps: capsSchema(strategyCount).label('caps').validate(input.caps)
+    };
+
+    for (const field of ['targetWeightsBps', 'caps'] as const) {
+      const { error, value } = allocation[field];
+      if (!error) {
+        config[field] = value;
+        continue;
+      }
+
+      if (!sameStrategies(baseline.strategies, config.strategies as string[])) {
+        // Baseline arrays are indexed by a different strategy list; swap the allocation as a unit
+        if (!repairs.some(r => r.field === 'strategies')) {
+          repair('strategies', `replaced with baseline so ${field} can be repaired`);
+        }
+        for (const dependent of ['targetWeightsBps', 'caps'] as const) {
+          if (!repairs.some(r => r.field === dependent)) {
+            repair(dependent, dependent === field
+              ? error.details[0]?.message || error.message
+              : 'replaced with baseline to keep allocation arrays aligned');
+          }
+        }
+        break;
+      }
+
+      repair(field, error.details[0]?.message || error.message);
+    }
+
+    return { config: config as unknown as RiskConfig, repairs };
+  }
+}
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RiskEngine } from './RiskEngine';
+import { StrategyUniverse } from './StrategyUniverse';
+import { DecisionLedger } from './DecisionLedger';
+import { PromptRegistry } from './PromptRegistry';
+import { ReplayProvider } from './llm';
+import { LLMProvider, MarketData, OnChainRiskConfig } from '../types';
+
+const FIXTURES = path.resolve(__dirname, '../../fixtures/llm');
+
+const marketData: MarketData = {
+  btcPrice: 60000,
+  ethPrice: 3000,
+  totalLiquidity: 1e9,
+  avgFunding: 0.01,
+  impliedVol: 45,
+  timestamp: Date.now()
+};
+
+describe('RiskEngine.proposeWith with recorded completions', () => {
+  let workDir: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-engine-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  // A replay directory that serves only the named recording
+  function replay(fixture: string): ReplayProvider {
+    const dir = fs.mkdtempSync(path.join(workDir, 'llm-'));
+    fs.copyFileSync(path.join(FIXTURES, fixture), path.join(dir, fixture));
+    return new ReplayProvider({ model: 'replay', timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 }, dir);
+  }
+
+  // A registry holding exactly the strategies the calm-market recording allocates to
+  function recordedUniverse(): StrategyUniverse {
+    const recorded = JSON.parse(fs.readFileSync(path.join(FIXTURES, '000-calm-market.txt'), 'utf8'));
+    const file = path.join(workDir, 'registry.json');
+    fs.writeFileSync(file, JSON.stringify(recorded.strategies.map((address: string, i: number) => ({
+      address,
+      name: `Recorded ${i}`,
+      riskClass: 'moderate',
+      historicalApyBps: 800,
+      cap: 2_000_000,
+      currentAllocation: 0,
+      maxLeverage: 1,
+      active: true
+    }))));
+    return new StrategyUniverse(file);
+  }
+
+  it('keeps every field of a parseable recording that passes validation', async () => {
+    const llm = replay('000-calm-market.txt');
+    const engine = new RiskEngine(undefined, llm, recordedUniverse());
+
+    const decision = await engine.proposeWith(llm, marketData);
+
+    expect(decision.source).toBe('ai');
+    expect(decision.repairs).toEqual([]);
+    expect(decision.origin).toEqual({ provider: 'replay', model: 'replay' });
+    expect(decision.config).toMatchObject({
+      epochLength: 43200,
+      seniorTargetBps: 45,
+      maxDrawdownBps: 2000,
+      slippageBps: 50,
+      strategies: ['0x1234567890123456789012345678901234567890', '0xABcdEFABcdEFabcdEfAbCdefabcdeFABcDEFabCD']
+    });
+    expect(engine.getProvenance(decision).modelCoverage).toBe(1);
+  });
+
+  it('falls back to the rule-based baseline when the recording is not JSON', async () => {
+    const llm = replay('001-unparseable.txt');
+    const engine = new RiskEngine(undefined, llm);
+
+    const decision = await engine.proposeWith(llm, marketData);
+    const baseline = engine.ruleBasedDecision(marketData);
+
+    expect(decision.source).toBe('rule-based');
+    expect(decision.repairs).toEqual([]);
+    expect(decision.config.strategies).toEqual(baseline.config.strategies);
+    expect(decision.config.targetWeightsBps).toEqual(baseline.config.targetWeightsBps);
+    expect(decision.config.epochLength).toBe(baseline.config.epochLength);
+    expect(engine.getProvenance(decision).modelFields).toEqual([]);
+  });
+
+  it('repairs unknown strategies from the baseline and keeps the valid model fields', async () => {
+    const llm = replay('000-calm-market.txt');
+    // The default registry knows none of the recorded strategies
+    const engine = new RiskEngine(undefined, llm);
+
+    const decision = await engine.proposeWith(llm, marketData);
+    const baseline = engine.ruleBasedDecision(marketData);
+
+    expect(decision.source).toBe('hybrid');
+    expect(decision.repairs.map(r => r.field)).toEqual(['strategies', 'targetWeightsBps', 'caps']);
+    expect(decision.repairs[0].reason).toContain('not in StrategyRegistry');
+    expect(decision.config.strategies).toEqual(baseline.config.strategies);
+    expect(decision.config.epochLength).toBe(43200);
+    expect(decision.config.seniorTargetBps).toBe(45);
+    expect(engine.getProvenance(decision).modelFields).not.toContain('strategies');
+  });
+});
+
+describe('RiskEngine.limitChangeRate', () => {
+  it('reports the constrained values when hard constraints override the per-epoch limit', async () => {
+    const baseline = new RiskEngine().ruleBasedDecision(marketData);
+    const { epochLength, seniorTargetBps, slippageBps, strategies, targetWeightsBps, caps } = baseline.config;
+    const previous: OnChainRiskConfig = {
+      epochLength, seniorTargetBps, slippageBps, strategies, targetWeightsBps, caps, maxDrawdownBps: 3000
+    };
+    const ledger = { getExecutedConfig: async () => previous } as unknown as DecisionLedger;
+    const engine = new RiskEngine(ledger);
+
+    // The limiter pulls 4000 back to 3500, then the 15% preference cap forces 1500
+    const decision = await engine.limitChangeRate(
+      { ...baseline, config: { ...baseline.config, maxDrawdownBps: 4000, confidence: 90 } },
+      { riskTolerance: 'high', targetAPY: 10, maxDrawdown: 15 }
+    );
+
+    expect(decision.config.maxDrawdownBps).toBe(1500);
+    const violation = decision.changeViolations!.find(v => v.field === 'maxDrawdownBps');
+    expect(violation).toMatchObject({ previous: 3000, proposed: 4000, applied: 1500 });
+    expect(violation!.reason).toContain('hard constraints moved it past the per-epoch limit');
+  });
+});
+
+describe('RiskEngine executed config', () => {
+  it('anchors the prompt on the on-chain executed config rather than a lagging ledger record', async () => {
+    const baseline = new RiskEngine().ruleBasedDecision(marketData).config;
+    const onChain: OnChainRiskConfig = { ...baseline, maxDrawdownBps: 3100, slippageBps: 77 };
+    const ledger = {
+      getExecutedConfig: jest.fn(async () => onChain),
+      getLatest: jest.fn(() => ({ config: { ...baseline, maxDrawdownBps: 1200, slippageBps: 40 } }))
+    } as unknown as DecisionLedger;
+    const prompts: string[] = [];
+    const llm: LLMProvider = {
+      name: 'replay',
+      settings: { model: 'capture', timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+      generate: async prompt => {
+        prompts.push(prompt);
+        return 'not json';
+      }
+    };
+    // risk-v2 is the template that renders the previous executed config
+    const engine = new RiskEngine(ledger, llm, new StrategyUniverse(), new PromptRegistry('prompts/risk', 'risk-v2'));
+
+    const previous = await engine.getExecutedConfig();
+    const decision = await engine.generateDecision(marketData, undefined, previous);
+    await engine.limitChangeRate(decision, undefined, previous);
+
+    expect(prompts[0]).toContain('maxDrawdownBps 3100, slippageBps 77');
+    expect(ledger.getExecutedConfig).toHaveBeenCalledTimes(1);
+    expect(ledger.getLatest).not.toHaveBeenCalled();
+  });
+});
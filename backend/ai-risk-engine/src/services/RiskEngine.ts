@@ -1,14 +1,94 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { logger } from '../utils/logger';
-import { MarketData, RiskConfig, AIPreferences } from '../types';
+import { metrics } from '../utils/metrics';
+import {
+  MarketData,
+  RiskConfig,
+  AIPreferences,
+  RiskDecision,
+  DecisionSource,
+  SafetyAdjustment,
+  LLMProvider,
+  FieldRepair,
+  DecisionProvenance,
+  RealizedVol,
+  RegimeAssessment,
+  StrategyInfo,
+  OnChainRiskConfig,
+  ChangeViolation,
+  PromptRef
+} from '../types';
 import NodeCache from 'node-cache';
+import { DecisionLedger } from './DecisionLedger';
+import { createLLMProvider } from './llm';
+import { RiskConfigValidator, RISK_CONFIG_FIELDS } from './RiskConfigValidator';
+import { RegimeClassifier } from './RegimeClassifier';
+import { PreferenceConstraintError, PreferenceConstraints } from './PreferenceConstraints';
+import { StrategyUniverse } from './StrategyUniverse';
+import { ChangeRateLimiter } from './ChangeRateLimiter';
+import { PromptRegistry } from './PromptRegistry';
+import { PortfolioAllocator, capOutsideGroup, constrainToBand, estimateStrategyMoments } from './allocator';
+import { ALLOCATOR_CONFIG, RISK_AVERSION } from '../config/allocator';
+import { toExactBps } from '../utils/weights';
+import {
+  MAX_TARGET_APY_TILT_BPS,
+  RISK_TOLERANCE_TILT_BPS,
+  TARGET_APY_PIVOT,
+  TARGET_APY_TILT_BPS_PER_POINT
+} from '../config/profiles';
+import { RISK_BOUNDS, PROMPT_VARIANTS, PromptVariant, REGIME_RULES } from '../config/risk';
+
+const formatVol = (vol?: RealizedVol) => vol
+  ? [vol.closeToClose, vol.parkinson, vol.garmanKlass].map(v => v === null ? 'N/A' : `${v.toFixed(1)}%`).join(' / ')
+  : 'N/A';
+
+const formatUsd = (value?: number | null) =>
+  value === undefined || value === null ? 'N/A' : `$${Math.round(value).toLocaleString()}`;
+
+const formatStrategy = (s: StrategyInfo) =>
+  `- ${s.address} ${s.name} [${s.riskClass}]: historical APY ${(s.historicalApyBps / 100).toFixed(2)}%, ` +
+  `cap ${formatUsd(s.cap)}, allocated ${formatUsd(s.currentAllocation)}, capacity ${formatUsd(s.capacity)}, ` +
+  `max leverage ${s.maxLeverage}x`;
+
+export interface ProposalOptions {
+  // Defaults to the registry's active version
+  promptVersion?: string;
+  // Executed config for the prompt and the allocator; read from RiskParams when omitted
+  previous?: OnChainRiskConfig | null;
+}
+
+const formatPrevious = (config: OnChainRiskConfig) => [
+  `- epochLength ${config.epochLength}, seniorTargetBps ${config.seniorTargetBps}, ` +
+    `maxDrawdownBps ${config.maxDrawdownBps}, slippageBps ${config.slippageBps}`,
+  ...config.strategies.map((s, i) => `- ${s}: ${config.targetWeightsBps[i]} bps, cap ${formatUsd(config.caps[i])}`)
+].join('\n');
+
+// Share of each registry cap used when on-chain liquidity is thin
+const LOW_LIQUIDITY_CAP_FACTOR = 0.4;
 
 export class RiskEngine {
-  private genAI: GoogleGenerativeAI;
+  private llm: LLMProvider;
   private cache: NodeCache;
+  private ledger?: DecisionLedger;
+  private validator = new RiskConfigValidator();
+  private regimeClassifier = new RegimeClassifier();
+  private universe: StrategyUniverse;
+  private constraints: PreferenceConstraints;
+  private allocator = new PortfolioAllocator();
+  private changeLimiter: ChangeRateLimiter;
+  private prompts: PromptRegistry;
 
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+  constructor(
+    ledger?: DecisionLedger,
+    llm: LLMProvider = createLLMProvider(),
+    universe: StrategyUniverse = new StrategyUniverse(),
+    prompts: PromptRegistry = new PromptRegistry()
+  ) {
+    this.ledger = ledger;
+    this.llm = llm;
+    this.universe = universe;
+    this.prompts = prompts;
+    this.constraints = new PreferenceConstraints(address => this.universe.isConservative(address));
+    this.changeLimiter = new ChangeRateLimiter(undefined, address => this.universe.has(address));
     this.cache = new NodeCache({ 
       stdTTL: 300, // 5 minutes cache
       checkperiod: 60 
@@ -19,216 +99,521 @@ export class RiskEngine {
     marketData: MarketData, 
     preferences?: AIPreferences
   ): Promise<RiskConfig> {
-    const cacheKey = `risk_params_${JSON.stringify(marketData).substring(0, 50)}`;
-    const cached = this.cache.get<RiskConfig>(cacheKey);
+    const decision = await this.generateDecision(marketData, preferences);
+    return decision.config;
+  }
+
+  async generateDecision(
+    marketData: MarketData, 
+    preferences?: AIPreferences,
+    previous?: OnChainRiskConfig | null
+  ): Promise<RiskDecision> {
+    const executed = previous !== undefined ? previous : await this.getExecutedConfig();
+    // Different profiles, or proposals anchored on another executed config, must never share a cached decision
+    const cacheKey = `risk_params_${JSON.stringify(marketData).substring(0, 50)}_${JSON.stringify(preferences || {})}` +
+      `_${JSON.stringify(executed)}`;
+    const cached = this.cache.get<RiskDecision>(cacheKey);
     
+    metrics.cacheRequests.inc({ cache: 'risk_params', result: cached ? 'hit' : 'miss' });
     if (cached) {
       logger.info('Returning cached risk parameters');
       return cached;
     }
 
     try {
-      const model = this.genAI.getGenerativeModel({ 
-        model: 'gemini-2.0-flash-exp',
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 2048,
-        },
-      });
-
-      const prompt = this.buildPrompt(marketData, preferences);
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      
-      let riskConfig = this.parseAIResponse(text, marketData);
-      
-      // Apply safety bounds
-      riskConfig = this.applySafetyBounds(riskConfig);
+      const decision = await this.proposeWith(this.llm, marketData, preferences, 'baseline', { previous: executed });
       
       // Cache the result
-      this.cache.set(cacheKey, riskConfig);
+      this.cache.set(cacheKey, decision);
       
       logger.info('Generated new risk parameters via AI', {
-        epochLength: riskConfig.epochLength,
-        seniorTargetBps: riskConfig.seniorTargetBps,
-        confidence: riskConfig.confidence
+        provider: this.llm.name,
+        model: this.llm.settings.model,
+        epochLength: decision.config.epochLength,
+        seniorTargetBps: decision.config.seniorTargetBps,
+        confidence: decision.config.confidence,
+        source: decision.source,
+        repairs: decision.repairs.length,
+        adjustments: decision.adjustments.length
       });
       
-      return riskConfig;
+      return decision;
     } catch (error) {
       logger.error('AI generation failed, falling back to rule-based system:', error);
-      return this.generateRuleBasedParams(marketData, preferences);
-    }
-  }
-
-  private buildPrompt(marketData: MarketData, preferences?: AIPreferences): string {
-    return `
-You are an expert DeFi risk management AI for FluxTranche protocol. Analyze the market data and generate optimal risk parameters.
-
-Current Market Conditions:
-- BTC Price: $${marketData.btcPrice.toFixed(2)}
-- ETH Price: $${marketData.ethPrice.toFixed(2)}
-- Total DeFi Liquidity: $${marketData.totalLiquidity.toLocaleString()}
-- Average Funding Rate: ${(marketData.avgFunding * 100).toFixed(3)}%
-- Implied Volatility: ${marketData.impliedVol.toFixed(1)}%
-- VIX Equivalent: ${marketData.vixEquivalent?.toFixed(1) || 'N/A'}
-- Liquidity Concentration: ${marketData.liquidityConcentration?.toFixed(2) || 'N/A'}
-- Cross-Asset Correlation: ${marketData.crossAssetCorr?.toFixed(2) || 'N/A'}
-
-${preferences ? `User Preferences:
-- Risk Tolerance: ${preferences.riskTolerance}
-- Target APY: ${preferences.targetAPY}%
-- Max Drawdown: ${preferences.maxDrawdown}%` : ''}
-
-Generate a JSON response with risk parameters optimized for:
-1. Market volatility management
-2. Liquidity risk mitigation
-3. Senior tranche protection
-4. Junior tranche yield optimization
-
-Required JSON format (no markdown, pure JSON):
-{
-  "epochLength": <seconds between 3600 and 86400>,
-  "seniorTargetBps": <basis points between 10 and 200>,
-  "maxDrawdownBps": <basis points between 500 and 5000>,
-  "slippageBps": <basis points between 10 and 300>,
-  "strategies": ["0x1234567890123456789012345678901234567890", "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd"],
-  "targetWeightsBps": [<array of weights summing to 10000>],
-  "caps": [<array of strategy caps in USDC, e.g., 1000000>],
-  "reasons": ["<detailed reason 1>", "<detailed reason 2>", "<detailed reason 3>"],
-  "confidence": <confidence percentage 0-100>,
-  "signals": {
-    "impliedVol": ${marketData.impliedVol},
-    "fundingRate": ${marketData.avgFunding},
-    "liquidityDepth": ${marketData.totalLiquidity},
-    "correlation": <calculated correlation 0-1>,
-    "twapDeviation": <deviation percentage>,
-    "riskScore": <overall risk 0-100>
+      metrics.llmFallbacks.inc({ reason: 'provider_error' });
+      return this.ruleBasedDecision(marketData, preferences, executed);
+    }
   }
-}
 
-Risk Management Rules:
-- Higher volatility (>50%) → Lower senior target, shorter epochs
-- Negative funding → Bullish bias, can increase risk slightly
-- Low liquidity (<$500M) → Higher slippage tolerance, lower caps
-- High correlation (>0.8) → More diversification needed
-- VIX equivalent >30 → Defensive positioning
+  /**
+   * The executed config decisions are anchored on, as RiskParams reports it
+   * (ledger fallback). Callers resolve it once per decision and hand the same
+   * value to the prompt, the allocator and the change limiter.
+   */
+  async getExecutedConfig(): Promise<OnChainRiskConfig | null> {
+    return this.ledger ? this.ledger.getExecutedConfig() : null;
+  }
 
-Provide specific, actionable reasoning based on the current market regime.
-`;
+  /**
+   * Runs one prompt through one provider and returns the validated, bounded
+   * decision. Throws if the provider itself fails; callers decide the fallback.
+   */
+  async proposeWith(
+    llm: LLMProvider,
+    marketData: MarketData,
+    preferences?: AIPreferences,
+    variant: PromptVariant = 'baseline',
+    options: ProposalOptions = {}
+  ): Promise<RiskDecision> {
+    await this.universe.refresh();
+    const regime = this.assessRegime(marketData);
+    const previous = options.previous !== undefined ? options.previous : await this.getExecutedConfig();
+    const baseline = this.generateRuleBasedParams(marketData, preferences, regime, previous);
+    const { text: prompt, prompt: promptRef } = this.buildPrompt(
+      marketData, preferences, variant, regime, baseline, previous, options.promptVersion
+    );
+    const text = await llm.generate(prompt);
+    
+    const parsed = this.parseAIResponse(text);
+    
+    let candidate: RiskConfig = baseline;
+    let repairs: FieldRepair[] = [];
+    let source: DecisionSource = 'rule-based';
+    const bandAdjustments: SafetyAdjustment[] = [];
+    if (parsed) {
+      // Keep every valid model field; fill the rest from the rule-based baseline
+      ({ config: candidate, repairs } = this.validator.validateAndRepair(
+        parsed,
+        baseline,
+        this.universe.current().map(s => s.address)
+      ));
+      if (repairs.length < RISK_CONFIG_FIELDS.length) {
+        source = repairs.length === 0 ? 'ai' : 'hybrid';
+      }
+      repairs.forEach(r => metrics.repairedFields.inc({ field: r.field }));
+      if (source === 'rule-based') {
+        metrics.llmFallbacks.inc({ reason: 'invalid_fields' });
+      }
+      if (repairs.length > 0) {
+        logger.warn('Repaired invalid AI fields from rule-based baseline', {
+          provider: llm.name,
+          fields: repairs.map(r => r.field)
+        });
+      }
+      candidate = this.limitWeightDelta(candidate, baseline, bandAdjustments);
+    } else {
+      logger.warn('Failed to parse AI response, using rule-based fallback', { provider: llm.name });
+      metrics.parseFailures.inc({ provider: llm.name });
+      metrics.llmFallbacks.inc({ reason: 'parse_failure' });
+    }
+    
+    // The regime label is ours, not the model's
+    candidate = {
+      ...candidate,
+      signals: { ...candidate.signals, regime: regime.regime, regimeConfidence: regime.confidence }
+    };
+
+    // Profile constraints, then the global safety bounds
+    const { config, adjustments } = this.constrain(candidate, preferences);
+    
+    return {
+      config,
+      source,
+      adjustments: [...bandAdjustments, ...adjustments],
+      repairs,
+      origin: { provider: llm.name, model: llm.settings.model },
+      prompt: promptRef
+    };
   }
 
-  private parseAIResponse(text: string, marketData: MarketData): RiskConfig {
-    try {
-      // Extract JSON from response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No valid JSON found in AI response');
+  // Synchronous callers without a resolved executed config (simulations, backtests) anchor on the ledger
+  ruleBasedDecision(
+    marketData: MarketData,
+    preferences?: AIPreferences,
+    previous: OnChainRiskConfig | null = this.ledger?.getLatest('executed')?.config ?? null
+  ): RiskDecision {
+    const { config, adjustments } = this.constraints.apply(
+      this.generateRuleBasedParams(marketData, preferences, this.assessRegime(marketData), previous),
+      preferences
+    );
+    return {
+      config,
+      source: 'rule-based',
+      adjustments,
+      repairs: []
+    };
+  }
+
+  /**
+   * Applies preference/profile constraints and the hard safety bounds. Used
+   * for every model proposal and for merged configs such as ensemble consensus.
+   */
+  constrain(config: RiskConfig, preferences?: AIPreferences): { config: RiskConfig; adjustments: SafetyAdjustment[] } {
+    const preferred = this.constraints.apply(config, preferences);
+    const bounded = this.applySafetyBounds(preferred.config);
+    return { config: bounded.config, adjustments: [...preferred.adjustments, ...bounded.adjustments] };
+  }
+
+  /**
+   * Pulls a decision back toward the last executed config so no parameter
+   * jumps more than its per-epoch limit. Not cached: the executed config
+   * moves independently of market data. Hard constraints still win, so they
+   * are re-applied to the limited config and the violations report the
+   * values that are actually signed.
+   */
+  async limitChangeRate(
+    decision: RiskDecision,
+    preferences?: AIPreferences,
+    executed?: OnChainRiskConfig | null
+  ): Promise<RiskDecision> {
+    const previous = executed !== undefined ? executed : await this.getExecutedConfig();
+    const { config: limited, violations } = this.changeLimiter.apply(decision.config, previous);
+    if (violations.length === 0) {
+      return decision;
+    }
+
+    violations.forEach(v => metrics.changeViolations.inc({ field: v.field }));
+    logger.warn('Proposed config exceeds per-epoch change limits', {
+      source: decision.source,
+      violations: violations.map(v => `${v.field}: ${v.reason}`)
+    });
+
+    const { config, adjustments } = this.constrain(limited, preferences);
+    return {
+      ...decision,
+      config,
+      adjustments: [...decision.adjustments, ...adjustments],
+      changeViolations: this.reconcileViolations(violations, decision.config, config, previous)
+    };
+  }
+
+  // Records final values, and flags fields the constraints moved past their limit again
+  private reconcileViolations(
+    violations: ChangeViolation[],
+    proposed: RiskConfig,
+    constrained: RiskConfig,
+    previous: OnChainRiskConfig | null
+  ): ChangeViolation[] {
+    const valueOf = (config: RiskConfig, field: string) =>
+      (config as unknown as Record<string, number | number[]>)[field];
+    const reconciled = violations.map(v => ({ ...v, applied: valueOf(constrained, v.field) }));
+
+    const overridden = 'hard constraints moved it past the per-epoch limit';
+    for (const overshoot of this.changeLimiter.apply(constrained, previous).violations) {
+      const existing = reconciled.find(v => v.field === overshoot.field);
+      if (existing) {
+        existing.reason = `${existing.reason}; ${overridden}`;
+      } else {
+        reconciled.push({
+          ...overshoot,
+          proposed: valueOf(proposed, overshoot.field),
+          applied: overshoot.proposed,
+          reason: overridden
+        });
       }
-      
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!this.validateRiskConfigStructure(parsed)) {
-        throw new Error('Invalid risk config structure from AI');
+    }
+    return reconciled;
+  }
+
+  private buildPrompt(
+    marketData: MarketData,
+    preferences: AIPreferences | undefined,
+    variant: PromptVariant,
+    regime: RegimeAssessment,
+    baseline: RiskConfig,
+    previous: OnChainRiskConfig | null,
+    promptVersion: string = this.prompts.activeId
+  ): { text: string; prompt: PromptRef } {
+    const transitions = Object.entries(regime.transitions)
+      .map(([name, p]) => `${name} ${(p * 100).toFixed(0)}%`)
+      .join(', ');
+
+    const marketConditions = [
+      `- BTC Price: $${marketData.btcPrice.toFixed(2)}`,
+      `- ETH Price: $${marketData.ethPrice.toFixed(2)}`,
+      `- Total DeFi Liquidity: $${marketData.totalLiquidity.toLocaleString()}`,
+      `- Average Funding Rate: ${marketData.avgFunding !== undefined ? `${(marketData.avgFunding * 100).toFixed(3)}%` : 'N/A'}`,
+      `- Implied Volatility: ${marketData.impliedVol.toFixed(1)}%`,
+      `- VIX Equivalent: ${marketData.vixEquivalent?.toFixed(1) || 'N/A'}`,
+      `- Liquidity Concentration: ${marketData.liquidityConcentration?.toFixed(2) || 'N/A'}`,
+      `- Cross-Asset Correlation: ${marketData.crossAssetCorr?.toFixed(2) || 'N/A'}`,
+      `- BTC Realized Vol (close-to-close / Parkinson / Garman-Klass): ${formatVol(marketData.realizedVol?.btc)}`,
+      `- ETH Realized Vol (close-to-close / Parkinson / Garman-Klass): ${formatVol(marketData.realizedVol?.eth)}`,
+      `- Order Book Depth ±2% (BTC / ETH): ${formatUsd(marketData.orderBookDepth?.btc)} / ${formatUsd(marketData.orderBookDepth?.eth)}`
+    ].join('\n');
+
+    return this.prompts.render(promptVersion, {
+      variantInstructions: PROMPT_VARIANTS[variant],
+      marketConditions,
+      regime: regime.regime,
+      regimeConfidence: String(regime.confidence),
+      regimeTransitions: transitions,
+      strategyUniverse: this.allowedStrategies(preferences).map(formatStrategy).join('\n'),
+      allocatorMode: ALLOCATOR_CONFIG.MODE,
+      maxWeightDeltaBps: String(ALLOCATOR_CONFIG.AI_MAX_DELTA_BPS),
+      allocatorBaseline: baseline.strategies
+        .map((s, i) => `- ${s}: ${baseline.targetWeightsBps[i]} bps, cap ${formatUsd(baseline.caps[i])}`)
+        .join('\n'),
+      previousConfig: previous ? formatPrevious(previous) : '- none executed yet',
+      preferences: preferences ? this.formatPreferences(preferences) : '',
+      impliedVol: String(marketData.impliedVol),
+      // Rendered into a JSON example, so a missing rate is null rather than N/A
+      fundingRate: String(marketData.avgFunding ?? null),
+      liquidityDepth: String(marketData.totalLiquidity)
+    });
+  }
+
+  private formatPreferences(preferences: AIPreferences): string {
+    const limits = this.constraints.limits(preferences);
+    const lines = [
+      `User Preferences${preferences.profileId ? ` (profile ${preferences.profileId})` : ''}:`,
+      `- Risk Tolerance: ${preferences.riskTolerance}`,
+      `- Target APY: ${preferences.targetAPY}%`,
+      `- Max Drawdown: ${preferences.maxDrawdown}% (maxDrawdownBps must not exceed ${limits.maxDrawdownBps})`
+    ];
+    if (preferences.preferredStrategies?.length) {
+      lines.push(`- Only allocate to: ${preferences.preferredStrategies.join(', ')}`);
+    }
+    if (preferences.excludedStrategies?.length) {
+      lines.push(`- Never allocate to: ${preferences.excludedStrategies.join(', ')}`);
+    }
+    if (preferences.trancheMix) {
+      lines.push(`- Tranche Mix: ${preferences.trancheMix.seniorBps / 100}% senior / ${preferences.trancheMix.juniorBps / 100}% junior`);
+    }
+    if (preferences.liquidityNeed) {
+      lines.push(`- Liquidity Need: ${preferences.liquidityNeed}`);
+    }
+    if (limits.maxEpochLength < RISK_BOUNDS.epochLength.max) {
+      lines.push(`- epochLength must not exceed ${limits.maxEpochLength} seconds`);
+    }
+    if (limits.minConservativeWeightBps > 0 || limits.maxNonConservativeWeightBps < RISK_BOUNDS.TOTAL_WEIGHT_BPS) {
+      const maxOther = Math.min(
+        limits.maxNonConservativeWeightBps,
+        RISK_BOUNDS.TOTAL_WEIGHT_BPS - limits.minConservativeWeightBps
+      );
+      lines.push(`- Non-conservative strategies may hold at most ${maxOther} bps in total`);
+    }
+    return lines.join('\n');
+  }
+
+  // Registry strategies that survive the caller's whitelist/blacklist
+  private allowedStrategies(preferences?: AIPreferences): StrategyInfo[] {
+    const limits = this.constraints.limits(preferences);
+    return this.universe.current().filter(s => limits.allowed(s.address));
+  }
+
+  getStrategyUniverse(): StrategyUniverse {
+    return this.universe;
+  }
+
+  private parseAIResponse(text: string): Record<string, unknown> | null {
+    // Models wrap JSON in prose or markdown fences often enough that we try
+    // the raw text, then a fenced block, then the outermost {...} span
+    const candidates = [
+      text.trim(),
+      text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1],
+      text.match(/\{[\s\S]*\}/)?.[0]
+    ];
+
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      try {
+        const parsed = JSON.parse(candidate);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed;
+        }
+      } catch {
+        // try the next candidate
       }
-      
-      return parsed;
-    } catch (error) {
-      logger.warn('Failed to parse AI response, using rule-based fallback');
-      return this.generateRuleBasedParams(marketData);
     }
+
+    logger.debug('No JSON object found in AI response');
+    return null;
   }
 
-  private validateRiskConfigStructure(config: any): boolean {
-    const required = ['epochLength', 'seniorTargetBps', 'maxDrawdownBps', 'slippageBps', 'strategies', 'targetWeightsBps', 'caps', 'confidence'];
-    return required.every(field => config[field] !== undefined);
+  getProvenance(decision: RiskDecision): DecisionProvenance {
+    const repaired = new Set(decision.repairs.map(r => r.field));
+    const modelFields = decision.source === 'rule-based'
+      ? []
+      : RISK_CONFIG_FIELDS.filter(field => !repaired.has(field));
+
+    const origin = decision.origin || { provider: this.llm.name, model: this.llm.settings.model };
+    return {
+      source: decision.source,
+      provider: origin.provider,
+      model: origin.model,
+      modelFields,
+      repairedFields: decision.repairs,
+      safetyAdjustments: decision.adjustments,
+      changeViolations: decision.changeViolations || [],
+      prompt: decision.prompt || null,
+      modelCoverage: modelFields.length / RISK_CONFIG_FIELDS.length
+    };
   }
 
-  private generateRuleBasedParams(marketData: MarketData, preferences?: AIPreferences): RiskConfig {
-    const isHighVol = marketData.impliedVol > 60;
-    const isVeryHighVol = marketData.impliedVol > 80;
-    const isBullish = marketData.avgFunding < 0;
+  private generateRuleBasedParams(
+    marketData: MarketData,
+    preferences: AIPreferences | undefined,
+    regime: RegimeAssessment,
+    previous: OnChainRiskConfig | null
+  ): RiskConfig {
+    const rules = REGIME_RULES[regime.regime];
     const isLowLiquidity = marketData.totalLiquidity < 500000000;
-    
-    // Dynamic epoch length based on volatility
-    let epochLength = 86400; // 24 hours default
-    if (isVeryHighVol) epochLength = 14400; // 4 hours
-    else if (isHighVol) epochLength = 43200; // 12 hours
-    
-    // Senior target based on market conditions
-    let seniorTargetBps = 50; // 0.5% default
-    if (isHighVol) seniorTargetBps = 30;
-    if (isVeryHighVol) seniorTargetBps = 20;
-    if (isBullish && !isHighVol) seniorTargetBps = 70;
+    const defensive = regime.regime === 'stressed' || regime.regime === 'crisis';
     
     // Drawdown limits
-    let maxDrawdownBps = isHighVol ? 1500 : 2500;
+    let maxDrawdownBps = rules.maxDrawdownBps;
     if (preferences?.maxDrawdown) {
       maxDrawdownBps = Math.min(maxDrawdownBps, preferences.maxDrawdown * 100);
     }
     
-    // Strategy allocation
-    const conservativeWeight = isHighVol ? 7500 : 6000;
-    const aggressiveWeight = 10000 - conservativeWeight;
+    // Quantitative allocation; the regime table (tilted by tolerance and target
+    // APY) is a floor on conservative weight. Hard profile limits are enforced
+    // afterwards by PreferenceConstraints
+    const tilt = preferences ? this.preferenceTilt(preferences) : 0;
+    const conservativeWeight = Math.max(0, Math.min(10000, rules.conservativeWeightBps + tilt));
+    const strategies = this.allowedStrategies(preferences);
+    if (strategies.length === 0) {
+      throw new PreferenceConstraintError('No registry strategy is allowed by the current preferences');
+    }
+    // Thin markets get a fraction of each registry cap
+    const caps = strategies.map(s => Math.round(isLowLiquidity ? s.cap * LOW_LIQUIDITY_CAP_FACTOR : s.cap));
+    const allocation = this.allocator.allocate(estimateStrategyMoments(strategies, marketData), {
+      riskAversion: RISK_AVERSION[preferences?.riskTolerance ?? 'medium'],
+      caps,
+      totalAssets: strategies.reduce((sum, s) => sum + s.currentAllocation, 0),
+      previous: previous ? { strategies: previous.strategies, weightsBps: previous.targetWeightsBps } : undefined
+    });
+    const targetWeightsBps = capOutsideGroup(
+      allocation.weightsBps,
+      strategies.map(s => s.riskClass === 'conservative'),
+      10000 - conservativeWeight
+    ) ?? allocation.weightsBps;
     
     return {
-      epochLength,
-      seniorTargetBps,
+      epochLength: rules.epochLength,
+      seniorTargetBps: rules.seniorTargetBps,
       maxDrawdownBps,
       slippageBps: isLowLiquidity ? 150 : 50,
-      strategies: [
-        "0x1234567890123456789012345678901234567890", // Conservative strategy
-        "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd"  // Aggressive strategy
-      ],
-      targetWeightsBps: [conservativeWeight, aggressiveWeight],
-      caps: [
-        isLowLiquidity ? 500000 : 1500000, // Conservative cap
-        isLowLiquidity ? 200000 : 800000   // Aggressive cap
-      ],
+      strategies: strategies.map(s => s.address),
+      targetWeightsBps,
+      caps,
       reasons: [
-        `Market volatility at ${marketData.impliedVol.toFixed(1)}% ${isHighVol ? 'requires defensive positioning' : 'allows for moderate risk-taking'}`,
-        `Funding rate of ${(marketData.avgFunding * 100).toFixed(3)}% indicates ${isBullish ? 'bullish' : 'neutral'} sentiment`,
+        `Market regime classified as ${regime.regime} (${regime.confidence}% confidence)`,
+        `Market volatility at ${marketData.impliedVol.toFixed(1)}% ${defensive ? 'requires defensive positioning' : 'allows for moderate risk-taking'}`,
+        marketData.avgFunding !== undefined
+          ? `Funding rate of ${(marketData.avgFunding * 100).toFixed(3)}% indicates ${marketData.avgFunding < 0 ? 'bearish positioning' : 'neutral to bullish'} sentiment`
+          : 'Funding rate unavailable; positioning not assessed',
         `Liquidity depth of $${marketData.totalLiquidity.toLocaleString()} ${isLowLiquidity ? 'requires careful position sizing' : 'supports larger allocations'}`,
-        `Epoch length set to ${epochLength / 3600}h to ${isHighVol ? 'adapt quickly to changing conditions' : 'provide stability'}`
+        `Epoch length set to ${rules.epochLength / 3600}h to ${defensive ? 'adapt quickly to changing conditions' : 'provide stability'}`,
+        `${allocation.mode} allocation across ${strategies.length} registry strategies (expected return ${(allocation.expectedReturn * 100).toFixed(2)}%, vol ${(allocation.volatility * 100).toFixed(2)}%), at least ${conservativeWeight / 100}% conservative`,
+        ...allocation.notes,
+        ...(preferences ? [
+          `${preferences.riskTolerance} risk tolerance and ${preferences.targetAPY}% target APY shift ${Math.abs(tilt)} bps ${tilt >= 0 ? 'toward' : 'away from'} conservative strategies`
+        ] : [])
       ],
-      confidence: isHighVol ? 75 : 90, // Lower confidence in high vol environments
+      // An uncertain regime call lowers confidence in the table it selected
+      confidence: Math.round(rules.confidence * (0.7 + 0.3 * regime.confidence / 100)),
       signals: {
         impliedVol: marketData.impliedVol,
-        fundingRate: marketData.avgFunding,
+        fundingRate: marketData.avgFunding ?? null,
         liquidityDepth: marketData.totalLiquidity,
         correlation: marketData.crossAssetCorr || 0.65,
-        twapDeviation: Math.random() * 3, // Mock TWAP deviation
-        riskScore: isHighVol ? 80 : isLowLiquidity ? 60 : 40
+        twapDeviation: marketData.twapDeviation ?? 0,
+        riskScore: isLowLiquidity ? Math.max(rules.riskScore, 60) : rules.riskScore,
+        regime: regime.regime,
+        regimeConfidence: regime.confidence
       }
     };
   }
 
-  private applySafetyBounds(config: RiskConfig): RiskConfig {
-    return {
+  // Positive values move weight toward conservative strategies
+  private preferenceTilt(preferences: AIPreferences): number {
+    const apyTilt = Math.max(
+      -MAX_TARGET_APY_TILT_BPS,
+      Math.min(MAX_TARGET_APY_TILT_BPS, ((preferences.targetAPY ?? TARGET_APY_PIVOT) - TARGET_APY_PIVOT) * TARGET_APY_TILT_BPS_PER_POINT)
+    );
+    return Math.round((RISK_TOLERANCE_TILT_BPS[preferences.riskTolerance] ?? 0) - apyTilt);
+  }
+
+  /**
+   * Keeps the model's weights within AI_WEIGHT_MAX_DELTA_BPS of the allocator
+   * baseline. Strategies the model left out count as 0 bps; ones the baseline
+   * does not hold are dropped.
+   */
+  private limitWeightDelta(candidate: RiskConfig, baseline: RiskConfig, adjustments: SafetyAdjustment[]): RiskConfig {
+    const byAddress = new Map(candidate.strategies.map((s, i) => [s.toLowerCase(), i]));
+    const proposed = baseline.strategies.map(s => {
+      const i = byAddress.get(s.toLowerCase());
+      return i === undefined ? 0 : candidate.targetWeightsBps[i];
+    });
+    const caps = baseline.strategies.map((s, k) => {
+      const i = byAddress.get(s.toLowerCase());
+      return i === undefined ? baseline.caps[k] : candidate.caps[i];
+    });
+    const weights = constrainToBand(proposed, baseline.targetWeightsBps, ALLOCATOR_CONFIG.AI_MAX_DELTA_BPS);
+
+    if (JSON.stringify(weights) !== JSON.stringify(candidate.targetWeightsBps) ||
+        JSON.stringify(baseline.strategies) !== JSON.stringify(candidate.strategies)) {
+      adjustments.push({
+        field: 'targetWeightsBps',
+        original: candidate.targetWeightsBps,
+        adjusted: weights,
+        reason: `Model weights limited to ±${ALLOCATOR_CONFIG.AI_MAX_DELTA_BPS} bps of the allocator baseline`
+      });
+    }
+    return { ...candidate, strategies: baseline.strategies, targetWeightsBps: weights, caps };
+  }
+
+  // MarketDataService labels live snapshots; replayed or mock data is classified here
+  private assessRegime(marketData: MarketData): RegimeAssessment {
+    return marketData.regime ?? this.regimeClassifier.classify(marketData);
+  }
+
+  private applySafetyBounds(config: RiskConfig): { config: RiskConfig; adjustments: SafetyAdjustment[] } {
+    const clamp = (value: number, range: { min: number; max: number }) =>
+      Math.max(range.min, Math.min(range.max, value));
+
+    const bounded: RiskConfig = {
       ...config,
-      epochLength: Math.max(3600, Math.min(86400, config.epochLength)),
-      seniorTargetBps: Math.max(10, Math.min(200, config.seniorTargetBps)),
-      maxDrawdownBps: Math.max(500, Math.min(5000, config.maxDrawdownBps)),
-      slippageBps: Math.max(10, Math.min(300, config.slippageBps)),
-      confidence: Math.max(0, Math.min(100, config.confidence)),
+      epochLength: clamp(config.epochLength, RISK_BOUNDS.epochLength),
+      seniorTargetBps: clamp(config.seniorTargetBps, RISK_BOUNDS.seniorTargetBps),
+      maxDrawdownBps: clamp(config.maxDrawdownBps, RISK_BOUNDS.maxDrawdownBps),
+      slippageBps: clamp(config.slippageBps, RISK_BOUNDS.slippageBps),
+      confidence: clamp(config.confidence, RISK_BOUNDS.confidence),
       // Ensure weights sum to 10000
-      targetWeightsBps: this.normalizeWeights(config.targetWeightsBps)
+      targetWeightsBps: toExactBps(config.targetWeightsBps),
+      // Never above what StrategyRegistry would accept
+      caps: config.caps.map((cap, i) => {
+        const registryCap = this.universe.find(config.strategies[i])?.cap;
+        return registryCap === undefined ? cap : Math.min(cap, registryCap);
+      })
     };
+
+    // Record every field the bounds changed so the ledger can explain the final config
+    const fields = ['epochLength', 'seniorTargetBps', 'maxDrawdownBps', 'slippageBps', 'confidence', 'targetWeightsBps', 'caps'] as const;
+    const adjustments: SafetyAdjustment[] = fields
+      .filter(field => JSON.stringify(config[field]) !== JSON.stringify(bounded[field]))
+      .map(field => ({ field, original: config[field], adjusted: bounded[field] }));
+
+    return { config: bounded, adjustments };
   }
 
-  private normalizeWeights(weights: number[]): number[] {
-    const sum = weights.reduce((a, b) => a + b, 0);
-    if (sum === 0) return weights.map(() => Math.floor(10000 / weights.length));
-    return weights.map(w => Math.floor((w / sum) * 10000));
+  getProviderInfo(): { provider: string; model: string; prompt: PromptRef } {
+    const { id, hash } = this.prompts.get();
+    return { provider: this.llm.name, model: this.llm.settings.model, prompt: { id, hash } };
+  }
+
+  getPromptRegistry(): PromptRegistry {
+    return this.prompts;
   }
 
   async getCurrentConfig(): Promise<RiskConfig | null> {
-    // In a real implementation, this would fetch from the blockchain
-    // For now, return a cached version or null
+    // Prefer the last config the ledger saw executed on-chain
+    const executed = this.ledger?.getLatest('executed');
+    if (executed) {
+      return executed.config;
+    }
     return this.cache.get('current_config') || null;
   }
 }
\ No newline at end of file
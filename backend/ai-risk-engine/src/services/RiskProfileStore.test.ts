@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProfileAccessError, RiskProfileInput, RiskProfileStore } from './RiskProfileStore';
+import { PRESET_PROFILES } from '../config/profiles';
+
+const input: RiskProfileInput = {
+  name: 'Treasury',
+  riskTolerance: 'low',
+  targetAPY: 6,
+  maxDrawdown: 8,
+  excludedStrategies: ['0x00000000000000000000000000000000000000a4'],
+  trancheMix: { seniorBps: 9000, juniorBps: 1000 },
+  liquidityNeed: 'weekly'
+};
+
+describe('RiskProfileStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-profiles-'));
+    file = path.join(dir, 'profiles', 'risk-profiles.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const accessError = (fn: () => unknown): ProfileAccessError | undefined => {
+    try {
+      fn();
+    } catch (error) {
+      return error as ProfileAccessError;
+    }
+    return undefined;
+  };
+
+  it('shows every key the read-only presets', () => {
+    const store = new RiskProfileStore(file);
+
+    expect(store.list('any-key').map(p => p.id)).toEqual(PRESET_PROFILES.map(p => p.id));
+    expect(accessError(() => store.update('P1', input, 'any-key', true))).toMatchObject({ status: 403 });
+    expect(accessError(() => store.delete('P1', 'any-key', true))).toMatchObject({ status: 403 });
+  });
+
+  it('persists created profiles, without the presets, across restarts', () => {
+    const created = new RiskProfileStore(file).create(input, 'key-1');
+
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(stored.map((p: { id: string }) => p.id)).toEqual([created.id]);
+    expect(new RiskProfileStore(file).get(created.id, 'key-1')).toEqual(created);
+  });
+
+  it('keeps a profile to the key that created it, and admins', () => {
+    const store = new RiskProfileStore(file);
+    const { id } = store.create(input, 'key-1');
+
+    expect(store.list('key-2').some(p => p.id === id)).toBe(false);
+    expect(accessError(() => store.get(id, 'key-2'))).toMatchObject({ status: 404 });
+    expect(accessError(() => store.delete(id, 'key-2'))).toBeInstanceOf(ProfileAccessError);
+    expect(store.get(id, 'key-2', true).ownerKeyId).toBe('key-1');
+  });
+
+  it('replaces every field on update and keeps ownership', () => {
+    const store = new RiskProfileStore(file);
+    const created = store.create(input, 'key-1');
+
+    const { excludedStrategies: _excluded, ...rest } = input;
+    const updated = store.update(created.id, { ...rest, targetAPY: 7 }, 'admin', true);
+
+    expect(updated).toMatchObject({ id: created.id, ownerKeyId: 'key-1', createdAt: created.createdAt, targetAPY: 7 });
+    expect(updated.excludedStrategies).toBeUndefined();
+  });
+
+  it('forgets deleted profiles after a restart', () => {
+    const store = new RiskProfileStore(file);
+    const { id } = store.create(input, 'key-1');
+
+    store.delete(id, 'key-1');
+
+    expect(accessError(() => new RiskProfileStore(file).get(id, 'key-1'))).toMatchObject({ status: 404 });
+  });
+
+  it('resolves a profile into preferences with request overrides on top', () => {
+    const store = new RiskProfileStore(file);
+
+    const preferences = store.resolve('P3', 'any-key', false, { targetAPY: 4, profileId: 'ignored' });
+
+    expect(preferences).toMatchObject({
+      riskTolerance: 'low',
+      targetAPY: 4,
+      maxDrawdown: 5,
+      trancheMix: { seniorBps: 9000, juniorBps: 1000 },
+      liquidityNeed: 'instant',
+      maxEpochLength: 14400,
+      profileId: 'P3'
+    });
+  });
+
+  it('ignores stored entries that would shadow a preset', () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify([{ ...input, id: 'P1', ownerKeyId: 'key-1', createdAt: 1, updatedAt: 1 }]));
+
+    const profile = new RiskProfileStore(file).get('P1', 'key-1');
+
+    expect(profile).toMatchObject({ preset: true, name: 'Retirement Saver' });
+  });
+});
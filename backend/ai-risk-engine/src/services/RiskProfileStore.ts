@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { AIPreferences, RiskProfile } from '../types';
+import { PRESET_PROFILES } from '../config/profiles';
+import { logger } from '../utils/logger';
+
+export type RiskProfileInput = Omit<RiskProfile, 'id' | 'ownerKeyId' | 'preset' | 'createdAt' | 'updatedAt' | 'profileId'>;
+
+export class ProfileAccessError extends Error {
+  constructor(message: string, readonly status: 403 | 404) {
+    super(message);
+    this.name = 'ProfileAccessError';
+  }
+}
+
+/**
+ * Named risk profiles kept in a JSON file (RISK_PROFILES_FILE, default
+ * data/risk-profiles.json). Each API key sees the read-only presets plus the
+ * profiles it created; admins see and edit everything.
+ */
+export class RiskProfileStore {
+  private profiles = new Map<string, RiskProfile>();
+  private filePath: string;
+
+  constructor(filePath = process.env.RISK_PROFILES_FILE || 'data/risk-profiles.json') {
+    this.filePath = path.resolve(filePath);
+    const loadedAt = Date.now();
+    for (const profile of PRESET_PROFILES) {
+      this.profiles.set(profile.id, { ...profile, createdAt: loadedAt, updatedAt: loadedAt });
+    }
+    this.load();
+  }
+
+  list(keyId: string, isAdmin = false): RiskProfile[] {
+    return Array.from(this.profiles.values()).filter(p => this.canRead(p, keyId, isAdmin));
+  }
+
+  get(id: string, keyId: string, isAdmin = false): RiskProfile {
+    const profile = this.profiles.get(id);
+    if (!profile || !this.canRead(profile, keyId, isAdmin)) {
+      throw new ProfileAccessError(`Risk profile ${id} not found`, 404);
+    }
+    return profile;
+  }
+
+  create(input: RiskProfileInput, keyId: string): RiskProfile {
+    const now = Date.now();
+    const profile: RiskProfile = { ...input, id: randomUUID(), ownerKeyId: keyId, createdAt: now, updatedAt: now };
+    this.profiles.set(profile.id, profile);
+    this.save();
+    logger.info('Risk profile created', { id: profile.id, name: profile.name, ownerKeyId: keyId });
+    return profile;
+  }
+
+  update(id: string, input: RiskProfileInput, keyId: string, isAdmin = false): RiskProfile {
+    const existing = this.writable(id, keyId, isAdmin);
+    // Full replacement: fields left out of the body are cleared
+    const profile: RiskProfile = {
+      ...input,
+      id,
+      ownerKeyId: existing.ownerKeyId,
+      createdAt: existing.createdAt,
+      updatedAt: Date.now()
+    };
+    this.profiles.set(id, profile);
+    this.save();
+    logger.info('Risk profile updated', { id, ownerKeyId: existing.ownerKeyId });
+    return profile;
+  }
+
+  delete(id: string, keyId: string, isAdmin = false): void {
+    this.writable(id, keyId, isAdmin);
+    this.profiles.delete(id);
+    this.save();
+    logger.info('Risk profile deleted', { id });
+  }
+
+  /**
+   * Preferences for a decision: the profile's fields with any explicit
+   * request preferences layered on top.
+   */
+  resolve(id: string, keyId: string, isAdmin = false, overrides: Partial<AIPreferences> = {}): AIPreferences {
+    const profile = this.get(id, keyId, isAdmin);
+    return {
+      riskTolerance: profile.riskTolerance,
+      targetAPY: profile.targetAPY,
+      maxDrawdown: profile.maxDrawdown,
+      preferredStrategies: profile.preferredStrategies,
+      excludedStrategies: profile.excludedStrategies,
+      trancheMix: profile.trancheMix,
+      maxEpochLength: profile.maxEpochLength,
+      liquidityNeed: profile.liquidityNeed,
+      ...overrides,
+      profileId: profile.id
+    };
+  }
+
+  private canRead(profile: RiskProfile, keyId: string, isAdmin: boolean): boolean {
+    return isAdmin || profile.preset === true || profile.ownerKeyId === keyId;
+  }
+
+  private writable(id: string, keyId: string, isAdmin: boolean): RiskProfile {
+    const profile = this.get(id, keyId, isAdmin);
+    if (profile.preset) {
+      throw new ProfileAccessError(`Preset profile ${id} is read-only`, 403);
+    }
+    if (!isAdmin && profile.ownerKeyId !== keyId) {
+      throw new ProfileAccessError(`Risk profile ${id} belongs to another key`, 403);
+    }
+    return profile;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as RiskProfile[];
+      for (const record of records) {
+        if (!record.id || this.profiles.get(record.id)?.preset) {
+          logger.error(`Skipping invalid risk profile entry "${record.id}"`);
+          continue;
+        }
+        this.profiles.set(record.id, record);
+      }
+      logger.info('Risk profiles loaded', { path: this.filePath, profiles: records.length });
+    } catch (error) {
+      logger.error('Failed to load risk profiles:', error);
+    }
+  }
+
+  private save(): void {
+    const stored = Array.from(this.profiles.values()).filter(p => !p.preset);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(stored, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
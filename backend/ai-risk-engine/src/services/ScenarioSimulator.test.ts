@@ -0,0 +1,79 @@
+import { BASELINE_SCENARIO, MAX_SIMULATION_SCENARIOS, ScenarioSimulator } from './ScenarioSimulator';
+import { RiskEngine } from './RiskEngine';
+import { MarketData, MarketScenario } from '../types';
+
+const base: MarketData = {
+  btcPrice: 60000,
+  ethPrice: 3000,
+  totalLiquidity: 1e9,
+  avgFunding: 0.0001,
+  impliedVol: 35,
+  crossAssetCorr: 0.6,
+  twapDeviation: 0.5,
+  timestamp: 1_700_000_000_000
+};
+
+describe('ScenarioSimulator', () => {
+  it('expands a grid into the product of its axes', () => {
+    const scenarios = ScenarioSimulator.expandGrid({
+      btcPriceChangePct: [-30, -10],
+      fundingFlip: [false, true],
+      liquidityMultiplier: []
+    });
+
+    expect(scenarios.map(s => s.name)).toEqual([
+      'btcPriceChangePct=-30, fundingFlip=false',
+      'btcPriceChangePct=-30, fundingFlip=true',
+      'btcPriceChangePct=-10, fundingFlip=false',
+      'btcPriceChangePct=-10, fundingFlip=true'
+    ]);
+    expect(scenarios[1].shock).toEqual({ btcPriceChangePct: -30, fundingFlip: true });
+    expect(ScenarioSimulator.expandGrid({})).toEqual([]);
+  });
+
+  it('applies a shock and classifies the shocked market afresh', () => {
+    const shocked = ScenarioSimulator.applyShock(
+      { ...base, quotes: { btc: null, eth: null } },
+      { btcPriceChangePct: -30, fundingFlip: true, liquidityMultiplier: 0.5, impliedVol: 80, impliedVolChangePct: 25 }
+    );
+
+    expect(shocked).toMatchObject({
+      btcPrice: 42000,
+      ethPrice: 3000,
+      avgFunding: -0.0001,
+      totalLiquidity: 5e8,
+      impliedVol: 100,
+      twapDeviation: 30,
+      quotes: undefined
+    });
+    expect(shocked.regime!.regime).toBe('crisis');
+    // The base snapshot is left as it was
+    expect(base.btcPrice).toBe(60000);
+  });
+
+  it('returns each scenario side by side with its projected tranche outcome', async () => {
+    const engine = new RiskEngine();
+    const decide = jest.fn(async (marketData: MarketData) => engine.ruleBasedDecision(marketData));
+    const crash: MarketScenario = { name: 'crash', shock: { btcPriceChangePct: -30, impliedVol: 90 } };
+
+    const [baseline, crashed] = await new ScenarioSimulator(engine, decide).run(base, [BASELINE_SCENARIO, crash]);
+
+    expect(decide).toHaveBeenCalledTimes(2);
+    expect(decide.mock.calls[1][0].btcPrice).toBe(42000);
+    expect(baseline.scenario).toBe(BASELINE_SCENARIO);
+    expect(crashed.decision.config.maxDrawdownBps).toBeLessThan(baseline.decision.config.maxDrawdownBps);
+    expect(crashed.provenance).toBeDefined();
+    // Junior absorbs the loss ahead of senior
+    expect(crashed.projection.juniorReturnBps).toBeLessThan(baseline.projection.juniorReturnBps);
+    expect(crashed.projection.seniorReturnBps).toBeGreaterThan(crashed.projection.juniorReturnBps);
+  });
+
+  it('refuses more scenarios than one simulation may run', async () => {
+    const decide = jest.fn();
+    const scenarios = Array.from({ length: MAX_SIMULATION_SCENARIOS + 1 }, () => BASELINE_SCENARIO);
+
+    await expect(new ScenarioSimulator(new RiskEngine(), decide).run(base, scenarios))
+      .rejects.toThrow(`At most ${MAX_SIMULATION_SCENARIOS} scenarios`);
+    expect(decide).not.toHaveBeenCalled();
+  });
+});
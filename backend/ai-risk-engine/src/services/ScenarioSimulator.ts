@@ -0,0 +1,138 @@
+import {
+  AIPreferences,
+  BacktestOptions,
+  MarketData,
+  MarketScenario,
+  MarketShock,
+  RiskDecision,
+  ScenarioProjection,
+  ScenarioResult
+} from '../types';
+import { RiskEngine } from './RiskEngine';
+import { RegimeClassifier } from './RegimeClassifier';
+import { Backtester } from '../backtest/Backtester';
+import { DEFAULT_BACKTEST_OPTIONS } from '../config/backtest';
+import { logger } from '../utils/logger';
+
+export type DecisionFn = (marketData: MarketData, preferences?: AIPreferences) => Promise<RiskDecision>;
+
+export type ScenarioGrid = { [K in keyof MarketShock]?: Array<MarketShock[K]> };
+
+// Every scenario may cost an LLM call
+export const MAX_SIMULATION_SCENARIOS = 25;
+
+export const BASELINE_SCENARIO: MarketScenario = { name: 'baseline', shock: {} };
+
+/**
+ * Runs hypothetical markets through the risk policy without signing or
+ * recording anything, and projects one epoch of the tranche waterfall for
+ * each resulting config.
+ */
+export class ScenarioSimulator {
+  private riskEngine: RiskEngine;
+  private decide: DecisionFn;
+  private options: Partial<BacktestOptions>;
+
+  constructor(riskEngine: RiskEngine, decide: DecisionFn, options: Partial<BacktestOptions> = {}) {
+    this.riskEngine = riskEngine;
+    this.decide = decide;
+    this.options = options;
+  }
+
+  // Cartesian product of the grid axes, e.g. { btcPriceChangePct: [-30, -10], fundingFlip: [false, true] } -> 4 scenarios
+  static expandGrid(grid: ScenarioGrid): MarketScenario[] {
+    const axes = (Object.entries(grid) as Array<[keyof MarketShock, unknown[]]>)
+      .filter(([, values]) => Array.isArray(values) && values.length > 0);
+
+    let shocks: MarketShock[] = [{}];
+    for (const [key, values] of axes) {
+      shocks = shocks.flatMap(shock => values.map(value => ({ ...shock, [key]: value })));
+    }
+
+    return shocks
+      .filter(shock => Object.keys(shock).length > 0)
+      .map(shock => ({
+        name: Object.entries(shock).map(([k, v]) => `${k}=${v}`).join(', '),
+        shock
+      }));
+  }
+
+  static applyShock(base: MarketData, shock: MarketShock): MarketData {
+    const pct = (value: number, change?: number) => change === undefined ? value : value * (1 + change / 100);
+
+    let avgFunding = shock.avgFunding ?? base.avgFunding;
+    if (shock.fundingFlip && avgFunding !== undefined) avgFunding = -avgFunding;
+
+    const shocked: MarketData = {
+      ...base,
+      btcPrice: pct(base.btcPrice, shock.btcPriceChangePct),
+      ethPrice: pct(base.ethPrice, shock.ethPriceChangePct),
+      avgFunding,
+      totalLiquidity: base.totalLiquidity * (shock.liquidityMultiplier ?? 1),
+      impliedVol: pct(shock.impliedVol ?? base.impliedVol, shock.impliedVolChangePct),
+      crossAssetCorr: shock.crossAssetCorr ?? base.crossAssetCorr,
+      // A sudden move leaves price that far from its recent TWAP
+      twapDeviation: shock.btcPriceChangePct !== undefined
+        ? Math.abs(shock.btcPriceChangePct)
+        : base.twapDeviation,
+      // Live quotes and the live label no longer describe the shocked market
+      quotes: undefined,
+      regime: undefined
+    };
+    // Fresh classifier so hypothetical markets never advance the live regime filter
+    shocked.regime = new RegimeClassifier().classify(shocked);
+    return shocked;
+  }
+
+  async run(
+    base: MarketData,
+    scenarios: MarketScenario[],
+    preferences?: AIPreferences
+  ): Promise<ScenarioResult[]> {
+    if (scenarios.length > MAX_SIMULATION_SCENARIOS) {
+      throw new Error(`At most ${MAX_SIMULATION_SCENARIOS} scenarios per simulation, got ${scenarios.length}`);
+    }
+
+    const results: ScenarioResult[] = [];
+    // Sequential on purpose: scenarios share provider rate limits
+    for (const scenario of scenarios) {
+      const marketData = ScenarioSimulator.applyShock(base, scenario.shock);
+      const decision = await this.decide(marketData, preferences);
+      results.push({
+        scenario,
+        marketData,
+        decision,
+        provenance: this.riskEngine.getProvenance(decision),
+        projection: await this.project(base, marketData, decision)
+      });
+    }
+
+    logger.info('Scenario simulation complete', { scenarios: results.length });
+    return results;
+  }
+
+  // The price move plays out over one epoch; everything else holds at the shocked level
+  private async project(base: MarketData, shocked: MarketData, decision: RiskDecision): Promise<ScenarioProjection> {
+    const { config } = decision;
+    const start = base.timestamp;
+    const backtester = new Backtester([
+      { ...shocked, btcPrice: base.btcPrice, ethPrice: base.ethPrice, timestamp: start },
+      { ...shocked, timestamp: start + config.epochLength * 1000 }
+    ], this.options);
+
+    const { epochs } = await backtester.run({ name: 'scenario', decide: async () => config });
+    const epoch = epochs[0];
+    const seniorStart = this.options.seniorAssets ?? DEFAULT_BACKTEST_OPTIONS.seniorAssets;
+    const juniorStart = this.options.juniorAssets ?? DEFAULT_BACKTEST_OPTIONS.juniorAssets;
+
+    return {
+      seniorTarget: epoch.seniorTarget,
+      seniorPaid: epoch.seniorPaid,
+      couponShortfall: epoch.couponShortfall,
+      drawdownStop: epoch.drawdownStop,
+      grossReturnBps: Math.round(epoch.grossReturnBps),
+      seniorReturnBps: Math.round((epoch.seniorAssets / seniorStart - 1) * 10000),
+      juniorReturnBps: juniorStart > 0 ? Math.round((epoch.juniorAssets / juniorStart - 1) * 10000) : 0
+    };
+  }
+}
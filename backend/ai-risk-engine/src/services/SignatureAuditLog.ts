@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { SignatureAuditEntry } from '../types';
+import { logger } from '../utils/logger';
+
+// Append-only record of who asked the engine to sign what
+export class SignatureAuditLog {
+  private filePath: string;
+
+  constructor(filePath = process.env.SIGNATURE_AUDIT_LOG_PATH || 'data/signature-audit.jsonl') {
+    this.filePath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  record(entry: SignatureAuditEntry): void {
+    try {
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    } catch (error) {
+      // Losing an audit line is bad, but refusing to serve the keeper is worse
+      logger.error('Failed to write signature audit entry', {
+        error: error instanceof Error ? error.message : String(error),
+        entry
+      });
+    }
+  }
+
+  recent(limit = 100, keyId?: string): SignatureAuditEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    return fs.readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        try {
+          return JSON.parse(line) as SignatureAuditEntry;
+        } catch {
+          return null;
+        }
+      })
+      .filter((e): e is SignatureAuditEntry => e !== null && (!keyId || e.keyId === keyId))
+      .slice(-limit)
+      .reverse();
+  }
+}
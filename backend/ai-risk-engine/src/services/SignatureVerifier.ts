@@ -0,0 +1,39 @@
+import { ethers } from 'ethers';
+import { RiskConfig } from '../types';
+import { riskConfigDigest } from '../utils/riskConfigEncoding';
+import { logger } from '../utils/logger';
+
+export class SignatureVerifier {
+  recoverSigner(config: RiskConfig, nonce: ethers.BigNumberish, signature: string): string {
+    const digest = riskConfigDigest(config, nonce);
+    return ethers.utils.recoverAddress(digest, signature);
+  }
+
+  verify(
+    config: RiskConfig,
+    nonce: ethers.BigNumberish,
+    signature: string,
+    expectedSigner: string
+  ): boolean {
+    try {
+      const recovered = this.recoverSigner(config, nonce, signature);
+      return recovered.toLowerCase() === expectedSigner.toLowerCase();
+    } catch (error) {
+      logger.error('Signature verification failed:', error);
+      return false;
+    }
+  }
+
+  // Replays RiskParams._validateSignature against the live contract state
+  async verifyAgainstContract(
+    config: RiskConfig,
+    signature: string,
+    riskParams: ethers.Contract
+  ): Promise<boolean> {
+    const [nonce, aiSigner] = await Promise.all([
+      riskParams.nonce(),
+      riskParams.aiSigner()
+    ]);
+    return this.verify(config, nonce, signature, aiSigner);
+  }
+}
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import ganache, { Server } from 'ganache';
+import solc from 'solc';
+import { SigningService } from './SigningService';
+import { SignatureVerifier } from './SignatureVerifier';
+import { CoSignerPolicy, LocalKeySigner } from './signers';
+import { RiskConfig } from '../types';
+import { toOnChainConfig } from '../utils/riskConfigEncoding';
+
+
+const RISK_PARAMS_SOURCE = path.resolve(__dirname, '../../../../contracts/src/RiskParams.sol');
+
+// Compiles the deployed RiskParams source; @openzeppelin imports resolve from node_modules
+function compileRiskParams(): { abi: ethers.ContractInterface; bytecode: string } {
+  const input = {
+    language: 'Solidity',
+    sources: { 'RiskParams.sol': { content: fs.readFileSync(RISK_PARAMS_SOURCE, 'utf8') } },
+    settings: {
+      // ganache predates cancun opcodes
+      evmVersion: 'paris',
+      outputSelection: { 'RiskParams.sol': { RiskParams: ['abi', 'evm.bytecode.object'] } }
+    }
+  };
+  const findImports = (file: string) => {
+    try {
+      return { contents: fs.readFileSync(require.resolve(file), 'utf8') };
+    } catch (error) {
+      return { error: `Cannot resolve ${file}` };
+    }
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+  const errors = (output.errors || []).filter((e: { severity: string }) => e.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((e: { formattedMessage: string }) => e.formattedMessage).join('\n'));
+  }
+  const contract = output.contracts['RiskParams.sol'].RiskParams;
+  return { abi: contract.abi, bytecode: contract.evm.bytecode.object };
+}
+
+// Mirrors _createValidConfig in contracts/test/RiskParams.t.sol
+function riskConfig(overrides: Partial<RiskConfig> = {}): RiskConfig {
+  return {
+    epochLength: 7200,
+    seniorTargetBps: 50,
+    maxDrawdownBps: 1500,
+    slippageBps: 100,
+    strategies: [
+      '0x0000000000000000000000000000000000000100',
+      '0x0000000000000000000000000000000000000101'
+    ],
+    targetWeightsBps: [7000, 3000],
+    caps: [1_000_000e6, 500_000e6],
+    reasons: ['round-trip test'],
+    confidence: 0.9,
+    signals: { impliedVol: 0.5, fundingRate: 0.01, liquidityDepth: 1e6, correlation: 0.8, twapDeviation: 0 },
+    ...overrides
+  };
+}
+
+describe('SigningService against a local RiskParams', () => {
+  const aiWallet = ethers.Wallet.createRandom();
+  let server: Server;
+  let rpcUrl: string;
+  let riskParams: ethers.Contract;
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    server = ganache.server({ logging: { quiet: true }, wallet: { deterministic: true } });
+    await server.listen(0);
+    rpcUrl = `http://127.0.0.1:${server.address().port}`;
+
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    const deployer = provider.getSigner(0);
+    const deployerAddress = await deployer.getAddress();
+    const { abi, bytecode } = compileRiskParams();
+    // The first account is admin, guardian and keeper
+    riskParams = await new ethers.ContractFactory(abi, bytecode, deployer)
+      .deploy(deployerAddress, deployerAddress, deployerAddress, aiWallet.address);
+    await riskParams.deployed();
+  }, 120_000);
+
+  afterAll(async () => {
+    await server?.close();
+  });
+
+  beforeEach(() => {
+    process.env.RISE_RPC_URL = rpcUrl;
+    process.env.RISK_PARAMS_ADDRESS = riskParams.address;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  function signingService(): SigningService {
+    return new SigningService(new CoSignerPolicy([], 0), Promise.resolve([new LocalKeySigner(aiWallet, 'env')]));
+  }
+
+  it('produces signatures that queueParams and verifyAgainstContract both accept', async () => {
+    const config = riskConfig();
+    const signed = await signingService().signRiskConfig(config);
+
+    expect(signed.nonce).toBe(0);
+    expect(signed.signer).toBe(aiWallet.address);
+    await expect(new SignatureVerifier().verifyAgainstContract(config, signed.signature, riskParams))
+      .resolves.toBe(true);
+
+    const receipt = await (await riskParams.queueParams(toOnChainConfig(config), signed.signature)).wait();
+    expect(receipt.events.map((e: ethers.Event) => e.event)).toContain('ParamsQueued');
+  });
+
+  it('signs for the on-chain nonce after it moves, and both sides reject the stale nonce', async () => {
+    await (await riskParams.emergencyUpdate(toOnChainConfig(riskConfig()))).wait();
+    expect((await riskParams.nonce()).toNumber()).toBe(1);
+
+    const config = riskConfig({ seniorTargetBps: 40 });
+    const service = signingService();
+    const signed = await service.signRiskConfig(config);
+    expect(signed.nonce).toBe(1);
+    await expect(service.verifyAgainstChain(config, signed.signature)).resolves.toBe(true);
+    // Overwriting the queued slot earns refunds that ganache leaves out of its estimate
+    await (await riskParams.queueParams(toOnChainConfig(config), signed.signature, { gasLimit: 1_000_000 })).wait();
+
+    const stale = await service.signRiskConfig(config, { nonce: 0 });
+    await expect(new SignatureVerifier().verifyAgainstContract(config, stale.signature, riskParams))
+      .resolves.toBe(false);
+    await expect(riskParams.queueParams(toOnChainConfig(config), stale.signature)).rejects.toThrow();
+  });
+
+  it('refuses to sign when the configured RiskParams cannot be read', async () => {
+    process.env.RISE_RPC_URL = 'http://127.0.0.1:1';
+
+    await expect(signingService().signRiskConfig(riskConfig())).rejects.toThrow('Signing failed');
+    await expect(signingService().fetchOnChainNonce()).rejects.toThrow('RiskParams nonce unavailable');
+  });
+
+  it('follows updateAiSigner to the next loaded key and refuses once RiskParams trusts none of them', async () => {
+    const nextWallet = ethers.Wallet.createRandom();
+    const service = new SigningService(
+      new CoSignerPolicy([], 0),
+      Promise.resolve([new LocalKeySigner(aiWallet, 'keystore'), new LocalKeySigner(nextWallet, 'keystore')])
+    );
+    expect((await service.signRiskConfig(riskConfig())).signer).toBe(aiWallet.address);
+
+    await (await riskParams.updateAiSigner(nextWallet.address)).wait();
+    const config = riskConfig({ maxDrawdownBps: 1400 });
+    const signed = await service.signRiskConfig(config);
+
+    expect(signed.signer).toBe(nextWallet.address);
+    await expect(service.verifyAgainstChain(config, signed.signature)).resolves.toBe(true);
+    expect(await service.getStatus()).toMatchObject({ active: nextWallet.address, inSync: true });
+
+    // The old key alone is now useless
+    const stale = signingService();
+    await expect(stale.signRiskConfig(config)).rejects.toThrow('Signing failed');
+    expect((await stale.getStatus()).error).toContain('is not among the loaded');
+  });
+});
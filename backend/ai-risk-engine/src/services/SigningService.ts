@@ -1,98 +1,215 @@
 import { ethers } from 'ethers';
-import { RiskConfig } from '../types';
+import { RiskConfig, RiskConfigSignature, SignatureMode, SignerBackend, SigningIntent } from '../types';
 import { logger } from '../utils/logger';
+import { SignatureVerifier } from './SignatureVerifier';
+import { CoSignerPolicy, RiskSigner, loadSigners, resolveSignerBackend } from './signers';
+import { hashRiskConfig, riskConfigDigest } from '../utils/riskConfigEncoding';
+
+// Minimal RiskParams ABI needed to sign against the on-chain nonce
+const RISK_PARAMS_ABI = [
+  'function nonce() external view returns (uint256)',
+  'function aiSigner() external view returns (address)'
+];
+
+export interface SignOptions {
+  // Skip the on-chain lookup and sign for this nonce
+  nonce?: number;
+}
 
 export class SigningService {
-  private wallet: ethers.Wallet;
+  private signers: Promise<RiskSigner[]>;
+  private backend: SignerBackend;
+  // Key matching RiskParams.aiSigner(), or the first loaded key when the chain is unknown
+  private active: RiskSigner | null = null;
+  private onChainSigner: string | null = null;
+  private provider: ethers.providers.JsonRpcProvider | null = null;
+  private riskParams: ethers.Contract | null = null;
+  private readonly mode: SignatureMode = 'eip191';
+  // Last nonce read from RiskParams; signs on its own only when no contract is configured
   private nonce: number = 0;
 
-  constructor() {
-    const privateKey = process.env.AI_SIGNER_PRIVATE_KEY;
-    if (!privateKey) {
-      throw new Error('AI_SIGNER_PRIVATE_KEY not set');
+  constructor(
+    private cosigning = new CoSignerPolicy(),
+    signers: Promise<RiskSigner[]> = loadSigners()
+  ) {
+    this.backend = resolveSignerBackend();
+
+    const riskParamsAddress = process.env.RISK_PARAMS_ADDRESS;
+    if (riskParamsAddress && process.env.RISE_RPC_URL) {
+      this.provider = new ethers.providers.JsonRpcProvider(process.env.RISE_RPC_URL);
+      this.riskParams = new ethers.Contract(riskParamsAddress, RISK_PARAMS_ABI, this.provider);
+    } else {
+      logger.warn('RISK_PARAMS_ADDRESS or RISE_RPC_URL not set, signing with last known nonce');
     }
-    this.wallet = new ethers.Wallet(privateKey);
-    logger.info('Signing service initialized with address:', this.wallet.address);
+
+    this.signers = signers.then(loaded => {
+      this.active = loaded[0];
+      this.backend = loaded[0].backend;
+      logger.info('Signing service initialized', {
+        backend: this.backend,
+        addresses: loaded.map(s => s.address),
+        cosignerThreshold: this.cosigning.threshold
+      });
+      return loaded;
+    });
+    // Surface bad key config at startup; signing requests fail with the same error
+    this.signers.catch(error => logger.error('Failed to load AI signer keys:', error));
   }
 
-  signRiskConfig(config: RiskConfig): string {
+  async signRiskConfig(config: RiskConfig, options: SignOptions = {}): Promise<RiskConfigSignature> {
     try {
-      // Encode the config for signing
-      const encoded = this.encodeRiskConfig(config);
-      
-      // Create message hash
-      const messageHash = ethers.utils.keccak256(encoded);
-      
-      // Sign the message hash
-      const signature = this.wallet._signingKey().signDigest(messageHash);
-      
-      // Return signature in standard format
-      const signatureString = ethers.utils.joinSignature(signature);
-      
-      this.nonce++;
-      
-      logger.info('Signed risk config', { 
-        signer: this.wallet.address,
-        nonce: this.nonce - 1,
-        signature: signatureString.substring(0, 10) + '...'
+      const signer = await this.activeSigner();
+      const nonce = options.nonce ?? await this.fetchOnChainNonce();
+
+      // RiskParams recovers from toEthSignedMessageHash(keccak256(abi.encode(config, nonce)))
+      const signature = await signer.signMessage(
+        ethers.utils.arrayify(hashRiskConfig(config, nonce))
+      );
+
+      const digest = riskConfigDigest(config, nonce);
+      // Remote signers are trusted to hold the key, not to sign the right bytes
+      if (ethers.utils.recoverAddress(digest, signature) !== signer.address) {
+        throw new Error(`${signer.backend} signer returned a signature that does not recover to ${signer.address}`);
+      }
+
+      logger.info('Signed risk config', {
+        signer: signer.address,
+        backend: signer.backend,
+        nonce,
+        signature: signature.substring(0, 10) + '...'
       });
-      
-      return signatureString;
+
+      return {
+        signature,
+        signer: signer.address,
+        nonce,
+        mode: this.mode,
+        digest
+      };
     } catch (error) {
       logger.error('Failed to sign risk config:', error);
       throw new Error('Signing failed');
     }
   }
 
-  verifySignature(config: RiskConfig, signature: string): boolean {
+  // Fixes nonce and digest for a config that co-signers must approve before it is signed
+  async prepare(config: RiskConfig): Promise<SigningIntent> {
+    const nonce = await this.fetchOnChainNonce();
+    return { nonce, mode: this.mode, digest: riskConfigDigest(config, nonce) };
+  }
+
+  async verifySignature(config: RiskConfig, signature: string, nonce: number): Promise<boolean> {
+    const signer = await this.activeSigner();
+    return new SignatureVerifier().verify(config, nonce, signature, signer.address);
+  }
+
+  // Pre-flight check that RiskParams.queueParams would accept the signature right now
+  async verifyAgainstChain(config: RiskConfig, signature: string): Promise<boolean> {
+    if (!this.riskParams) {
+      return false;
+    }
+    return new SignatureVerifier().verifyAgainstContract(config, signature, this.riskParams);
+  }
+
+  // The local counter only stands in when no RiskParams is configured; a
+  // guessed nonce (0 after a restart) yields signatures queueParams rejects
+  async fetchOnChainNonce(): Promise<number> {
+    if (!this.riskParams) {
+      return this.nonce;
+    }
+
     try {
-      const encoded = this.encodeRiskConfig(config);
-      const messageHash = ethers.utils.keccak256(encoded);
-      const recoveredAddress = ethers.utils.verifyMessage(
-        ethers.utils.arrayify(messageHash),
-        signature
-      );
-      
-      return recoveredAddress.toLowerCase() === this.wallet.address.toLowerCase();
+      const nonce: ethers.BigNumber = await this.riskParams.nonce();
+      this.nonce = nonce.toNumber();
     } catch (error) {
-      logger.error('Signature verification failed:', error);
-      return false;
+      logger.error('Failed to read RiskParams nonce', {
+        lastKnown: this.nonce,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error('RiskParams nonce unavailable, refusing to sign');
     }
+    return this.nonce;
+  }
+
+  /**
+   * Follows RiskParams.updateAiSigner: signs with whichever loaded key the
+   * contract currently accepts, and refuses to sign when it holds none of
+   * them rather than produce signatures queueParams would reject.
+   */
+  private async activeSigner(): Promise<RiskSigner> {
+    const signers = await this.signers;
+    const onChain = await this.fetchOnChainSigner();
+    if (!onChain) {
+      return this.active || signers[0];
+    }
+
+    const match = signers.find(s => s.address === onChain);
+    if (!match) {
+      throw new Error(`RiskParams aiSigner ${onChain} is not among the loaded ${this.backend} keys`);
+    }
+    if (match !== this.active) {
+      logger.warn('AI signer rotated to match RiskParams', { from: this.active?.address, to: match.address });
+      this.active = match;
+    }
+    return match;
+  }
+
+  private async fetchOnChainSigner(): Promise<string | null> {
+    if (!this.riskParams) {
+      return null;
+    }
+
+    try {
+      this.onChainSigner = ethers.utils.getAddress(await this.riskParams.aiSigner());
+    } catch (error) {
+      logger.warn('Failed to read RiskParams aiSigner, using last known value', {
+        aiSigner: this.onChainSigner,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    return this.onChainSigner;
   }
 
-  private encodeRiskConfig(config: RiskConfig): string {
-    // Encode the config in a deterministic way for consistent signing
-    const encoded = ethers.utils.defaultAbiCoder.encode(
-      [
-        'uint256', // epochLength
-        'uint256', // seniorTargetBps
-        'uint256', // maxDrawdownBps
-        'uint256', // slippageBps
-        'address[]', // strategies
-        'uint256[]', // targetWeightsBps
-        'uint256[]', // caps
-        'uint256' // nonce
-      ],
-      [
-        config.epochLength,
-        config.seniorTargetBps,
-        config.maxDrawdownBps,
-        config.slippageBps,
-        config.strategies,
-        config.targetWeightsBps,
-        config.caps,
-        this.nonce
-      ]
-    );
-    
-    return encoded;
+  // Key management view for operators; loads keys and checks RiskParams
+  async getStatus() {
+    let loaded: string[] = [];
+    let error: string | undefined;
+    try {
+      loaded = (await this.signers).map(s => s.address);
+      await this.activeSigner();
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    return {
+      backend: this.backend,
+      mode: this.mode,
+      active: this.active?.address || null,
+      loaded,
+      onChainSigner: this.onChainSigner,
+      inSync: this.onChainSigner === null ? null : this.active?.address === this.onChainSigner,
+      cosigning: {
+        threshold: this.cosigning.threshold,
+        cosigners: this.cosigning.getCosigners(),
+        approvalTtlMs: this.cosigning.ttlMs
+      },
+      error
+    };
+  }
+
+  getCoSignerPolicy(): CoSignerPolicy {
+    return this.cosigning;
   }
 
-  getSignerAddress(): string {
-    return this.wallet.address;
+  getSignerAddress(): string | null {
+    return this.active?.address || null;
   }
 
   getNonce(): number {
     return this.nonce;
   }
-}
\ No newline at end of file
+
+  getMode(): SignatureMode {
+    return this.mode;
+  }
+}
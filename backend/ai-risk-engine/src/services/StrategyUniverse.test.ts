@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { StrategyUniverse, splitByRiskClass } from './StrategyUniverse';
+import { StrategyInfo } from '../types';
+
+const LENDING = '0xfAF06fdc90399F1206ebE497842351d79e1F81eD';
+const LOOPING = '0x59D1D1ECDDfbc245Cf7b250369faA746d39d584A';
+const UNLISTED = ethers.utils.getAddress('0x00000000000000000000000000000000000000a9');
+const BROKEN = ethers.utils.getAddress('0x00000000000000000000000000000000000000aa');
+const ENV = { ...process.env };
+
+const registry = new ethers.utils.Interface([
+  'function getActiveStrategies() external view returns (address[])',
+  'function strategies(address) external view returns (bool enabled, uint256 cap, uint256 currentAllocation, uint256 maxLeverage, uint256 performanceFee, address adapter)',
+  'function getStrategyReport(address strategy) external view returns (uint256 totalAssets, int256 pnl, bool isActive)'
+]);
+
+const usdc = (value: number) => ethers.utils.parseUnits(String(value), 6);
+
+describe('StrategyUniverse', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    process.env = { ...ENV };
+    delete process.env.STRATEGY_REGISTRY_ADDRESS;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategy-universe-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...ENV };
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves the active fixture strategies with checksummed addresses and free capacity', () => {
+    const file = path.join(dir, 'registry.json');
+    fs.writeFileSync(file, JSON.stringify([
+      { address: LENDING.toLowerCase(), name: 'USDC Lending', riskClass: 'conservative', historicalApyBps: 450, cap: 5_000_000, currentAllocation: 1_800_000, maxLeverage: 1, active: true },
+      { address: LOOPING, name: 'ETH LST Looping', riskClass: 'moderate', historicalApyBps: 1400, cap: 2_000_000, currentAllocation: 900_000, maxLeverage: 3, active: false }
+    ]));
+
+    const universe = new StrategyUniverse(file);
+
+    expect(universe.source).toBe('fixture');
+    expect(universe.current()).toEqual([expect.objectContaining({ address: LENDING, capacity: 3_200_000, active: true })]);
+    expect(universe.has(LENDING.toUpperCase().replace('0X', '0x'))).toBe(true);
+    expect(universe.has(LOOPING)).toBe(false);
+    expect(universe.isConservative(LENDING)).toBe(true);
+  });
+
+  it('is empty rather than made up when the fixture is missing', () => {
+    expect(new StrategyUniverse(path.join(dir, 'missing.json')).current()).toEqual([]);
+  });
+
+  describe('against StrategyRegistry', () => {
+    let call: jest.SpyInstance;
+    let registryDown = false;
+
+    beforeEach(() => {
+      registryDown = false;
+      process.env.STRATEGY_REGISTRY_ADDRESS = ethers.utils.getAddress('0x00000000000000000000000000000000000000b2');
+      process.env.RISE_RPC_URL = 'http://127.0.0.1:8545';
+      jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'detectNetwork')
+        .mockResolvedValue({ chainId: 1337, name: 'test' });
+      call = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'call').mockImplementation(async tx => {
+        if (registryDown) throw new Error('connection refused');
+        const { name, args } = registry.parseTransaction({ data: String((tx as ethers.providers.TransactionRequest).data) });
+        if (name === 'getActiveStrategies') {
+          return registry.encodeFunctionResult(name, [[LENDING, UNLISTED, BROKEN]]);
+        }
+        if (name === 'strategies') {
+          return registry.encodeFunctionResult(name, [true, usdc(5_000_000), usdc(1_000_000), 2, 0, ethers.constants.AddressZero]);
+        }
+        // The broken strategy's adapter reverts
+        if (args[0] === BROKEN) throw new Error('execution reverted');
+        return registry.encodeFunctionResult(name, [usdc(1_000_500), usdc(500), true]);
+      });
+    });
+
+    it('reads caps and allocations on chain and metadata from the fixture', async () => {
+      const universe = new StrategyUniverse();
+
+      const strategies = await universe.refresh();
+
+      expect(universe.source).toBe('registry');
+      expect(strategies.map(s => s.address)).toEqual([LENDING, UNLISTED]);
+      expect(strategies[0]).toMatchObject({
+        name: 'USDC Lending',
+        riskClass: 'conservative',
+        cap: 5_000_000,
+        currentAllocation: 1_000_000,
+        capacity: 4_000_000,
+        maxLeverage: 2,
+        totalAssets: 1_000_500,
+        pnl: 500
+      });
+      expect(strategies[1]).toMatchObject({ name: 'Unlabelled strategy', riskClass: 'moderate', historicalApyBps: 0 });
+    });
+
+    it('keeps the last good snapshot when the registry cannot be read', async () => {
+      const universe = new StrategyUniverse();
+      const first = await universe.refresh();
+      const calls = call.mock.calls.length;
+
+      // Within the refresh interval nothing is read
+      expect(await universe.refresh()).toBe(first);
+      expect(call.mock.calls.length).toBe(calls);
+
+      registryDown = true;
+      expect(await universe.refresh(true)).toEqual(first);
+    });
+  });
+});
+
+describe('splitByRiskClass', () => {
+  const strategy = (address: string, riskClass: StrategyInfo['riskClass'], historicalApyBps: number, capacity = 100): StrategyInfo =>
+    ({ address, name: address, riskClass, historicalApyBps, cap: 100, currentAllocation: 100 - capacity, capacity, maxLeverage: 1, active: true });
+
+  it('splits each bucket by APY scaled by free capacity', () => {
+    const weights = splitByRiskClass([
+      strategy('a', 'conservative', 400),
+      strategy('b', 'conservative', 400, 50),
+      strategy('c', 'aggressive', 2000)
+    ], 6000);
+
+    expect(weights).toEqual([4000, 2000, 4000]);
+  });
+
+  it('hands an empty bucket its share to the other one', () => {
+    expect(splitByRiskClass([strategy('a', 'conservative', 400), strategy('b', 'conservative', 400)], 6000))
+      .toEqual([5000, 5000]);
+    expect(splitByRiskClass([strategy('c', 'moderate', 900)], 6000)).toEqual([10000]);
+  });
+});
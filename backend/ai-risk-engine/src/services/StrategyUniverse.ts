@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { StrategyInfo, StrategyRiskClass } from '../types';
+import { RISK_BOUNDS } from '../config/risk';
+import { toExactBps } from '../utils/weights';
+import { logger } from '../utils/logger';
+
+const STRATEGY_REGISTRY_ABI = [
+  'function getActiveStrategies() external view returns (address[])',
+  'function strategies(address) external view returns (bool enabled, uint256 cap, uint256 currentAllocation, uint256 maxLeverage, uint256 performanceFee, address adapter)',
+  'function getStrategyReport(address strategy) external view returns (uint256 totalAssets, int256 pnl, bool isActive)'
+];
+
+// Name, risk class and yield history are not on-chain; the fixture supplies them
+type StrategyMetadata = Pick<StrategyInfo, 'name' | 'riskClass' | 'historicalApyBps'>;
+
+const UNKNOWN_METADATA: StrategyMetadata = { name: 'Unlabelled strategy', riskClass: 'moderate', historicalApyBps: 0 };
+
+const REFRESH_MS = Number(process.env.STRATEGY_REFRESH_MS) || 5 * 60 * 1000;
+// USDC
+const ASSET_DECIMALS = Number(process.env.STRATEGY_ASSET_DECIMALS) || 6;
+
+/**
+ * The set of strategies the engine may allocate to. Reads StrategyRegistry
+ * when STRATEGY_REGISTRY_ADDRESS and RISE_RPC_URL are set, otherwise serves the
+ * JSON fixture (STRATEGY_FIXTURE_PATH). The last good snapshot is kept when a
+ * refresh fails so decisions never fall back to made-up addresses.
+ */
+export class StrategyUniverse {
+  private strategies: StrategyInfo[] = [];
+  private metadata = new Map<string, StrategyMetadata>();
+  private registry: ethers.Contract | null = null;
+  private lastRefresh = 0;
+
+  constructor(fixturePath = process.env.STRATEGY_FIXTURE_PATH || 'fixtures/strategies/registry.json') {
+    this.loadFixture(path.resolve(fixturePath));
+
+    if (process.env.STRATEGY_REGISTRY_ADDRESS && process.env.RISE_RPC_URL) {
+      const provider = new ethers.providers.JsonRpcProvider(process.env.RISE_RPC_URL);
+      this.registry = new ethers.Contract(process.env.STRATEGY_REGISTRY_ADDRESS, STRATEGY_REGISTRY_ABI, provider);
+    }
+  }
+
+  get source(): 'registry' | 'fixture' {
+    return this.registry ? 'registry' : 'fixture';
+  }
+
+  current(): StrategyInfo[] {
+    return this.strategies;
+  }
+
+  find(address: string): StrategyInfo | undefined {
+    return this.strategies.find(s => s.address.toLowerCase() === address.toLowerCase());
+  }
+
+  has(address: string): boolean {
+    return this.find(address) !== undefined;
+  }
+
+  isConservative(address: string): boolean {
+    return this.find(address)?.riskClass === 'conservative';
+  }
+
+  async refresh(force = false): Promise<StrategyInfo[]> {
+    if (!this.registry || (!force && Date.now() - this.lastRefresh < REFRESH_MS)) {
+      return this.strategies;
+    }
+
+    try {
+      const addresses: string[] = await this.registry.getActiveStrategies();
+      const strategies = await Promise.all(addresses.map(address => this.readStrategy(address)));
+      this.strategies = strategies.filter(s => s.active);
+      this.lastRefresh = Date.now();
+      logger.info('Strategy universe refreshed from StrategyRegistry', { strategies: this.strategies.length });
+    } catch (error) {
+      logger.error('Failed to read StrategyRegistry, keeping previous strategy universe:', error);
+    }
+    return this.strategies;
+  }
+
+  private async readStrategy(address: string): Promise<StrategyInfo> {
+    const registry = this.registry!;
+    const [info, report] = await Promise.all([
+      registry.strategies(address),
+      // Reverts when the adapter is broken; treat that strategy as inactive
+      registry.getStrategyReport(address).catch(() => null)
+    ]);
+    const toUsdc = (value: ethers.BigNumber) => Number(ethers.utils.formatUnits(value, ASSET_DECIMALS));
+    const cap = toUsdc(info.cap);
+    const currentAllocation = toUsdc(info.currentAllocation);
+    const checksummed = ethers.utils.getAddress(address);
+
+    return {
+      address: checksummed,
+      ...(this.metadata.get(checksummed.toLowerCase()) || UNKNOWN_METADATA),
+      cap,
+      currentAllocation,
+      capacity: Math.max(0, cap - currentAllocation),
+      maxLeverage: info.maxLeverage.toNumber(),
+      totalAssets: report ? toUsdc(report.totalAssets) : undefined,
+      pnl: report ? toUsdc(report.pnl) : undefined,
+      active: info.enabled && (report?.isActive ?? false)
+    };
+  }
+
+  private loadFixture(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      logger.warn('No strategy fixture found', { path: filePath });
+      return;
+    }
+
+    try {
+      const entries = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Array<Omit<StrategyInfo, 'capacity'>>;
+      for (const entry of entries) {
+        const address = ethers.utils.getAddress(entry.address);
+        this.metadata.set(address.toLowerCase(), {
+          name: entry.name,
+          riskClass: entry.riskClass,
+          historicalApyBps: entry.historicalApyBps
+        });
+        if (entry.active !== false) {
+          this.strategies.push({
+            ...entry,
+            address,
+            capacity: Math.max(0, entry.cap - entry.currentAllocation),
+            active: true
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to load strategy fixture:', error);
+    }
+  }
+}
+
+/**
+ * Splits `conservativeWeightBps` across conservative strategies and the rest
+ * across the others, each in proportion to historical APY scaled by how much
+ * of the strategy's capacity is still free. Weights line up with `strategies`.
+ */
+export function splitByRiskClass(strategies: StrategyInfo[], conservativeWeightBps: number): number[] {
+  const total = RISK_BOUNDS.TOTAL_WEIGHT_BPS;
+  const isConservative = (riskClass: StrategyRiskClass) => riskClass === 'conservative';
+  const conservative = strategies.filter(s => isConservative(s.riskClass));
+  const others = strategies.filter(s => !isConservative(s.riskClass));
+
+  // A bucket with nothing in it hands its share to the other one
+  const conservativeShare = others.length === 0 ? total : conservative.length === 0 ? 0 : conservativeWeightBps;
+
+  const score = (s: StrategyInfo) =>
+    Math.max(s.historicalApyBps, 1) * (s.cap > 0 ? Math.max(s.capacity / s.cap, 0.05) : 1);
+  const bucketWeights = (bucket: StrategyInfo[], share: number) => {
+    const sum = bucket.reduce((acc, s) => acc + score(s), 0);
+    return new Map(bucket.map(s => [s.address, sum > 0 ? share * score(s) / sum : 0]));
+  };
+
+  const weights = new Map([
+    ...bucketWeights(conservative, conservativeShare),
+    ...bucketWeights(others, total - conservativeShare)
+  ]);
+  return toExactBps(strategies.map(s => weights.get(s.address) || 0));
+}
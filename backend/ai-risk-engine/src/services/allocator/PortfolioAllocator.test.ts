@@ -0,0 +1,113 @@
+import { PortfolioAllocator } from './PortfolioAllocator';
+import { capOutsideGroup, constrainToBand } from './band';
+import { ALLOCATOR_MODES } from '../../config/allocator';
+import { AllocationEstimates } from '../../types';
+
+const strategies = ['0xA1', '0xA2', '0xA3', '0xA4'];
+
+// Annual vols of 5%, 10%, 20% and 40%, mildly correlated; the riskiest pays the most
+const vols = [0.05, 0.1, 0.2, 0.4];
+const estimates: AllocationEstimates = {
+  strategies,
+  expectedReturns: [0.03, 0.06, 0.1, 0.2],
+  covariance: vols.map((vi, i) => vols.map((vj, j) => (i === j ? 1 : 0.2) * vi * vj))
+};
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe('PortfolioAllocator', () => {
+  const allocator = new PortfolioAllocator();
+
+  it.each(ALLOCATOR_MODES)('%s keeps every weight inside the min, max and cap bounds', mode => {
+    const result = allocator.allocate(estimates, {
+      mode,
+      minWeightBps: 500,
+      maxWeightBps: 4000,
+      // The safest strategy can take at most 30% of 1M
+      caps: [300_000, 0, 0, 0],
+      totalAssets: 1_000_000,
+      targetVolatilityBps: 0
+    });
+
+    expect(sum(result.weightsBps)).toBe(10000);
+    expect(result.weightsBps.every(w => Number.isInteger(w) && w >= 500 && w <= 4000)).toBe(true);
+    expect(result.weightsBps[0]).toBeLessThanOrEqual(3000);
+    expect(sum(result.riskContributionsBps)).toBe(10000);
+  });
+
+  it('gives equal risk contributions under risk parity when the bounds do not bind', () => {
+    const result = allocator.allocate(estimates, { mode: 'risk-parity', maxWeightBps: 10000, targetVolatilityBps: 0 });
+
+    result.riskContributionsBps.forEach(contribution => expect(Math.abs(contribution - 2500)).toBeLessThanOrEqual(5));
+    // Lower vol takes more weight
+    expect(result.weightsBps).toEqual([...result.weightsBps].sort((a, b) => b - a));
+  });
+
+  it('tilts toward return as risk aversion falls under mean-variance', () => {
+    const cautious = allocator.allocate(estimates, { mode: 'mean-variance', riskAversion: 20, maxWeightBps: 10000, targetVolatilityBps: 0 });
+    const bold = allocator.allocate(estimates, { mode: 'mean-variance', riskAversion: 1, maxWeightBps: 10000, targetVolatilityBps: 0 });
+
+    expect(bold.expectedReturn).toBeGreaterThan(cautious.expectedReturn);
+    expect(bold.volatility).toBeGreaterThan(cautious.volatility);
+  });
+
+  it('blends toward min-variance to meet the vol target', () => {
+    const untargeted = allocator.allocate(estimates, { mode: 'mean-variance', riskAversion: 1, targetVolatilityBps: 0 });
+    const targeted = allocator.allocate(estimates, { mode: 'mean-variance', riskAversion: 1, targetVolatilityBps: 1200 });
+
+    expect(untargeted.volatility).toBeGreaterThan(0.12);
+    expect(targeted.volatility).toBeLessThanOrEqual(0.1201);
+    expect(targeted.notes.some(note => note.includes('toward min-variance'))).toBe(true);
+  });
+
+  it('drops bounds that cannot hold the whole portfolio, and says so', () => {
+    const overMinimum = allocator.allocate(estimates, { mode: 'min-variance', minWeightBps: 3000, targetVolatilityBps: 0 });
+    const underCapped = allocator.allocate(estimates, {
+      mode: 'min-variance',
+      caps: [100_000, 100_000, 100_000, 100_000],
+      totalAssets: 1_000_000,
+      targetVolatilityBps: 0
+    });
+
+    expect(sum(overMinimum.weightsBps)).toBe(10000);
+    expect(overMinimum.notes).toContain('Minimum weights exceed 100%; dropped the minimum');
+    expect(sum(underCapped.weightsBps)).toBe(10000);
+    expect(underCapped.notes).toContain('Caps and max weight cannot hold the whole portfolio; dropped the upper bounds');
+  });
+
+  it('keeps the previous weights while drift stays under the rebalance threshold', () => {
+    const fresh = allocator.allocate(estimates, { mode: 'risk-parity', targetVolatilityBps: 0 });
+    // Within 100 bps of the fresh weights, listed in another order and case
+    const previousWeights = fresh.weightsBps.map((w, i) => w + (i === 0 ? 100 : i === 1 ? -100 : 0));
+    const previous = {
+      strategies: [...strategies].reverse().map(s => s.toLowerCase()),
+      weightsBps: [...previousWeights].reverse()
+    };
+
+    const kept = allocator.allocate(estimates, { mode: 'risk-parity', targetVolatilityBps: 0, rebalanceThresholdBps: 200, previous });
+    const moved = allocator.allocate(estimates, { mode: 'risk-parity', targetVolatilityBps: 0, rebalanceThresholdBps: 50, previous });
+
+    expect(kept).toMatchObject({ rebalanced: false, weightsBps: previousWeights });
+    expect(moved).toMatchObject({ rebalanced: true, weightsBps: fresh.weightsBps });
+  });
+
+  it('refuses an empty universe', () => {
+    expect(() => allocator.allocate({ strategies: [], expectedReturns: [], covariance: [] }))
+      .toThrow('empty strategy universe');
+  });
+});
+
+describe('allocator bands', () => {
+  it('pulls weights back within the band around the baseline, keeping 10000 bps', () => {
+    const constrained = constrainToBand([8000, 1000, 1000, 0], [4000, 3000, 2000, 1000], 1500);
+
+    expect(sum(constrained)).toBe(10000);
+    constrained.forEach((w, i) => expect(Math.abs(w - [4000, 3000, 2000, 1000][i])).toBeLessThanOrEqual(1500));
+  });
+
+  it('caps the weight outside a group and grows the group in proportion', () => {
+    expect(capOutsideGroup([2000, 2000, 6000], [true, true, false], 3000)).toEqual([3500, 3500, 3000]);
+    expect(capOutsideGroup([2000, 2000, 6000], [true, true, false], 7000)).toEqual([2000, 2000, 6000]);
+    expect(capOutsideGroup([5000, 5000], [false, false], 3000)).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+import { AllocationEstimates, AllocationResult, AllocatorMode } from '../../types';
+import { ALLOCATOR_CONFIG } from '../../config/allocator';
+import { RISK_BOUNDS } from '../../config/risk';
+import { toExactBps } from '../../utils/weights';
+import { dot, matVec, maxRowSum, minimizeOnBox, projectToBox, variance } from './linalg';
+
+export interface AllocationOptions {
+  mode?: AllocatorMode;
+  // Mean-variance only
+  riskAversion?: number;
+  minWeightBps?: number;
+  maxWeightBps?: number;
+  // Per-strategy caps in USDC, applied as cap / totalAssets upper bounds
+  caps?: number[];
+  totalAssets?: number;
+  targetVolatilityBps?: number;
+  rebalanceThresholdBps?: number;
+  previous?: { strategies: string[]; weightsBps: number[] };
+}
+
+/**
+ * Long-only allocator over the registry strategies. Each mode solves on the
+ * box { minWeight <= w <= min(maxWeight, cap / totalAssets), sum(w) = 1 },
+ * then the RiskParityOverlay-style overlay applies the vol target and
+ * rebalance threshold. Output always sums to exactly 10000 bps.
+ */
+export class PortfolioAllocator {
+  allocate(estimates: AllocationEstimates, options: AllocationOptions = {}): AllocationResult {
+    const mode = options.mode ?? ALLOCATOR_CONFIG.MODE;
+    const { strategies, expectedReturns, covariance } = estimates;
+    const n = strategies.length;
+    const notes: string[] = [];
+    if (n === 0) {
+      throw new Error('Cannot allocate across an empty strategy universe');
+    }
+
+    const { lower, upper } = this.bounds(options, n, notes);
+    let weights: number[];
+    switch (mode) {
+      case 'mean-variance':
+        weights = this.meanVariance(expectedReturns, covariance, options.riskAversion ?? 4, lower, upper);
+        break;
+      case 'min-variance':
+        weights = this.minVariance(covariance, lower, upper);
+        break;
+      case 'risk-parity':
+        weights = projectToBox(this.riskParity(covariance), lower, upper);
+        break;
+      case 'max-diversification':
+        weights = this.maxDiversification(covariance, lower, upper);
+        break;
+      default:
+        throw new Error(`Unknown allocator mode: ${mode}`);
+    }
+
+    weights = this.applyVolTarget(weights, covariance, lower, upper, options, notes);
+
+    let weightsBps = toExactBps(weights);
+    let rebalanced = true;
+    const previous = this.alignPrevious(strategies, options.previous);
+    const threshold = options.rebalanceThresholdBps ?? ALLOCATOR_CONFIG.REBALANCE_THRESHOLD_BPS;
+    if (previous && Math.max(...weightsBps.map((w, i) => Math.abs(w - previous[i]))) < threshold) {
+      weightsBps = previous;
+      rebalanced = false;
+      notes.push(`Drift below ${threshold} bps rebalance threshold; kept previous weights`);
+    }
+
+    return { mode, strategies, weightsBps, rebalanced, notes, ...this.describe(weightsBps, estimates) };
+  }
+
+  private bounds(options: AllocationOptions, n: number, notes: string[]): { lower: number[]; upper: number[] } {
+    const total = RISK_BOUNDS.TOTAL_WEIGHT_BPS;
+    const minWeight = (options.minWeightBps ?? ALLOCATOR_CONFIG.MIN_WEIGHT_BPS) / total;
+    const maxWeight = (options.maxWeightBps ?? ALLOCATOR_CONFIG.MAX_WEIGHT_BPS) / total;
+
+    let lower = Array(n).fill(minWeight);
+    let upper = Array.from({ length: n }, (_, i) => {
+      const cap = options.caps?.[i];
+      // A cap of 0 means uncapped, as in the backtester
+      const capWeight = cap && options.totalAssets ? cap / options.totalAssets : 1;
+      return Math.max(minWeight, Math.min(maxWeight, capWeight));
+    });
+
+    if (lower.reduce((a, b) => a + b, 0) > 1) {
+      notes.push('Minimum weights exceed 100%; dropped the minimum');
+      lower = Array(n).fill(0);
+    }
+    if (upper.reduce((a, b) => a + b, 0) < 1) {
+      notes.push('Caps and max weight cannot hold the whole portfolio; dropped the upper bounds');
+      upper = Array(n).fill(1);
+    }
+    return { lower, upper };
+  }
+
+  private meanVariance(mu: number[], covariance: number[][], riskAversion: number, lower: number[], upper: number[]): number[] {
+    // minimize -w'mu + lambda/2 w'Sigma w
+    const gradient = (w: number[]) => matVec(covariance, w).map((x, i) => riskAversion * x - mu[i]);
+    return minimizeOnBox(gradient, this.equal(mu.length), lower, upper,
+      riskAversion * maxRowSum(covariance), ALLOCATOR_CONFIG.MAX_ITERATIONS);
+  }
+
+  private minVariance(covariance: number[][], lower: number[], upper: number[]): number[] {
+    // minimize w'Sigma w / 2
+    return minimizeOnBox(w => matVec(covariance, w), this.equal(covariance.length), lower, upper,
+      maxRowSum(covariance), ALLOCATOR_CONFIG.MAX_ITERATIONS);
+  }
+
+  /**
+   * Equal risk contribution via cyclical coordinate descent on
+   * y'Sigma y / 2 - sum(log y_i) / n, then w = y / sum(y).
+   */
+  private riskParity(covariance: number[][]): number[] {
+    const n = covariance.length;
+    const budget = 1 / n;
+    const y = this.equal(n);
+
+    for (let iteration = 0; iteration < ALLOCATOR_CONFIG.MAX_ITERATIONS; iteration++) {
+      let moved = 0;
+      for (let i = 0; i < n; i++) {
+        const own = covariance[i][i];
+        const cross = dot(covariance[i], y) - own * y[i];
+        const next = (-cross + Math.sqrt(cross ** 2 + 4 * own * budget)) / (2 * own);
+        moved += Math.abs(next - y[i]);
+        y[i] = next;
+      }
+      if (moved < 1e-12) break;
+    }
+
+    const sum = y.reduce((a, b) => a + b, 0);
+    return y.map(v => v / sum);
+  }
+
+  // Min-variance on the correlation matrix, rescaled by 1/vol
+  private maxDiversification(covariance: number[][], lower: number[], upper: number[]): number[] {
+    const vols = covariance.map((row, i) => Math.sqrt(row[i]));
+    const correlation = covariance.map((row, i) => row.map((c, j) => c / (vols[i] * vols[j])));
+    const n = covariance.length;
+    const y = this.minVariance(correlation, Array(n).fill(0), Array(n).fill(1));
+    const scaled = y.map((v, i) => v / vols[i]);
+    const sum = scaled.reduce((a, b) => a + b, 0);
+    return projectToBox(scaled.map(v => v / sum), lower, upper);
+  }
+
+  // Blend toward min-variance until portfolio vol is at or below the target
+  private applyVolTarget(
+    weights: number[],
+    covariance: number[][],
+    lower: number[],
+    upper: number[],
+    options: AllocationOptions,
+    notes: string[]
+  ): number[] {
+    const targetBps = options.targetVolatilityBps ?? ALLOCATOR_CONFIG.TARGET_VOLATILITY_BPS;
+    if (!targetBps) return weights;
+
+    const target = targetBps / 10000;
+    const vol = (w: number[]) => Math.sqrt(variance(w, covariance));
+    if (vol(weights) <= target) return weights;
+
+    const floor = this.minVariance(covariance, lower, upper);
+    const blend = (alpha: number) => weights.map((w, i) => alpha * w + (1 - alpha) * floor[i]);
+    if (vol(floor) > target) {
+      notes.push(`Vol target ${targetBps} bps is below the minimum-variance portfolio; using min-variance`);
+      return floor;
+    }
+
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < 50; i++) {
+      const mid = (lo + hi) / 2;
+      if (vol(blend(mid)) > target) hi = mid;
+      else lo = mid;
+    }
+    notes.push(`Blended ${Math.round((1 - lo) * 100)}% toward min-variance to meet the ${targetBps} bps vol target`);
+    return blend(lo);
+  }
+
+  private alignPrevious(strategies: string[], previous?: AllocationOptions['previous']): number[] | null {
+    if (!previous || previous.strategies.length !== strategies.length) return null;
+    const byAddress = new Map(previous.strategies.map((s, i) => [s.toLowerCase(), previous.weightsBps[i]]));
+    const aligned = strategies.map(s => byAddress.get(s.toLowerCase()));
+    return aligned.every((w): w is number => w !== undefined) ? aligned : null;
+  }
+
+  private describe(weightsBps: number[], estimates: AllocationEstimates) {
+    const w = weightsBps.map(x => x / RISK_BOUNDS.TOTAL_WEIGHT_BPS);
+    const { covariance, expectedReturns } = estimates;
+    const portfolioVariance = variance(w, covariance);
+    const marginal = matVec(covariance, w);
+    const vols = covariance.map((row, i) => Math.sqrt(row[i]));
+    const volatility = Math.sqrt(portfolioVariance);
+
+    return {
+      expectedReturn: dot(w, expectedReturns),
+      volatility,
+      riskContributionsBps: portfolioVariance > 0
+        ? toExactBps(w.map((x, i) => x * marginal[i]))
+        : w.map(() => 0),
+      diversificationRatio: volatility > 0 ? dot(w, vols) / volatility : 1
+    };
+  }
+
+  private equal(n: number): number[] {
+    return Array(n).fill(1 / n);
+  }
+}
@@ -0,0 +1,39 @@
+import { RISK_BOUNDS } from '../../config/risk';
+import { toExactBps } from '../../utils/weights';
+import { projectToBox } from './linalg';
+
+/**
+ * Moves `weightsBps` to the nearest allocation where every weight is within
+ * `deltaBps` of the baseline, keeping the exact 10000 bps total.
+ */
+export function constrainToBand(weightsBps: number[], baselineBps: number[], deltaBps: number): number[] {
+  const total = RISK_BOUNDS.TOTAL_WEIGHT_BPS;
+  const lower = baselineBps.map(b => Math.max(0, b - deltaBps) / total);
+  const upper = baselineBps.map(b => Math.min(total, b + deltaBps) / total);
+  return toExactBps(projectToBox(toExactBps(weightsBps).map(w => w / total), lower, upper));
+}
+
+/**
+ * Limits the combined weight outside `inGroup` to `maxOutsideBps`, scaling
+ * outside weights down and growing the group's weights in proportion. Returns
+ * null when the group is empty and the limit binds.
+ */
+export function capOutsideGroup(weightsBps: number[], inGroup: boolean[], maxOutsideBps: number): number[] | null {
+  const total = RISK_BOUNDS.TOTAL_WEIGHT_BPS;
+  const weights = toExactBps(weightsBps);
+  const groupWeight = weights.reduce((sum, w, i) => sum + (inGroup[i] ? w : 0), 0);
+  const outside = total - groupWeight;
+  if (outside <= maxOutsideBps) return weights;
+
+  const groupCount = inGroup.filter(Boolean).length;
+  if (groupCount === 0) return null;
+
+  const outsideScale = maxOutsideBps / outside;
+  return toExactBps(weights.map((w, i) => {
+    if (!inGroup[i]) return w * outsideScale;
+    // Group members keep their relative sizes while absorbing the excess
+    return groupWeight > 0
+      ? w * (total - maxOutsideBps) / groupWeight
+      : (total - maxOutsideBps) / groupCount;
+  }));
+}
@@ -0,0 +1,36 @@
+import { AllocationEstimates, MarketData, StrategyInfo } from '../../types';
+import { DEFAULT_BACKTEST_OPTIONS, FALLBACK_STRATEGY_MODEL } from '../../config/backtest';
+import { FUNDING_FACTOR_VOL, IDIOSYNCRATIC_VOL } from '../../config/allocator';
+
+/**
+ * Two-factor covariance (crypto market beta and funding carry) plus
+ * risk-class idiosyncratic vol. Loadings are the backtest return models, so
+ * the allocator and the backtester agree on what each strategy is exposed to.
+ * Expected returns are the registry's historical APY.
+ */
+export function estimateStrategyMoments(
+  strategies: StrategyInfo[],
+  marketData: MarketData,
+  models = DEFAULT_BACKTEST_OPTIONS.strategyModels
+): AllocationEstimates {
+  // Prefer realized vol over implied when we have it
+  const realized = marketData.realizedVol?.btc?.garmanKlass ?? marketData.realizedVol?.btc?.closeToClose;
+  const marketVol = Math.max(realized ?? marketData.impliedVol, 1) / 100;
+  const correlation = marketData.crossAssetCorr ?? 0.65;
+
+  const loadings = strategies.map(s => models[s.address] ?? FALLBACK_STRATEGY_MODEL);
+  // The market factor is a BTC/ETH basket; imperfect correlation diversifies it slightly
+  const basketVol = marketVol * Math.sqrt((1 + correlation) / 2);
+
+  const covariance = strategies.map((a, i) => strategies.map((_, j) => {
+    const factor = loadings[i].beta * loadings[j].beta * basketVol ** 2 +
+      loadings[i].fundingExposure * loadings[j].fundingExposure * FUNDING_FACTOR_VOL ** 2;
+    return i === j ? factor + IDIOSYNCRATIC_VOL[a.riskClass] ** 2 : factor;
+  }));
+
+  return {
+    strategies: strategies.map(s => s.address),
+    expectedReturns: strategies.map(s => s.historicalApyBps / 10000),
+    covariance
+  };
+}
@@ -0,0 +1,5 @@
+export { PortfolioAllocator } from './PortfolioAllocator';
+export type { AllocationOptions } from './PortfolioAllocator';
+export { estimateStrategyMoments } from './estimates';
+export { capOutsideGroup, constrainToBand } from './band';
+export { variance } from './linalg';
@@ -0,0 +1,55 @@
+// Small dense helpers; strategy counts are capped at StrategyRegistry.MAX_STRATEGIES
+
+export const matVec = (m: number[][], v: number[]) =>
+  m.map(row => row.reduce((sum, x, j) => sum + x * v[j], 0));
+
+export const dot = (a: number[], b: number[]) => a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+export const variance = (w: number[], covariance: number[][]) => dot(w, matVec(covariance, w));
+
+/**
+ * Euclidean projection onto { sum(w) = 1, lower <= w <= upper } by bisecting
+ * the shift tau in w = clip(v - tau, lower, upper).
+ */
+export function projectToBox(v: number[], lower: number[], upper: number[]): number[] {
+  const clipped = (tau: number) => v.map((x, i) => Math.min(upper[i], Math.max(lower[i], x - tau)));
+  const total = (tau: number) => clipped(tau).reduce((a, b) => a + b, 0);
+
+  let lo = Math.min(...v.map((x, i) => x - upper[i]));
+  let hi = Math.max(...v.map((x, i) => x - lower[i]));
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (total(mid) > 1) lo = mid;
+    else hi = mid;
+  }
+  return clipped((lo + hi) / 2);
+}
+
+// Upper bound on the largest eigenvalue of a symmetric matrix (max absolute row sum)
+export const maxRowSum = (m: number[][]) =>
+  Math.max(...m.map(row => row.reduce((sum, x) => sum + Math.abs(x), 0)), 1e-12);
+
+/**
+ * Projected gradient descent for a smooth convex f over the box-constrained
+ * simplex, with step 1/lipschitz so every iteration decreases f.
+ */
+export function minimizeOnBox(
+  gradient: (w: number[]) => number[],
+  start: number[],
+  lower: number[],
+  upper: number[],
+  lipschitz: number,
+  iterations: number
+): number[] {
+  const step = 1 / lipschitz;
+  let w = projectToBox(start, lower, upper);
+
+  for (let i = 0; i < iterations; i++) {
+    const g = gradient(w);
+    const next = projectToBox(w.map((x, j) => x - step * g[j]), lower, upper);
+    const moved = next.reduce((sum, x, j) => sum + Math.abs(x - w[j]), 0);
+    w = next;
+    if (moved < 1e-10) break;
+  }
+  return w;
+}
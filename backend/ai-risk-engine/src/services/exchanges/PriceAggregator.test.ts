@@ -0,0 +1,84 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PriceAggregator } from './PriceAggregator';
+import { BinanceAdapter, BitgetAdapter, HtxAdapter, KucoinAdapter } from './adapters';
+import { startExchangeFixtureServer } from '../../dev/exchangeFixtureServer';
+import { ExchangeAdapter } from '../../types';
+
+describe('PriceAggregator against recorded venue responses', () => {
+  let server: http.Server;
+  let venues: Record<'binance' | 'kucoin' | 'htx' | 'bitget' | 'mexc', ExchangeAdapter>;
+
+  beforeAll(async () => {
+    server = await startExchangeFixtureServer(0);
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    venues = {
+      binance: new BinanceAdapter('binance', `${url}/binance`),
+      kucoin: new KucoinAdapter(`${url}/kucoin`),
+      htx: new HtxAdapter(`${url}/htx`),
+      // Recorded 15 minutes old
+      bitget: new BitgetAdapter(`${url}/bitget`),
+      // Recorded about 4% above the other venues
+      mexc: new BinanceAdapter('mexc', `${url}/mexc`, true)
+    };
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  const aggregator = (...names: Array<keyof typeof venues>) =>
+    new PriceAggregator(names.map(name => venues[name]), 1.5);
+
+  it('weights venue prices by quote volume', async () => {
+    const quote = await aggregator('binance', 'kucoin', 'htx').getQuote('BTC');
+
+    // Binance's USDT book is deeper than its USDC book, so it stands for the venue
+    const weighted = [[65010, 1_200_000_000], [64990.5, 150_000_000], [65005, 90_000_000]];
+    const volume = weighted.reduce((sum, [, v]) => sum + v, 0);
+    expect(quote).not.toBeNull();
+    expect(quote!.sources).toEqual(['binance', 'kucoin', 'htx']);
+    expect(quote!.volume).toBe(volume);
+    expect(quote!.price).toBeCloseTo(weighted.reduce((sum, [p, v]) => sum + p * v, 0) / volume, 6);
+    expect(quote!.rejected).toEqual([]);
+    expect(quote!.stale).toBe(false);
+  });
+
+  it('rejects a venue further than MAX_DEVIATION_PCT from the median', async () => {
+    const quote = await aggregator('binance', 'kucoin', 'htx', 'mexc').getQuote('BTC');
+
+    expect(quote!.sources).toEqual(['binance', 'kucoin', 'htx']);
+    expect(quote!.rejected).toHaveLength(1);
+    expect(quote!.rejected[0]).toMatchObject({ venue: 'mexc', price: 67650 });
+    expect(quote!.rejected[0].deviationPct).toBeGreaterThan(1.5);
+    expect(quote!.price).toBeLessThan(65010);
+  });
+
+  it('keeps every venue when fewer than three are available', async () => {
+    const quote = await aggregator('binance', 'mexc').getQuote('BTC');
+
+    expect(quote!.sources).toEqual(['binance', 'mexc']);
+    expect(quote!.rejected).toEqual([]);
+    expect(quote!.price).toBeCloseTo((65010 * 1_200_000_000 + 67650 * 70_000_000) / 1_270_000_000, 6);
+  });
+
+  it('ignores stale venues while a fresh one answers', async () => {
+    const quote = await aggregator('kucoin', 'bitget').getQuote('BTC');
+
+    expect(quote!.sources).toEqual(['kucoin']);
+    expect(quote!.stale).toBe(false);
+  });
+
+  it('falls back to stale venues when nothing fresher is available', async () => {
+    const quote = await aggregator('bitget').getQuote('BTC');
+
+    expect(quote!.sources).toEqual(['bitget']);
+    expect(quote!.price).toBe(64700);
+    expect(quote!.stale).toBe(true);
+    expect(quote!.stalenessMs).toBeGreaterThanOrEqual(900_000);
+  });
+
+  it('returns null when no venue lists the pair', async () => {
+    await expect(aggregator('binance', 'kucoin').getQuote('DOGE')).resolves.toBeNull();
+  });
+});
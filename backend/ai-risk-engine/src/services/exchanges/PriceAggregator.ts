@@ -0,0 +1,83 @@
+import { AggregatedQuote, ExchangeAdapter, VenueQuote } from '../../types';
+import { CEX_CONFIG } from '../../config/market';
+import { median } from '../../utils/stats';
+import { logger } from '../../utils/logger';
+
+// Below this many venues there is no majority to reject an outlier against
+const MIN_VENUES_FOR_REJECTION = 3;
+
+export class PriceAggregator {
+  private adapters: ExchangeAdapter[];
+  private maxDeviationPct: number;
+
+  constructor(adapters: ExchangeAdapter[], maxDeviationPct = CEX_CONFIG.MAX_DEVIATION_PCT) {
+    this.adapters = adapters;
+    this.maxDeviationPct = maxDeviationPct;
+  }
+
+  async getQuote(base: string): Promise<AggregatedQuote | null> {
+    const venueQuotes = await Promise.all(this.adapters.map(adapter => this.bestVenueQuote(adapter, base)));
+    const now = Date.now();
+    const quotes = venueQuotes.filter((q): q is VenueQuote => q !== null);
+    if (quotes.length === 0) {
+      logger.warn(`No venue returned a quote for ${base}`);
+      return null;
+    }
+
+    // Stale venues only count when nothing fresher is available
+    const fresh = quotes.filter(q => now - q.timestamp <= CEX_CONFIG.STALE_QUOTE_MS);
+    const usable = fresh.length > 0 ? fresh : quotes;
+
+    const center = median(usable.map(q => q.price));
+    const deviation = (q: VenueQuote) => Math.abs(q.price / center - 1) * 100;
+    const rejected = usable.length >= MIN_VENUES_FOR_REJECTION
+      ? usable.filter(q => deviation(q) > this.maxDeviationPct)
+      : [];
+    const accepted = usable.filter(q => !rejected.includes(q));
+
+    if (rejected.length > 0) {
+      logger.warn(`Rejected outlier venues for ${base}`, {
+        median: center,
+        rejected: rejected.map(q => ({ venue: q.venue, price: q.price }))
+      });
+    }
+
+    const volume = accepted.reduce((sum, q) => sum + q.volume, 0);
+    // Fall back to equal weights if no venue reported volume
+    const weight = (q: VenueQuote) => volume > 0 ? q.volume / volume : 1 / accepted.length;
+    const oldest = Math.min(...accepted.map(q => q.timestamp));
+
+    return {
+      price: accepted.reduce((sum, q) => sum + q.price * weight(q), 0),
+      volume,
+      priceChange24h: accepted.reduce((sum, q) => sum + q.priceChange24h * weight(q), 0),
+      sourceCount: accepted.length,
+      sources: accepted.map(q => q.venue),
+      rejected: rejected.map(q => ({
+        venue: q.venue,
+        price: q.price,
+        deviationPct: Number(deviation(q).toFixed(3))
+      })),
+      stalenessMs: Math.max(0, now - oldest),
+      stale: fresh.length === 0,
+      timestamp: now
+    };
+  }
+
+  // A venue may list the base against several stablecoins; keep its deepest book
+  private async bestVenueQuote(adapter: ExchangeAdapter, base: string): Promise<VenueQuote | null> {
+    try {
+      const quotes = await Promise.all(
+        CEX_CONFIG.QUOTE_PRIORITY.map(quote => adapter.fetchQuote(base, quote))
+      );
+      return quotes
+        .filter((q): q is VenueQuote => q !== null)
+        .sort((a, b) => b.volume - a.volume)[0] || null;
+    } catch (error) {
+      logger.warn(`Quote fetch failed on ${adapter.venue}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { ExchangeAdapter, ExchangeVenue, VenueQuote } from '../../types';
+import { CEX_CONFIG } from '../../config/market';
+import { safeFetch } from '../../utils/http';
+
+const toNumber = (value: unknown): number => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : NaN;
+};
+
+// Drops quotes a venue returns for delisted or halted pairs
+const validQuote = (quote: VenueQuote): VenueQuote | null =>
+  quote.price > 0 && Number.isFinite(quote.volume) ? quote : null;
+
+// Binance and MEXC share the /api/v3/ticker/24hr shape; MEXC reports the change as a ratio
+export class BinanceAdapter implements ExchangeAdapter {
+  readonly venue: ExchangeVenue;
+  private baseUrl: string;
+  private changeScale: number;
+
+  constructor(venue: ExchangeVenue = 'binance', baseUrl = CEX_CONFIG.BINANCE_PROXY_URL, changeIsRatio = false) {
+    this.venue = venue;
+    this.baseUrl = baseUrl;
+    this.changeScale = changeIsRatio ? 100 : 1;
+  }
+
+  async fetchQuote(base: string, quote: string): Promise<VenueQuote | null> {
+    const symbol = `${base}${quote}`;
+    const data = await safeFetch(`${this.baseUrl}/api/v3/ticker/24hr?symbol=${symbol}`);
+    if (!data?.lastPrice) return null;
+
+    return validQuote({
+      venue: this.venue,
+      symbol,
+      price: toNumber(data.lastPrice),
+      volume: toNumber(data.quoteVolume),
+      priceChange24h: toNumber(data.priceChangePercent) * this.changeScale,
+      timestamp: data.closeTime ? Number(data.closeTime) : Date.now()
+    });
+  }
+}
+
+export class KucoinAdapter implements ExchangeAdapter {
+  readonly venue = 'kucoin' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl = CEX_CONFIG.VENUE_URLS.kucoin) {
+    this.baseUrl = baseUrl;
+  }
+
+  async fetchQuote(base: string, quote: string): Promise<VenueQuote | null> {
+    const symbol = `${base}-${quote}`;
+    const data = await safeFetch(`${this.baseUrl}/api/v1/market/stats?symbol=${symbol}`);
+    const stats = data?.data;
+    if (data?.code !== '200000' || !stats?.last) return null;
+
+    return validQuote({
+      venue: this.venue,
+      symbol,
+      price: toNumber(stats.last),
+      volume: toNumber(stats.volValue),
+      priceChange24h: toNumber(stats.changeRate) * 100,
+      timestamp: stats.time ? Number(stats.time) : Date.now()
+    });
+  }
+}
+
+export class HtxAdapter implements ExchangeAdapter {
+  readonly venue = 'htx' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl = CEX_CONFIG.VENUE_URLS.htx) {
+    this.baseUrl = baseUrl;
+  }
+
+  async fetchQuote(base: string, quote: string): Promise<VenueQuote | null> {
+    const symbol = `${base}${quote}`.toLowerCase();
+    const data = await safeFetch(`${this.baseUrl}/market/detail/merged?symbol=${symbol}`);
+    const tick = data?.tick;
+    if (data?.status !== 'ok' || !tick?.close) return null;
+
+    const open = toNumber(tick.open);
+    return validQuote({
+      venue: this.venue,
+      symbol,
+      price: toNumber(tick.close),
+      // HTX reports quote-currency turnover as "vol"
+      volume: toNumber(tick.vol),
+      priceChange24h: open > 0 ? (toNumber(tick.close) / open - 1) * 100 : 0,
+      timestamp: data.ts ? Number(data.ts) : Date.now()
+    });
+  }
+}
+
+export class BitgetAdapter implements ExchangeAdapter {
+  readonly venue = 'bitget' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl = CEX_CONFIG.VENUE_URLS.bitget) {
+    this.baseUrl = baseUrl;
+  }
+
+  async fetchQuote(base: string, quote: string): Promise<VenueQuote | null> {
+    const symbol = `${base}${quote}`;
+    const data = await safeFetch(`${this.baseUrl}/api/v2/spot/market/tickers?symbol=${symbol}`);
+    const ticker = data?.data?.[0];
+    if (data?.code !== '00000' || !ticker?.lastPr) return null;
+
+    return validQuote({
+      venue: this.venue,
+      symbol,
+      price: toNumber(ticker.lastPr),
+      volume: toNumber(ticker.quoteVolume),
+      priceChange24h: toNumber(ticker.change24h) * 100,
+      timestamp: ticker.ts ? Number(ticker.ts) : Date.now()
+    });
+  }
+}
+
+export class GateAdapter implements ExchangeAdapter {
+  readonly venue = 'gate' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl = CEX_CONFIG.VENUE_URLS.gate) {
+    this.baseUrl = baseUrl;
+  }
+
+  async fetchQuote(base: string, quote: string): Promise<VenueQuote | null> {
+    const symbol = `${base}_${quote}`;
+    const data = await safeFetch(`${this.baseUrl}/api/v4/spot/tickers?currency_pair=${symbol}`);
+    const ticker = Array.isArray(data) ? data[0] : null;
+    if (!ticker?.last) return null;
+
+    // Gate tickers carry no timestamp
+    return validQuote({
+      venue: this.venue,
+      symbol,
+      price: toNumber(ticker.last),
+      volume: toNumber(ticker.quote_volume),
+      priceChange24h: toNumber(ticker.change_percentage),
+      timestamp: Date.now()
+    });
+  }
+}
+
+// Aggregates on-chain pools for the pair; wrapped tokens count as the base asset
+export class DexScreenerAdapter implements ExchangeAdapter {
+  readonly venue = 'dexscreener' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl = CEX_CONFIG.DEXSCREENER_PROXY_URL) {
+    this.baseUrl = baseUrl;
+  }
+
+  async fetchQuote(base: string, quote: string): Promise<VenueQuote | null> {
+    const data = await safeFetch(`${this.baseUrl}/latest/dex/search?q=${base}%20${quote}`);
+    const baseSymbols = [base, `W${base}`];
+    const pairs: any[] = (data?.pairs || []).filter((p: any) =>
+      baseSymbols.includes(String(p.baseToken?.symbol).toUpperCase()) &&
+      String(p.quoteToken?.symbol).toUpperCase().startsWith(quote.substring(0, 3)) &&
+      toNumber(p.priceUsd) > 0
+    );
+    if (pairs.length === 0) return null;
+
+    const volume = pairs.reduce((sum, p) => sum + (toNumber(p.volume?.h24) || 0), 0);
+    if (volume === 0) return null;
+    const weighted = (pick: (p: any) => number) =>
+      pairs.reduce((sum, p) => sum + pick(p) * (toNumber(p.volume?.h24) || 0), 0) / volume;
+
+    return validQuote({
+      venue: this.venue,
+      symbol: `${base}/${quote}`,
+      price: weighted(p => toNumber(p.priceUsd)),
+      volume,
+      priceChange24h: weighted(p => toNumber(p.priceChange?.h24) || 0),
+      timestamp: Date.now()
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { ExchangeAdapter, ExchangeVenue } from '../../types';
+import { CEX_CONFIG } from '../../config/market';
+import {
+  BinanceAdapter,
+  BitgetAdapter,
+  DexScreenerAdapter,
+  GateAdapter,
+  HtxAdapter,
+  KucoinAdapter
+} from './adapters';
+
+export { BinanceAdapter, BitgetAdapter, DexScreenerAdapter, GateAdapter, HtxAdapter, KucoinAdapter };
+export { PriceAggregator } from './PriceAggregator';
+
+function createAdapter(venue: ExchangeVenue): ExchangeAdapter {
+  switch (venue) {
+    case 'binance':
+      return new BinanceAdapter();
+    case 'kucoin':
+      return new KucoinAdapter();
+    case 'htx':
+      return new HtxAdapter();
+    case 'bitget':
+      return new BitgetAdapter();
+    case 'mexc':
+      return new BinanceAdapter('mexc', CEX_CONFIG.VENUE_URLS.mexc, true);
+    case 'gate':
+      return new GateAdapter();
+    case 'dexscreener':
+      return new DexScreenerAdapter();
+    default:
+      throw new Error(`Unknown exchange venue: ${venue}`);
+  }
+}
+
+// PRICE_VENUES narrows the venue list, e.g. "binance,kucoin,dexscreener"
+export function createExchangeAdapters(
+  venues: ExchangeVenue[] = process.env.PRICE_VENUES
+    ? (process.env.PRICE_VENUES.split(',').map(v => v.trim()).filter(Boolean) as ExchangeVenue[])
+    : [...(CEX_CONFIG.CEX_PRIORITY as ExchangeVenue[]), ...(CEX_CONFIG.INCLUDE_DEX ? ['dexscreener' as const] : [])]
+): ExchangeAdapter[] {
+  return venues.map(createAdapter);
+}
@@ -0,0 +1,57 @@
+import { LLMProvider, LLMProviderName, LLMProviderSettings } from '../../types';
+import { logger } from '../../utils/logger';
+import { metrics } from '../../utils/metrics';
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  readonly settings: LLMProviderSettings;
+
+  constructor(settings: LLMProviderSettings) {
+    this.settings = settings;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    let lastError: unknown;
+    const startedAt = Date.now();
+
+    for (let attempt = 0; attempt <= this.settings.maxRetries; attempt++) {
+      try {
+        const text = await this.withTimeout(this.complete(prompt));
+        this.recordOutcome('success', startedAt);
+        return text;
+      } catch (error) {
+        lastError = error;
+        logger.warn(`${this.name} completion attempt ${attempt + 1} failed`, {
+          model: this.settings.model,
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        if (attempt < this.settings.maxRetries) {
+          // Exponential backoff: 500ms, 1s, 2s, ...
+          await new Promise(resolve => setTimeout(resolve, 500 * 2 ** attempt));
+        }
+      }
+    }
+
+    this.recordOutcome('error', startedAt);
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+
+  private recordOutcome(outcome: 'success' | 'error', startedAt: number): void {
+    metrics.llmRequests.inc({ provider: this.name, outcome });
+    metrics.llmLatency.observe((Date.now() - startedAt) / 1000, { provider: this.name });
+  }
+
+  protected abstract complete(prompt: string): Promise<string>;
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${this.name} request timed out after ${this.settings.timeoutMs}ms`)),
+        this.settings.timeoutMs
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
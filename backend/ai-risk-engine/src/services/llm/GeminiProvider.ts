@@ -0,0 +1,32 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProviderSettings } from '../../types';
+import { BaseLLMProvider } from './BaseLLMProvider';
+
+export class GeminiProvider extends BaseLLMProvider {
+  readonly name = 'gemini' as const;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(settings: LLMProviderSettings, apiKey = process.env.GEMINI_API_KEY || '') {
+    super(settings);
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const model = this.genAI.getGenerativeModel(
+      {
+        model: this.settings.model,
+        generationConfig: {
+          temperature: this.settings.temperature,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: this.settings.maxOutputTokens,
+        },
+      },
+      { timeout: this.settings.timeoutMs }
+    );
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    return response.text();
+  }
+}
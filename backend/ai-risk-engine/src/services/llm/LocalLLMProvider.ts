@@ -0,0 +1,52 @@
+import axios from 'axios';
+import { LLMProviderSettings } from '../../types';
+import { BaseLLMProvider } from './BaseLLMProvider';
+
+export type LocalLLMFlavor = 'ollama' | 'llamacpp';
+
+// Self-hosted model server: Ollama (/api/generate) or llama.cpp server (/completion)
+export class LocalLLMProvider extends BaseLLMProvider {
+  readonly name = 'local' as const;
+  private baseUrl: string;
+  private flavor: LocalLLMFlavor;
+
+  constructor(
+    settings: LLMProviderSettings,
+    baseUrl = process.env.LOCAL_LLM_URL || 'http://localhost:11434',
+    flavor: LocalLLMFlavor = process.env.LOCAL_LLM_FLAVOR === 'llamacpp' ? 'llamacpp' : 'ollama'
+  ) {
+    super(settings);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.flavor = flavor;
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    if (this.flavor === 'llamacpp') {
+      const response = await axios.post(
+        `${this.baseUrl}/completion`,
+        {
+          prompt,
+          temperature: this.settings.temperature,
+          n_predict: this.settings.maxOutputTokens,
+        },
+        { timeout: this.settings.timeoutMs }
+      );
+      return String(response.data?.content ?? '');
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      {
+        model: this.settings.model,
+        prompt,
+        stream: false,
+        options: {
+          temperature: this.settings.temperature,
+          num_predict: this.settings.maxOutputTokens,
+        },
+      },
+      { timeout: this.settings.timeoutMs }
+    );
+    return String(response.data?.response ?? '');
+  }
+}
@@ -0,0 +1,42 @@
+import axios from 'axios';
+import { LLMProviderSettings } from '../../types';
+import { BaseLLMProvider } from './BaseLLMProvider';
+
+// Any endpoint speaking the OpenAI chat completions API (OpenAI, vLLM, OpenRouter, ...)
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(
+    settings: LLMProviderSettings,
+    baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey = process.env.OPENAI_API_KEY || ''
+  ) {
+    super(settings);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.apiKey = apiKey;
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model: this.settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: this.settings.temperature,
+        max_tokens: this.settings.maxOutputTokens,
+      },
+      {
+        timeout: this.settings.timeoutMs,
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      }
+    );
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI-compatible response contained no message content');
+    }
+    return content;
+  }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { LLMProvider, LLMProviderName, LLMProviderSettings } from '../../types';
+import { BaseLLMProvider } from './BaseLLMProvider';
+import { logger } from '../../utils/logger';
+
+export function promptKey(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').substring(0, 16);
+}
+
+// Serves recorded completions from disk. An exact prompt match (<key>.txt) wins;
+// otherwise recordings are served in filename order so runs stay deterministic
+// even when the prompt embeds live market data.
+export class ReplayProvider extends BaseLLMProvider {
+  readonly name = 'replay' as const;
+  private dir: string;
+  private cursor = 0;
+
+  constructor(settings: LLMProviderSettings, dir = process.env.LLM_REPLAY_DIR || 'fixtures/llm') {
+    super(settings);
+    this.dir = path.resolve(dir);
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const exact = path.join(this.dir, `${promptKey(prompt)}.txt`);
+    if (fs.existsSync(exact)) {
+      return fs.readFileSync(exact, 'utf8');
+    }
+
+    const recordings = fs.existsSync(this.dir)
+      ? fs.readdirSync(this.dir).filter(f => f.endsWith('.txt')).sort()
+      : [];
+    if (recordings.length === 0) {
+      throw new Error(`No recorded LLM responses in ${this.dir}`);
+    }
+
+    const file = recordings[this.cursor % recordings.length];
+    this.cursor++;
+    return fs.readFileSync(path.join(this.dir, file), 'utf8');
+  }
+}
+
+// Wraps a live provider and saves every completion in the layout ReplayProvider reads
+export class RecordingProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly settings: LLMProviderSettings;
+  private inner: LLMProvider;
+  private dir: string;
+
+  constructor(inner: LLMProvider, dir: string) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.settings = inner.settings;
+    this.dir = path.resolve(dir);
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const text = await this.inner.generate(prompt);
+    try {
+      fs.writeFileSync(path.join(this.dir, `${promptKey(prompt)}.txt`), text);
+    } catch (error) {
+      logger.warn('Failed to record LLM response', { error: error instanceof Error ? error.message : String(error) });
+    }
+    return text;
+  }
+}
@@ -0,0 +1,75 @@
+import { LLMProvider, LLMProviderName, LLMProviderSettings } from '../../types';
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { LocalLLMProvider } from './LocalLLMProvider';
+import { ReplayProvider, RecordingProvider } from './ReplayProvider';
+
+export { BaseLLMProvider } from './BaseLLMProvider';
+export { GeminiProvider, OpenAICompatibleProvider, LocalLLMProvider, ReplayProvider, RecordingProvider };
+
+const DEFAULT_SETTINGS: Record<LLMProviderName, LLMProviderSettings> = {
+  gemini: { model: 'gemini-2.0-flash-exp', timeoutMs: 30000, maxRetries: 1, temperature: 0.7, maxOutputTokens: 2048 },
+  openai: { model: 'gpt-4o-mini', timeoutMs: 30000, maxRetries: 2, temperature: 0.7, maxOutputTokens: 2048 },
+  local: { model: 'llama3.1:8b', timeoutMs: 120000, maxRetries: 0, temperature: 0.7, maxOutputTokens: 2048 },
+  replay: { model: 'replay', timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+};
+
+// Env prefix per adapter, e.g. GEMINI_MODEL, OPENAI_TIMEOUT_MS, LOCAL_LLM_MAX_RETRIES
+const ENV_PREFIX: Record<LLMProviderName, string> = {
+  gemini: 'GEMINI',
+  openai: 'OPENAI',
+  local: 'LOCAL_LLM',
+  replay: 'LLM_REPLAY',
+};
+
+function numberFromEnv(key: string, fallback: number): number {
+  const value = process.env[key];
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function resolveProviderSettings(
+  name: LLMProviderName,
+  overrides: Partial<LLMProviderSettings> = {}
+): LLMProviderSettings {
+  const defaults = DEFAULT_SETTINGS[name];
+  const prefix = ENV_PREFIX[name];
+  return {
+    model: process.env[`${prefix}_MODEL`] || defaults.model,
+    timeoutMs: numberFromEnv(`${prefix}_TIMEOUT_MS`, defaults.timeoutMs),
+    maxRetries: numberFromEnv(`${prefix}_MAX_RETRIES`, defaults.maxRetries),
+    temperature: numberFromEnv(`${prefix}_TEMPERATURE`, defaults.temperature),
+    maxOutputTokens: numberFromEnv(`${prefix}_MAX_OUTPUT_TOKENS`, defaults.maxOutputTokens),
+    ...overrides,
+  };
+}
+
+export function createLLMProvider(
+  name: LLMProviderName = (process.env.LLM_PROVIDER as LLMProviderName) || 'gemini',
+  overrides: Partial<LLMProviderSettings> = {}
+): LLMProvider {
+  const settings = resolveProviderSettings(name, overrides);
+
+  let provider: LLMProvider;
+  switch (name) {
+    case 'openai':
+      provider = new OpenAICompatibleProvider(settings);
+      break;
+    case 'local':
+      provider = new LocalLLMProvider(settings);
+      break;
+    case 'replay':
+      return new ReplayProvider(settings);
+    case 'gemini':
+      provider = new GeminiProvider(settings);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+
+  // LLM_RECORD_DIR captures live responses for later replay
+  return process.env.LLM_RECORD_DIR
+    ? new RecordingProvider(provider, process.env.LLM_RECORD_DIR)
+    : provider;
+}
@@ -0,0 +1,57 @@
+import { ethers } from 'ethers';
+import { ApprovalError, CoSignerPolicy } from './CoSignerPolicy';
+
+describe('CoSignerPolicy', () => {
+  const operators = [1, 2, 3].map(i => new ethers.Wallet(ethers.utils.id(`co-signer ${i}`)));
+  const outsider = new ethers.Wallet(ethers.utils.id('outsider'));
+  const digest = ethers.utils.id('risk config digest');
+
+  const approve = (wallet: ethers.Wallet, approved = digest) =>
+    wallet.signMessage(ethers.utils.arrayify(CoSignerPolicy.approvalDigest(approved)));
+
+  const policy = () => new CoSignerPolicy(operators.map(w => w.address.toLowerCase()), 2, 60_000);
+
+  it('recovers the co-signer behind an approval of the exact digest', async () => {
+    expect(policy().recover(digest, await approve(operators[1]))).toBe(operators[1].address);
+  });
+
+  it('rejects approvals from outside the set, of another digest, or malformed', async () => {
+    const attempts = [
+      () => approve(outsider),
+      () => approve(operators[0], ethers.utils.id('another config')),
+      // A bare signature over the digest is a RiskParams signature, not an approval
+      () => operators[0].signMessage(ethers.utils.arrayify(digest)),
+      async () => '0x1234'
+    ];
+
+    for (const attempt of attempts) {
+      const signature = await attempt();
+      let error: unknown;
+      try {
+        policy().recover(digest, signature);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(ApprovalError);
+      expect((error as ApprovalError).status).toBe(403);
+    }
+  });
+
+  it('needs approvals from distinct co-signers to meet the threshold', () => {
+    const approval = (wallet: ethers.Wallet) => ({ signer: wallet.address, signature: '0x', at: 0 });
+
+    expect(policy().isMet([approval(operators[0]), approval(operators[0])])).toBe(false);
+    expect(policy().isMet([approval(operators[0]), approval(operators[2])])).toBe(true);
+    expect(new CoSignerPolicy([], 0).isMet()).toBe(true);
+    expect(new CoSignerPolicy([], 0).enabled).toBe(false);
+  });
+
+  it('expires requests older than the approval TTL', () => {
+    expect(policy().isExpired(1_000, 61_000)).toBe(false);
+    expect(policy().isExpired(1_000, 61_001)).toBe(true);
+  });
+
+  it('refuses a threshold no set of co-signers can meet', () => {
+    expect(() => new CoSignerPolicy([operators[0].address], 2)).toThrow('exceeds the 1 configured co-signers');
+  });
+});
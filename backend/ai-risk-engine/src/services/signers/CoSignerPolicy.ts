@@ -0,0 +1,67 @@
+import { ethers } from 'ethers';
+import { CoSignerApproval } from '../../types';
+import { COSIGNING } from '../../config/signing';
+
+const APPROVAL_PREFIX = 'FluxTranche risk config approval';
+
+export class ApprovalError extends Error {
+  constructor(message: string, readonly status: 403 | 409 | 410 | 503) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+/**
+ * k-of-n release policy for AI signatures. Co-signers approve the exact
+ * digest the AI signer will sign by signing approvalDigest(digest) as an
+ * EIP-191 message; the prefix keeps an approval from doubling as a
+ * RiskParams signature.
+ */
+export class CoSignerPolicy {
+  private cosigners: string[];
+
+  constructor(
+    cosigners: string[] = COSIGNING.COSIGNERS,
+    readonly threshold = COSIGNING.THRESHOLD,
+    readonly ttlMs = COSIGNING.APPROVAL_TTL_MS
+  ) {
+    this.cosigners = cosigners.map(a => ethers.utils.getAddress(a));
+    if (threshold > this.cosigners.length) {
+      throw new Error(`AI_COSIGNER_THRESHOLD ${threshold} exceeds the ${this.cosigners.length} configured co-signers`);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.threshold > 0;
+  }
+
+  static approvalDigest(digest: string): string {
+    return ethers.utils.solidityKeccak256(['string', 'bytes32'], [APPROVAL_PREFIX, digest]);
+  }
+
+  // Co-signer address behind an approval; throws for anyone outside the set
+  recover(digest: string, signature: string): string {
+    let signer: string;
+    try {
+      signer = ethers.utils.verifyMessage(ethers.utils.arrayify(CoSignerPolicy.approvalDigest(digest)), signature);
+    } catch (error) {
+      throw new ApprovalError('Approval signature is malformed', 403);
+    }
+    if (!this.cosigners.includes(signer)) {
+      throw new ApprovalError(`${signer} is not a configured co-signer`, 403);
+    }
+    return signer;
+  }
+
+  isMet(approvals: CoSignerApproval[] = []): boolean {
+    return new Set(approvals.map(a => a.signer)).size >= this.threshold;
+  }
+
+  isExpired(createdAt: number, now = Date.now()): boolean {
+    return now - createdAt > this.ttlMs;
+  }
+
+  getCosigners(): string[] {
+    return [...this.cosigners];
+  }
+}
@@ -0,0 +1,22 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { RiskSigner } from './RiskSigner';
+
+// A key held in process memory, decrypted from a keystore or read from env
+export class LocalKeySigner implements RiskSigner {
+  readonly address: string;
+
+  constructor(private wallet: ethers.Wallet, readonly backend: 'env' | 'keystore') {
+    this.address = wallet.address;
+  }
+
+  // Standard V3 keystore, as written by geth, `cast wallet import` or web3signer tooling
+  static async fromKeystore(file: string, password: string): Promise<LocalKeySigner> {
+    const json = fs.readFileSync(file, 'utf8');
+    return new LocalKeySigner(await ethers.Wallet.fromEncryptedJson(json, password), 'keystore');
+  }
+
+  signMessage(message: Uint8Array): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+}
@@ -0,0 +1,36 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { RiskSigner } from './RiskSigner';
+
+let requestId = 0;
+
+async function rpc<T>(url: string, method: string, params: unknown[], timeoutMs: number): Promise<T> {
+  const response = await axios.post(url, { jsonrpc: '2.0', id: ++requestId, method, params }, { timeout: timeoutMs });
+  if (response.data?.error) {
+    throw new Error(`Remote signer ${method} failed: ${response.data.error.message || JSON.stringify(response.data.error)}`);
+  }
+  return response.data.result as T;
+}
+
+/**
+ * Key held by an external signer speaking web3signer's eth1 JSON-RPC
+ * (eth_accounts, eth_sign). The key never enters this
+ * process; `npm run signer:dev` serves the same API for local runs.
+ */
+export class RemoteSigner implements RiskSigner {
+  readonly backend = 'remote' as const;
+
+  constructor(private url: string, readonly address: string, private timeoutMs = 10000) {}
+
+  // One signer per requested address, or per account the remote reports
+  static async discover(url: string, addresses: string[] = [], timeoutMs = 10000): Promise<RemoteSigner[]> {
+    const accounts = addresses.length > 0
+      ? addresses
+      : await rpc<string[]>(url, 'eth_accounts', [], timeoutMs);
+    return accounts.map(address => new RemoteSigner(url, ethers.utils.getAddress(address), timeoutMs));
+  }
+
+  signMessage(message: Uint8Array): Promise<string> {
+    return rpc<string>(this.url, 'eth_sign', [this.address, ethers.utils.hexlify(message)], this.timeoutMs);
+  }
+}
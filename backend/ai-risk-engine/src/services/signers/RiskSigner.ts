@@ -0,0 +1,8 @@
+import { SignerBackend } from '../../types';
+
+export interface RiskSigner {
+  readonly backend: SignerBackend;
+  readonly address: string;
+  // EIP-191 personal message, the eth_sign convention RiskParams recovers against
+  signMessage(message: Uint8Array): Promise<string>;
+}
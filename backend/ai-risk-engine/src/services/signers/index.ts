@@ -0,0 +1,70 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { SignerBackend } from '../../types';
+import { SIGNER_CONFIG } from '../../config/signing';
+import { logger } from '../../utils/logger';
+import { LocalKeySigner } from './LocalKeySigner';
+import { RemoteSigner } from './RemoteSigner';
+import { RiskSigner } from './RiskSigner';
+
+export { LocalKeySigner, RemoteSigner };
+export type { RiskSigner };
+export { ApprovalError, CoSignerPolicy } from './CoSignerPolicy';
+
+export function resolveSignerBackend(config = SIGNER_CONFIG): SignerBackend {
+  if (config.BACKEND) return config.BACKEND;
+  if (config.REMOTE_URL) return 'remote';
+  return config.KEYSTORES.length > 0 ? 'keystore' : 'env';
+}
+
+function keystorePassword(config: typeof SIGNER_CONFIG): string {
+  if (config.KEYSTORE_PASSWORD_FILE) {
+    return fs.readFileSync(config.KEYSTORE_PASSWORD_FILE, 'utf8').trim();
+  }
+  if (process.env.AI_SIGNER_KEYSTORE_PASSWORD !== undefined) {
+    return process.env.AI_SIGNER_KEYSTORE_PASSWORD;
+  }
+  throw new Error('AI_SIGNER_KEYSTORE_PASSWORD_FILE or AI_SIGNER_KEYSTORE_PASSWORD must be set');
+}
+
+// Every key the configured backend can sign with; never empty
+export async function loadSigners(config = SIGNER_CONFIG): Promise<RiskSigner[]> {
+  const backend = resolveSignerBackend(config);
+  let signers: RiskSigner[];
+
+  switch (backend) {
+    case 'keystore': {
+      const password = keystorePassword(config);
+      signers = [];
+      // Sequential: scrypt decryption is memory-hungry
+      for (const file of config.KEYSTORES) {
+        signers.push(await LocalKeySigner.fromKeystore(file, password));
+      }
+      break;
+    }
+    case 'remote':
+      if (!config.REMOTE_URL) {
+        throw new Error('AI_SIGNER_REMOTE_URL not set');
+      }
+      signers = await RemoteSigner.discover(config.REMOTE_URL, config.REMOTE_ADDRESSES, config.REMOTE_TIMEOUT_MS);
+      break;
+    case 'env': {
+      const privateKey = process.env.AI_SIGNER_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error('AI_SIGNER_PRIVATE_KEY not set');
+      }
+      if (process.env.NODE_ENV === 'production') {
+        logger.warn('AI signer key is read from the environment; use AI_SIGNER_KEYSTORE or AI_SIGNER_REMOTE_URL in production');
+      }
+      signers = [new LocalKeySigner(new ethers.Wallet(privateKey), 'env')];
+      break;
+    }
+    default:
+      throw new Error(`Unknown AI_SIGNER_BACKEND: ${backend}`);
+  }
+
+  if (signers.length === 0) {
+    throw new Error(`No AI signer keys available from the ${backend} backend`);
+  }
+  return signers;
+}
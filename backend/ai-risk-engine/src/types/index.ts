@@ -2,14 +2,92 @@ export interface MarketData {
   btcPrice: number;
   ethPrice: number;
   totalLiquidity: number;
-  avgFunding: number;
+  // Undefined when no funding source answered; never a placeholder rate
+  avgFunding?: number;
   impliedVol: number;
   vixEquivalent?: number;
   liquidityConcentration?: number;
   crossAssetCorr?: number;
+  twapDeviation?: number;
+  realizedVol?: {
+    btc: RealizedVol;
+    eth: RealizedVol;
+  };
+  funding?: {
+    btc: number | null;
+    eth: number | null;
+  };
+  orderBookDepth?: {
+    btc: number | null;
+    eth: number | null;
+  };
+  quotes?: {
+    btc: AggregatedQuote | null;
+    eth: AggregatedQuote | null;
+  };
+  freshness?: Record<string, SourceFreshness>;
+  regime?: RegimeAssessment;
+  timestamp: number;
+}
+
+// Annualized realized volatility in percent
+export interface RealizedVol {
+  closeToClose: number | null;
+  parkinson: number | null;
+  garmanKlass: number | null;
+}
+
+export interface SourceFreshness {
+  fetchedAt: number | null;
+  // Timestamp of the newest data point the source returned
+  dataTimestamp: number | null;
+  status: 'live' | 'stale' | 'missing';
+}
+
+export type ExchangeVenue = 'binance' | 'kucoin' | 'htx' | 'bitget' | 'mexc' | 'gate' | 'dexscreener';
+
+export interface VenueQuote {
+  venue: ExchangeVenue;
+  symbol: string;
+  price: number;
+  // 24h volume in quote currency (USD-equivalent for stablecoin quotes)
+  volume: number;
+  priceChange24h: number;
+  // Venue-reported time of the quote, or fetch time if the venue doesn't report one
+  timestamp: number;
+}
+
+export interface ExchangeAdapter {
+  readonly venue: ExchangeVenue;
+  fetchQuote(base: string, quote: string): Promise<VenueQuote | null>;
+}
+
+export interface AggregatedQuote {
+  // Volume-weighted across accepted venues
+  price: number;
+  volume: number;
+  priceChange24h: number;
+  sourceCount: number;
+  sources: ExchangeVenue[];
+  rejected: Array<{ venue: ExchangeVenue; price: number; deviationPct: number }>;
+  // Age of the oldest accepted quote
+  stalenessMs: number;
+  stale: boolean;
   timestamp: number;
 }
 
+export type MarketRegime = 'calm' | 'trending' | 'stressed' | 'crisis';
+
+export interface RegimeAssessment {
+  regime: MarketRegime;
+  // Posterior probability of the labelled regime, 0-100
+  confidence: number;
+  probabilities: Record<MarketRegime, number>;
+  // Probability of each regime at the next observation, given the current posterior
+  transitions: Record<MarketRegime, number>;
+  features: Record<string, number>;
+}
+
 export interface RiskConfig {
   epochLength: number;
   seniorTargetBps: number;
@@ -22,19 +100,184 @@ export interface RiskConfig {
   confidence: number;
   signals: {
     impliedVol: number;
-    fundingRate: number;
+    fundingRate: number | null;
     liquidityDepth: number;
     correlation: number;
     twapDeviation: number;
     riskScore?: number;
+    regime?: MarketRegime;
+    regimeConfidence?: number;
   };
 }
 
+// The parts of RiskConfig that RiskParams stores on-chain
+export type OnChainRiskConfig = Pick<
+  RiskConfig,
+  'epochLength' | 'seniorTargetBps' | 'maxDrawdownBps' | 'slippageBps' | 'strategies' | 'targetWeightsBps' | 'caps'
+>;
+
+// A proposed move that exceeded its per-epoch limit and was pulled back
+export interface ChangeViolation {
+  field: string;
+  previous: number | number[];
+  proposed: number | number[];
+  applied: number | number[];
+  // Max delta (or turnover budget for weights) that was enforced
+  limit: number;
+  reason: string;
+}
+
+// 'hybrid' = model output with some fields repaired from the rule-based baseline
+// 'ensemble' = consensus of several model proposals
+export type DecisionSource = 'ai' | 'hybrid' | 'ensemble' | 'rule-based';
+
+// pending-approval decisions are waiting on co-signers and have no signature yet
+export type DecisionStatus = 'pending-approval' | 'generated' | 'queued' | 'executed';
+
+export type StrategyRiskClass = 'conservative' | 'moderate' | 'aggressive';
+
+// One allocatable strategy from StrategyRegistry (or the local fixture); amounts in USDC
+export interface StrategyInfo {
+  address: string;
+  name: string;
+  riskClass: StrategyRiskClass;
+  // Trailing annualized yield; off-chain metadata
+  historicalApyBps: number;
+  cap: number;
+  currentAllocation: number;
+  // Room left under the registry cap
+  capacity: number;
+  maxLeverage: number;
+  totalAssets?: number;
+  pnl?: number;
+  active: boolean;
+}
+
+export type AllocatorMode = 'mean-variance' | 'min-variance' | 'risk-parity' | 'max-diversification';
+
+// Annualized expected returns and covariance, aligned with `strategies`
+export interface AllocationEstimates {
+  strategies: string[];
+  expectedReturns: number[];
+  covariance: number[][];
+}
+
+export interface AllocationResult {
+  mode: AllocatorMode;
+  strategies: string[];
+  weightsBps: number[];
+  expectedReturn: number;
+  volatility: number;
+  // Share of portfolio variance from each strategy, in bps
+  riskContributionsBps: number[];
+  diversificationRatio: number;
+  // False when drift from the previous weights stayed under the rebalance threshold
+  rebalanced: boolean;
+  notes: string[];
+}
+
+export interface SafetyAdjustment {
+  field: string;
+  original: number | number[] | string[];
+  adjusted: number | number[] | string[];
+  // Why it changed when the cause is not a hard bound, e.g. a profile constraint
+  reason?: string;
+}
+
+export interface FieldRepair {
+  field: string;
+  reason: string;
+  received?: unknown;
+}
+
+// Prompt template a decision was generated with; hash covers the template text
+export interface PromptRef {
+  id: string;
+  hash: string;
+}
+
+export interface RiskDecision {
+  config: RiskConfig;
+  source: DecisionSource;
+  adjustments: SafetyAdjustment[];
+  repairs: FieldRepair[];
+  // Which provider/model produced it; absent for pure rule-based output
+  origin?: { provider: string; model: string };
+  // Limits hit relative to the last executed config
+  changeViolations?: ChangeViolation[];
+  // Wall time from request to final config, including LLM calls
+  processingTimeMs?: number;
+  // Absent when no prompt was sent (pure rule-based decisions)
+  prompt?: PromptRef;
+}
+
+export interface DecisionProvenance {
+  source: DecisionSource;
+  provider: string;
+  model: string;
+  modelFields: string[];
+  repairedFields: FieldRepair[];
+  safetyAdjustments: SafetyAdjustment[];
+  changeViolations: ChangeViolation[];
+  prompt: PromptRef | null;
+  // Share of schema fields taken from the model, 0-1
+  modelCoverage: number;
+}
+
+export interface DecisionRecord extends RiskDecision {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  marketData: MarketData;
+  preferences?: AIPreferences;
+  signature?: string;
+  signer?: string;
+  nonce?: number;
+  signatureMode?: SignatureMode;
+  // What the AI signer signs (or will sign once approved)
+  digest?: string;
+  approvals?: CoSignerApproval[];
+  status: DecisionStatus;
+  queuedAt?: number;
+  executedAt?: number;
+  // Vault epoch whose AIExplainabilityPanel entry was built from this decision
+  explainedEpoch?: number;
+}
+
+export type RiskTolerance = 'low' | 'medium' | 'high';
+export type LiquidityNeed = 'instant' | '24-72h' | 'weekly' | 'monthly';
+
+export interface TrancheMix {
+  seniorBps: number;
+  juniorBps: number;
+}
+
 export interface AIPreferences {
-  riskTolerance: 'low' | 'medium' | 'high';
+  riskTolerance: RiskTolerance;
   targetAPY: number;
   maxDrawdown: number;
+  // Whitelist: when set, only these strategies may receive weight
   preferredStrategies?: string[];
+  // Blacklist: never allocated, even if whitelisted
+  excludedStrategies?: string[];
+  // Intended senior/junior split of the user's deposit; caps non-conservative weight
+  trancheMix?: TrancheMix;
+  // Seconds
+  maxEpochLength?: number;
+  liquidityNeed?: LiquidityNeed;
+  // Set when the preferences were resolved from a stored profile
+  profileId?: string;
+}
+
+export interface RiskProfile extends AIPreferences {
+  id: string;
+  name: string;
+  description?: string;
+  // API key that created it; presets have no owner and are read-only
+  ownerKeyId?: string;
+  preset?: boolean;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface DetailedMarketSignals {
@@ -51,9 +294,9 @@ export interface DetailedMarketSignals {
     slippageImpact: number;
   };
   funding: {
-    btcPerp: number;
-    ethPerp: number;
-    altPerp: number;
+    btcPerp: number | null;
+    ethPerp: number | null;
+    altPerp: number | null;
     openInterest: number;
   };
   correlation: {
@@ -76,8 +319,335 @@ export interface DetailedMarketSignals {
   };
 }
 
+// RiskParams._validateSignature only recovers EIP-191 over abi.encode(config, nonce)
+export type SignatureMode = 'eip191';
+
+export interface RiskConfigSignature {
+  signature: string;
+  signer: string;
+  nonce: number;
+  mode: SignatureMode;
+  digest: string;
+}
+
+// Nonce and digest fixed before co-signers approve, so they approve exact bytes
+export type SigningIntent = Omit<RiskConfigSignature, 'signature' | 'signer'>;
+
+export interface CoSignerApproval {
+  signer: string;
+  signature: string;
+  at: number;
+}
+
+export type SignerBackend = 'env' | 'keystore' | 'remote';
+
 export interface SignedRiskConfig extends RiskConfig {
   signature: string;
   timestamp: number;
   nonce?: number;
-}
\ No newline at end of file
+  signer?: string;
+  signatureMode?: SignatureMode;
+}
+
+export type LLMProviderName = 'gemini' | 'openai' | 'local' | 'replay';
+
+export interface LLMProviderSettings {
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly settings: LLMProviderSettings;
+  generate(prompt: string): Promise<string>;
+}
+
+export interface EnsembleProposal {
+  agentId: string;
+  provider: string;
+  model: string;
+  variant: string;
+  decision?: RiskDecision;
+  error?: string;
+  // Max robust z-score across aggregated fields; above the threshold means dropped
+  outlierScore: number;
+  outlier: boolean;
+}
+
+// Argument layout of AIBattleOfWeights.proposeWeights (minus roundId, which is chain state)
+export interface BattleProposal {
+  agentId: string;
+  model: string;
+  seniorWeightBps: number;
+  juniorWeightBps: number;
+  reasoning: string;
+  confidence: number; // 0-10000
+}
+
+export interface EnsembleResult {
+  decision: RiskDecision;
+  proposals: EnsembleProposal[];
+  // Relative MAD (MAD / |median|) per aggregated field across kept proposals
+  dispersion: Record<string, number>;
+  battleProposals?: BattleProposal[];
+}
+
+export interface BacktestPolicy {
+  name: string;
+  decide(marketData: MarketData, previous: RiskConfig | null): Promise<RiskConfig>;
+}
+
+// Per-strategy return model used to turn market moves into strategy P&L
+export interface StrategyReturnModel {
+  // Exposure to the equal-weight BTC/ETH return
+  beta: number;
+  // Share of perp funding collected (1 = fully hedged basis trade)
+  fundingExposure: number;
+  baseApyBps: number;
+}
+
+export interface BacktestOptions {
+  seniorAssets: number;
+  juniorAssets: number;
+  managementFeeBps: number;
+  performanceFeeBps: number;
+  // 'epoch' mirrors TrancheVault: seniorTargetBps is paid per epoch
+  couponBasis: 'epoch' | 'annual';
+  strategyModels: Record<string, StrategyReturnModel>;
+}
+
+export interface BacktestEpoch {
+  index: number;
+  startTime: number;
+  endTime: number;
+  epochLength: number;
+  seniorTargetBps: number;
+  maxDrawdownBps: number;
+  targetWeightsBps: number[];
+  grossReturnBps: number;
+  // Strategy loss hit maxDrawdownBps and the vault was unwound at that observation
+  drawdownStop: boolean;
+  stoppedAt?: number;
+  seniorTarget: number;
+  seniorPaid: number;
+  couponShortfall: boolean;
+  juniorPnL: number;
+  seniorAssets: number;
+  juniorAssets: number;
+  seniorNav: number;
+  juniorNav: number;
+}
+
+export interface BacktestSummary {
+  epochs: number;
+  couponShortfalls: number;
+  drawdownStops: number;
+  seniorImpairedEpochs: number;
+  seniorFinalNav: number;
+  juniorFinalNav: number;
+  seniorMaxDrawdownBps: number;
+  juniorMaxDrawdownBps: number;
+}
+
+export interface BacktestResult {
+  policy: string;
+  epochs: BacktestEpoch[];
+  summary: BacktestSummary;
+}
+
+// Mean absolute change between consecutive configs of one run
+export interface ParameterStability {
+  epochLengthHours: number;
+  seniorTargetBps: number;
+  maxDrawdownBps: number;
+  slippageBps: number;
+  // One-way weight turnover, bps
+  weightTurnoverBps: number;
+  // Consecutive configs that would have hit a per-epoch change limit
+  changeLimitBreaches: number;
+}
+
+export interface PromptEvaluation {
+  prompt: PromptRef;
+  provider: string;
+  model: string;
+  decisions: number;
+  providerErrors: number;
+  parseFailures: number;
+  // Share of decisions where every model field passed validation
+  schemaValidRate: number;
+  // Mean share of fields taken from the model as-is
+  fieldValidity: number;
+  repairedFields: Record<string, number>;
+  // Decisions that needed at least one safety, band or profile adjustment
+  boundsViolations: number;
+  adjustedFields: Record<string, number>;
+  stability: ParameterStability;
+  backtest: BacktestSummary;
+}
+
+// Relative or absolute changes applied to a live MarketData snapshot
+export interface MarketShock {
+  btcPriceChangePct?: number;
+  ethPriceChangePct?: number;
+  // Negate the current funding rate
+  fundingFlip?: boolean;
+  avgFunding?: number;
+  liquidityMultiplier?: number;
+  impliedVol?: number;
+  impliedVolChangePct?: number;
+  crossAssetCorr?: number;
+}
+
+export interface MarketScenario {
+  name: string;
+  shock: MarketShock;
+}
+
+export interface ScenarioProjection {
+  seniorTarget: number;
+  seniorPaid: number;
+  couponShortfall: boolean;
+  drawdownStop: boolean;
+  grossReturnBps: number;
+  seniorReturnBps: number;
+  juniorReturnBps: number;
+}
+
+export interface ScenarioResult {
+  scenario: MarketScenario;
+  marketData: MarketData;
+  decision: RiskDecision;
+  provenance: DecisionProvenance;
+  projection: ScenarioProjection;
+}
+
+export type ApiScope = 'risk:read' | 'risk:simulate' | 'risk:explain' | 'risk:sign' | 'admin';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // sha256 of the bearer key; never the key itself
+  keyHash?: string;
+  // Shared secret for HMAC-signed requests
+  hmacSecret?: string;
+  scopes: ApiScope[];
+  rateLimitPerMinute?: number;
+  dailySignatureQuota?: number;
+  disabled?: boolean;
+}
+
+export interface ApiPrincipal {
+  keyId: string;
+  name: string;
+  scopes: ApiScope[];
+  method: 'api-key' | 'hmac' | 'anonymous';
+  rateLimitPerMinute: number;
+  dailySignatureQuota: number;
+}
+
+export interface SignatureAuditEntry {
+  at: number;
+  keyId: string;
+  keyName: string;
+  authMethod: ApiPrincipal['method'];
+  ip?: string;
+  route: string;
+  outcome: 'signed' | 'failed';
+  decisionId?: string;
+  nonce?: number;
+  signer?: string;
+  error?: string;
+}
+
+// Mirrors the AIExplainabilityPanel enums; the keeper maps names to indices
+export type ReasonCategory =
+  | 'MARKET_VOLATILITY'
+  | 'LIQUIDITY_CONDITIONS'
+  | 'RISK_METRICS'
+  | 'HISTORICAL_PERFORMANCE'
+  | 'CORRELATION_ANALYSIS'
+  | 'SENTIMENT_INDICATORS'
+  | 'ECONOMIC_INDICATORS'
+  | 'PORTFOLIO_REBALANCING'
+  | 'USER_BEHAVIOR'
+  | 'REGULATORY_ENVIRONMENT';
+
+export type ReasonDirection = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+export interface ExplanationReason {
+  category: ReasonCategory;
+  // Impact weight, 0-100; weights of one explanation sum to 100
+  weight: number;
+  description: string;
+  supportingData: string[];
+  confidence: number;
+  direction: ReasonDirection;
+}
+
+// Panel structs use uint256 everywhere, so every number here is a non-negative integer
+export interface ExplanationMarketContext {
+  vixLevel: number;
+  bondYields: number;
+  equityVolatility: number;
+  liquiditySpread: number;
+  correlationIndex: number;
+  marketRegime: 'BULL' | 'BEAR' | 'SIDEWAYS' | 'CRISIS';
+  fearGreedIndex: number;
+}
+
+export interface ExplanationRiskMetrics {
+  portfolioVaR: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  tailRisk: number;
+  concentrationRisk: number;
+  liquidityRisk: number;
+  riskBudgetUsage: 'LOW' | 'MEDIUM' | 'HIGH';
+}
+
+// Asset amounts are decimal strings in vault units
+export interface ExplanationPortfolioState {
+  totalAssets: string;
+  seniorAssets: string;
+  juniorAssets: string;
+  pendingDeposits: string;
+  pendingWithdrawals: string;
+  utilizationRate: number;
+  performanceYTD: number;
+  avgHoldingPeriod: number;
+}
+
+// Arguments for AIExplainabilityPanel.explainEpochDecision
+export interface EpochExplanation {
+  epoch: number;
+  decisionId: string;
+  seniorRatio: number;
+  juniorRatio: number;
+  confidence: number;
+  reasons: ExplanationReason[];
+  marketContext: ExplanationMarketContext;
+  riskMetrics: ExplanationRiskMetrics;
+  portfolioState: ExplanationPortfolioState;
+  aiModel: string;
+  processingTime: number;
+}
+
+export interface UserQueryRequest {
+  queryId: number;
+  question: string;
+  // Panel epoch current when the question was asked
+  epoch?: number;
+}
+
+export interface UserQueryAnswer {
+  queryId: number;
+  answer: string;
+  relevantEpoch: number;
+  // Which decision the answer is grounded in, if any
+  decisionId?: string;
+  source: 'llm' | 'template';
+}
@@ -0,0 +1,9 @@
+// solc-js ships without type declarations; only the standard JSON compile entry point is used
+declare module 'solc' {
+  type ImportResult = { contents: string } | { error: string };
+
+  const solc: {
+    compile(input: string, callbacks?: { import: (path: string) => ImportResult }): string;
+  };
+  export = solc;
+}
@@ -0,0 +1,16 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+export async function safeFetch(url: string): Promise<any> {
+    try {
+        const response = await axios.get(url, { timeout: 5000 });
+        return response.data;
+    } catch (error: any) {
+        if (error.response?.status === 404) {
+            // Not found is a valid response for unlisted pairs
+            return null;
+        }
+        logger.warn(`Failed to fetch ${url}: ${error.message}`);
+        return null;
+    }
+}
@@ -0,0 +1,145 @@
+import { Counter, Histogram, MetricsRegistry, metrics as shared } from './metrics';
+import { RiskEngine } from '../services/RiskEngine';
+import { LLMProvider, MarketData } from '../types';
+
+describe('Counter', () => {
+  it('sums label sets by subset and by label', () => {
+    const counter = new Counter('test_total', 'Test counter');
+    counter.inc({ source: 'ai', route: '/next' });
+    counter.inc({ route: '/next', source: 'ai' }, 2);
+    counter.inc({ source: 'rule-based', route: '/next' });
+
+    expect(counter.total()).toBe(4);
+    expect(counter.total({ source: 'ai' })).toBe(3);
+    expect(counter.byLabel('source')).toEqual({ ai: 3, 'rule-based': 1 });
+  });
+
+  it('renders Prometheus text with escaped label values', () => {
+    const counter = new Counter('test_total', 'Test counter');
+    counter.inc({ reason: 'bad "json"\nline' });
+
+    expect(counter.render()).toBe([
+      '# HELP test_total Test counter',
+      '# TYPE test_total counter',
+      'test_total{reason="bad \\"json\\"\\nline"} 1'
+    ].join('\n'));
+  });
+});
+
+describe('Histogram', () => {
+  it('keeps cumulative buckets, sum and count', () => {
+    const histogram = new Histogram('test_seconds', 'Test histogram', [1, 2, 4]);
+    [0.5, 1.5, 1.5, 3, 9].forEach(v => histogram.observe(v, { provider: 'gemini' }));
+
+    expect(histogram.render().split('\n').slice(2)).toEqual([
+      'test_seconds_bucket{le="1",provider="gemini"} 1',
+      'test_seconds_bucket{le="2",provider="gemini"} 3',
+      'test_seconds_bucket{le="4",provider="gemini"} 4',
+      'test_seconds_bucket{le="+Inf",provider="gemini"} 5',
+      'test_seconds_sum{provider="gemini"} 15.5',
+      'test_seconds_count{provider="gemini"} 5'
+    ]);
+  });
+
+  it('interpolates quantiles within buckets across label sets', () => {
+    const histogram = new Histogram('test_seconds', 'Test histogram', [1, 2, 4]);
+    expect(histogram.quantile(0.5)).toBeNull();
+
+    histogram.observe(0.5, { provider: 'gemini' });
+    histogram.observe(1.5, { provider: 'openai' });
+    histogram.observe(1.5, { provider: 'gemini' });
+    histogram.observe(3, { provider: 'openai' });
+
+    expect(histogram.quantile(0.5)).toBe(1.5);
+    expect(histogram.quantile(1)).toBe(4);
+  });
+
+  it('reports the top bucket for observations beyond it', () => {
+    const histogram = new Histogram('test_seconds', 'Test histogram', [1, 2]);
+    histogram.observe(30);
+
+    expect(histogram.quantile(0.99)).toBe(2);
+  });
+});
+
+describe('MetricsRegistry', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('counts requests per day and resets at midnight UTC', () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T23:59:00Z') });
+    const metrics = new MetricsRegistry();
+    metrics.recordRequest('/api/risk/next', 'GET', 200);
+    metrics.recordRequest('/api/risk/status', 'GET', 200);
+    expect(metrics.getRequestsToday()).toBe(2);
+
+    jest.setSystemTime(new Date('2026-03-02T00:01:00Z'));
+    expect(metrics.getRequestsToday()).toBe(0);
+    metrics.recordRequest('/api/risk/next', 'GET', 500);
+
+    expect(metrics.getRequestsToday()).toBe(1);
+    expect(metrics.httpRequests.total({ route: '/api/risk/next' })).toBe(2);
+  });
+
+  it('tracks the fallback share of the last 50 decisions', () => {
+    const metrics = new MetricsRegistry();
+    expect(metrics.recentFallbackRate()).toBeNull();
+
+    for (let i = 0; i < 50; i++) metrics.recordDecision('rule-based');
+    for (let i = 0; i < 40; i++) metrics.recordDecision('ai');
+
+    expect(metrics.recentFallbackRate()).toBeCloseTo(10 / 50, 12);
+    expect(metrics.decisions.byLabel('source')).toEqual({ 'rule-based': 50, ai: 40 });
+  });
+
+  it('computes cache hit rates overall and per cache', () => {
+    const metrics = new MetricsRegistry();
+    expect(metrics.cacheHitRate()).toBeNull();
+
+    metrics.cacheRequests.inc({ cache: 'market_data', result: 'hit' });
+    metrics.cacheRequests.inc({ cache: 'market_data', result: 'miss' });
+    metrics.cacheRequests.inc({ cache: 'decision', result: 'hit' });
+
+    expect(metrics.cacheHitRate()).toBeCloseTo(2 / 3, 12);
+    expect(metrics.cacheHitRate('market_data')).toBe(0.5);
+  });
+
+  it('renders uptime and every registered metric', () => {
+    const metrics = new MetricsRegistry();
+    metrics.signatures.inc({ outcome: 'signed' });
+
+    const text = metrics.render();
+
+    expect(text).toMatch(/^# HELP risk_engine_uptime_seconds/);
+    expect(text).toContain('risk_engine_signatures_total{outcome="signed"} 1');
+    expect(text).toContain('# TYPE risk_engine_llm_latency_seconds histogram');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('risk engine metrics', () => {
+  it('counts an unparseable completion as a parse failure and a fallback', async () => {
+    const llm: LLMProvider = {
+      name: 'replay',
+      settings: { model: 'garbled', timeoutMs: 1000, maxRetries: 0, temperature: 0, maxOutputTokens: 2048 },
+      generate: async () => 'no json here'
+    };
+    const marketData: MarketData = {
+      btcPrice: 60000,
+      ethPrice: 3000,
+      totalLiquidity: 1e9,
+      avgFunding: 0.0001,
+      impliedVol: 35,
+      timestamp: Date.now()
+    };
+    const engine = new RiskEngine(undefined, llm);
+    jest.spyOn(engine, 'getExecutedConfig').mockResolvedValue(null);
+    const parseFailures = shared.parseFailures.total({ provider: 'replay' });
+    const fallbacks = shared.llmFallbacks.total({ reason: 'parse_failure' });
+
+    const decision = await engine.proposeWith(llm, marketData, undefined, 'baseline');
+
+    expect(decision.source).toBe('rule-based');
+    expect(shared.parseFailures.total({ provider: 'replay' })).toBe(parseFailures + 1);
+    expect(shared.llmFallbacks.total({ reason: 'parse_failure' })).toBe(fallbacks + 1);
+  });
+});
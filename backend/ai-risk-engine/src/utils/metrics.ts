@@ -0,0 +1,184 @@
+// Minimal in-process metrics with Prometheus text exposition.
+// Counters and histograms are keyed by their label set.
+
+type Labels = Record<string, string>;
+
+const labelKey = (labels: Labels) =>
+  Object.keys(labels).sort().map(k => `${k}=${labels[k]}`).join(',');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.keys(labels).sort()
+    .map(k => `${k}="${String(labels[k]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return entries.length > 0 ? `{${entries.join(',')}}` : '';
+};
+
+interface Metric {
+  render(): string;
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  // Sum across every label set matching the given subset
+  total(filter: Labels = {}): number {
+    let sum = 0;
+    for (const { labels, value } of this.values.values()) {
+      if (Object.entries(filter).every(([k, v]) => labels[k] === v)) sum += value;
+    }
+    return sum;
+  }
+
+  byLabel(label: string): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const { labels, value } of this.values.values()) {
+      const key = labels[label] ?? '';
+      out[key] = (out[key] || 0) + value;
+    }
+    return out;
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((upper, i) => {
+      if (value <= upper) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  // Bucket-interpolated quantile across all label sets
+  quantile(q: number): number | null {
+    const counts = this.buckets.map(() => 0);
+    let total = 0;
+    for (const entry of this.series.values()) {
+      entry.counts.forEach((c, i) => { counts[i] += c; });
+      total += entry.count;
+    }
+    if (total === 0) return null;
+
+    const rank = q * total;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (counts[i] >= rank) {
+        const lower = i === 0 ? 0 : this.buckets[i - 1];
+        const below = i === 0 ? 0 : counts[i - 1];
+        const inBucket = counts[i] - below;
+        return inBucket > 0 ? lower + (this.buckets[i] - lower) * (rank - below) / inBucket : this.buckets[i];
+      }
+    }
+    return this.buckets[this.buckets.length - 1];
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((upper, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(upper) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export class MetricsRegistry {
+  readonly startedAt = Date.now();
+  // Declared before the metric fields so register() can push into it
+  private metrics: Metric[] = [];
+
+  readonly httpRequests = this.register(new Counter('risk_engine_http_requests_total', 'HTTP requests by route, method and status'));
+  readonly decisions = this.register(new Counter('risk_engine_decisions_total', 'Risk decisions served by source (ai, hybrid, ensemble, rule-based)'));
+  readonly llmRequests = this.register(new Counter('risk_engine_llm_requests_total', 'LLM completions by provider and outcome'));
+  readonly llmFallbacks = this.register(new Counter('risk_engine_llm_fallbacks_total', 'Decisions that fell back to the rule-based engine, by reason'));
+  readonly parseFailures = this.register(new Counter('risk_engine_llm_parse_failures_total', 'LLM responses that contained no parseable JSON'));
+  readonly repairedFields = this.register(new Counter('risk_engine_repaired_fields_total', 'Model fields replaced from the rule-based baseline, by field'));
+  readonly cacheRequests = this.register(new Counter('risk_engine_cache_requests_total', 'Cache lookups by cache and result'));
+  readonly changeViolations = this.register(new Counter('risk_engine_change_limit_violations_total', 'Proposed moves pulled back by per-epoch change limits, by field'));
+  readonly signatures = this.register(new Counter('risk_engine_signatures_total', 'Signature requests by outcome'));
+  readonly llmLatency = this.register(new Histogram(
+    'risk_engine_llm_latency_seconds',
+    'LLM completion latency including retries',
+    [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120]
+  ));
+
+  // Day-bucketed request count for the status endpoint
+  private day = new Date().toISOString().slice(0, 10);
+  private requestsToday = 0;
+  // Most recent decision sources, newest last
+  private recentSources: string[] = [];
+
+  recordRequest(route: string, method: string, status: number): void {
+    this.httpRequests.inc({ route, method, status: String(status) });
+    const today = new Date().toISOString().slice(0, 10);
+    if (today !== this.day) {
+      this.day = today;
+      this.requestsToday = 0;
+    }
+    this.requestsToday++;
+  }
+
+  recordDecision(source: string): void {
+    this.decisions.inc({ source });
+    this.recentSources.push(source);
+    if (this.recentSources.length > 50) this.recentSources.shift();
+  }
+
+  getRequestsToday(): number {
+    return new Date().toISOString().slice(0, 10) === this.day ? this.requestsToday : 0;
+  }
+
+  // Share of the last decisions that came purely from rules
+  recentFallbackRate(): number | null {
+    if (this.recentSources.length === 0) return null;
+    return this.recentSources.filter(s => s === 'rule-based').length / this.recentSources.length;
+  }
+
+  cacheHitRate(cache?: string): number | null {
+    const filter: Labels = cache ? { cache } : {};
+    const hits = this.cacheRequests.total({ ...filter, result: 'hit' });
+    const total = this.cacheRequests.total(filter);
+    return total > 0 ? hits / total : null;
+  }
+
+  render(): string {
+    const uptime = [
+      '# HELP risk_engine_uptime_seconds Seconds since the process started',
+      '# TYPE risk_engine_uptime_seconds gauge',
+      `risk_engine_uptime_seconds ${Math.round((Date.now() - this.startedAt) / 1000)}`
+    ].join('\n');
+    return [uptime, ...this.metrics.map(m => m.render())].join('\n\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
@@ -0,0 +1,36 @@
+import { ethers } from 'ethers';
+import { RiskConfig } from '../types';
+
+// Mirrors RiskParams.RiskConfig field-for-field; order matters for abi.encode
+export const RISK_CONFIG_TUPLE =
+  'tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps)';
+
+// Only the fields RiskParams stores on-chain; reasons, confidence and signals stay off-chain
+export function toOnChainConfig(config: RiskConfig) {
+  return {
+    epochLength: config.epochLength,
+    seniorTargetBps: config.seniorTargetBps,
+    maxDrawdownBps: config.maxDrawdownBps,
+    slippageBps: config.slippageBps,
+    strategies: config.strategies.map(address => ethers.utils.getAddress(address)),
+    targetWeightsBps: config.targetWeightsBps,
+    caps: config.caps
+  };
+}
+
+// Equivalent to Solidity `abi.encode(config, nonce)` in RiskParams._validateSignature
+export function encodeRiskConfig(config: RiskConfig, nonce: ethers.BigNumberish): string {
+  return ethers.utils.defaultAbiCoder.encode(
+    [RISK_CONFIG_TUPLE, 'uint256'],
+    [toOnChainConfig(config), nonce]
+  );
+}
+
+export function hashRiskConfig(config: RiskConfig, nonce: ethers.BigNumberish): string {
+  return ethers.utils.keccak256(encodeRiskConfig(config, nonce));
+}
+
+// The EIP-191 digest the signer actually signs and RiskParams recovers from
+export function riskConfigDigest(config: RiskConfig, nonce: ethers.BigNumberish): string {
+  return ethers.utils.hashMessage(ethers.utils.arrayify(hashRiskConfig(config, nonce)));
+}
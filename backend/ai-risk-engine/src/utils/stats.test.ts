@@ -0,0 +1,69 @@
+import {
+  Candle,
+  closeToCloseVol,
+  ema,
+  garmanKlassVol,
+  logReturns,
+  mad,
+  median,
+  parkinsonVol,
+  pearson,
+  rsi,
+  stdev
+} from './stats';
+
+const candle = (open: number, high: number, low: number, close: number): Candle =>
+  ({ openTime: 0, closeTime: 0, open, high, low, close, volume: 1 });
+
+describe('stats', () => {
+  it('takes medians and median absolute deviations', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNaN();
+    // One wild value barely moves the MAD
+    expect(mad([1, 2, 3, 4, 100])).toBe(1);
+  });
+
+  it('uses the sample standard deviation', () => {
+    expect(stdev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(Math.sqrt(32 / 7), 12);
+    expect(stdev([1])).toBeNaN();
+  });
+
+  it('skips log returns across non-positive closes', () => {
+    expect(logReturns([100, 110, 0, 121])).toEqual([Math.log(1.1)]);
+  });
+
+  it('correlates the overlapping tail of both series', () => {
+    expect(pearson([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1, 12);
+    expect(pearson([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1, 12);
+    expect(pearson([9, 1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 12);
+    expect(pearson([1, 1, 1], [1, 2, 3])).toBe(0);
+    expect(pearson([1], [1])).toBeNaN();
+  });
+
+  it('annualizes realized vol estimators in percent', () => {
+    // Closes alternate by +/-1% in log terms; every bar spans 2% high to low
+    const closes = Array.from({ length: 101 }, (_, i) => 100 * Math.exp(i % 2 === 0 ? 0 : 0.01));
+    const candles = closes.map(c => candle(c, c * Math.exp(0.01), c * Math.exp(-0.01), c));
+    const periods = 24 * 365;
+
+    const returns = logReturns(closes);
+    expect(closeToCloseVol(candles, periods)).toBeCloseTo(stdev(returns) * Math.sqrt(periods) * 100, 9);
+    expect(parkinsonVol(candles, periods)).toBeCloseTo(Math.sqrt(0.02 ** 2 / (4 * Math.log(2)) * periods) * 100, 9);
+    // With open == close only the range term remains
+    expect(garmanKlassVol(candles, periods)).toBeCloseTo(Math.sqrt(0.5 * 0.02 ** 2 * periods) * 100, 9);
+    expect(parkinsonVol([candle(1, 0, 0, 1)], periods)).toBeNaN();
+  });
+
+  it('smooths with an EMA seeded on the first value', () => {
+    expect(ema([0, 4, 4], 3)).toEqual([0, 2, 3]);
+  });
+
+  it("computes Wilder's RSI", () => {
+    const rising = Array.from({ length: 20 }, (_, i) => 100 + i);
+
+    expect(rsi(rising)).toBe(100);
+    expect(rsi([...rising].reverse())).toBe(0);
+    expect(rsi(rising.slice(0, 14))).toBeNaN();
+  });
+});
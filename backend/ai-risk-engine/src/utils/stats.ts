@@ -0,0 +1,106 @@
+export function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Median absolute deviation
+export function mad(values: number[]): number {
+  const center = median(values);
+  return median(values.map(v => Math.abs(v - center)));
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? NaN : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+// Sample standard deviation
+export function stdev(values: number[]): number {
+  if (values.length < 2) return NaN;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+export function logReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i] > 0 && closes[i - 1] > 0) {
+      returns.push(Math.log(closes[i] / closes[i - 1]));
+    }
+  }
+  return returns;
+}
+
+export function pearson(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return NaN;
+  const x = a.slice(-n);
+  const y = b.slice(-n);
+  const mx = mean(x);
+  const my = mean(y);
+  let cov = 0, vx = 0, vy = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (x[i] - mx) * (y[i] - my);
+    vx += (x[i] - mx) ** 2;
+    vy += (y[i] - my) ** 2;
+  }
+  return vx === 0 || vy === 0 ? 0 : cov / Math.sqrt(vx * vy);
+}
+
+export interface Candle {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Realized volatility estimators, annualized and expressed in percent
+
+export function closeToCloseVol(candles: Candle[], periodsPerYear: number): number {
+  return stdev(logReturns(candles.map(c => c.close))) * Math.sqrt(periodsPerYear) * 100;
+}
+
+export function parkinsonVol(candles: Candle[], periodsPerYear: number): number {
+  const valid = candles.filter(c => c.high > 0 && c.low > 0);
+  if (valid.length === 0) return NaN;
+  const variance = mean(valid.map(c => Math.log(c.high / c.low) ** 2)) / (4 * Math.log(2));
+  return Math.sqrt(variance * periodsPerYear) * 100;
+}
+
+export function garmanKlassVol(candles: Candle[], periodsPerYear: number): number {
+  const valid = candles.filter(c => c.high > 0 && c.low > 0 && c.open > 0 && c.close > 0);
+  if (valid.length === 0) return NaN;
+  const variance = mean(valid.map(c =>
+    0.5 * Math.log(c.high / c.low) ** 2 - (2 * Math.log(2) - 1) * Math.log(c.close / c.open) ** 2
+  ));
+  return Math.sqrt(Math.max(0, variance) * periodsPerYear) * 100;
+}
+
+export function ema(values: number[], period: number): number[] {
+  const k = 2 / (period + 1);
+  const out: number[] = [];
+  values.forEach((v, i) => out.push(i === 0 ? v : v * k + out[i - 1] * (1 - k)));
+  return out;
+}
+
+// Wilder's RSI over closes
+export function rsi(closes: number[], period = 14): number {
+  if (closes.length <= period) return NaN;
+  let gain = 0, loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) gain += change; else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+  return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+}
@@ -0,0 +1,30 @@
+import { RISK_BOUNDS } from '../config/risk';
+
+/**
+ * Scales non-negative weights to integers that sum to exactly `total`, handing
+ * the bps lost to flooring to the largest fractional remainders first.
+ */
+export function toExactBps(weights: number[], total = RISK_BOUNDS.TOTAL_WEIGHT_BPS): number[] {
+  if (weights.length === 0) return [];
+
+  const clean = weights.map(w => (Number.isFinite(w) && w > 0 ? w : 0));
+  const sum = clean.reduce((a, b) => a + b, 0);
+  const scaled = sum === 0
+    ? clean.map(() => total / clean.length)
+    : clean.map(w => (w / sum) * total);
+
+  const floored = scaled.map(Math.floor);
+  let remainder = total - floored.reduce((a, b) => a + b, 0);
+
+  const byFraction = scaled
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    floored[index]++;
+    remainder--;
+  }
+
+  return floored;
+}
@@ -0,0 +1,11 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  // p-queue and p-timeout ship ES modules only
+  transform: {
+    '^.+\\.[tj]s$': ['ts-jest', { tsconfig: { allowJs: true } }]
+  },
+  transformIgnorePatterns: ['/node_modules/(?!(p-queue|p-timeout)/)']
+};
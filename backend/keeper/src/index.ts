@@ -2,6 +2,10 @@ import dotenv from 'dotenv';
 import { EpochKeeper } from './services/EpochKeeper';
 import { ParameterKeeper } from './services/ParameterKeeper';
 import { HealthMonitor } from './services/HealthMonitor';
+import { ExplainabilityKeeper } from './services/ExplainabilityKeeper';
+import { VaultRegistry } from './services/VaultRegistry';
+import { TransactionManager } from './services/TransactionManager';
+import { startControlServer } from './server';
 import { logger } from './utils/logger';
 
 dotenv.config();
@@ -10,37 +14,63 @@ async function main() {
   try {
     logger.info('Starting FluxTranche Keeper services...');
 
-    // Initialize services
-    const epochKeeper = new EpochKeeper();
-    const parameterKeeper = new ParameterKeeper();
-    const healthMonitor = new HealthMonitor();
+    // One discovery loop shared by every service
+    const vaultRegistry = new VaultRegistry();
 
-    // Start services
-    await Promise.all([
-      epochKeeper.start(),
-      parameterKeeper.start(),
-      healthMonitor.start()
-    ]);
+    // Every write goes through one manager so services never race for nonces
+    const transactionManager = new TransactionManager();
 
-    logger.info('All keeper services started successfully');
+    // Initialize services
+    const epochKeeper = new EpochKeeper(vaultRegistry, transactionManager);
+    const parameterKeeper = new ParameterKeeper(vaultRegistry, transactionManager);
+    const healthMonitor = new HealthMonitor(vaultRegistry);
+    const explainabilityKeeper = new ExplainabilityKeeper(vaultRegistry, transactionManager);
+
+    // Up before anything touches the RPC: a hung node or paused queue can hold
+    // start(), which is when on-call needs pause, force actions and isRunning
+    const controlServer = startControlServer({
+      epochKeeper,
+      parameterKeeper,
+      healthMonitor,
+      explainabilityKeeper,
+      vaultRegistry,
+      transactionManager
+    });
 
     // Graceful shutdown
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, shutting down gracefully...');
+      controlServer?.close();
       await epochKeeper.stop();
       await parameterKeeper.stop();
       await healthMonitor.stop();
+      await explainabilityKeeper.stop();
+      vaultRegistry.stop();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       logger.info('Received SIGTERM, shutting down gracefully...');
+      controlServer?.close();
       await epochKeeper.stop();
       await parameterKeeper.stop();
       await healthMonitor.stop();
+      await explainabilityKeeper.stop();
+      vaultRegistry.stop();
       process.exit(0);
     });
 
+    // Start services
+    await vaultRegistry.start();
+    await Promise.all([
+      epochKeeper.start(),
+      parameterKeeper.start(),
+      healthMonitor.start(),
+      explainabilityKeeper.start()
+    ]);
+
+    logger.info('All keeper services started successfully');
+
   } catch (error) {
     logger.error('Failed to start keeper services:', error);
     process.exit(1);
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+
+export type ControlRole = 'read' | 'operator';
+
+const matches = (given: string, expected?: string): boolean => {
+  if (!expected) return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+export const roleOf = (res: Response): ControlRole => res.locals.role;
+
+/**
+ * Accepts KEEPER_API_TOKEN (operator: status and actions) or
+ * KEEPER_API_READ_TOKEN (status only) as X-API-Key or Authorization: Bearer.
+ * There is no anonymous access.
+ */
+export const authenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const token = req.header('X-API-Key') || req.header('Authorization')?.replace(/^Bearer\s+/i, '') || '';
+
+  let role: ControlRole | null = null;
+  if (token && matches(token, process.env.KEEPER_API_TOKEN)) {
+    role = 'operator';
+  } else if (token && matches(token, process.env.KEEPER_API_READ_TOKEN)) {
+    role = 'read';
+  }
+
+  if (!role) {
+    logger.warn('Rejected keeper API request with invalid credentials', { ip: req.ip, url: req.originalUrl });
+    return res.status(401).json({ error: 'Invalid API credentials' });
+  }
+
+  res.locals.role = role;
+  return next();
+};
+
+export const requireOperator = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (roleOf(res) !== 'operator') {
+    return res.status(403).json({ error: 'Operator token required' });
+  }
+  return next();
+};
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+
+export const errorHandler = (
+  err: Error & { status?: number },
+  req: Request,
+  res: Response,
+  _next: NextFunction
+) => {
+  logger.error('Keeper API error:', {
+    error: err.message,
+    stack: err.stack,
+    method: req.method,
+    url: req.url,
+    ip: req.ip
+  });
+
+  // Body parser errors carry their own 4xx status
+  const status = err.status && err.status < 500 ? err.status : 500;
+
+  // Don't leak error details in production
+  const message = process.env.NODE_ENV === 'production' && status === 500
+    ? 'Internal server error'
+    : err.message;
+
+  res.status(status).json({
+    error: message,
+    timestamp: new Date().toISOString()
+  });
+};
@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+
+export const CONTROL_SERVICES = ['epoch', 'parameters', 'health', 'explainability'] as const;
+export type ControlService = typeof CONTROL_SERVICES[number];
+
+const vaultParamsSchema = Joi.object({
+  address: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).required()
+});
+
+const serviceParamsSchema = Joi.object({
+  service: Joi.string().valid(...CONTROL_SERVICES).required()
+});
+
+// Reason is kept in the logs next to the caller
+const actionBodySchema = Joi.object({
+  reason: Joi.string().max(200).optional()
+});
+
+// HealthMonitor keeps 24 hours of checks
+const historyQuerySchema = Joi.object({
+  hours: Joi.number().min(0.1).max(24).optional()
+});
+
+export const validateVaultAction = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = vaultParamsSchema.validate(req.params);
+  const { error: bodyError } = actionBodySchema.validate(req.body || {});
+  
+  if (error || bodyError) {
+    return res.status(400).json({
+      error: 'Invalid settlement request',
+      details: [...(error?.details || []), ...(bodyError?.details || [])].map(d => d.message)
+    });
+  }
+  
+  return next();
+};
+
+export const validateServiceAction = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = serviceParamsSchema.validate(req.params);
+  const { error: bodyError } = actionBodySchema.validate(req.body || {});
+  
+  if (error || bodyError) {
+    return res.status(400).json({
+      error: 'Invalid service action',
+      details: [...(error?.details || []), ...(bodyError?.details || [])].map(d => d.message)
+    });
+  }
+  
+  return next();
+};
+
+export const validateActionBody = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = actionBodySchema.validate(req.body || {});
+  
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid action request',
+      details: error.details.map(d => d.message)
+    });
+  }
+  
+  return next();
+};
+
+export const validateHistoryQuery = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { error } = historyQuerySchema.validate(req.query);
+  
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid history query',
+      details: error.details.map(d => d.message)
+    });
+  }
+  
+  return next();
+};
@@ -0,0 +1,179 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { ethers } from 'ethers';
+import { controlRoutes, KeeperServices } from './control';
+import { authenticate } from '../middleware/auth';
+import { TransactionError } from '../services/TransactionManager';
+
+const VAULT = ethers.utils.getAddress('0x0000000000000000000000000000000000000abc');
+const OPERATOR_TOKEN = 'operator-token-for-tests';
+const READ_TOKEN = 'read-token-for-tests';
+const ENV = { ...process.env };
+
+interface ApiBody {
+  error?: string;
+  queues?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+const queueStatus = { queueSize: 0, queuePending: 0, paused: false };
+
+// Keeper services as the routes see them; the actions are jest mocks
+function services() {
+  return {
+    epochKeeper: {
+      getStatus: jest.fn(() => queueStatus),
+      forceSettlement: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn()
+    },
+    parameterKeeper: {
+      getStatus: jest.fn(() => queueStatus),
+      forceExecution: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn()
+    },
+    healthMonitor: {
+      getStatus: jest.fn(() => ({})),
+      getHealthSummary: jest.fn(() => ({ status: 'healthy' })),
+      getCurrentMetrics: jest.fn(() => null),
+      getMetricsHistory: jest.fn(() => []),
+      pause: jest.fn(),
+      resume: jest.fn()
+    },
+    explainabilityKeeper: {
+      getStatus: jest.fn(() => queueStatus),
+      pause: jest.fn(),
+      resume: jest.fn()
+    },
+    vaultRegistry: {
+      getVaults: jest.fn(() => [VAULT]),
+      getVault: jest.fn((address: string) =>
+        ethers.utils.getAddress(address) === VAULT ? { address: VAULT, sources: ['env'], settings: {} } : null)
+    },
+    transactionManager: {
+      getStatus: jest.fn(() => ({ inFlight: [] }))
+    }
+  };
+}
+
+describe('keeper control API', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let keeper: ReturnType<typeof services>;
+
+  beforeEach(async () => {
+    process.env = { ...ENV, KEEPER_API_TOKEN: OPERATOR_TOKEN, KEEPER_API_READ_TOKEN: READ_TOKEN };
+    keeper = services();
+    const app = express();
+    app.use(express.json());
+    app.use('/api', authenticate, controlRoutes(keeper as unknown as KeeperServices));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    process.env = { ...ENV };
+  });
+
+  const request = async (method: string, path: string, token?: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'X-API-Key': token } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() as ApiBody };
+  };
+
+  it('rejects requests without a valid token', async () => {
+    expect((await request('GET', '/status')).status).toBe(401);
+    expect((await request('GET', '/status', `${READ_TOKEN}x`)).status).toBe(401);
+  });
+
+  it('serves status to the read token but keeps actions for the operator token', async () => {
+    expect((await request('GET', '/status', READ_TOKEN)).status).toBe(200);
+    expect((await request('GET', '/queues', READ_TOKEN)).body.queues?.epoch).toEqual({ size: 0, pending: 0, paused: false });
+
+    const pause = await request('POST', '/services/epoch/pause', READ_TOKEN);
+    const settle = await request('POST', `/vaults/${VAULT}/settle`, READ_TOKEN);
+
+    expect(pause).toEqual({ status: 403, body: { error: 'Operator token required' } });
+    expect(settle.status).toBe(403);
+    expect(keeper.epochKeeper.pause).not.toHaveBeenCalled();
+    expect(keeper.epochKeeper.forceSettlement).not.toHaveBeenCalled();
+  });
+
+  it('accepts the operator token as a bearer token for actions', async () => {
+    const response = await fetch(`${baseUrl}/services/parameters/pause`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${OPERATOR_TOKEN}` }
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ service: 'parameters', paused: true });
+    expect(keeper.parameterKeeper.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates action parameters and bodies before acting', async () => {
+    const badAddress = await request('POST', '/vaults/0x1234/settle', OPERATOR_TOKEN);
+    const badService = await request('POST', '/services/keeper/resume', OPERATOR_TOKEN);
+    const longReason = await request('POST', '/params/execute', OPERATOR_TOKEN, { reason: 'x'.repeat(201) });
+    const badHours = await request('GET', '/health/history?hours=48', READ_TOKEN);
+
+    expect([badAddress, badService, longReason, badHours].map(r => r.status)).toEqual([400, 400, 400, 400]);
+    expect(badAddress.body.error).toBe('Invalid settlement request');
+    expect(keeper.epochKeeper.forceSettlement).not.toHaveBeenCalled();
+    expect(keeper.parameterKeeper.forceExecution).not.toHaveBeenCalled();
+  });
+
+  it('only settles vaults the keeper serves', async () => {
+    const other = ethers.utils.getAddress('0x0000000000000000000000000000000000000abd');
+
+    const response = await request('POST', `/vaults/${other}/settle`, OPERATOR_TOKEN);
+
+    expect(response.status).toBe(404);
+    expect(keeper.epochKeeper.forceSettlement).not.toHaveBeenCalled();
+  });
+
+  it('returns a simulated settlement for dry-run vaults', async () => {
+    keeper.epochKeeper.forceSettlement.mockResolvedValue({
+      dryRun: true,
+      label: `settleEpoch ${VAULT}`,
+      from: VAULT,
+      blockNumber: 250,
+      gasEstimate: ethers.BigNumber.from(84000),
+      events: null
+    });
+
+    const response = await request('POST', `/vaults/${VAULT.toLowerCase()}/settle`, OPERATOR_TOKEN, { reason: 'stuck timer' });
+
+    expect(response).toEqual({
+      status: 200,
+      body: { dryRun: true, from: VAULT, blockNumber: 250, gasEstimate: '84000', events: null }
+    });
+    expect(keeper.epochKeeper.forceSettlement).toHaveBeenCalledWith(VAULT);
+  });
+
+  it('maps a revert to 409 and a recoverable failure to 503', async () => {
+    keeper.parameterKeeper.forceExecution
+      .mockRejectedValueOnce(new TransactionError('reverted', 'executeParams reverted', 'executeParams', {
+        name: 'TimelockNotElapsed',
+        args: [],
+        selector: '0x12345678'
+      }))
+      .mockRejectedValueOnce(new TransactionError('stuck', 'executeParams not confirmed', 'executeParams'));
+
+    const reverted = await request('POST', '/params/execute', OPERATOR_TOKEN);
+    const stuck = await request('POST', '/params/execute', OPERATOR_TOKEN);
+
+    expect(reverted.status).toBe(409);
+    expect(reverted.body).toMatchObject({ kind: 'reverted', revert: { name: 'TimelockNotElapsed' } });
+    expect(stuck).toMatchObject({ status: 503, body: { kind: 'stuck' } });
+  });
+});
@@ -0,0 +1,157 @@
+import { Request, Response, Router } from 'express';
+import { EpochKeeper } from '../services/EpochKeeper';
+import { ParameterKeeper } from '../services/ParameterKeeper';
+import { HealthMonitor } from '../services/HealthMonitor';
+import { ExplainabilityKeeper } from '../services/ExplainabilityKeeper';
+import { VaultRegistry } from '../services/VaultRegistry';
+import { formatEvent, TransactionError, TransactionManager, TransactionOutcome } from '../services/TransactionManager';
+import { requireOperator } from '../middleware/auth';
+import {
+  ControlService,
+  validateActionBody,
+  validateHistoryQuery,
+  validateServiceAction,
+  validateVaultAction
+} from '../middleware/validation';
+import { logger } from '../utils/logger';
+
+export interface KeeperServices {
+  epochKeeper: EpochKeeper;
+  parameterKeeper: ParameterKeeper;
+  healthMonitor: HealthMonitor;
+  explainabilityKeeper: ExplainabilityKeeper;
+  vaultRegistry: VaultRegistry;
+  transactionManager: TransactionManager;
+}
+
+const outcomeResponse = (outcome: TransactionOutcome) => outcome.dryRun
+  ? {
+      dryRun: true,
+      from: outcome.from,
+      blockNumber: outcome.blockNumber,
+      gasEstimate: outcome.gasEstimate.toString(),
+      events: outcome.events ? outcome.events.map(formatEvent) : null
+    }
+  : {
+      dryRun: false,
+      txHash: outcome.hash,
+      blockNumber: outcome.receipt.blockNumber,
+      gasUsed: outcome.receipt.gasUsed.toString(),
+      replacements: outcome.replacements,
+      events: outcome.events.map(formatEvent)
+    };
+
+// Reverts are the caller's problem (409); recoverable send failures are worth retrying (503)
+const sendActionError = (res: Response, error: unknown, message: string) => {
+  if (error instanceof TransactionError) {
+    return res.status(error.kind === 'reverted' ? 409 : error.recoverable ? 503 : 500).json({
+      error: error.message,
+      kind: error.kind,
+      revert: error.revert,
+      txHash: error.hash
+    });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+};
+
+// Who asked for an action and why, for the on-call log
+const audit = (req: Request, action: string, data: Record<string, unknown> = {}) => {
+  logger.warn(`Keeper API: ${action}`, { ...data, reason: req.body?.reason, ip: req.ip });
+};
+
+/**
+ * Operator API for the keeper process: read endpoints take either token,
+ * actions need the operator token. Pausing a service holds its automatic
+ * work; forced settlement and execution still go through while paused.
+ */
+export const controlRoutes = (services: KeeperServices): Router => {
+  const router = Router();
+  const pausable: Record<ControlService, { pause(): void; resume(): void }> = {
+    epoch: services.epochKeeper,
+    parameters: services.parameterKeeper,
+    health: services.healthMonitor,
+    explainability: services.explainabilityKeeper
+  };
+
+  const queues = () => ({
+    epoch: pick(services.epochKeeper.getStatus()),
+    parameters: pick(services.parameterKeeper.getStatus()),
+    explainability: pick(services.explainabilityKeeper.getStatus())
+  });
+
+  router.get('/status', (_req, res) => {
+    res.json({
+      services: {
+        epoch: services.epochKeeper.getStatus(),
+        parameters: services.parameterKeeper.getStatus(),
+        health: services.healthMonitor.getStatus(),
+        explainability: services.explainabilityKeeper.getStatus()
+      },
+      transactions: services.transactionManager.getStatus(),
+      vaults: services.vaultRegistry.getVaults().map(address => services.vaultRegistry.getVault(address)),
+      health: services.healthMonitor.getHealthSummary(),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  router.get('/queues', (_req, res) => {
+    res.json({ queues: queues(), inFlight: services.transactionManager.getStatus().inFlight });
+  });
+
+  router.get('/health', (_req, res) => {
+    res.json({
+      summary: services.healthMonitor.getHealthSummary(),
+      current: services.healthMonitor.getCurrentMetrics()
+    });
+  });
+
+  router.get('/health/history', validateHistoryQuery, (req, res) => {
+    const hours = req.query.hours !== undefined ? Number(req.query.hours) : 24;
+    const history = services.healthMonitor.getMetricsHistory(hours);
+    res.json({ hours, count: history.length, history });
+  });
+
+  router.post('/vaults/:address/settle', requireOperator, validateVaultAction, async (req, res) => {
+    const vault = services.vaultRegistry.getVault(req.params.address);
+    if (!vault) {
+      return res.status(404).json({ error: 'Vault not served by this keeper' });
+    }
+
+    audit(req, 'force settlement requested', { vault: vault.address });
+    try {
+      return res.json(outcomeResponse(await services.epochKeeper.forceSettlement(vault.address)));
+    } catch (error) {
+      return sendActionError(res, error, 'Failed to force settlement');
+    }
+  });
+
+  router.post('/params/execute', requireOperator, validateActionBody, async (req, res) => {
+    audit(req, 'force parameter execution requested');
+    try {
+      res.json(outcomeResponse(await services.parameterKeeper.forceExecution()));
+    } catch (error) {
+      sendActionError(res, error, 'Failed to force parameter execution');
+    }
+  });
+
+  router.post('/services/:service/pause', requireOperator, validateServiceAction, (req, res) => {
+    const service = req.params.service as ControlService;
+    audit(req, `${service} paused`);
+    pausable[service].pause();
+    res.json({ service, paused: true, queues: queues() });
+  });
+
+  router.post('/services/:service/resume', requireOperator, validateServiceAction, (req, res) => {
+    const service = req.params.service as ControlService;
+    audit(req, `${service} resumed`);
+    pausable[service].resume();
+    res.json({ service, paused: false, queues: queues() });
+  });
+
+  return router;
+};
+
+function pick(status: { queueSize: number; queuePending: number; paused: boolean }) {
+  return { size: status.queueSize, pending: status.queuePending, paused: status.paused };
+}
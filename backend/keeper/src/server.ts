@@ -0,0 +1,43 @@
+import http from 'http';
+import express from 'express';
+import { controlRoutes, KeeperServices } from './routes/control';
+import { authenticate } from './middleware/auth';
+import { errorHandler } from './middleware/errorHandler';
+import { logger } from './utils/logger';
+
+// Starts the control API; without KEEPER_API_TOKEN it stays off rather than run unauthenticated
+export function startControlServer(services: KeeperServices): http.Server | null {
+  if (!process.env.KEEPER_API_TOKEN) {
+    logger.warn('KEEPER_API_TOKEN not set, keeper control API disabled');
+    return null;
+  }
+
+  const app = express();
+  const port = Number(process.env.KEEPER_SERVICE_PORT) || 4001;
+  // Loopback unless an operator deliberately exposes it
+  const host = process.env.KEEPER_SERVICE_HOST || '127.0.0.1';
+
+  app.use(express.json({ limit: '16kb' }));
+
+  // Liveness only; everything else needs a token
+  app.get('/health', (_req, res) => {
+    res.json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      service: 'Keeper',
+      version: '1.0.0'
+    });
+  });
+
+  app.use('/api', authenticate, controlRoutes(services));
+
+  app.use(errorHandler);
+
+  app.use('*', (_req, res) => {
+    res.status(404).json({ error: 'Route not found' });
+  });
+
+  return app.listen(port, host, () => {
+    logger.info(`Keeper control API running on ${host}:${port}`);
+  });
+}
@@ -1,5 +1,7 @@
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
+import { VaultRegistry } from './VaultRegistry';
+import { TransactionManager, TransactionOutcome, TransactionRequest } from './TransactionManager';
 
 // Contract ABIs (minimal for keeper operations)
 const TRANCHE_VAULT_ABI = [
@@ -7,49 +9,140 @@ const TRANCHE_VAULT_ABI = [
   'function canSettleEpoch() external view returns (bool)',
   'function currentEpoch() external view returns (uint256 index, uint256 startTime, uint256 endTime, uint256 seniorAssets, uint256 juniorAssets, int256 totalReturn, bool settled)',
   'function totalAssets() external view returns (uint256)',
-  'event EpochSettled(uint256 indexed epochIndex, int256 totalReturn, uint256 seniorPaid, uint256 juniorPnL)'
+  'event EpochSettled(uint256 indexed epochIndex, int256 totalReturn, uint256 seniorPaid, uint256 juniorPnL)',
+  'event EpochStarted(uint256 indexed epochIndex, uint256 endTime)'
 ];
 
 const RISK_PARAMS_ABI = [
+  'function queueParams(tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps) config, bytes signature) external',
   'function executeParams() external',
   'function canExecute() external view returns (bool)',
+  'function nonce() external view returns (uint256)',
   'function getCurrentConfig() external view returns (tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps))',
+  'function getQueuedConfig() external view returns (tuple(tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps) config, bytes signature, uint256 queuedAt, bool executed))',
   'event ParamsExecuted(tuple(uint256 epochLength, uint256 seniorTargetBps, uint256 maxDrawdownBps, uint256 slippageBps, address[] strategies, uint256[] targetWeightsBps, uint256[] caps) config)'
 ];
 
+const EXPLAINABILITY_PANEL_ABI = [
+  'function explainEpochDecision(uint256 epoch, uint256 seniorRatio, uint256 juniorRatio, uint256 confidence, tuple(uint8 category, uint256 weight, string description, string[] supportingData, uint256 confidence, uint8 direction)[] reasons, tuple(uint256 vixLevel, uint256 bondYields, uint256 equityVolatility, uint256 liquiditySpread, uint256 correlationIndex, string marketRegime, uint256 fearGreedIndex) marketContext, tuple(uint256 portfolioVaR, uint256 maxDrawdown, uint256 sharpeRatio, uint256 tailRisk, uint256 concentrationRisk, uint256 liquidityRisk, string riskBudgetUsage) riskMetrics, tuple(uint256 totalAssets, uint256 seniorAssets, uint256 juniorAssets, uint256 pendingDeposits, uint256 pendingWithdrawals, uint256 utilizationRate, uint256 performanceYTD, uint256 avgHoldingPeriod) portfolioState, string aiModel, uint256 processingTime) external',
+  'function answerUserQuery(uint256 queryId, string answer, uint256 relevantEpoch) external',
+  'function batchAnswerQueries(uint256[] queryIds, string[] answers, uint256[] relevantEpochs) external',
+  'function getQuery(uint256 queryId) external view returns (tuple(address user, string question, uint256 timestamp, bool answered, string answer, uint256 relevantEpoch))',
+  'function queryCounter() external view returns (uint256)',
+  'event UserQuerySubmitted(uint256 indexed queryId, address indexed user, string question)'
+];
+
+// Enum order in AIExplainabilityPanel.sol
+const REASON_CATEGORIES = [
+  'MARKET_VOLATILITY',
+  'LIQUIDITY_CONDITIONS',
+  'RISK_METRICS',
+  'HISTORICAL_PERFORMANCE',
+  'CORRELATION_ANALYSIS',
+  'SENTIMENT_INDICATORS',
+  'ECONOMIC_INDICATORS',
+  'PORTFOLIO_REBALANCING',
+  'USER_BEHAVIOR',
+  'REGULATORY_ENVIRONMENT'
+];
+const REASON_DIRECTIONS = ['BULLISH', 'BEARISH', 'NEUTRAL'];
+
+// Explanation as built by the AI risk engine's /api/risk/explanations
+export interface PanelExplanation {
+  epoch: number;
+  decisionId: string;
+  seniorRatio: number;
+  juniorRatio: number;
+  confidence: number;
+  reasons: Array<{
+    category: string;
+    weight: number;
+    description: string;
+    supportingData: string[];
+    confidence: number;
+    direction: string;
+  }>;
+  marketContext: Record<string, number | string>;
+  riskMetrics: Record<string, number | string>;
+  portfolioState: Record<string, number | string>;
+  aiModel: string;
+  processingTime: number;
+}
+
+export interface PanelAnswer {
+  queryId: number;
+  answer: string;
+  relevantEpoch: number;
+}
+
+export interface UserQuery {
+  queryId: number;
+  user: string;
+  question: string;
+  timestamp: number;
+  answered: boolean;
+  relevantEpoch: number;
+}
+
+// Per-call gas limit pin and dry-run switch for the write methods
+export type WriteOptions = Pick<TransactionRequest, 'gasLimit' | 'dryRun'>;
+
+export interface OnChainRiskConfig {
+  epochLength: number;
+  seniorTargetBps: number;
+  maxDrawdownBps: number;
+  slippageBps: number;
+  strategies: string[];
+  targetWeightsBps: number[];
+  caps: Array<number | string>;
+}
+
 export class ContractService {
   private wallet: ethers.Wallet;
-  private vaultAddresses: string[];
+  private vaults: VaultRegistry;
+  private transactions: TransactionManager;
   private riskParamsAddress: string;
+  private explainabilityPanelAddress: string;
+  // Contracts with handlers from the on* hooks, so they can be detached
+  private listening: ethers.Contract[] = [];
 
-  constructor(wallet: ethers.Wallet) {
+  constructor(wallet: ethers.Wallet, vaults?: VaultRegistry, transactions?: TransactionManager) {
     this.wallet = wallet;
+    this.vaults = vaults || new VaultRegistry(wallet.provider as ethers.providers.JsonRpcProvider);
+    this.transactions = transactions || new TransactionManager(wallet);
     
-    // Load contract addresses from environment
-    this.vaultAddresses = [
-      process.env.TRANCHE_VAULT_ADDRESS || ''
-    ].filter(addr => addr !== '');
+    if (this.transactions.address !== wallet.address) {
+      logger.warn('Transaction manager sends from a different account than the service wallet', {
+        wallet: wallet.address,
+        sender: this.transactions.address
+      });
+    }
     
+    // Load contract addresses from environment
     this.riskParamsAddress = process.env.RISK_PARAMS_ADDRESS || '';
-    
-    if (this.vaultAddresses.length === 0) {
-      logger.warn('No vault addresses configured');
-    }
+    this.explainabilityPanelAddress = process.env.AI_EXPLAINABILITY_PANEL_ADDRESS || '';
     
     if (!this.riskParamsAddress) {
       logger.warn('No risk params address configured');
     }
     
     logger.info('ContractService initialized', {
-      vaults: this.vaultAddresses.length,
-      riskParams: !!this.riskParamsAddress
+      vaults: this.vaults.getVaults().length,
+      riskParams: !!this.riskParamsAddress,
+      explainabilityPanel: !!this.explainabilityPanelAddress
     });
   }
 
   async getActiveVaults(): Promise<string[]> {
-    // In production, this might query a registry contract
-    // For MVP, return configured addresses
-    return this.vaultAddresses;
+    return this.vaults.getVaults();
+  }
+
+  getVaultRegistry(): VaultRegistry {
+    return this.vaults;
+  }
+
+  getTransactionManager(): TransactionManager {
+    return this.transactions;
   }
 
   async canSettleEpoch(vaultAddress: string): Promise<boolean> {
@@ -62,28 +155,21 @@ export class ContractService {
     }
   }
 
-  async settleEpoch(
-    vaultAddress: string,
-    overrides?: ethers.Overrides
-  ): Promise<ethers.ContractTransaction> {
+  // Sent through the transaction manager; resolves once confirmed, or simulated in dry-run mode
+  async settleEpoch(vaultAddress: string, options: WriteOptions = {}): Promise<TransactionOutcome> {
     const contract = new ethers.Contract(vaultAddress, TRANCHE_VAULT_ABI, this.wallet);
-    
-    // Estimate gas first
-    const gasEstimate = await contract.estimateGas.settleEpoch();
-    const gasLimit = gasEstimate.mul(120).div(100); // 20% buffer
-    
-    const txOverrides = {
-      gasLimit,
-      ...overrides
-    };
-    
-    return await contract.settleEpoch(txOverrides);
+    return this.transactions.send({
+      label: `settleEpoch ${vaultAddress}`,
+      contract,
+      method: 'settleEpoch',
+      ...options
+    });
   }
 
-  async getCurrentEpoch(vaultAddress: string) {
+  async getCurrentEpoch(vaultAddress: string, blockTag?: ethers.providers.BlockTag) {
     try {
       const contract = new ethers.Contract(vaultAddress, TRANCHE_VAULT_ABI, this.wallet);
-      const epoch = await contract.currentEpoch();
+      const epoch = await contract.currentEpoch({ blockTag });
       
       return {
         index: epoch[0].toNumber(),
@@ -124,23 +210,72 @@ export class ContractService {
     }
   }
 
-  async executeParams(overrides?: ethers.Overrides): Promise<ethers.ContractTransaction> {
+  async executeParams(options: WriteOptions = {}): Promise<TransactionOutcome> {
     if (!this.riskParamsAddress) {
       throw new Error('Risk params address not configured');
     }
     
     const contract = new ethers.Contract(this.riskParamsAddress, RISK_PARAMS_ABI, this.wallet);
+    return this.transactions.send({ label: 'executeParams', contract, method: 'executeParams', ...options });
+  }
+
+  // Estimation reverts with InvalidSignature or InvalidConfig before anything is sent
+  async queueParams(config: OnChainRiskConfig, signature: string): Promise<TransactionOutcome> {
+    if (!this.riskParamsAddress) {
+      throw new Error('Risk params address not configured');
+    }
     
-    // Estimate gas first
-    const gasEstimate = await contract.estimateGas.executeParams();
-    const gasLimit = gasEstimate.mul(120).div(100); // 20% buffer
+    const contract = new ethers.Contract(this.riskParamsAddress, RISK_PARAMS_ABI, this.wallet);
+    return this.transactions.send({
+      label: 'queueParams',
+      contract,
+      method: 'queueParams',
+      args: [config, signature]
+    });
+  }
+
+  async getQueuedConfig() {
+    if (!this.riskParamsAddress) {
+      return null;
+    }
     
-    const txOverrides = {
-      gasLimit,
-      ...overrides
-    };
+    try {
+      const contract = new ethers.Contract(this.riskParamsAddress, RISK_PARAMS_ABI, this.wallet);
+      const queued = await contract.getQueuedConfig();
+      
+      return {
+        config: {
+          epochLength: queued.config[0].toNumber(),
+          seniorTargetBps: queued.config[1].toNumber(),
+          maxDrawdownBps: queued.config[2].toNumber(),
+          slippageBps: queued.config[3].toNumber(),
+          strategies: queued.config[4],
+          targetWeightsBps: queued.config[5].map((w: ethers.BigNumber) => w.toNumber()),
+          caps: queued.config[6].map((c: ethers.BigNumber) => c.toString())
+        },
+        signature: queued.signature,
+        queuedAt: queued.queuedAt.toNumber(),
+        executed: queued.executed
+      };
+    } catch (error) {
+      logger.error('Failed to get queued risk config:', error);
+      return null;
+    }
+  }
+
+  async getRiskParamsNonce(): Promise<number | null> {
+    if (!this.riskParamsAddress) {
+      return null;
+    }
     
-    return await contract.executeParams(txOverrides);
+    try {
+      const contract = new ethers.Contract(this.riskParamsAddress, RISK_PARAMS_ABI, this.wallet);
+      const nonce: ethers.BigNumber = await contract.nonce();
+      return nonce.toNumber();
+    } catch (error) {
+      logger.error('Failed to get risk params nonce:', error);
+      return null;
+    }
   }
 
   async getCurrentRiskConfig() {
@@ -167,9 +302,152 @@ export class ContractService {
     }
   }
 
+  hasExplainabilityPanel(): boolean {
+    return this.explainabilityPanelAddress !== '';
+  }
+
+  async explainEpochDecision(explanation: PanelExplanation): Promise<TransactionOutcome> {
+    const contract = this.explainabilityPanel();
+    const reasons = explanation.reasons.map(reason => {
+      const category = REASON_CATEGORIES.indexOf(reason.category);
+      const direction = REASON_DIRECTIONS.indexOf(reason.direction);
+      if (category < 0 || direction < 0) {
+        throw new Error(`Unknown reason category/direction: ${reason.category}/${reason.direction}`);
+      }
+      return { ...reason, category, direction };
+    });
+    const args = [
+      explanation.epoch,
+      explanation.seniorRatio,
+      explanation.juniorRatio,
+      explanation.confidence,
+      reasons,
+      explanation.marketContext,
+      explanation.riskMetrics,
+      explanation.portfolioState,
+      explanation.aiModel,
+      explanation.processingTime
+    ];
+    
+    return this.transactions.send({
+      label: `explainEpochDecision ${explanation.epoch}`,
+      contract,
+      method: 'explainEpochDecision',
+      args
+    });
+  }
+
+  // One answer goes through answerUserQuery, several through batchAnswerQueries
+  async answerUserQueries(answers: PanelAnswer[]): Promise<TransactionOutcome> {
+    const contract = this.explainabilityPanel();
+    
+    if (answers.length === 1) {
+      const [{ queryId, answer, relevantEpoch }] = answers;
+      return this.transactions.send({
+        label: `answerUserQuery ${queryId}`,
+        contract,
+        method: 'answerUserQuery',
+        args: [queryId, answer, relevantEpoch]
+      });
+    }
+    
+    return this.transactions.send({
+      label: `batchAnswerQueries ${answers.length}`,
+      contract,
+      method: 'batchAnswerQueries',
+      args: [
+        answers.map(a => a.queryId),
+        answers.map(a => a.answer),
+        answers.map(a => a.relevantEpoch)
+      ]
+    });
+  }
+
+  async getUserQuery(queryId: number): Promise<UserQuery | null> {
+    try {
+      const query = await this.explainabilityPanel().getQuery(queryId);
+      return {
+        queryId,
+        user: query.user,
+        question: query.question,
+        timestamp: query.timestamp.toNumber(),
+        answered: query.answered,
+        relevantEpoch: query.relevantEpoch.toNumber()
+      };
+    } catch (error) {
+      logger.error(`Failed to get user query ${queryId}:`, error);
+      return null;
+    }
+  }
+
+  async getQueryCount(): Promise<number | null> {
+    try {
+      const count: ethers.BigNumber = await this.explainabilityPanel().queryCounter();
+      return count.toNumber();
+    } catch (error) {
+      logger.error('Failed to get panel query count:', error);
+      return null;
+    }
+  }
+
+  // Hooks for services that act on events rather than just logging them
+  onParamsExecuted(handler: (txHash: string) => void): void {
+    if (!this.riskParamsAddress) {
+      return;
+    }
+    
+    const contract = new ethers.Contract(this.riskParamsAddress, RISK_PARAMS_ABI, this.wallet);
+    contract.on('ParamsExecuted', (_config, event) => handler(event.transactionHash));
+    this.listening.push(contract);
+  }
+
+  onUserQuerySubmitted(handler: (queryId: number, question: string) => void): void {
+    if (!this.explainabilityPanelAddress) {
+      return;
+    }
+    
+    const contract = this.explainabilityPanel();
+    contract.on('UserQuerySubmitted', (queryId: ethers.BigNumber, _user, question: string) =>
+      handler(queryId.toNumber(), question)
+    );
+    this.listening.push(contract);
+  }
+
+  onEpochStarted(
+    vaultAddress: string,
+    handler: (epochIndex: number, endTime: number, blockNumber: number) => void
+  ): void {
+    const contract = new ethers.Contract(vaultAddress, TRANCHE_VAULT_ABI, this.wallet);
+    contract.on('EpochStarted', (epochIndex: ethers.BigNumber, endTime: ethers.BigNumber, event) =>
+      handler(epochIndex.toNumber(), endTime.toNumber(), event.blockNumber)
+    );
+    this.listening.push(contract);
+  }
+
+  // Detaches hooks on one contract, e.g. a vault that was removed
+  removeListeners(address: string): void {
+    const target = ethers.utils.getAddress(address);
+    this.listening
+      .filter(contract => ethers.utils.getAddress(contract.address) === target)
+      .forEach(contract => contract.removeAllListeners());
+    this.listening = this.listening.filter(contract => ethers.utils.getAddress(contract.address) !== target);
+  }
+
+  removeAllListeners(): void {
+    this.listening.forEach(contract => contract.removeAllListeners());
+    this.listening = [];
+  }
+
+  private explainabilityPanel(): ethers.Contract {
+    if (!this.explainabilityPanelAddress) {
+      throw new Error('Explainability panel address not configured');
+    }
+    return new ethers.Contract(this.explainabilityPanelAddress, EXPLAINABILITY_PANEL_ABI, this.wallet);
+  }
+
   // Listen for events
   async subscribeToEvents() {
-    for (const vaultAddress of this.vaultAddresses) {
+    for (const vaultAddress of this.vaults.getVaults()) {
       try {
         const contract = new ethers.Contract(vaultAddress, TRANCHE_VAULT_ABI, this.wallet);
         
@@ -214,7 +492,7 @@ export class ContractService {
     riskParams: { accessible: boolean; error?: string } | null;
   }> {
     const vaultStatus = await Promise.all(
-      this.vaultAddresses.map(async (address) => {
+      this.vaults.getVaults().map(async (address) => {
         try {
           const contract = new ethers.Contract(address, TRANCHE_VAULT_ABI, this.wallet);
           await contract.totalAssets();
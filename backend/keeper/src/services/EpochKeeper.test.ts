@@ -0,0 +1,168 @@
+import { ethers } from 'ethers';
+import { EpochKeeper } from './EpochKeeper';
+import { ContractService } from './ContractService';
+import { VaultRegistry } from './VaultRegistry';
+
+const VAULT = ethers.utils.getAddress('0x0000000000000000000000000000000000000abc');
+const OTHER_VAULT = ethers.utils.getAddress('0x0000000000000000000000000000000000000abd');
+const NOW = 1_700_000_000;
+const ENV = { ...process.env };
+
+type EpochStartedHandler = (epochIndex: number, endTime: number, blockNumber: number) => void;
+
+const epoch = (index: number, endTime: number) => ({
+  index,
+  startTime: endTime - 3600,
+  endTime,
+  seniorAssets: '0',
+  juniorAssets: '0',
+  totalReturn: '0',
+  settled: false
+});
+
+const until = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+// Chain reads come from the test: `blocks` answers getBlock, `epochs` answers currentEpoch per vault
+function chain() {
+  const blocks = new Map<ethers.providers.BlockTag, { number: number; hash: string; timestamp: number }>();
+  const epochs = new Map<string, ReturnType<typeof epoch>>();
+  const handlers = new Map<string, EpochStartedHandler[]>();
+
+  jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'detectNetwork')
+    .mockResolvedValue({ chainId: 1337, name: 'test' });
+  const getBlock = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlock')
+    .mockImplementation(async tag => blocks.get(tag as ethers.providers.BlockTag) as unknown as ethers.providers.Block);
+  const getCurrentEpoch = jest.spyOn(ContractService.prototype, 'getCurrentEpoch')
+    .mockImplementation(async vault => epochs.get(vault)!);
+  const onEpochStarted = jest.spyOn(ContractService.prototype, 'onEpochStarted')
+    .mockImplementation((vault, handler) => handlers.set(vault, [...(handlers.get(vault) || []), handler]));
+  jest.spyOn(ContractService.prototype, 'onParamsExecuted').mockImplementation(() => undefined);
+  jest.spyOn(ContractService.prototype, 'canSettleEpoch').mockResolvedValue(false);
+
+  return { blocks, epochs, handlers, getBlock, getCurrentEpoch, onEpochStarted };
+}
+
+function keeper(vaults: string[]) {
+  process.env.TRANCHE_VAULT_ADDRESSES = vaults.join(',');
+  const provider = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:8545', { chainId: 1337, name: 'test' });
+  const registry = new VaultRegistry(provider, 'vaults.test-missing.json');
+  return { registry, keeper: new EpochKeeper(registry) };
+}
+
+const scheduleOf = (epochKeeper: EpochKeeper, vault: string) =>
+  epochKeeper.getStatus().schedules.find(schedule => schedule.vault === vault);
+
+describe('EpochKeeper', () => {
+  let running: EpochKeeper | null = null;
+
+  beforeEach(() => {
+    process.env = {
+      ...ENV,
+      RISE_RPC_URL: 'http://127.0.0.1:8545',
+      DEPLOYER_PRIVATE_KEY: ethers.utils.id('epoch keeper test key'),
+      TRANCHE_VAULT_ADDRESS: '',
+      EPOCH_SETTLE_DELAY_MS: '1000',
+      EPOCH_REORG_CHECK_MS: '60000'
+    };
+  });
+
+  afterEach(async () => {
+    await running?.stop();
+    running = null;
+    jest.restoreAllMocks();
+    process.env = { ...ENV };
+  });
+
+  it('re-arms the vault timer from chain state when EpochStarted arrives', async () => {
+    const { blocks, epochs, handlers } = chain();
+    blocks.set('latest', { number: 100, hash: '0xa', timestamp: NOW });
+    epochs.set(VAULT, epoch(1, NOW + 3600));
+    running = keeper([VAULT]).keeper;
+
+    await running.start();
+    const first = scheduleOf(running, VAULT)!;
+    expect(first).toMatchObject({ epochIndex: 1, endTime: NOW + 3600, retries: 0 });
+
+    // Epoch 1 was settled by someone else and epoch 2 runs twice as long
+    blocks.set('latest', { number: 101, hash: '0xb', timestamp: NOW + 60 });
+    epochs.set(VAULT, epoch(2, NOW + 60 + 7200));
+    handlers.get(VAULT)!.forEach(handler => handler(2, NOW + 60 + 7200, 101));
+
+    await until(() => scheduleOf(running!, VAULT)?.epochIndex === 2);
+    const second = scheduleOf(running, VAULT)!;
+    expect(second.endTime).toBe(NOW + 60 + 7200);
+    // Chain time decides: 7200 s left at block 101 plus the settle delay
+    expect(second.settleAt - first.settleAt).toBeGreaterThanOrEqual((7200 - 3600) * 1000);
+  });
+
+  it('recomputes the schedule when the block it was read at is reorged out', async () => {
+    process.env.EPOCH_REORG_CHECK_MS = '20';
+    const { blocks, epochs, getCurrentEpoch } = chain();
+    blocks.set('latest', { number: 100, hash: '0xa', timestamp: NOW });
+    // The canonical block 100 no longer has hash 0xa
+    blocks.set(100, { number: 100, hash: '0xc', timestamp: NOW });
+    epochs.set(VAULT, epoch(1, NOW + 3600));
+    running = keeper([VAULT]).keeper;
+
+    await running.start();
+    epochs.set(VAULT, epoch(1, NOW + 1800));
+
+    await until(() => scheduleOf(running!, VAULT)?.endTime === NOW + 1800);
+    expect(getCurrentEpoch).toHaveBeenLastCalledWith(VAULT, 100);
+  });
+
+  it('leaves the schedule alone when the block is still canonical', async () => {
+    process.env.EPOCH_REORG_CHECK_MS = '20';
+    const { blocks, epochs, getBlock, getCurrentEpoch } = chain();
+    blocks.set('latest', { number: 100, hash: '0xa', timestamp: NOW });
+    blocks.set(100, { number: 100, hash: '0xa', timestamp: NOW });
+    epochs.set(VAULT, epoch(1, NOW + 3600));
+    running = keeper([VAULT]).keeper;
+
+    await running.start();
+    await until(() => getBlock.mock.calls.some(([tag]) => tag === 100));
+
+    expect(getCurrentEpoch).toHaveBeenCalledTimes(1);
+  });
+
+  it('watches a vault added at runtime once, even after a restart', async () => {
+    const { blocks, epochs, onEpochStarted } = chain();
+    blocks.set('latest', { number: 100, hash: '0xa', timestamp: NOW });
+    epochs.set(VAULT, epoch(1, NOW + 3600));
+    epochs.set(OTHER_VAULT, epoch(4, NOW + 900));
+    const { registry, keeper: epochKeeper } = keeper([VAULT]);
+    running = epochKeeper;
+
+    await running.start();
+    await running.stop();
+    await running.start();
+    process.env.TRANCHE_VAULT_ADDRESSES = [VAULT, OTHER_VAULT].join(',');
+    await registry.refresh();
+
+    await until(() => scheduleOf(running!, OTHER_VAULT)?.epochIndex === 4);
+    expect(onEpochStarted.mock.calls.filter(([vault]) => vault === OTHER_VAULT)).toHaveLength(1);
+  });
+
+  it('drops the schedule of a vault removed at runtime', async () => {
+    const { blocks, epochs } = chain();
+    blocks.set('latest', { number: 100, hash: '0xa', timestamp: NOW });
+    epochs.set(VAULT, epoch(1, NOW + 3600));
+    epochs.set(OTHER_VAULT, epoch(4, NOW + 900));
+    const { registry, keeper: epochKeeper } = keeper([VAULT, OTHER_VAULT]);
+    running = epochKeeper;
+
+    await running.start();
+    expect(scheduleOf(running, OTHER_VAULT)).toBeDefined();
+    process.env.TRANCHE_VAULT_ADDRESSES = VAULT;
+    await registry.refresh();
+
+    expect(scheduleOf(running, OTHER_VAULT)).toBeUndefined();
+    expect(scheduleOf(running, VAULT)).toMatchObject({ epochIndex: 1 });
+  });
+});
@@ -1,9 +1,40 @@
 import cron from 'node-cron';
 import { ethers } from 'ethers';
 import { ContractService } from './ContractService';
+import { VaultRegistry } from './VaultRegistry';
+import { TransactionError, TransactionManager, TransactionOutcome } from './TransactionManager';
 import { logger } from '../utils/logger';
+import { routeAlert } from '../utils/alerts';
 import PQueue from 'p-queue';
 
+// setTimeout overflows past ~24.8 days; longer waits re-arm from chain state
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+// Backoff ceiling when an overdue epoch still cannot be settled
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+interface VaultSchedule {
+  epochIndex: number;
+  endTime: number;
+  settleAt: number;
+  // Timer only re-arms, the epoch ends after MAX_TIMER_MS
+  capped: boolean;
+  // Block the schedule was read at; a different hash there later means a reorg
+  blockNumber: number;
+  blockHash: string;
+  // Consecutive overdue attempts for this epoch
+  retries: number;
+  deadlineAlerted: boolean;
+  timer: NodeJS.Timeout | null;
+  reorgCheck: NodeJS.Timeout | null;
+}
+
+/**
+ * Settles each vault's epoch as soon as currentEpoch().endTime passes. A
+ * timer per vault is armed from chain time and re-armed on EpochStarted,
+ * ParamsExecuted and reorgs of the block it was read at; the cron sweep
+ * is only a safety net for missed events. Vaults come and go with the
+ * VaultRegistry, each with its own settle delay, gas limit and alert route.
+ */
 export class EpochKeeper {
   private provider: ethers.providers.JsonRpcProvider;
   private wallet: ethers.Wallet;
@@ -11,8 +42,12 @@ export class EpochKeeper {
   private cronJob: cron.ScheduledTask | null = null;
   private queue: PQueue;
   private isRunning = false;
+  private vaults: VaultRegistry;
+  private schedules = new Map<string, VaultSchedule>();
+  private reorgCheckMs: number;
+  private safetyCron: string;
 
-  constructor() {
+  constructor(vaults?: VaultRegistry, transactions?: TransactionManager) {
     this.provider = new ethers.providers.JsonRpcProvider(
       process.env.RISE_RPC_URL || 'https://testnet-rpc.risechain.io'
     );
@@ -23,11 +58,26 @@ export class EpochKeeper {
     }
     
     this.wallet = new ethers.Wallet(privateKey, this.provider);
-    this.contractService = new ContractService(this.wallet);
+    this.contractService = new ContractService(this.wallet, vaults, transactions);
+    this.vaults = this.contractService.getVaultRegistry();
     
     // Queue for handling multiple settlements
     this.queue = new PQueue({ concurrency: 1 });
     
+    this.reorgCheckMs = Number(process.env.EPOCH_REORG_CHECK_MS) || 60000;
+    this.safetyCron = process.env.EPOCH_SAFETY_CRON || '*/15 * * * *';
+
+    // Registered once: the registry keeps handlers for good, so start() after stop() must not add more
+    this.vaults.onVaultAdded(({ address }) => {
+      if (!this.isRunning) return;
+      this.watchVault(address);
+      this.queue.add(() => this.scheduleVault(address));
+    });
+    this.vaults.onVaultRemoved(({ address }) => {
+      if (!this.isRunning) return;
+      this.unwatchVault(address);
+    });
+    
     logger.info('EpochKeeper initialized with address:', this.wallet.address);
   }
 
@@ -37,16 +87,28 @@ export class EpochKeeper {
       return;
     }
 
-    // Check every 5 minutes for epoch settlements
-    this.cronJob = cron.schedule('*/5 * * * *', async () => {
+    const vaults = await this.contractService.getActiveVaults();
+    vaults.forEach(vaultAddress => this.watchVault(vaultAddress));
+
+    // A new config changes how long the next epoch runs
+    this.contractService.onParamsExecuted(() => {
+      this.queue.add(() => this.scheduleAll());
+    });
+
+    // Safety net for missed events and stuck timers
+    this.cronJob = cron.schedule(this.safetyCron, async () => {
+      // Timers already queued their work; don't pile sweeps up behind a pause
+      if (this.queue.isPaused) return;
       await this.queue.add(() => this.checkAndSettleEpochs());
+      await this.queue.add(() => this.scheduleAll());
     });
 
     this.isRunning = true;
-    logger.info('EpochKeeper started - checking every 5 minutes');
+    logger.info(`EpochKeeper started - timers per vault, safety sweep on '${this.safetyCron}'`);
 
-    // Run initial check
+    // Settle anything already overdue, then arm timers
     await this.queue.add(() => this.checkAndSettleEpochs());
+    await this.queue.add(() => this.scheduleAll());
   }
 
   async stop(): Promise<void> {
@@ -54,16 +116,185 @@ export class EpochKeeper {
       return;
     }
 
+    this.isRunning = false;
+    this.contractService.removeAllListeners();
+
     if (this.cronJob) {
       this.cronJob.stop();
       this.cronJob = null;
     }
 
+    // Work held by a pause is dropped rather than run during shutdown, and the
+    // queue is resumed so a later start() does not wait on it forever
+    if (this.queue.isPaused) {
+      this.queue.clear();
+      this.queue.start();
+    }
     await this.queue.onIdle();
-    this.isRunning = false;
+    for (const vaultAddress of this.schedules.keys()) {
+      this.clearTimers(vaultAddress);
+    }
+    this.schedules.clear();
     logger.info('EpochKeeper stopped');
   }
 
+  // Holds automatic actions without dropping listeners or timers; force methods still work
+  pause(): void {
+    this.queue.pause();
+    logger.warn('EpochKeeper paused');
+  }
+
+  resume(): void {
+    this.queue.start();
+    logger.info('EpochKeeper resumed');
+  }
+
+  private watchVault(vaultAddress: string): void {
+    this.contractService.onEpochStarted(vaultAddress, (epochIndex, endTime) => {
+      logger.info(`Epoch ${epochIndex} started for vault ${vaultAddress}`, { endTime });
+      this.queue.add(() => this.scheduleVault(vaultAddress));
+    });
+  }
+
+  private unwatchVault(vaultAddress: string): void {
+    this.contractService.removeListeners(vaultAddress);
+    this.clearTimers(vaultAddress);
+    this.schedules.delete(vaultAddress);
+  }
+
+  private async scheduleAll(): Promise<void> {
+    const vaults = await this.contractService.getActiveVaults();
+    for (const vaultAddress of vaults) {
+      await this.scheduleVault(vaultAddress);
+    }
+  }
+
+  // Arms the vault's settlement timer from the epoch end time as seen on chain
+  private async scheduleVault(vaultAddress: string): Promise<void> {
+    // Removed vaults may still have queued work
+    if (!this.isRunning || !this.vaults.getVault(vaultAddress)) {
+      return;
+    }
+
+    try {
+      // settleEpoch needs block.timestamp >= endTime, so the next block gets settleDelayMs
+      const settings = this.vaults.getSettings(vaultAddress);
+      const block = await this.provider.getBlock('latest');
+      const epoch = await this.contractService.getCurrentEpoch(vaultAddress, block.number);
+      const previous = this.schedules.get(vaultAddress);
+      this.clearTimers(vaultAddress);
+
+      // Chain time rather than the local clock decides when the epoch is over
+      const remainingMs = (epoch.endTime - block.timestamp) * 1000;
+      const overdue = remainingMs <= 0;
+      const sameEpoch = previous?.epochIndex === epoch.index;
+      const retries = overdue && previous && sameEpoch ? previous.retries + 1 : 0;
+      const capped = !overdue && remainingMs + settings.settleDelayMs > MAX_TIMER_MS;
+      const delayMs = overdue
+        ? (retries === 0 ? 0 : Math.min(settings.settleDelayMs * 2 ** retries, MAX_RETRY_DELAY_MS))
+        : Math.min(remainingMs + settings.settleDelayMs, MAX_TIMER_MS);
+
+      const schedule: VaultSchedule = {
+        epochIndex: epoch.index,
+        endTime: epoch.endTime,
+        settleAt: Date.now() + delayMs,
+        capped,
+        blockNumber: block.number,
+        blockHash: block.hash,
+        retries,
+        deadlineAlerted: sameEpoch && !!previous?.deadlineAlerted,
+        timer: null,
+        reorgCheck: null
+      };
+      this.schedules.set(vaultAddress, schedule);
+
+      if (!epoch.settled && -remainingMs > settings.settleDeadlineMs && !schedule.deadlineAlerted) {
+        schedule.deadlineAlerted = true;
+        await this.sendAlert(
+          `Epoch ${epoch.index} of vault ${vaultAddress} unsettled ${Math.round(-remainingMs / 60000)} minutes after its end`,
+          new Error(`${retries} settlement attempts`),
+          vaultAddress
+        );
+      }
+
+      if (epoch.settled) {
+        // Settled epochs roll over in the same transaction; wait for EpochStarted or the sweep
+        logger.warn(`Vault ${vaultAddress} epoch ${epoch.index} is settled without a successor`);
+        return;
+      }
+
+      schedule.timer = setTimeout(() => {
+        this.queue.add(() => this.onTimer(vaultAddress));
+      }, delayMs);
+      schedule.reorgCheck = setTimeout(() => {
+        this.queue.add(() => this.checkForReorg(vaultAddress));
+      }, this.reorgCheckMs);
+
+      logger.info(`Vault ${vaultAddress} epoch ${epoch.index} settlement scheduled`, {
+        endTime: epoch.endTime,
+        settleAt: new Date(schedule.settleAt).toISOString(),
+        retries
+      });
+    } catch (error) {
+      logger.error(`Failed to schedule settlement for vault ${vaultAddress}:`, error);
+    }
+  }
+
+  private async onTimer(vaultAddress: string): Promise<void> {
+    const schedule = this.schedules.get(vaultAddress);
+    if (!schedule || !this.isRunning) {
+      return;
+    }
+    schedule.timer = null;
+
+    // Capped timers fire before the epoch ends; the reschedule below re-arms them
+    if (!schedule.capped) {
+      try {
+        await this.checkVaultEpoch(vaultAddress);
+      } catch (error) {
+        logger.error(`Failed to process vault ${vaultAddress}:`, error);
+      }
+    }
+
+    await this.scheduleVault(vaultAddress);
+  }
+
+  // One-shot check that the block a schedule was read at is still canonical
+  private async checkForReorg(vaultAddress: string): Promise<void> {
+    const schedule = this.schedules.get(vaultAddress);
+    if (!schedule || !this.isRunning) {
+      return;
+    }
+    schedule.reorgCheck = null;
+
+    try {
+      const block = await this.provider.getBlock(schedule.blockNumber);
+      if (block && block.hash === schedule.blockHash) {
+        return;
+      }
+      logger.warn(`Reorg detected for vault ${vaultAddress} schedule, recomputing`, {
+        blockNumber: schedule.blockNumber,
+        expected: schedule.blockHash,
+        actual: block?.hash
+      });
+      await this.scheduleVault(vaultAddress);
+    } catch (error) {
+      logger.warn(`Failed to check vault ${vaultAddress} schedule for reorgs:`, error);
+    }
+  }
+
+  private clearTimers(vaultAddress: string): void {
+    const schedule = this.schedules.get(vaultAddress);
+    if (schedule?.timer) {
+      clearTimeout(schedule.timer);
+      schedule.timer = null;
+    }
+    if (schedule?.reorgCheck) {
+      clearTimeout(schedule.reorgCheck);
+      schedule.reorgCheck = null;
+    }
+  }
+
   private async checkAndSettleEpochs(): Promise<void> {
     try {
       logger.info('Checking for epochs to settle...');
@@ -95,44 +326,40 @@ export class EpochKeeper {
     logger.info(`Settling epoch for vault ${vaultAddress}`);
     
     try {
-      // Get current gas price and add buffer
-      const gasPrice = await this.provider.getGasPrice();
-      const bufferedGasPrice = gasPrice.mul(110).div(100); // 10% buffer
+      // Estimated unless the vault's settings pin a gas limit
+      const { gasLimit, dryRun } = this.vaults.getSettings(vaultAddress);
+      const result = await this.contractService.settleEpoch(vaultAddress, { gasLimit, dryRun });
       
-      const tx = await this.contractService.settleEpoch(vaultAddress, {
-        gasPrice: bufferedGasPrice,
-        gasLimit: 500000, // Conservative gas limit
-      });
+      if (result.dryRun) {
+        // The transaction manager logged the EpochSettled it would emit; the timer retries until someone settles
+        logger.info(`Dry run: epoch settlement for vault ${vaultAddress} simulated, nothing sent`);
+        return;
+      }
       
-      logger.info(`Epoch settlement transaction sent: ${tx.hash}`);
+      logger.info(`Epoch settled successfully for vault ${vaultAddress}`, {
+        txHash: result.hash,
+        gasUsed: result.receipt.gasUsed.toString(),
+        blockNumber: result.receipt.blockNumber,
+        replacements: result.replacements
+      });
       
-      // Wait for confirmation
-      const receipt = await tx.wait();
+      // Log epoch details
+      await this.logEpochDetails(vaultAddress);
       
-      if (receipt.status === 1) {
-        logger.info(`Epoch settled successfully for vault ${vaultAddress}`, {
-          txHash: tx.hash,
-          gasUsed: receipt.gasUsed.toString(),
-          blockNumber: receipt.blockNumber
-        });
-        
-        // Log epoch details
-        await this.logEpochDetails(vaultAddress);
-      } else {
-        logger.error(`Epoch settlement failed for vault ${vaultAddress}`, {
-          txHash: tx.hash
-        });
+    } catch (error) {
+      // Another keeper settled first, or endTime raced the block timestamp
+      if (error instanceof TransactionError && error.isRevert('EpochAlreadySettled', 'EpochNotEnded')) {
+        logger.warn(`Settlement of vault ${vaultAddress} skipped: ${error.revert!.name}`);
+        return;
       }
       
-    } catch (error) {
-      logger.error(`Failed to settle epoch for vault ${vaultAddress}:`, error);
+      logger.error(`Failed to settle epoch for vault ${vaultAddress}:`, error instanceof Error ? error.message : error);
       
-      // Check if it's a known error we can handle
-      if (this.isRecoverableError(error)) {
-        logger.info('Error appears recoverable, will retry next cycle');
+      if (error instanceof TransactionError && error.recoverable) {
+        logger.info(`Settlement failure (${error.kind}) appears recoverable, will retry`);
       } else {
-        // Send alert for non-recoverable errors
-        await this.sendAlert(`Critical epoch settlement error for vault ${vaultAddress}`, error);
+        // Send alert for non-recoverable errors, e.g. OracleDeviation or an empty wallet
+        await this.sendAlert(`Critical epoch settlement error for vault ${vaultAddress}`, error, vaultAddress);
       }
     }
   }
@@ -154,42 +381,35 @@ export class EpochKeeper {
     }
   }
 
-  private isRecoverableError(error: any): boolean {
-    const recoverableErrors = [
-      'insufficient funds',
-      'gas price too low',
-      'nonce too low',
-      'replacement transaction underpriced',
-      'network congestion'
-    ];
-    
-    const errorMessage = error.message?.toLowerCase() || '';
-    return recoverableErrors.some(msg => errorMessage.includes(msg));
-  }
-
-  private async sendAlert(message: string, error: any): Promise<void> {
-    logger.error('ALERT:', message, { error: error.message });
-    
-    // In production, this would send to Slack, Discord, or other alerting system
-    // For now, just log as critical
-    try {
-      // Could integrate with external alerting service here
-      console.error('🚨 CRITICAL ALERT:', message);
-    } catch (alertError) {
-      logger.error('Failed to send alert:', alertError);
-    }
+  // Routed to the vault's alertWebhook, falling back to ALERT_WEBHOOK_URL
+  private async sendAlert(message: string, error: any, vaultAddress: string): Promise<void> {
+    const settings = this.vaults.getSettings(vaultAddress);
+    console.error('🚨 CRITICAL ALERT:', message);
+    await routeAlert(
+      message,
+      {
+        vault: vaultAddress,
+        vaultName: settings.name,
+        error: error?.message,
+        kind: error instanceof TransactionError ? error.kind : undefined,
+        revert: error instanceof TransactionError ? error.revert?.name : undefined
+      },
+      settings.alertWebhook
+    );
   }
 
   // Manual settlement method for emergency use
-  async forceSettlement(vaultAddress: string): Promise<string> {
+  async forceSettlement(vaultAddress: string): Promise<TransactionOutcome> {
     logger.warn(`Force settling epoch for vault ${vaultAddress}`);
     
-    const tx = await this.contractService.settleEpoch(vaultAddress, {
-      gasLimit: 800000, // Higher gas limit for force settlement
-    });
+    // Same settings as a scheduled settlement: estimated gas unless pinned, dry-run vaults only simulated
+    const { gasLimit, dryRun } = this.vaults.getSettings(vaultAddress);
+    const result = await this.contractService.settleEpoch(vaultAddress, { gasLimit, dryRun });
     
-    logger.info(`Force settlement transaction sent: ${tx.hash}`);
-    return tx.hash;
+    if (!result.dryRun) {
+      logger.info(`Force settlement confirmed: ${result.hash}`);
+    }
+    return result;
   }
 
   // Get status for monitoring
@@ -198,7 +418,18 @@ export class EpochKeeper {
       isRunning: this.isRunning,
       queueSize: this.queue.size,
       queuePending: this.queue.pending,
+      paused: this.queue.isPaused,
       walletAddress: this.wallet.address,
+      transactions: this.contractService.getTransactionManager().getStatus(),
+      schedules: Array.from(this.schedules.entries()).map(([vault, schedule]) => ({
+        vault,
+        name: this.vaults.getSettings(vault).name,
+        epochIndex: schedule.epochIndex,
+        endTime: schedule.endTime,
+        settleAt: schedule.settleAt,
+        retries: schedule.retries,
+        dryRun: this.contractService.getTransactionManager().isDryRun() || !!this.vaults.getSettings(vault).dryRun
+      })),
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,323 @@
+import cron from 'node-cron';
+import axios from 'axios';
+import { ContractService, PanelAnswer, PanelExplanation } from './ContractService';
+import { VaultRegistry } from './VaultRegistry';
+import { TransactionManager } from './TransactionManager';
+import { logger } from '../utils/logger';
+import { ethers } from 'ethers';
+import PQueue from 'p-queue';
+
+// Engine /queries/answer accepts at most this many per request
+const MAX_ANSWERS_PER_REQUEST = 20;
+// Questions older than this many ids are left alone on a cold start
+const QUERY_BACKFILL = 100;
+
+/**
+ * Keeps AIExplainabilityPanel in step with RiskParams: after ParamsExecuted
+ * it submits the engine's explanation for the executed decision, and it
+ * answers UserQuerySubmitted questions in batches through the engine's LLM
+ * layer. A periodic sweep picks up anything the event listeners missed.
+ */
+export class ExplainabilityKeeper {
+  private contractService: ContractService;
+  private cronJob: cron.ScheduledTask | null = null;
+  private queue: PQueue;
+  private isRunning = false;
+  private aiRiskEngineUrl: string;
+  private batchSize: number;
+  private batchDelayMs: number;
+  private batchTimer: NodeJS.Timeout | null = null;
+  // Unanswered query ids seen via events or the sweep
+  private pendingQueries = new Set<number>();
+  private lastScannedQueryId = 0;
+  private lastExplainedEpoch: number | null = null;
+  // Panel explanations are keyed by epoch alone, so the panel follows one vault
+  private panelVault: string | null;
+
+  constructor(vaults?: VaultRegistry, transactions?: TransactionManager) {
+    const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('DEPLOYER_PRIVATE_KEY not set');
+    }
+
+    const provider = new ethers.providers.JsonRpcProvider(
+      process.env.RISE_RPC_URL || 'https://testnet-rpc.risechain.io'
+    );
+
+    // Needs AI_ORACLE_ROLE on the panel
+    const wallet = new ethers.Wallet(privateKey, provider);
+    this.contractService = new ContractService(wallet, vaults, transactions);
+    this.queue = new PQueue({ concurrency: 1 });
+
+    this.aiRiskEngineUrl = process.env.AI_RISK_ENGINE_URL || 'http://localhost:4000';
+    this.batchSize = Number(process.env.EXPLAINABILITY_QUERY_BATCH_SIZE) || 10;
+    this.batchDelayMs = Number(process.env.EXPLAINABILITY_QUERY_BATCH_DELAY_MS) || 30000;
+
+    const panelVault = process.env.AI_EXPLAINABILITY_PANEL_VAULT;
+    if (panelVault && !ethers.utils.isAddress(panelVault)) {
+      throw new Error(`AI_EXPLAINABILITY_PANEL_VAULT is not an address: ${panelVault}`);
+    }
+    this.panelVault = panelVault ? ethers.utils.getAddress(panelVault) : null;
+
+    logger.info('ExplainabilityKeeper initialized');
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('ExplainabilityKeeper already running');
+      return;
+    }
+
+    if (!this.contractService.hasExplainabilityPanel()) {
+      logger.warn('AI_EXPLAINABILITY_PANEL_ADDRESS not set, ExplainabilityKeeper disabled');
+      return;
+    }
+
+    this.contractService.onParamsExecuted((txHash) => {
+      logger.info('ParamsExecuted seen, explaining executed config', { txHash });
+      this.queue.add(() => this.explainExecutedConfig());
+    });
+
+    this.contractService.onUserQuerySubmitted((queryId) => {
+      this.pendingQueries.add(queryId);
+      this.scheduleFlush();
+    });
+
+    // Sweep every 10 minutes for missed events
+    this.cronJob = cron.schedule('*/10 * * * *', async () => {
+      if (this.queue.isPaused) return;
+      await this.queue.add(() => this.sweepUnansweredQueries());
+    });
+
+    this.isRunning = true;
+    logger.info('ExplainabilityKeeper started - listening for ParamsExecuted and UserQuerySubmitted');
+
+    // Run initial sweep
+    await this.queue.add(() => this.sweepUnansweredQueries());
+  }
+
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.contractService.removeAllListeners();
+
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+    }
+
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+
+    if (this.queue.isPaused) {
+      this.queue.clear();
+      this.queue.start();
+    }
+    await this.queue.onIdle();
+    this.isRunning = false;
+    logger.info('ExplainabilityKeeper stopped');
+  }
+
+  // Events seen while paused stay queued and are handled on resume
+  pause(): void {
+    this.queue.pause();
+    logger.warn('ExplainabilityKeeper paused');
+  }
+
+  resume(): void {
+    this.queue.start();
+    logger.info('ExplainabilityKeeper resumed');
+  }
+
+  private async explainExecutedConfig(): Promise<void> {
+    try {
+      const queued = await this.contractService.getQueuedConfig();
+      if (!queued || !queued.executed) {
+        logger.warn('No executed config found on RiskParams, nothing to explain');
+        return;
+      }
+
+      const vaultAddress = await this.resolvePanelVault();
+      if (!vaultAddress) {
+        return;
+      }
+
+      const epoch = await this.contractService.getCurrentEpoch(vaultAddress);
+      const totalAssets = await this.contractService.getTotalAssets(vaultAddress);
+
+      const response = await axios.post<PanelExplanation>(
+        `${this.aiRiskEngineUrl}/api/risk/explanations`,
+        {
+          signature: queued.signature,
+          epoch: epoch.index,
+          portfolio: {
+            totalAssets: totalAssets.toString(),
+            seniorAssets: epoch.seniorAssets,
+            juniorAssets: epoch.juniorAssets
+          }
+        },
+        { timeout: 30000, headers: this.engineHeaders() }
+      );
+
+      const explanation = response.data;
+      const result = await this.contractService.explainEpochDecision(explanation);
+      if (result.dryRun) {
+        logger.info('Dry run: epoch explanation simulated, nothing sent', { epoch: explanation.epoch });
+        return;
+      }
+      this.lastExplainedEpoch = explanation.epoch;
+      logger.info('Epoch decision explained', {
+        epoch: explanation.epoch,
+        decisionId: explanation.decisionId,
+        reasons: explanation.reasons.length,
+        txHash: result.hash
+      });
+
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        // Configs queued outside the engine have no decision to explain
+        logger.warn('Executed config is not in the engine decision ledger, skipping explanation');
+      } else {
+        logger.error('Failed to explain executed config:', error);
+      }
+    }
+  }
+
+  // The configured panel vault, or the only served one; discovery order never picks it
+  private async resolvePanelVault(): Promise<string | null> {
+    if (this.panelVault) {
+      return this.panelVault;
+    }
+
+    const vaults = await this.contractService.getActiveVaults();
+    if (vaults.length === 1) {
+      return vaults[0];
+    }
+    if (vaults.length === 0) {
+      logger.warn('No vault configured, cannot attach explanation to an epoch');
+    } else {
+      logger.warn('Several vaults served and AI_EXPLAINABILITY_PANEL_VAULT not set, skipping explanation', { vaults });
+    }
+    return null;
+  }
+
+  private scheduleFlush(): void {
+    if (this.pendingQueries.size >= this.batchSize) {
+      if (this.batchTimer) {
+        clearTimeout(this.batchTimer);
+        this.batchTimer = null;
+      }
+      this.queue.add(() => this.answerPendingQueries());
+      return;
+    }
+
+    this.startBatchTimer();
+  }
+
+  // Wait a little for more questions so they share one transaction
+  private startBatchTimer(): void {
+    if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => {
+        this.batchTimer = null;
+        this.queue.add(() => this.answerPendingQueries());
+      }, this.batchDelayMs);
+    }
+  }
+
+  private async sweepUnansweredQueries(): Promise<void> {
+    const count = await this.contractService.getQueryCount();
+    if (count === null) {
+      return;
+    }
+
+    const first = Math.max(this.lastScannedQueryId + 1, count - QUERY_BACKFILL + 1, 1);
+    for (let queryId = first; queryId <= count; queryId++) {
+      const query = await this.contractService.getUserQuery(queryId);
+      if (!query) {
+        // Retry from here next sweep
+        break;
+      }
+      if (!query.answered) {
+        this.pendingQueries.add(queryId);
+      }
+      this.lastScannedQueryId = queryId;
+    }
+
+    await this.answerPendingQueries();
+  }
+
+  private async answerPendingQueries(): Promise<void> {
+    if (this.pendingQueries.size === 0) {
+      return;
+    }
+
+    try {
+      // Re-read each question: the event has no epoch and another keeper may have answered it
+      const queries = [];
+      for (const queryId of Array.from(this.pendingQueries).slice(0, this.batchSize)) {
+        const query = await this.contractService.getUserQuery(queryId);
+        if (!query || query.answered) {
+          this.pendingQueries.delete(queryId);
+          continue;
+        }
+        queries.push({ queryId, question: query.question, epoch: query.relevantEpoch });
+      }
+
+      if (queries.length === 0) {
+        return;
+      }
+
+      const answers: PanelAnswer[] = [];
+      for (let i = 0; i < queries.length; i += MAX_ANSWERS_PER_REQUEST) {
+        const response = await axios.post<{ answers: PanelAnswer[] }>(
+          `${this.aiRiskEngineUrl}/api/risk/queries/answer`,
+          { queries: queries.slice(i, i + MAX_ANSWERS_PER_REQUEST) },
+          { timeout: 120000, headers: this.engineHeaders() }
+        );
+        answers.push(...response.data.answers);
+      }
+
+      const result = await this.contractService.answerUserQueries(answers);
+      // Simulated answers are dropped too, or the batch would be re-simulated every delay
+      answers.forEach(a => this.pendingQueries.delete(a.queryId));
+      if (result.dryRun) {
+        logger.info('Dry run: query answers simulated, nothing sent', { queryIds: answers.map(a => a.queryId) });
+      } else {
+        logger.info('User queries answered', { queryIds: answers.map(a => a.queryId), txHash: result.hash });
+      }
+
+    } catch (error: any) {
+      // Pending ids stay queued for the next flush or sweep
+      logger.error('Failed to answer user queries:', error?.message || error);
+    }
+
+    // Leftovers (or a failed batch) go out after the batch delay rather than in a tight loop
+    if (this.pendingQueries.size > 0 && this.isRunning) {
+      this.startBatchTimer();
+    }
+  }
+
+  // Explanation and answer endpoints need the risk:explain scope, not the signing key
+  private engineHeaders(): Record<string, string> | undefined {
+    const key = process.env.AI_RISK_ENGINE_EXPLAIN_API_KEY || process.env.AI_RISK_ENGINE_API_KEY;
+    return key ? { 'X-API-Key': key } : undefined;
+  }
+
+  // Get explainability keeper status
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      queueSize: this.queue.size,
+      queuePending: this.queue.pending,
+      paused: this.queue.isPaused,
+      pendingQueries: this.pendingQueries.size,
+      lastScannedQueryId: this.lastScannedQueryId,
+      lastExplainedEpoch: this.lastExplainedEpoch,
+      panelVault: this.panelVault
+    };
+  }
+}
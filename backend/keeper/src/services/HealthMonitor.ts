@@ -1,6 +1,7 @@
 import cron from 'node-cron';
 import { ethers } from 'ethers';
 import { ContractService } from './ContractService';
+import { VaultRegistry } from './VaultRegistry';
 import { logger } from '../utils/logger';
 import axios from 'axios';
 
@@ -36,10 +37,11 @@ export class HealthMonitor {
   private contractService: ContractService;
   private cronJob: cron.ScheduledTask | null = null;
   private isRunning = false;
+  private paused = false;
   private metrics: HealthMetrics[] = [];
   private maxMetricsHistory = 288; // 24 hours of 5-minute intervals
   
-  constructor() {
+  constructor(vaults?: VaultRegistry) {
     this.provider = new ethers.providers.JsonRpcProvider(
       process.env.RISE_RPC_URL || 'https://testnet-rpc.risechain.io'
     );
@@ -50,7 +52,7 @@ export class HealthMonitor {
     }
     
     this.wallet = new ethers.Wallet(privateKey, this.provider);
-    this.contractService = new ContractService(this.wallet);
+    this.contractService = new ContractService(this.wallet, vaults);
     
     logger.info('HealthMonitor initialized');
   }
@@ -63,6 +65,7 @@ export class HealthMonitor {
 
     // Run health checks every 5 minutes
     this.cronJob = cron.schedule('*/5 * * * *', async () => {
+      if (this.paused) return;
       await this.performHealthCheck();
     });
 
@@ -87,6 +90,17 @@ export class HealthMonitor {
     logger.info('HealthMonitor stopped');
   }
 
+  // Skips scheduled checks (and their alerts) until resumed
+  pause(): void {
+    this.paused = true;
+    logger.warn('HealthMonitor paused');
+  }
+
+  resume(): void {
+    this.paused = false;
+    logger.info('HealthMonitor resumed');
+  }
+
   private async performHealthCheck(): Promise<void> {
     const timestamp = Date.now();
     logger.info('Starting health check...');
@@ -335,6 +349,7 @@ export class HealthMonitor {
   getStatus() {
     return {
       isRunning: this.isRunning,
+      paused: this.paused,
       metricsCount: this.metrics.length,
       lastCheck: this.metrics.length > 0 ? this.metrics[this.metrics.length - 1].timestamp : null,
       walletAddress: this.wallet.address,
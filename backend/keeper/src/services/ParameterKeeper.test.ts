@@ -0,0 +1,192 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { ParameterKeeper } from './ParameterKeeper';
+import { ContractService } from './ContractService';
+import { VaultRegistry } from './VaultRegistry';
+import { TransactionManager } from './TransactionManager';
+
+const STRATEGY = ethers.utils.getAddress('0x00000000000000000000000000000000000000a1');
+const ENV = { ...process.env };
+
+// Signed parameters as GET /api/risk/next returns them
+const signedParams = (nonce: number) => ({
+  epochLength: 7200,
+  seniorTargetBps: 50,
+  maxDrawdownBps: 1500,
+  slippageBps: 100,
+  strategies: [STRATEGY],
+  targetWeightsBps: [10000],
+  caps: [1_000_000],
+  confidence: 80,
+  signature: `0x${'ab'.repeat(65)}`,
+  nonce
+});
+
+const queuedConfig = (queuedAt: number, executed: boolean) => ({
+  config: { epochLength: 7200, seniorTargetBps: 50, maxDrawdownBps: 1500, slippageBps: 100, strategies: [], targetWeightsBps: [], caps: [] },
+  signature: '0x',
+  queuedAt,
+  executed
+});
+
+const confirmed = { dryRun: false, hash: '0x01', nonce: 0, replacements: 0, receipt: { gasUsed: ethers.BigNumber.from(1), blockNumber: 1 }, events: [] };
+
+// An AI engine answering from `routes`, keyed by path; every request is recorded
+async function engine(routes: Record<string, () => { status: number; body: unknown }>) {
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.url!);
+    const route = routes[req.url!];
+    const { status, body } = route ? route() : { status: 404, body: { error: 'not found' } };
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.AI_RISK_ENGINE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, requests };
+}
+
+function contracts({ canExecute = false, queued = queuedConfig(0, false) as ReturnType<typeof queuedConfig> | null, nonce = 3 } = {}) {
+  return {
+    canExecuteParams: jest.spyOn(ContractService.prototype, 'canExecuteParams').mockResolvedValue(canExecute),
+    getQueuedConfig: jest.spyOn(ContractService.prototype, 'getQueuedConfig').mockResolvedValue(queued),
+    getRiskParamsNonce: jest.spyOn(ContractService.prototype, 'getRiskParamsNonce').mockResolvedValue(nonce),
+    queueParams: jest.spyOn(ContractService.prototype, 'queueParams')
+      .mockResolvedValue(confirmed as unknown as Awaited<ReturnType<ContractService['queueParams']>>),
+    executeParams: jest.spyOn(ContractService.prototype, 'executeParams')
+      .mockResolvedValue(confirmed as unknown as Awaited<ReturnType<ContractService['executeParams']>>),
+    getCurrentRiskConfig: jest.spyOn(ContractService.prototype, 'getCurrentRiskConfig').mockResolvedValue(null)
+  };
+}
+
+describe('ParameterKeeper', () => {
+  let keeper: ParameterKeeper | null = null;
+  let server: http.Server | null = null;
+
+  beforeEach(() => {
+    process.env = {
+      ...ENV,
+      RISE_RPC_URL: 'http://127.0.0.1:8545',
+      DEPLOYER_PRIVATE_KEY: ethers.utils.id('parameter keeper test key'),
+      RISK_PARAMS_ADDRESS: ethers.utils.getAddress('0x00000000000000000000000000000000000000b1')
+    };
+    jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'detectNetwork')
+      .mockResolvedValue({ chainId: 1337, name: 'test' });
+  });
+
+  afterEach(async () => {
+    await keeper?.stop();
+    keeper = null;
+    if (server) await new Promise(resolve => server!.close(resolve));
+    server = null;
+    jest.restoreAllMocks();
+    process.env = { ...ENV };
+  });
+
+  const create = () => {
+    const provider = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:8545', { chainId: 1337, name: 'test' });
+    const wallet = new ethers.Wallet(process.env.DEPLOYER_PRIVATE_KEY!, provider);
+    return new ParameterKeeper(new VaultRegistry(provider, 'vaults.test-missing.json'), new TransactionManager(wallet));
+  };
+
+  it('queues the signed parameters from the engine with their signature', async () => {
+    const ai = await engine({ '/api/risk/next': () => ({ status: 200, body: signedParams(3) }) });
+    server = ai.server;
+    const chain = contracts();
+    keeper = create();
+
+    await keeper.start();
+
+    const { confidence: _confidence, signature, nonce: _nonce, ...config } = signedParams(3);
+    expect(chain.queueParams).toHaveBeenCalledWith(config, signature);
+    expect(ai.requests).toEqual(['/api/risk/next']);
+  });
+
+  it('does not queue parameters signed for a stale nonce', async () => {
+    server = (await engine({ '/api/risk/next': () => ({ status: 200, body: signedParams(2) }) })).server;
+    const chain = contracts({ nonce: 3 });
+    keeper = create();
+
+    await keeper.start();
+
+    expect(chain.queueParams).not.toHaveBeenCalled();
+  });
+
+  it('leaves a pending queued config alone and does not ask the engine', async () => {
+    const ai = await engine({ '/api/risk/next': () => ({ status: 200, body: signedParams(3) }) });
+    server = ai.server;
+    const chain = contracts({ queued: queuedConfig(1_700_000_000, false) });
+    keeper = create();
+
+    await keeper.start();
+
+    expect(ai.requests).toHaveLength(0);
+    expect(chain.queueParams).not.toHaveBeenCalled();
+  });
+
+  it('does not queue when RiskParams cannot be read', async () => {
+    const ai = await engine({ '/api/risk/next': () => ({ status: 200, body: signedParams(3) }) });
+    server = ai.server;
+    const chain = contracts({ queued: null });
+    keeper = create();
+
+    await keeper.start();
+
+    expect(ai.requests).toHaveLength(0);
+    expect(chain.queueParams).not.toHaveBeenCalled();
+  });
+
+  it('rejects parameters outside the keeper bounds', async () => {
+    server = (await engine({
+      '/api/risk/next': () => ({ status: 200, body: { ...signedParams(3), targetWeightsBps: [9000] } })
+    })).server;
+    const chain = contracts();
+    keeper = create();
+
+    await keeper.start();
+
+    expect(chain.queueParams).not.toHaveBeenCalled();
+  });
+
+  it('waits for co-signer approval, then queues the approved signature', async () => {
+    let approved = false;
+    const ai = await engine({
+      '/api/risk/next': () => ({ status: 202, body: { decisionId: 'd-1', required: 2, approvalDigest: '0x' } }),
+      '/api/risk/approvals/d-1': () => ({
+        status: 200,
+        body: approved
+          ? { ...signedParams(3), approvals: [{}, {}] }
+          : { approvals: [{}], required: 2, expiresAt: Date.now() + 60_000 }
+      })
+    });
+    server = ai.server;
+    const chain = contracts();
+    keeper = create();
+
+    await keeper.start();
+    expect(keeper.getStatus().pendingApprovalId).toBe('d-1');
+
+    // Each start() runs one check
+    await keeper.stop();
+    await keeper.start();
+    approved = true;
+    await keeper.stop();
+    await keeper.start();
+
+    expect(ai.requests).toEqual(['/api/risk/next', '/api/risk/approvals/d-1', '/api/risk/approvals/d-1']);
+    expect(chain.queueParams).toHaveBeenCalledTimes(1);
+    expect(keeper.getStatus().pendingApprovalId).toBeNull();
+  });
+
+  it('executes a config past its timelock and then queues the next one', async () => {
+    server = (await engine({ '/api/risk/next': () => ({ status: 200, body: signedParams(4) }) })).server;
+    const chain = contracts({ canExecute: true, nonce: 4 });
+    keeper = create();
+
+    await keeper.start();
+
+    expect(chain.executeParams).toHaveBeenCalledTimes(1);
+    expect(chain.queueParams).toHaveBeenCalledTimes(1);
+    expect(chain.executeParams.mock.invocationCallOrder[0]).toBeLessThan(chain.queueParams.mock.invocationCallOrder[0]);
+  });
+});
@@ -1,6 +1,8 @@
 import cron from 'node-cron';
 import axios from 'axios';
 import { ContractService } from './ContractService';
+import { VaultRegistry } from './VaultRegistry';
+import { formatEvent, TransactionError, TransactionManager, TransactionOutcome } from './TransactionManager';
 import { logger } from '../utils/logger';
 import { ethers } from 'ethers';
 import PQueue from 'p-queue';
@@ -11,8 +13,10 @@ export class ParameterKeeper {
   private queue: PQueue;
   private isRunning = false;
   private aiRiskEngineUrl: string;
+  // Engine decision held for co-signer approval, polled instead of requesting a new one
+  private pendingApprovalId: string | null = null;
 
-  constructor() {
+  constructor(vaults?: VaultRegistry, transactions?: TransactionManager) {
     const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
     if (!privateKey) {
       throw new Error('DEPLOYER_PRIVATE_KEY not set');
@@ -23,7 +27,7 @@ export class ParameterKeeper {
     );
     
     const wallet = new ethers.Wallet(privateKey, provider);
-    this.contractService = new ContractService(wallet);
+    this.contractService = new ContractService(wallet, vaults, transactions);
     this.queue = new PQueue({ concurrency: 1 });
     
     this.aiRiskEngineUrl = process.env.AI_RISK_ENGINE_URL || 'http://localhost:4000';
@@ -39,6 +43,7 @@ export class ParameterKeeper {
 
     // Check every 10 minutes for parameter updates
     this.cronJob = cron.schedule('*/10 * * * *', async () => {
+      if (this.queue.isPaused) return;
       await this.queue.add(() => this.checkAndExecuteParams());
     });
 
@@ -59,11 +64,26 @@ export class ParameterKeeper {
       this.cronJob = null;
     }
 
+    if (this.queue.isPaused) {
+      this.queue.clear();
+      this.queue.start();
+    }
     await this.queue.onIdle();
     this.isRunning = false;
     logger.info('ParameterKeeper stopped');
   }
 
+  // Skips the scheduled checks until resumed; forceExecution still works
+  pause(): void {
+    this.queue.pause();
+    logger.warn('ParameterKeeper paused');
+  }
+
+  resume(): void {
+    this.queue.start();
+    logger.info('ParameterKeeper resumed');
+  }
+
   private async checkAndExecuteParams(): Promise<void> {
     try {
       logger.info('Checking for parameter updates...');
@@ -72,44 +92,48 @@ export class ParameterKeeper {
       
       if (!canExecute) {
         logger.debug('No parameter updates ready for execution');
+        
+        // Nothing to execute yet; make sure the next config is at least queued
+        await this.queueNextParameters();
         return;
       }
 
       logger.info('Executing parameter updates');
       
       try {
-        const tx = await this.contractService.executeParams({
-          gasLimit: 300000, // Conservative gas limit
+        const result = await this.contractService.executeParams();
+        
+        if (result.dryRun) {
+          await this.logDryRunExecution(result.events);
+          return;
+        }
+        
+        logger.info('Parameters executed successfully', {
+          txHash: result.hash,
+          gasUsed: result.receipt.gasUsed.toString(),
+          blockNumber: result.receipt.blockNumber,
+          replacements: result.replacements
         });
         
-        logger.info(`Parameter execution transaction sent: ${tx.hash}`);
+        // Log new configuration
+        await this.logNewConfiguration();
         
-        const receipt = await tx.wait();
+        // Optionally queue new parameters from AI
+        await this.queueNextParameters();
         
-        if (receipt.status === 1) {
-          logger.info('Parameters executed successfully', {
-            txHash: tx.hash,
-            gasUsed: receipt.gasUsed.toString(),
-            blockNumber: receipt.blockNumber
-          });
-          
-          // Log new configuration
-          await this.logNewConfiguration();
-          
-          // Optionally queue new parameters from AI
-          await this.queueNextParameters();
-          
-        } else {
-          logger.error('Parameter execution failed', { txHash: tx.hash });
+      } catch (error) {
+        // canExecute raced the timelock, or another keeper executed first
+        if (error instanceof TransactionError && error.isRevert('TimelockNotPassed', 'AlreadyExecuted')) {
+          logger.warn(`Parameter execution skipped: ${error.revert!.name}`);
+          return;
         }
         
-      } catch (error) {
-        logger.error('Failed to execute parameters:', error);
+        logger.error('Failed to execute parameters:', error instanceof Error ? error.message : error);
         
-        if (this.isRecoverableError(error)) {
-          logger.info('Error appears recoverable, will retry next cycle');
+        if (error instanceof TransactionError && error.recoverable) {
+          logger.info(`Execution failure (${error.kind}) appears recoverable, will retry next cycle`);
         } else {
-          await this.sendAlert('Critical parameter execution error', error);
+          await this.sendAlert('Critical parameter execution error', this.describeError(error));
         }
       }
       
@@ -118,6 +142,21 @@ export class ParameterKeeper {
     }
   }
 
+  // Without a trace the outcome is still known: executeParams emits the queued config
+  private async logDryRunExecution(events: ethers.utils.LogDescription[] | null): Promise<void> {
+    if (events) {
+      logger.info('Dry run: parameter execution simulated, nothing sent', {
+        outcome: events.map(formatEvent)
+      });
+      return;
+    }
+    
+    const queued = await this.contractService.getQueuedConfig();
+    logger.info('Dry run: parameter execution simulated, nothing sent', {
+      outcome: queued ? { name: 'ParamsExecuted', args: { config: queued.config } } : 'unknown'
+    });
+  }
+
   private async logNewConfiguration(): Promise<void> {
     try {
       const config = await this.contractService.getCurrentRiskConfig();
@@ -136,38 +175,153 @@ export class ParameterKeeper {
 
   private async queueNextParameters(): Promise<void> {
     try {
-      logger.info('Requesting next risk parameters from AI engine...');
+      if (await this.hasPendingConfig()) {
+        logger.info('Queued parameters still pending execution, skipping queueing');
+        return;
+      }
       
-      const response = await axios.get(`${this.aiRiskEngineUrl}/api/risk/next`, {
-        timeout: 30000, // 30 second timeout
+      const params = await this.fetchSignedParameters();
+      if (!params) {
+        return;
+      }
+      
+      logger.info('Received new risk parameters from AI', {
+        epochLength: params.epochLength,
+        seniorTargetBps: params.seniorTargetBps,
+        confidence: params.confidence,
+        nonce: params.nonce
       });
       
-      if (response.data) {
-        logger.info('Received new risk parameters from AI', {
-          epochLength: response.data.epochLength,
-          seniorTargetBps: response.data.seniorTargetBps,
-          confidence: response.data.confidence
+      if (!(await this.validateParameters(params))) {
+        return;
+      }
+      
+      // A signature over a stale nonce would revert with InvalidSignature
+      const onChainNonce = await this.contractService.getRiskParamsNonce();
+      if (params.nonce !== undefined && onChainNonce !== null && params.nonce !== onChainNonce) {
+        logger.warn('AI parameters signed for a stale nonce, skipping queueing', {
+          signedNonce: params.nonce,
+          onChainNonce
         });
-        
-        // The AI engine should handle the queueing via the RiskParams contract
-        // This keeper just executes already-queued parameters
-        
-        // Optionally, we could validate the parameters here before they're queued
-        await this.validateParameters(response.data);
-        
-      } else {
-        logger.warn('No parameter data received from AI engine');
+        return;
+      }
+      
+      const result = await this.contractService.queueParams(
+        {
+          epochLength: params.epochLength,
+          seniorTargetBps: params.seniorTargetBps,
+          maxDrawdownBps: params.maxDrawdownBps,
+          slippageBps: params.slippageBps,
+          strategies: params.strategies,
+          targetWeightsBps: params.targetWeightsBps,
+          caps: params.caps
+        },
+        params.signature
+      );
+      
+      if (result.dryRun) {
+        logger.info('Dry run: parameter queueing simulated, nothing sent', { nonce: params.nonce });
+        return;
       }
       
+      logger.info('Parameters queued successfully', {
+        txHash: result.hash,
+        gasUsed: result.receipt.gasUsed.toString(),
+        blockNumber: result.receipt.blockNumber,
+        replacements: result.replacements
+      });
+      
     } catch (error: any) {
-      logger.error('Failed to queue next parameters:', error);
+      logger.error('Failed to queue next parameters:', error?.message || error);
       
       if (error?.code === 'ECONNREFUSED') {
         logger.error('AI Risk Engine appears to be down');
+      } else if (error instanceof TransactionError && error.isRevert('AlreadyExecuted')) {
+        // Queued for an epoch that another keeper already executed
+        logger.warn('Parameter queueing skipped: AlreadyExecuted');
+      } else if (!(error instanceof TransactionError && error.recoverable)) {
+        // InvalidSignature here usually means the engine signer and RiskParams.aiSigner disagree
+        await this.sendAlert('Critical parameter queueing error', this.describeError(error));
       }
     }
   }
 
+  // Signed parameters from the engine, or null while co-signers have not approved them yet
+  private async fetchSignedParameters(): Promise<any | null> {
+    // Signing endpoints require a key with the risk:sign scope
+    const headers = process.env.AI_RISK_ENGINE_API_KEY
+      ? { 'X-API-Key': process.env.AI_RISK_ENGINE_API_KEY }
+      : undefined;
+    
+    if (this.pendingApprovalId) {
+      const decisionId = this.pendingApprovalId;
+      try {
+        const { data } = await axios.get(`${this.aiRiskEngineUrl}/api/risk/approvals/${decisionId}`, {
+          timeout: 30000,
+          headers,
+        });
+        
+        if (data.signature) {
+          this.pendingApprovalId = null;
+          logger.info('Co-signers approved AI parameters', { decisionId, approvals: data.approvals.length });
+          return data;
+        }
+        
+        if (Date.now() < data.expiresAt) {
+          logger.info('AI parameters still waiting for co-signer approval', {
+            decisionId,
+            approvals: data.approvals.length,
+            required: data.required
+          });
+          return null;
+        }
+        
+        logger.warn('Co-signer approval window closed, requesting new parameters', { decisionId });
+      } catch (error: any) {
+        if (error?.response?.status !== 404) {
+          throw error;
+        }
+        logger.warn('Decision awaiting approval is unknown to the AI engine, requesting new parameters', { decisionId });
+      }
+      this.pendingApprovalId = null;
+    }
+    
+    logger.info('Requesting next risk parameters from AI engine...');
+    
+    const response = await axios.get(`${this.aiRiskEngineUrl}/api/risk/next`, {
+      timeout: 30000, // 30 second timeout
+      headers,
+    });
+    
+    if (response.status === 202) {
+      // Co-signers approve response.data.approvalDigest through POST /api/risk/approvals/:id
+      this.pendingApprovalId = response.data.decisionId;
+      logger.info('AI parameters held for co-signer approval', {
+        decisionId: response.data.decisionId,
+        required: response.data.required,
+        approvalDigest: response.data.approvalDigest
+      });
+      return null;
+    }
+    
+    if (!response.data) {
+      logger.warn('No parameter data received from AI engine');
+      return null;
+    }
+    
+    return response.data;
+  }
+
+  private async hasPendingConfig(): Promise<boolean> {
+    const queued = await this.contractService.getQueuedConfig();
+    if (!queued) {
+      // Unknown state; don't risk overwriting a pending config
+      return true;
+    }
+    
+    return queued.queuedAt > 0 && !queued.executed;
+  }
+
   private async validateParameters(params: any): Promise<boolean> {
     try {
       // Basic validation of AI-generated parameters
@@ -179,6 +333,10 @@ export class ParameterKeeper {
         Array.isArray(params.strategies) && params.strategies.length > 0,
         Array.isArray(params.targetWeightsBps) && 
           params.targetWeightsBps.reduce((sum: number, w: number) => sum + w, 0) === 10000,
+        Array.isArray(params.caps) &&
+          params.targetWeightsBps.length === params.strategies.length &&
+          params.caps.length === params.strategies.length,
+        typeof params.signature === 'string' && ethers.utils.isHexString(params.signature),
         params.confidence >= 0 && params.confidence <= 100
       ];
       
@@ -207,16 +365,11 @@ export class ParameterKeeper {
     }
   }
 
-  private isRecoverableError(error: any): boolean {
-    const recoverableErrors = [
-      'insufficient funds',
-      'gas price too low',
-      'nonce too low',
-      'replacement transaction underpriced'
-    ];
-    
-    const errorMessage = error.message?.toLowerCase() || '';
-    return recoverableErrors.some(msg => errorMessage.includes(msg));
+  private describeError(error: any) {
+    if (error instanceof TransactionError) {
+      return { message: error.message, kind: error.kind, revert: error.revert, txHash: error.hash };
+    }
+    return error?.message || error;
   }
 
   private async sendAlert(message: string, data: any): Promise<void> {
@@ -231,15 +384,18 @@ export class ParameterKeeper {
   }
 
   // Manual parameter execution for emergency use
-  async forceExecution(): Promise<string> {
+  async forceExecution(): Promise<TransactionOutcome> {
     logger.warn('Force executing parameters');
     
-    const tx = await this.contractService.executeParams({
-      gasLimit: 500000, // Higher gas limit for force execution
-    });
+    // Gas is estimated like the scheduled path
+    const result = await this.contractService.executeParams();
     
-    logger.info(`Force execution transaction sent: ${tx.hash}`);
-    return tx.hash;
+    if (result.dryRun) {
+      await this.logDryRunExecution(result.events);
+    } else {
+      logger.info(`Force execution confirmed: ${result.hash}`);
+    }
+    return result;
   }
 
   // Get parameter keeper status
@@ -248,7 +404,9 @@ export class ParameterKeeper {
       isRunning: this.isRunning,
       queueSize: this.queue.size,
       queuePending: this.queue.pending,
+      paused: this.queue.isPaused,
       aiEngineUrl: this.aiRiskEngineUrl,
+      pendingApprovalId: this.pendingApprovalId,
     };
   }
 
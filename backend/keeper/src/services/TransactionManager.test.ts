@@ -0,0 +1,315 @@
+import { ethers } from 'ethers';
+import { formatEvent, TransactionError, TransactionManager } from './TransactionManager';
+
+const VAULT = ethers.utils.getAddress('0x0000000000000000000000000000000000000abc');
+const KEEPER = ethers.utils.getAddress('0x0000000000000000000000000000000000000def');
+const GWEI = ethers.utils.parseUnits('1', 'gwei');
+
+const vault = new ethers.Contract(VAULT, [
+  'function settleEpoch()',
+  'event EpochSettled(uint256 indexed epochIndex, int256 totalReturn, uint256 seniorPaid, uint256 juniorPnL)'
+]);
+const errors = new ethers.utils.Interface([
+  'error EpochNotEnded()',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)'
+]);
+
+const receipt = (hash: string, blockHash: string, confirmations: number, status = 1) => ({
+  transactionHash: hash,
+  blockHash,
+  blockNumber: 100,
+  confirmations,
+  status,
+  gasUsed: ethers.BigNumber.from(21000),
+  logs: []
+});
+
+// A provider and wallet that answer from the test: receipts come from `receipts`, keyed by hash
+function chain() {
+  const receipts = new Map<string, Array<ReturnType<typeof receipt> | null>>();
+  const sent: Array<ethers.providers.TransactionRequest & { hash: string }> = [];
+
+  const provider = {
+    estimateGas: jest.fn(async () => ethers.BigNumber.from(100000)),
+    getFeeData: jest.fn(async () => ({ maxFeePerGas: GWEI.mul(100), maxPriorityFeePerGas: GWEI.mul(2), gasPrice: null })),
+    // The last queued answer repeats once the others are used up
+    getTransactionReceipt: jest.fn(async (hash: string) => {
+      const answers = receipts.get(hash) || [null];
+      return answers.length > 1 ? answers.shift()! : answers[0];
+    }),
+    call: jest.fn(async () => '0x'),
+    getBlockNumber: jest.fn(async () => 250)
+  };
+  const wallet = {
+    address: KEEPER,
+    provider,
+    getTransactionCount: jest.fn(async () => 7),
+    sendTransaction: jest.fn(async (tx: ethers.providers.TransactionRequest) => {
+      const hash = ethers.utils.id(`tx-${sent.length}`);
+      sent.push({ ...tx, hash });
+      return { hash };
+    })
+  };
+
+  return { provider, wallet, receipts, sent };
+}
+
+function manager(
+  wallet: unknown,
+  {
+    confirmations = 1,
+    stuckTimeoutMs = 50,
+    confirmTimeoutMs = 5000,
+    maxFee = null as ethers.BigNumber | null,
+    dryRun = false,
+    simulateFrom = undefined as string | undefined
+  } = {}
+) {
+  return new TransactionManager(
+    wallet as ethers.Wallet,
+    confirmations,
+    stuckTimeoutMs,
+    3,
+    confirmTimeoutMs,
+    20,
+    maxFee,
+    null,
+    dryRun,
+    simulateFrom,
+    1
+  );
+}
+
+const settle = { label: 'settleEpoch test', contract: vault, method: 'settleEpoch' };
+
+describe('TransactionManager', () => {
+  it('assigns consecutive nonces to concurrent sends and reads the account nonce once', async () => {
+    const { wallet, receipts, sent } = chain();
+    wallet.sendTransaction.mockImplementation(async (tx: ethers.providers.TransactionRequest) => {
+      const hash = ethers.utils.id(`tx-${sent.length}`);
+      sent.push({ ...tx, hash });
+      receipts.set(hash, [receipt(hash, '0xa', 1)]);
+      // A slow broadcast must still hold the next caller back
+      await new Promise(resolve => setTimeout(resolve, sent.length === 1 ? 20 : 0));
+      return { hash };
+    });
+    const transactions = manager(wallet);
+
+    const results = await Promise.all([transactions.send(settle), transactions.send(settle), transactions.send(settle)]);
+
+    expect(sent.map(tx => tx.nonce)).toEqual([7, 8, 9]);
+    expect(results.map(r => !r.dryRun && r.nonce)).toEqual([7, 8, 9]);
+    expect(wallet.getTransactionCount).toHaveBeenCalledTimes(1);
+    expect(transactions.getStatus()).toMatchObject({ nextNonce: 10, sent: 3, confirmed: 3, inFlight: [] });
+  });
+
+  it('resyncs the nonce from the node once when another sender used it', async () => {
+    const { wallet, receipts, sent } = chain();
+    wallet.getTransactionCount.mockResolvedValueOnce(7).mockResolvedValueOnce(8);
+    wallet.sendTransaction.mockImplementationOnce(async () => {
+      throw Object.assign(new Error('nonce too low'), { code: ethers.errors.NONCE_EXPIRED });
+    });
+    receipts.set(ethers.utils.id('tx-0'), [receipt(ethers.utils.id('tx-0'), '0xa', 1)]);
+
+    const result = await manager(wallet).send(settle);
+
+    expect(sent.map(tx => tx.nonce)).toEqual([8]);
+    expect(!result.dryRun && result.nonce).toBe(8);
+  });
+
+  it('replaces a stuck transaction at the same nonce with bumped fees', async () => {
+    const { wallet, receipts, sent } = chain();
+    receipts.set(ethers.utils.id('tx-1'), [receipt(ethers.utils.id('tx-1'), '0xa', 1)]);
+
+    const result = await manager(wallet).send(settle);
+
+    expect(sent).toHaveLength(2);
+    expect(sent[1].nonce).toBe(sent[0].nonce);
+    expect(sent[0]).toMatchObject({ type: 2, maxFeePerGas: GWEI.mul(100), maxPriorityFeePerGas: GWEI.mul(2) });
+    expect(sent[1]).toMatchObject({ type: 2, maxFeePerGas: GWEI.mul(120), maxPriorityFeePerGas: GWEI.mul(12).div(5) });
+    expect(result).toMatchObject({ dryRun: false, hash: sent[1].hash, replacements: 1 });
+  });
+
+  it('gives up as stuck after the last replacement', async () => {
+    const { wallet, sent } = chain();
+    const transactions = manager(wallet, { stuckTimeoutMs: 5 });
+
+    const failure: TransactionError = await transactions.send(settle).catch(error => error);
+
+    expect(failure).toBeInstanceOf(TransactionError);
+    expect(failure.kind).toBe('stuck');
+    expect(failure.recoverable).toBe(true);
+    expect(sent).toHaveLength(4);
+    expect(transactions.getStatus().nextNonce).toBeNull();
+  });
+
+  it('waits for the configured depth and for re-inclusion after a reorg', async () => {
+    const { wallet, provider, receipts } = chain();
+    const hash = ethers.utils.id('tx-0');
+    // Mined in 0xa, reorged out, then mined again in 0xb and buried
+    receipts.set(hash, [receipt(hash, '0xa', 1), null, receipt(hash, '0xb', 1), receipt(hash, '0xb', 3)]);
+
+    const result = await manager(wallet, { confirmations: 3 }).send(settle);
+
+    expect(!result.dryRun && result.receipt.blockHash).toBe('0xb');
+    expect(!result.dryRun && result.replacements).toBe(0);
+    expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not spend the replacement budget on reorgs', async () => {
+    const { wallet, receipts, sent } = chain();
+    const hash = ethers.utils.id('tx-0');
+    // Reorged out four times, then left unmined until a replacement lands
+    receipts.set(hash, [
+      ...Array.from({ length: 4 }, () => [receipt(hash, '0xa', 1), null]).flat(),
+      null
+    ]);
+    receipts.set(ethers.utils.id('tx-1'), [receipt(ethers.utils.id('tx-1'), '0xb', 2)]);
+
+    const result = await manager(wallet, { confirmations: 2 }).send(settle);
+
+    expect(sent).toHaveLength(2);
+    expect(result).toMatchObject({ dryRun: false, hash: sent[1].hash, replacements: 1 });
+  });
+
+  it('releases the nonce as stuck when fees sit at the cap past the confirmation timeout', async () => {
+    const { wallet, sent } = chain();
+    const transactions = manager(wallet, { stuckTimeoutMs: 10, confirmTimeoutMs: 100, maxFee: GWEI.mul(100) });
+
+    const failure: TransactionError = await transactions.send(settle).catch(error => error);
+
+    expect(failure.kind).toBe('stuck');
+    expect(failure.message).toContain('not confirmed within 100 ms');
+    // The capped fee leaves nothing to replace with
+    expect(sent).toHaveLength(1);
+    expect(transactions.getStatus()).toMatchObject({ nextNonce: null, inFlight: [] });
+  });
+
+  it('gives up as stuck when the receipt never gets deep enough', async () => {
+    const { wallet, receipts } = chain();
+    const hash = ethers.utils.id('tx-0');
+    receipts.set(hash, [receipt(hash, '0xa', 1)]);
+    const transactions = manager(wallet, { confirmations: 3, confirmTimeoutMs: 50 });
+
+    const failure: TransactionError = await transactions.send(settle).catch(error => error);
+
+    expect(failure.kind).toBe('stuck');
+    expect(failure.hash).toBe(hash);
+    expect(failure.message).toContain('not 3 blocks deep');
+    expect(transactions.getStatus().nextNonce).toBeNull();
+  });
+
+  it('decodes a custom error raised during gas estimation', async () => {
+    const { wallet, provider, sent } = chain();
+    provider.estimateGas.mockRejectedValueOnce(Object.assign(new Error('execution reverted'), {
+      code: ethers.errors.UNPREDICTABLE_GAS_LIMIT,
+      error: { data: errors.encodeErrorResult('EpochNotEnded', []) }
+    }));
+
+    const failure: TransactionError = await manager(wallet).send(settle).catch(error => error);
+
+    expect(failure.kind).toBe('reverted');
+    expect(failure.revert).toMatchObject({ name: 'EpochNotEnded', args: [] });
+    expect(failure.isRevert('EpochAlreadySettled', 'EpochNotEnded')).toBe(true);
+    expect(failure.recoverable).toBe(false);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('replays an on-chain revert to decode its custom error', async () => {
+    const { wallet, provider, receipts } = chain();
+    const hash = ethers.utils.id('tx-0');
+    const role = ethers.utils.id('KEEPER_ROLE');
+    receipts.set(hash, [receipt(hash, '0xa', 1, 0)]);
+    provider.call.mockResolvedValueOnce(errors.encodeErrorResult('AccessControlUnauthorizedAccount', [KEEPER, role]));
+
+    const failure: TransactionError = await manager(wallet).send(settle).catch(error => error);
+
+    expect(failure.kind).toBe('reverted');
+    expect(failure.hash).toBe(hash);
+    expect(failure.revert).toMatchObject({ name: 'AccessControlUnauthorizedAccount', args: [KEEPER, role] });
+    expect(failure.isRevert('AccessControlUnauthorizedAccount')).toBe(true);
+    expect(provider.call).toHaveBeenCalledWith(expect.objectContaining({ to: VAULT }), 100);
+  });
+});
+
+describe('TransactionManager dry run', () => {
+  const SHADOW = ethers.utils.getAddress('0x0000000000000000000000000000000000000fed');
+  const settled = vault.interface.encodeEventLog(vault.interface.getEvent('EpochSettled'), [3, -25, 1000, 1025]);
+
+  // A JSON-RPC provider answering from the test, so debug_traceCall is attempted
+  function tracingChain(trace: unknown) {
+    const provider = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:8545', { chainId: 1337, name: 'test' });
+    const send = jest.spyOn(provider, 'send').mockImplementation(async method => {
+      if (method === 'debug_traceCall') return trace;
+      throw new Error(`unexpected ${method}`);
+    });
+    jest.spyOn(provider, 'getBlockNumber').mockResolvedValue(250);
+    const call = jest.spyOn(provider, 'call').mockResolvedValue('0x');
+    jest.spyOn(provider, 'estimateGas').mockResolvedValue(ethers.BigNumber.from(84000));
+    const wallet = new ethers.Wallet(ethers.utils.id('dry run test key'), provider);
+    const sendTransaction = jest.spyOn(wallet, 'sendTransaction');
+    return { wallet, send, call, sendTransaction };
+  }
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('simulates from the shadow account and decodes the events the call would emit, without signing', async () => {
+    const { wallet, send, call, sendTransaction } = tracingChain({
+      logs: [{ address: VAULT.toLowerCase(), ...settled }],
+      calls: [
+        // Another contract's logs and a reverted frame's logs are not the vault's outcome
+        { logs: [{ address: KEEPER, ...settled }] },
+        { error: 'execution reverted', logs: [{ address: VAULT, ...settled }] }
+      ]
+    });
+    const transactions = manager(wallet, { dryRun: true, simulateFrom: SHADOW });
+
+    const result = await transactions.send(settle);
+
+    expect(sendTransaction).not.toHaveBeenCalled();
+    expect(call).toHaveBeenCalledWith(expect.objectContaining({ from: SHADOW, to: VAULT }), 250);
+    expect(send).toHaveBeenCalledWith('debug_traceCall', [
+      expect.objectContaining({ from: SHADOW.toLowerCase() }),
+      '0xfa',
+      { tracer: 'callTracer', tracerConfig: { withLog: true } }
+    ]);
+    expect(result.dryRun).toBe(true);
+    expect(result.dryRun && result.gasEstimate.toNumber()).toBe(84000);
+    expect(result.dryRun && result.events!.map(formatEvent)).toEqual([
+      { name: 'EpochSettled', args: { epochIndex: '3', totalReturn: '-25', seniorPaid: '1000', juniorPnL: '1025' } }
+    ]);
+    expect(transactions.getStatus()).toMatchObject({ simulated: 1, sent: 0, nextNonce: null });
+  });
+
+  it('reports no events where the node does not expose debug_traceCall', async () => {
+    const { wallet, send, sendTransaction } = tracingChain(null);
+    send.mockRejectedValue(new Error('the method debug_traceCall does not exist'));
+
+    const result = await manager(wallet, { dryRun: true }).send(settle);
+
+    expect(sendTransaction).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ dryRun: true, from: wallet.address, events: null });
+  });
+
+  it('simulates a request marked dry run on a manager that otherwise sends', async () => {
+    const { wallet, sent } = chain();
+
+    const result = await manager(wallet).send({ ...settle, dryRun: true });
+
+    expect(sent).toHaveLength(0);
+    expect(wallet.getTransactionCount).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ dryRun: true, blockNumber: 250, events: null });
+  });
+
+  it('throws the decoded revert the call would hit', async () => {
+    const { wallet, provider, sent } = chain();
+    provider.call.mockResolvedValueOnce(errors.encodeErrorResult('EpochNotEnded', []));
+
+    const failure: TransactionError = await manager(wallet, { dryRun: true }).send(settle).catch(error => error);
+
+    expect(failure.kind).toBe('reverted');
+    expect(failure.revert).toMatchObject({ name: 'EpochNotEnded' });
+    expect(provider.estimateGas).not.toHaveBeenCalled();
+    expect(sent).toHaveLength(0);
+  });
+});
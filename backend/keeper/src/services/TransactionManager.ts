@@ -0,0 +1,700 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+// Custom errors of the contracts the keepers write to
+const CONTRACT_ERRORS = new ethers.utils.Interface([
+  // RiskParams
+  'error InvalidSignature()',
+  'error TimelockNotPassed()',
+  'error AlreadyExecuted()',
+  'error InvalidConfig()',
+  'error ArrayLengthMismatch()',
+  'error WeightsNotValid()',
+  // TrancheVault
+  'error EpochNotEnded()',
+  'error EpochAlreadySettled()',
+  'error InvalidTranche()',
+  'error DepositsDisabled()',
+  'error WithdrawalsDisabled()',
+  'error OracleDeviation()',
+  'error InsufficientLiquidity()',
+  'error SameBlockRestriction()',
+  // OpenZeppelin AccessControl and ReentrancyGuard
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+  'error ReentrancyGuardReentrantCall()'
+]);
+// require(..., "reason") and assert/overflow reverts
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// Nodes reject replacements that raise fees by less than this
+const MIN_FEE_BUMP_PERCENT = 13;
+
+export type TransactionFailureKind =
+  // The contract rejected the call, during estimation or on chain
+  | 'reverted'
+  | 'insufficient-funds'
+  // Nonce conflict the manager could not resolve by resyncing
+  | 'nonce'
+  | 'underpriced'
+  // Network fees are above KEEPER_MAX_FEE_GWEI
+  | 'fee-cap'
+  // Not mined after every replacement
+  | 'stuck'
+  | 'network'
+  | 'unknown';
+
+// Worth retrying on the next cycle without operator action
+const RECOVERABLE_KINDS: TransactionFailureKind[] = ['nonce', 'underpriced', 'fee-cap', 'stuck', 'network'];
+
+export interface DecodedRevert {
+  // Custom error name, or Error / Panic for require strings and asserts
+  name: string;
+  args: string[];
+  selector: string;
+}
+
+export class TransactionError extends Error {
+  constructor(
+    public readonly kind: TransactionFailureKind,
+    message: string,
+    public readonly label: string,
+    public readonly revert?: DecodedRevert,
+    public readonly hash?: string,
+    public readonly original?: unknown
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+
+  get recoverable(): boolean {
+    return RECOVERABLE_KINDS.includes(this.kind);
+  }
+
+  // True when the transaction reverted with one of the given custom errors
+  isRevert(...names: string[]): boolean {
+    return this.kind === 'reverted' && !!this.revert && names.includes(this.revert.name);
+  }
+}
+
+export interface TransactionRequest {
+  // Used in logs and errors, e.g. `settleEpoch 0x…`
+  label: string;
+  contract: ethers.Contract;
+  method: string;
+  args?: unknown[];
+  // Replaces the gas estimate and its buffer
+  gasLimit?: ethers.BigNumberish;
+  // Simulate only, on top of the manager-wide KEEPER_DRY_RUN
+  dryRun?: boolean;
+}
+
+export interface TransactionResult {
+  dryRun: false;
+  // The transaction that was mined, which may be a replacement
+  hash: string;
+  nonce: number;
+  replacements: number;
+  receipt: ethers.providers.TransactionReceipt;
+  // Logs of the called contract, parsed with its ABI
+  events: ethers.utils.LogDescription[];
+}
+
+export interface SimulationResult {
+  dryRun: true;
+  label: string;
+  // Account the call was simulated from
+  from: string;
+  blockNumber: number;
+  gasEstimate: ethers.BigNumber;
+  // Events the call would emit; null when the node does not support debug_traceCall
+  events: ethers.utils.LogDescription[] | null;
+}
+
+export type TransactionOutcome = TransactionResult | SimulationResult;
+
+interface TraceFrame {
+  error?: string;
+  logs?: Array<{ address: string; topics: string[]; data: string }>;
+  calls?: TraceFrame[];
+}
+
+type FeeOverrides =
+  | { type: 2; maxFeePerGas: ethers.BigNumber; maxPriorityFeePerGas: ethers.BigNumber }
+  | { type: 0; gasPrice: ethers.BigNumber };
+
+export interface InFlightTransaction {
+  label: string;
+  nonce: number;
+  hashes: string[];
+  sentAt: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function gwei(value: string | undefined): ethers.BigNumber | null {
+  return value ? ethers.utils.parseUnits(value, 'gwei') : null;
+}
+
+// Revert data sits at different depths depending on the RPC and ethers code path
+function findRevertData(error: any, depth = 0): string | undefined {
+  if (!error || depth > 4) return undefined;
+  if (typeof error.data === 'string' && ethers.utils.isHexString(error.data) && error.data.length >= 10) {
+    return error.data;
+  }
+  if (typeof error.body === 'string') {
+    try {
+      const data = JSON.parse(error.body)?.error?.data;
+      if (typeof data === 'string' && ethers.utils.isHexString(data) && data.length >= 10) return data;
+    } catch {
+      // Not a JSON-RPC body
+    }
+  }
+  return findRevertData(error.error, depth + 1) || findRevertData(error.data, depth + 1);
+}
+
+function describeRevert(revert: DecodedRevert): string {
+  return `${revert.name}${revert.args.length ? `(${revert.args.join(', ')})` : ''}`;
+}
+
+// Event arguments by name, with numbers as strings so they log and serialize cleanly
+export function formatEvent(event: ethers.utils.LogDescription): { name: string; args: Record<string, unknown> } {
+  const plain = (value: unknown): unknown => {
+    if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+    if (Array.isArray(value)) {
+      const named = Object.keys(value).filter(key => isNaN(Number(key)));
+      return named.length > 0
+        ? Object.fromEntries(named.map(key => [key, plain((value as unknown as Record<string, unknown>)[key])]))
+        : value.map(plain);
+    }
+    return value;
+  };
+  return {
+    name: event.name,
+    args: Object.fromEntries(event.eventFragment.inputs.map((input, i) => [input.name || String(i), plain(event.args[i])]))
+  };
+}
+
+export function decodeRevert(data: string | undefined): DecodedRevert | undefined {
+  if (!data) return undefined;
+  const selector = data.slice(0, 10).toLowerCase();
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4));
+      return { name: 'Error', args: [reason], selector };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(data, 4));
+      return { name: 'Panic', args: [code.toString()], selector };
+    }
+    const parsed = CONTRACT_ERRORS.parseError(data);
+    return { name: parsed.name, args: parsed.args.map(arg => arg.toString()), selector };
+  } catch {
+    return { name: 'unknown', args: [], selector };
+  }
+}
+
+/**
+ * Sends every keeper write from one account. Nonces are assigned locally
+ * under a lock so concurrent services sharing the manager never collide;
+ * fees are EIP-1559 where the chain supports it. A transaction not mined
+ * within the stuck timeout is replaced at the same nonce with bumped fees,
+ * and a result is only returned once the receipt is the configured number
+ * of blocks deep; past the confirmation timeout the nonce is released with
+ * a stuck error. Failures surface as TransactionError with a kind and the
+ * decoded custom error, if any. In dry-run mode nothing is signed: the call
+ * is simulated against the latest block (as KEEPER_DRY_RUN_FROM, so a
+ * shadow keeper can run without the production key) and the events it
+ * would emit are logged.
+ */
+export class TransactionManager {
+  private wallet: ethers.Wallet;
+  private provider: ethers.providers.Provider;
+  private nextNonce: number | null = null;
+  // Tail of the nonce lock; each send chains onto it
+  private lock: Promise<unknown> = Promise.resolve();
+  private inFlight = new Map<number, InFlightTransaction>();
+  private stats = { sent: 0, confirmed: 0, replaced: 0, failed: 0, simulated: 0 };
+  private lastFailure: { label: string; kind: TransactionFailureKind; message: string; at: number } | null = null;
+
+  constructor(
+    wallet?: ethers.Wallet,
+    private confirmations = Number(process.env.KEEPER_TX_CONFIRMATIONS) || 1,
+    private stuckTimeoutMs = Number(process.env.KEEPER_TX_STUCK_TIMEOUT_MS) || 90000,
+    private maxReplacements = Number(process.env.KEEPER_TX_MAX_REPLACEMENTS) || 3,
+    // Hard ceiling from broadcast to the final confirmation, whatever reorgs or fee caps do meanwhile
+    private confirmTimeoutMs = Number(process.env.KEEPER_TX_CONFIRM_TIMEOUT_MS) || 15 * 60 * 1000,
+    private feeBumpPercent = Math.max(Number(process.env.KEEPER_TX_FEE_BUMP_PERCENT) || 20, MIN_FEE_BUMP_PERCENT),
+    private maxFeePerGas = gwei(process.env.KEEPER_MAX_FEE_GWEI),
+    private priorityFeePerGas = gwei(process.env.KEEPER_PRIORITY_FEE_GWEI),
+    private dryRun = process.env.KEEPER_DRY_RUN === 'true',
+    private simulateFrom = process.env.KEEPER_DRY_RUN_FROM,
+    private pollMs = 4000
+  ) {
+    if (!wallet) {
+      const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error('DEPLOYER_PRIVATE_KEY not set');
+      }
+      wallet = new ethers.Wallet(
+        privateKey,
+        new ethers.providers.JsonRpcProvider(process.env.RISE_RPC_URL || 'https://testnet-rpc.risechain.io')
+      );
+    }
+    if (!wallet.provider) {
+      throw new Error('TransactionManager wallet has no provider');
+    }
+
+    this.wallet = wallet;
+    this.provider = wallet.provider;
+
+    if (this.dryRun) {
+      logger.warn('KEEPER_DRY_RUN is set: keeper transactions are simulated, nothing is signed', {
+        simulateFrom: this.simulateFrom || wallet.address
+      });
+    }
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  // Sends the transaction, or only simulates it in dry-run mode
+  async send(request: TransactionRequest): Promise<TransactionOutcome> {
+    if (this.dryRun || request.dryRun) {
+      return this.simulate(request);
+    }
+
+    const { label } = request;
+    const tx = await this.populate(request, this.wallet.address);
+
+    try {
+      const gasLimit = request.gasLimit !== undefined
+        ? ethers.BigNumber.from(request.gasLimit)
+        : await this.estimateGas(label, tx);
+      const fees = await this.getFees(label);
+      const { response, nonce } = await this.broadcast(label, { ...tx, gasLimit, ...fees });
+
+      const result = await this.confirm(request, { ...tx, gasLimit }, fees, nonce, response.hash);
+      this.stats.confirmed++;
+      return result;
+    } catch (error) {
+      throw this.recordFailure(label, error);
+    }
+  }
+
+  // eth_call and estimateGas against the latest block; reverts throw like a failed send
+  async simulate(request: TransactionRequest): Promise<SimulationResult> {
+    const { label } = request;
+    const from = this.simulateFrom || this.wallet.address;
+    const tx = await this.populate(request, from);
+    if (request.gasLimit !== undefined) {
+      // A pinned limit must be enough on its own
+      tx.gasLimit = ethers.BigNumber.from(request.gasLimit);
+    }
+
+    try {
+      const blockNumber = await this.provider.getBlockNumber();
+      const revert = await this.callForRevert(tx, blockNumber);
+      if (revert) {
+        throw new TransactionError('reverted', `${label} reverted with ${describeRevert(revert)}`, label, revert);
+      }
+      const gasEstimate = await this.provider.estimateGas({ ...tx, gasLimit: undefined });
+      const events = await this.traceEvents(request.contract, tx, blockNumber);
+      this.stats.simulated++;
+
+      logger.info(`Dry run: ${label} would succeed`, {
+        from,
+        blockNumber,
+        gasEstimate: gasEstimate.toString(),
+        events: events ? events.map(formatEvent) : 'debug_traceCall unavailable'
+      });
+      return { dryRun: true, label, from, blockNumber, gasEstimate, events };
+    } catch (error) {
+      const failure = this.recordFailure(label, error);
+      logger.warn(`Dry run: ${label} would fail`, { from, kind: failure.kind, revert: failure.revert });
+      throw failure;
+    }
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  getStatus() {
+    return {
+      address: this.wallet.address,
+      dryRun: this.dryRun,
+      nextNonce: this.nextNonce,
+      confirmations: this.confirmations,
+      inFlight: Array.from(this.inFlight.values()),
+      ...this.stats,
+      lastFailure: this.lastFailure
+    };
+  }
+
+  private async populate(request: TransactionRequest, from: string): Promise<ethers.providers.TransactionRequest> {
+    const populated = await request.contract.populateTransaction[request.method](...(request.args || []));
+    return { to: populated.to, data: populated.data, from };
+  }
+
+  private recordFailure(label: string, error: unknown): TransactionError {
+    const failure = this.classify(label, error);
+    this.stats.failed++;
+    this.lastFailure = { label, kind: failure.kind, message: failure.message, at: Date.now() };
+    return failure;
+  }
+
+  // Logs the call would emit, from geth's callTracer; null where tracing is not exposed
+  private async traceEvents(
+    contract: ethers.Contract,
+    tx: ethers.providers.TransactionRequest,
+    blockNumber: number
+  ): Promise<ethers.utils.LogDescription[] | null> {
+    if (!(this.provider instanceof ethers.providers.JsonRpcProvider)) {
+      return null;
+    }
+
+    try {
+      const trace: TraceFrame = await this.provider.send('debug_traceCall', [
+        ethers.providers.JsonRpcProvider.hexlifyTransaction(tx, { from: true }),
+        ethers.utils.hexValue(blockNumber),
+        { tracer: 'callTracer', tracerConfig: { withLog: true } }
+      ]);
+      // Logs of reverted frames are not part of the outcome
+      const collect = (frame: TraceFrame): Array<{ address: string; topics: string[]; data: string }> =>
+        frame.error ? [] : [...(frame.logs || []), ...(frame.calls || []).flatMap(collect)];
+      const target = ethers.utils.getAddress(contract.address);
+
+      return collect(trace)
+        .filter(log => ethers.utils.getAddress(log.address) === target)
+        .flatMap(log => {
+          try {
+            return [contract.interface.parseLog(log)];
+          } catch {
+            return [];
+          }
+        });
+    } catch (error) {
+      logger.debug('debug_traceCall unavailable, dry run reports no events', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async estimateGas(label: string, tx: ethers.providers.TransactionRequest): Promise<ethers.BigNumber> {
+    try {
+      const estimate = await this.provider.estimateGas(tx);
+      return estimate.mul(120).div(100); // 20% buffer
+    } catch (error) {
+      throw this.classify(label, error);
+    }
+  }
+
+  private async getFees(label: string): Promise<FeeOverrides> {
+    const feeData = await this.provider.getFeeData();
+
+    if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+      const priority = this.priorityFeePerGas || feeData.maxPriorityFeePerGas;
+      // getFeeData already leaves room for the base fee doubling
+      const maxFee = feeData.maxFeePerGas.sub(feeData.maxPriorityFeePerGas).add(priority);
+      if (this.maxFeePerGas && maxFee.gt(this.maxFeePerGas)) {
+        throw this.feeCapError(label, maxFee);
+      }
+      return { type: 2, maxFeePerGas: maxFee, maxPriorityFeePerGas: priority };
+    }
+
+    const gasPrice = feeData.gasPrice || await this.provider.getGasPrice();
+    if (this.maxFeePerGas && gasPrice.gt(this.maxFeePerGas)) {
+      throw this.feeCapError(label, gasPrice);
+    }
+    return { type: 0, gasPrice };
+  }
+
+  // Raises fees by feeBumpPercent, or to the current market if that is higher, up to the cap
+  private async bumpFees(fees: FeeOverrides): Promise<FeeOverrides> {
+    const bump = (value: ethers.BigNumber) => value.mul(100 + this.feeBumpPercent).div(100);
+    const cap = (value: ethers.BigNumber) =>
+      this.maxFeePerGas && value.gt(this.maxFeePerGas) ? this.maxFeePerGas : value;
+    const feeData = await this.provider.getFeeData();
+
+    if (fees.type === 2) {
+      let maxFee = bump(fees.maxFeePerGas);
+      if (feeData.maxFeePerGas && feeData.maxFeePerGas.gt(maxFee)) maxFee = feeData.maxFeePerGas;
+      maxFee = cap(maxFee);
+      const priority = bump(fees.maxPriorityFeePerGas);
+      return { type: 2, maxFeePerGas: maxFee, maxPriorityFeePerGas: priority.gt(maxFee) ? maxFee : priority };
+    }
+
+    let gasPrice = bump(fees.gasPrice);
+    if (feeData.gasPrice && feeData.gasPrice.gt(gasPrice)) gasPrice = feeData.gasPrice;
+    return { type: 0, gasPrice: cap(gasPrice) };
+  }
+
+  // Serializes nonce assignment and broadcast across every caller of this manager
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async broadcast(
+    label: string,
+    tx: ethers.providers.TransactionRequest
+  ): Promise<{ response: ethers.providers.TransactionResponse; nonce: number }> {
+    return this.withLock(async () => {
+      for (let attempt = 0; ; attempt++) {
+        if (this.nextNonce === null) {
+          this.nextNonce = await this.wallet.getTransactionCount('pending');
+        }
+        const nonce = this.nextNonce;
+
+        try {
+          const response = await this.wallet.sendTransaction({ ...tx, nonce });
+          this.nextNonce = nonce + 1;
+          this.stats.sent++;
+          this.inFlight.set(nonce, { label, nonce, hashes: [response.hash], sentAt: Date.now() });
+          logger.info(`Transaction sent: ${label}`, { txHash: response.hash, nonce });
+          return { response, nonce };
+        } catch (error) {
+          // Nothing went out at this nonce; re-read it from the node
+          this.nextNonce = null;
+          const failure = this.classify(label, error);
+          // Another process sent from this account; one resync is enough
+          if (failure.kind === 'nonce' && attempt === 0) {
+            logger.warn(`Nonce ${nonce} already used, resyncing from the node`, { label });
+            continue;
+          }
+          throw failure;
+        }
+      }
+    });
+  }
+
+  private async confirm(
+    request: TransactionRequest,
+    tx: ethers.providers.TransactionRequest,
+    fees: FeeOverrides,
+    nonce: number,
+    hash: string
+  ): Promise<TransactionResult> {
+    const { label } = request;
+    const pending = this.inFlight.get(nonce)!;
+    const hashes = [hash];
+    let replacements = 0;
+    const deadline = Date.now() + this.confirmTimeoutMs;
+    const stuck = (message: string) => {
+      // Later sends must not queue behind a nonce that may never be mined
+      this.nextNonce = null;
+      return new TransactionError('stuck', message, label, undefined, hashes[hashes.length - 1]);
+    };
+
+    try {
+      // Only replacements count against maxReplacements; reorgs and fee-capped waits are bounded by the deadline
+      for (;;) {
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          throw stuck(`${label} not confirmed within ${this.confirmTimeoutMs} ms`);
+        }
+
+        const mined = await this.waitForReceipt(hashes, Math.min(this.stuckTimeoutMs, remainingMs));
+        if (mined) {
+          const receipt = await this.waitForConfirmations(mined.hash, mined.receipt, deadline);
+          if (!receipt) {
+            // Reorged out; it or a replacement should be mined again
+            logger.warn(`Transaction ${mined.hash} dropped by a reorg, waiting for re-inclusion`, { label, nonce });
+            continue;
+          }
+          if (receipt.confirmations < this.confirmations) {
+            throw stuck(`${label} not ${this.confirmations} blocks deep within ${this.confirmTimeoutMs} ms`);
+          }
+          if (receipt.status !== 1) {
+            const revert = await this.replayRevert(tx, receipt.blockNumber);
+            throw new TransactionError(
+              'reverted',
+              `${label} reverted on chain${revert ? ` with ${describeRevert(revert)}` : ''}`,
+              label,
+              revert,
+              mined.hash
+            );
+          }
+
+          logger.info(`Transaction confirmed: ${label}`, {
+            txHash: mined.hash,
+            nonce,
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed.toString(),
+            replacements
+          });
+          return {
+            dryRun: false,
+            hash: mined.hash,
+            nonce,
+            replacements,
+            receipt,
+            events: this.parseEvents(request.contract, receipt)
+          };
+        }
+
+        if (replacements >= this.maxReplacements) {
+          throw stuck(`${label} not mined after ${replacements} replacements`);
+        }
+
+        const bumped = await this.bumpFees(fees);
+        const unchanged = bumped.type === 2 && fees.type === 2
+          ? bumped.maxFeePerGas.eq(fees.maxFeePerGas)
+          : bumped.type === 0 && fees.type === 0 && bumped.gasPrice.eq(fees.gasPrice);
+        if (unchanged) {
+          logger.warn(`Transaction ${label} is stuck but fees are at KEEPER_MAX_FEE_GWEI, waiting`, { nonce });
+          continue;
+        }
+
+        try {
+          const replacement = await this.wallet.sendTransaction({ ...tx, ...bumped, nonce });
+          fees = bumped;
+          hashes.push(replacement.hash);
+          pending.hashes.push(replacement.hash);
+          replacements++;
+          this.stats.replaced++;
+          logger.warn(`Replaced stuck transaction: ${label}`, {
+            nonce,
+            previous: hashes[hashes.length - 2],
+            txHash: replacement.hash
+          });
+        } catch (error) {
+          const failure = this.classify(label, error);
+          // Nonce used means an earlier hash was mined meanwhile; underpriced gets a bigger bump next round
+          if (failure.kind !== 'nonce' && failure.kind !== 'underpriced') {
+            throw failure;
+          }
+          if (failure.kind === 'underpriced') fees = bumped;
+        }
+      }
+    } finally {
+      this.inFlight.delete(nonce);
+    }
+  }
+
+  // First receipt among the transactions sharing a nonce, or null after timeoutMs
+  private async waitForReceipt(
+    hashes: string[],
+    timeoutMs: number
+  ): Promise<{ hash: string; receipt: ethers.providers.TransactionReceipt } | null> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      for (const hash of hashes) {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (receipt) return { hash, receipt };
+      }
+      if (Date.now() >= deadline) return null;
+      await sleep(Math.min(this.pollMs, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  // Receipt once it is `confirmations` blocks deep (or the deadline passes), null if a reorg removed it
+  private async waitForConfirmations(
+    hash: string,
+    receipt: ethers.providers.TransactionReceipt,
+    deadline: number
+  ): Promise<ethers.providers.TransactionReceipt | null> {
+    while (receipt.confirmations < this.confirmations && Date.now() < deadline) {
+      await sleep(Math.min(this.pollMs, Math.max(deadline - Date.now(), 0)));
+      const latest = await this.provider.getTransactionReceipt(hash);
+      if (!latest) return null;
+      if (latest.blockHash !== receipt.blockHash) {
+        logger.warn(`Transaction ${hash} moved to block ${latest.blockNumber} by a reorg`);
+      }
+      receipt = latest;
+    }
+    return receipt;
+  }
+
+  // Receipts carry no revert data; re-running the call in the same block recovers it
+  private async replayRevert(
+    tx: ethers.providers.TransactionRequest,
+    blockNumber: number
+  ): Promise<DecodedRevert | undefined> {
+    try {
+      return await this.callForRevert(tx, blockNumber);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // ethers v5 hands revert data back as the call result for most nodes, and throws for others
+  private async callForRevert(
+    tx: ethers.providers.TransactionRequest,
+    blockTag: ethers.providers.BlockTag
+  ): Promise<DecodedRevert | undefined> {
+    try {
+      const returned = await this.provider.call(tx, blockTag);
+      return ethers.utils.hexDataLength(returned) % 32 === 4 ? decodeRevert(returned) : undefined;
+    } catch (error) {
+      const revert = decodeRevert(findRevertData(error));
+      if (!revert) throw error;
+      return revert;
+    }
+  }
+
+  private parseEvents(
+    contract: ethers.Contract,
+    receipt: ethers.providers.TransactionReceipt
+  ): ethers.utils.LogDescription[] {
+    const target = ethers.utils.getAddress(contract.address);
+    return receipt.logs
+      .filter(log => ethers.utils.getAddress(log.address) === target)
+      .flatMap(log => {
+        try {
+          return [contract.interface.parseLog(log)];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  private feeCapError(label: string, fee: ethers.BigNumber): TransactionError {
+    return new TransactionError(
+      'fee-cap',
+      `${label}: network fee ${ethers.utils.formatUnits(fee, 'gwei')} gwei is above KEEPER_MAX_FEE_GWEI`,
+      label
+    );
+  }
+
+  // Maps ethers error codes (and revert data) onto failure kinds
+  private classify(label: string, error: any): TransactionError {
+    if (error instanceof TransactionError) return error;
+
+    const revert = decodeRevert(findRevertData(error));
+    const message = error?.reason || error?.message || String(error);
+    const kind: TransactionFailureKind = (() => {
+      if (revert) return 'reverted';
+      switch (error?.code) {
+        case ethers.errors.CALL_EXCEPTION:
+        case ethers.errors.UNPREDICTABLE_GAS_LIMIT:
+          return 'reverted';
+        case ethers.errors.INSUFFICIENT_FUNDS:
+          return 'insufficient-funds';
+        case ethers.errors.NONCE_EXPIRED:
+          return 'nonce';
+        case ethers.errors.REPLACEMENT_UNDERPRICED:
+          return 'underpriced';
+        case ethers.errors.NETWORK_ERROR:
+        case ethers.errors.SERVER_ERROR:
+        case ethers.errors.TIMEOUT:
+          return 'network';
+        default:
+          return 'unknown';
+      }
+    })();
+
+    return new TransactionError(
+      kind,
+      revert ? `${label} reverted with ${describeRevert(revert)}` : `${label}: ${message}`,
+      label,
+      revert,
+      error?.transactionHash,
+      error
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { VaultInfo, VaultRegistry } from './VaultRegistry';
+
+const address = (n: number) => ethers.utils.getAddress(ethers.utils.hexZeroPad(ethers.utils.hexlify(n), 20));
+const ENV_VAULT = address(0xa1);
+const MANIFEST_VAULT = address(0xa2);
+const SETTINGS_VAULT = address(0xa3);
+const REGISTRY_VAULT = address(0xa4);
+const DISABLED_VAULT = address(0xa5);
+const REGISTRY = address(0xb1);
+const FACTORY = address(0xb2);
+const EPOCH_STARTED = ethers.utils.id('EpochStarted(uint256,uint256)');
+const ENV = { ...process.env };
+
+const registryAbi = new ethers.utils.Interface(['function getVaults() external view returns (address[])']);
+
+function provider() {
+  const rpc = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:8545', { chainId: 1337, name: 'test' });
+  return {
+    rpc,
+    call: jest.spyOn(rpc, 'call'),
+    getBlockNumber: jest.spyOn(rpc, 'getBlockNumber'),
+    getLogs: jest.spyOn(rpc, 'getLogs'),
+    getTransaction: jest.spyOn(rpc, 'getTransaction')
+  };
+}
+
+describe('VaultRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-registry-'));
+    process.env = { ...ENV, TRANCHE_VAULT_ADDRESS: ENV_VAULT, TRANCHE_VAULT_ADDRESSES: '' };
+    delete process.env.VAULT_FACTORY_FROM_BLOCK;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    process.env = { ...ENV };
+  });
+
+  const writeSettings = (settings: object) => {
+    const file = path.join(dir, 'vaults.json');
+    fs.writeFileSync(file, JSON.stringify(settings));
+    return file;
+  };
+
+  it('merges every source and drops vaults whose settings disable them', async () => {
+    const manifest = path.join(dir, 'rise.txt');
+    fs.writeFileSync(manifest, [
+      `TRANCHE_VAULT_ADDRESS=${MANIFEST_VAULT}`,
+      `TRANCHE_VAULT_WETH_ADDRESS = ${ENV_VAULT}`,
+      `RISK_PARAMS_ADDRESS=${address(0xc1)}`
+    ].join('\n'));
+    const settings = writeSettings({
+      defaults: { settleDelayMs: 2500 },
+      vaults: {
+        [SETTINGS_VAULT.toLowerCase()]: { name: 'usdc-senior', gasLimit: 400000 },
+        [DISABLED_VAULT]: { enabled: false }
+      }
+    });
+    const { rpc, call } = provider();
+    call.mockResolvedValue(registryAbi.encodeFunctionResult('getVaults', [[REGISTRY_VAULT, DISABLED_VAULT]]));
+
+    const registry = new VaultRegistry(rpc, settings, manifest, REGISTRY);
+    await registry.refresh();
+
+    expect(registry.getVaults().sort()).toEqual([ENV_VAULT, MANIFEST_VAULT, SETTINGS_VAULT, REGISTRY_VAULT].sort());
+    expect(registry.getVault(ENV_VAULT)!.sources).toEqual(['env', 'manifest']);
+    expect(registry.getVault(SETTINGS_VAULT.toLowerCase())).toMatchObject({
+      sources: ['settings'],
+      settings: { name: 'usdc-senior', gasLimit: 400000, settleDelayMs: 2500, enabled: true }
+    });
+    expect(registry.getVault(DISABLED_VAULT)).toBeNull();
+  });
+
+  it('keeps the last registry result through a failed read and removes a vault the registry drops', async () => {
+    const { rpc, call } = provider();
+    call.mockResolvedValueOnce(registryAbi.encodeFunctionResult('getVaults', [[REGISTRY_VAULT]]));
+    const registry = new VaultRegistry(rpc, path.join(dir, 'missing.json'), undefined, REGISTRY);
+    const removed: VaultInfo[] = [];
+    registry.onVaultRemoved(vault => removed.push(vault));
+
+    await registry.refresh();
+    expect(registry.getVault(REGISTRY_VAULT)).not.toBeNull();
+
+    call.mockRejectedValueOnce(new Error('connection refused'));
+    await registry.refresh();
+    expect(registry.getVault(REGISTRY_VAULT)).not.toBeNull();
+    expect(removed).toHaveLength(0);
+
+    call.mockResolvedValueOnce(registryAbi.encodeFunctionResult('getVaults', [[]]));
+    await registry.refresh();
+    expect(registry.getVault(REGISTRY_VAULT)).toBeNull();
+    expect(removed.map(vault => vault.address)).toEqual([REGISTRY_VAULT]);
+  });
+
+  it('fires the added hook once per vault as sources change', async () => {
+    const settings = writeSettings({ vaults: {} });
+    const registry = new VaultRegistry(provider().rpc, settings);
+    const added: string[] = [];
+    registry.onVaultAdded(vault => added.push(vault.address));
+
+    process.env.TRANCHE_VAULT_ADDRESSES = `${MANIFEST_VAULT}, not-an-address`;
+    await registry.refresh();
+    await registry.refresh();
+
+    expect(added).toEqual([MANIFEST_VAULT]);
+    expect(registry.getVaults()).toEqual([ENV_VAULT, MANIFEST_VAULT]);
+  });
+
+  it('requires a start block before indexing a factory', () => {
+    expect(() => new VaultRegistry(provider().rpc, path.join(dir, 'missing.json'), undefined, undefined, FACTORY))
+      .toThrow('VAULT_FACTORY_FROM_BLOCK');
+  });
+
+  it('adds vaults whose first EpochStarted came from a factory transaction', async () => {
+    process.env.VAULT_FACTORY_FROM_BLOCK = '100';
+    const factoryVault = address(0xd1);
+    const standalone = address(0xd2);
+    const { rpc, getBlockNumber, getLogs, getTransaction } = provider();
+    getBlockNumber.mockResolvedValue(5200);
+    getLogs.mockImplementation(async filter => ((filter as ethers.providers.Filter).fromBlock === 100
+      ? [
+          { address: factoryVault, transactionHash: '0x01' },
+          { address: standalone, transactionHash: '0x02' },
+          // Later epochs of a known vault are not looked up again
+          { address: factoryVault, transactionHash: '0x03' }
+        ]
+      : []) as ethers.providers.Log[]);
+    getTransaction.mockImplementation(async hash =>
+      ({ to: hash === '0x01' ? FACTORY : standalone }) as ethers.providers.TransactionResponse);
+
+    const registry = new VaultRegistry(rpc, path.join(dir, 'missing.json'), undefined, undefined, FACTORY);
+    await registry.refresh();
+
+    expect(getLogs).toHaveBeenNthCalledWith(1, { fromBlock: 100, toBlock: 5099, topics: [EPOCH_STARTED] });
+    expect(getLogs).toHaveBeenNthCalledWith(2, { fromBlock: 5100, toBlock: 5200, topics: [EPOCH_STARTED] });
+    expect(getTransaction).toHaveBeenCalledTimes(2);
+    expect(registry.getVault(factoryVault)!.sources).toEqual(['factory']);
+    expect(registry.getVault(standalone)).toBeNull();
+
+    // The next refresh resumes after the last indexed block
+    await registry.refresh();
+    expect(getLogs).toHaveBeenCalledTimes(2);
+  });
+});
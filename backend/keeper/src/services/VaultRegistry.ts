@@ -0,0 +1,292 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+const VAULT_REGISTRY_ABI = [
+  'function getVaults() external view returns (address[])'
+];
+const EPOCH_STARTED_TOPIC = ethers.utils.id('EpochStarted(uint256,uint256)');
+// getLogs range per request; most RPCs cap it
+const LOG_CHUNK_BLOCKS = 5000;
+
+export type VaultSource = 'env' | 'manifest' | 'settings' | 'registry' | 'factory';
+
+export interface VaultSettings {
+  name?: string;
+  // false drops the vault whichever source reports it
+  enabled: boolean;
+  // Overrides the estimated settleEpoch gas limit
+  gasLimit?: number;
+  // Wait after endTime before sending settleEpoch
+  settleDelayMs: number;
+  // Alert when an epoch is still unsettled this long after endTime
+  settleDeadlineMs: number;
+  // Alerts for this vault are posted here as well as logged
+  alertWebhook?: string;
+  // Simulate settlements instead of sending them; KEEPER_DRY_RUN does this for every vault
+  dryRun?: boolean;
+}
+
+export interface VaultInfo {
+  address: string;
+  sources: VaultSource[];
+  settings: VaultSettings;
+}
+
+interface SettingsFile {
+  defaults?: Partial<VaultSettings>;
+  // Keys are a discovery source too: an entry configures the vault and adds it
+  vaults?: Record<string, Partial<VaultSettings>>;
+}
+
+type VaultHandler = (vault: VaultInfo) => void;
+
+function parseAddresses(values: string[]): string[] {
+  return values
+    .map(v => v.trim())
+    .filter(v => {
+      if (v && !ethers.utils.isAddress(v)) logger.warn(`Ignoring invalid vault address ${v}`);
+      return ethers.utils.isAddress(v);
+    })
+    .map(v => ethers.utils.getAddress(v));
+}
+
+/**
+ * Vaults the keepers serve, merged from TRANCHE_VAULT_ADDRESS(ES), a
+ * deployment manifest (KEY=ADDRESS lines such as deployments/rise.txt), the
+ * settings file, a registry contract exposing getVaults(), and EpochStarted
+ * logs of vaults initialized through a factory. Sources are re-read on an
+ * interval; vaults appearing or disappearing fire the added/removed hooks.
+ * A source that fails keeps its last result so an RPC blip removes nothing.
+ * Factory logs are indexed from VAULT_FACTORY_FROM_BLOCK in the background.
+ */
+export class VaultRegistry {
+  private provider: ethers.providers.JsonRpcProvider;
+  private vaults = new Map<string, VaultInfo>();
+  private bySource = new Map<VaultSource, string[]>();
+  private settingsFile: SettingsFile = {};
+  private settingsMtime = 0;
+  private addedHandlers: VaultHandler[] = [];
+  private removedHandlers: VaultHandler[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  // Factory log indexing progress and contracts already checked
+  private lastIndexedBlock: number;
+  private rejected = new Set<string>();
+  private indexing: Promise<void> | null = null;
+  private warnedEmpty = false;
+
+  constructor(
+    provider?: ethers.providers.JsonRpcProvider,
+    private settingsPath = process.env.VAULT_SETTINGS_PATH || 'vaults.json',
+    private manifestPath = process.env.VAULT_MANIFEST_PATH,
+    private registryAddress = process.env.VAULT_REGISTRY_ADDRESS,
+    private factoryAddress = process.env.VAULT_FACTORY_ADDRESS,
+    private intervalMs = Number(process.env.VAULT_DISCOVERY_INTERVAL_MS) || 60000
+  ) {
+    this.provider = provider || new ethers.providers.JsonRpcProvider(
+      process.env.RISE_RPC_URL || 'https://testnet-rpc.risechain.io'
+    );
+    // Defaulting to genesis would scan the whole chain for EpochStarted logs
+    const fromBlock = Number(process.env.VAULT_FACTORY_FROM_BLOCK);
+    if (this.factoryAddress && !(Number.isInteger(fromBlock) && fromBlock > 0)) {
+      throw new Error('VAULT_FACTORY_FROM_BLOCK must be set to the factory deployment block');
+    }
+    this.lastIndexedBlock = (fromBlock || 1) - 1;
+
+    // File and env sources are available before start() so services can be built
+    this.loadLocalSources();
+    this.apply();
+  }
+
+  async start(): Promise<void> {
+    this.loadLocalSources();
+    await this.loadRegistry();
+    this.apply();
+    // A factory backfill can take many getLogs calls, so keepers start on the other sources meanwhile
+    this.indexFactory().catch(error => logger.error('Factory vault indexing failed:', error));
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => logger.error('Vault discovery failed:', error));
+    }, this.intervalMs);
+    logger.info('VaultRegistry started', { vaults: this.getVaults().length, intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async refresh(): Promise<void> {
+    this.loadLocalSources();
+    await this.loadRegistry();
+    await this.indexFactory();
+    this.apply();
+  }
+
+  getVaults(): string[] {
+    return Array.from(this.vaults.keys());
+  }
+
+  getVault(address: string): VaultInfo | null {
+    return this.vaults.get(ethers.utils.getAddress(address)) || null;
+  }
+
+  // Settings also resolve for vaults not (or no longer) discovered
+  getSettings(address: string): VaultSettings {
+    const key = ethers.utils.getAddress(address);
+    const overrides = Object.entries(this.settingsFile.vaults || {})
+      .find(([a]) => ethers.utils.isAddress(a) && ethers.utils.getAddress(a) === key)?.[1];
+    return {
+      enabled: true,
+      settleDelayMs: Number(process.env.EPOCH_SETTLE_DELAY_MS) || 1000,
+      settleDeadlineMs: Number(process.env.EPOCH_SETTLE_DEADLINE_MS) || 600000,
+      ...this.settingsFile.defaults,
+      ...overrides
+    };
+  }
+
+  onVaultAdded(handler: VaultHandler): void {
+    this.addedHandlers.push(handler);
+  }
+
+  onVaultRemoved(handler: VaultHandler): void {
+    this.removedHandlers.push(handler);
+  }
+
+  private loadLocalSources(): void {
+    this.bySource.set('env', parseAddresses([
+      process.env.TRANCHE_VAULT_ADDRESS || '',
+      ...(process.env.TRANCHE_VAULT_ADDRESSES || '').split(',')
+    ]));
+
+    if (this.manifestPath) {
+      try {
+        const lines = fs.readFileSync(path.resolve(this.manifestPath), 'utf8').split('\n');
+        this.bySource.set('manifest', parseAddresses(lines
+          .map(line => /^\s*(TRANCHE_VAULT\w*_ADDRESS)\s*=\s*(\S+)/.exec(line)?.[2] || '')));
+      } catch (error) {
+        logger.warn(`Failed to read vault manifest ${this.manifestPath}, keeping last result`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    this.loadSettingsFile();
+    this.bySource.set('settings', parseAddresses(Object.keys(this.settingsFile.vaults || {})));
+  }
+
+  private loadSettingsFile(): void {
+    const file = path.resolve(this.settingsPath);
+    if (!fs.existsSync(file)) {
+      return;
+    }
+
+    try {
+      const mtime = fs.statSync(file).mtimeMs;
+      if (mtime === this.settingsMtime) return;
+      this.settingsFile = JSON.parse(fs.readFileSync(file, 'utf8')) as SettingsFile;
+      this.settingsMtime = mtime;
+      logger.info('Vault settings loaded', { path: file, vaults: Object.keys(this.settingsFile.vaults || {}).length });
+    } catch (error) {
+      logger.error(`Failed to load vault settings ${file}, keeping previous settings:`, error);
+    }
+  }
+
+  private async loadRegistry(): Promise<void> {
+    if (!this.registryAddress) {
+      return;
+    }
+
+    try {
+      const registry = new ethers.Contract(this.registryAddress, VAULT_REGISTRY_ABI, this.provider);
+      this.bySource.set('registry', parseAddresses(await registry.getVaults()));
+    } catch (error) {
+      logger.warn('Failed to read vault registry, keeping last result', {
+        registry: this.registryAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Overlapping refreshes share one scan instead of indexing the same blocks twice
+  private indexFactory(): Promise<void> {
+    if (!this.indexing) {
+      this.indexing = this.indexFactoryLogs()
+        .then(() => this.apply())
+        .finally(() => {
+          this.indexing = null;
+        });
+    }
+    return this.indexing;
+  }
+
+  // initialize() emits the first EpochStarted, so a vault the factory set up has that log in a factory transaction
+  private async indexFactoryLogs(): Promise<void> {
+    if (!this.factoryAddress) {
+      return;
+    }
+
+    try {
+      const factory = ethers.utils.getAddress(this.factoryAddress);
+      const found = new Set(this.bySource.get('factory') || []);
+      const latest = await this.provider.getBlockNumber();
+
+      for (let from = this.lastIndexedBlock + 1; from <= latest; from += LOG_CHUNK_BLOCKS) {
+        const to = Math.min(from + LOG_CHUNK_BLOCKS - 1, latest);
+        const logs = await this.provider.getLogs({ fromBlock: from, toBlock: to, topics: [EPOCH_STARTED_TOPIC] });
+
+        for (const log of logs) {
+          const address = ethers.utils.getAddress(log.address);
+          if (found.has(address) || this.rejected.has(address)) continue;
+
+          const tx = await this.provider.getTransaction(log.transactionHash);
+          if (tx?.to && ethers.utils.getAddress(tx.to) === factory) {
+            found.add(address);
+          } else {
+            this.rejected.add(address);
+          }
+        }
+
+        this.lastIndexedBlock = to;
+        this.bySource.set('factory', Array.from(found));
+      }
+    } catch (error) {
+      logger.warn('Failed to index factory vault logs, resuming next refresh', {
+        fromBlock: this.lastIndexedBlock + 1,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private apply(): void {
+    const next = new Map<string, VaultInfo>();
+    for (const [source, addresses] of this.bySource) {
+      for (const address of addresses) {
+        const settings = this.getSettings(address);
+        if (!settings.enabled) continue;
+        const info = next.get(address) || { address, sources: [], settings };
+        info.sources.push(source);
+        next.set(address, info);
+      }
+    }
+
+    const added = Array.from(next.values()).filter(v => !this.vaults.has(v.address));
+    const removed = Array.from(this.vaults.values()).filter(v => !next.has(v.address));
+    this.vaults = next;
+
+    if (next.size === 0 && !this.warnedEmpty) {
+      logger.warn('No vaults discovered');
+    }
+    this.warnedEmpty = next.size === 0;
+    for (const vault of added) {
+      logger.info(`Vault ${vault.address} added`, { name: vault.settings.name, sources: vault.sources });
+      this.addedHandlers.forEach(handler => handler(vault));
+    }
+    for (const vault of removed) {
+      logger.info(`Vault ${vault.address} removed`, { name: vault.settings.name });
+      this.removedHandlers.forEach(handler => handler(vault));
+    }
+  }
+}
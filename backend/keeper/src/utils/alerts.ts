@@ -0,0 +1,18 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+// Logs the alert and, when a webhook is configured, posts it there as well
+export async function routeAlert(message: string, data: Record<string, unknown> = {}, webhook?: string): Promise<void> {
+  logger.error('ALERT:', message, data);
+
+  const url = webhook || process.env.ALERT_WEBHOOK_URL;
+  if (!url) {
+    return;
+  }
+
+  try {
+    await axios.post(url, { text: message, ...data, timestamp: Date.now() }, { timeout: 10000 });
+  } catch (error) {
+    logger.error('Failed to deliver alert to webhook:', error instanceof Error ? error.message : error);
+  }
+}
@@ -149,6 +149,8 @@ const questions: Question[] = [
   }
 ];
 
+// profileId doubles as the risk engine preset id (GET /api/risk/profiles/:id), so
+// a chosen persona can be passed as profileId to /api/risk/generate and /simulate
 const profilePresets: { [key: string]: UserProfile } = {
   P1: {
     profileId: 'P1',
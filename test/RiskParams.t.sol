@@ -128,6 +128,22 @@ contract RiskParamsTest is Test {
         riskParams.emergencyUpdate(badConfig);
     }
 
+    function testOffchainSignerRoundTrip() public {
+        // Produced by the ai-risk-engine SigningService (eip191 mode) for _createValidConfig() at nonce 0
+        bytes memory offchainSignature =
+            hex"6421393d9712772ee58442dc4ac0a36e3259a31154425f58b7373daedd963f4956808f585f182a2f314e47a44adb82fd8497dc250658e60b075d55481ca59be01b";
+
+        assertEq(aiSigner, 0xCf03Dd0a894Ef79CB5b601A43C4b25E3Ae4c67eD);
+        assertEq(keccak256(offchainSignature), keccak256(_signConfig(_createValidConfig())));
+
+        vm.prank(keeper);
+        riskParams.queueParams(_createValidConfig(), offchainSignature);
+
+        RiskParams.QueuedConfig memory queued = riskParams.getQueuedConfig();
+        assertEq(queued.config.epochLength, 7200);
+        assertFalse(queued.executed);
+    }
+
     function _createValidConfig() internal pure returns (RiskParams.RiskConfig memory) {
         address[] memory strategies = new address[](2);
         strategies[0] = address(0x100);